@@ -4,10 +4,19 @@ import { useAuthStore } from './store/authStore';
 import Layout from './components/Layout';
 import LoginPage from './pages/LoginPage';
 import RegisterPage from './pages/RegisterPage';
+import ForgotPasswordPage from './pages/ForgotPasswordPage';
+import ResetPasswordPage from './pages/ResetPasswordPage';
+import AcceptInvitePage from './pages/AcceptInvitePage';
 import DashboardPage from './pages/DashboardPage';
 import ProjectDetailPage from './pages/ProjectDetailPage';
+import CalendarPage from './pages/CalendarPage';
+import AnalyticsPage from './pages/AnalyticsPage';
 import UsersPage from './pages/UsersPage';
 import SettingsPage from './pages/SettingsPage';
+import HolidaysPage from './pages/HolidaysPage';
+import AuditLogPage from './pages/AuditLogPage';
+import ProfilePage from './pages/ProfilePage';
+import WebhooksPage from './pages/WebhooksPage';
 import LoadingSpinner from './components/LoadingSpinner';
 
 function ProtectedRoute({ children }: { children: React.ReactNode }) {
@@ -93,6 +102,20 @@ function App() {
           isAuthenticated ? <Navigate to="/" replace /> : <RegisterPage />
         }
       />
+      <Route
+        path="/forgot-password"
+        element={
+          isAuthenticated ? <Navigate to="/" replace /> : <ForgotPasswordPage />
+        }
+      />
+      <Route
+        path="/accept-invite"
+        element={
+          isAuthenticated ? <Navigate to="/" replace /> : <AcceptInvitePage />
+        }
+      />
+      {/* Reachable while signed in, as the reset ends every session anyway */}
+      <Route path="/reset-password" element={<ResetPasswordPage />} />
       <Route
         path="/"
         element={
@@ -103,6 +126,9 @@ function App() {
       >
         <Route index element={<DashboardPage />} />
         <Route path="projects/:id" element={<ProjectDetailPage />} />
+        <Route path="calendar" element={<CalendarPage />} />
+        <Route path="analytics" element={<AnalyticsPage />} />
+        <Route path="profile" element={<ProfilePage />} />
         <Route
           path="users"
           element={
@@ -111,6 +137,22 @@ function App() {
             </AdminRoute>
           }
         />
+        <Route
+          path="audit"
+          element={
+            <AdminRoute>
+              <AuditLogPage />
+            </AdminRoute>
+          }
+        />
+        <Route
+          path="webhooks"
+          element={
+            <AdminRoute>
+              <WebhooksPage />
+            </AdminRoute>
+          }
+        />
         <Route
           path="settings"
           element={
@@ -119,6 +161,14 @@ function App() {
             </SuperAdminRoute>
           }
         />
+        <Route
+          path="holidays"
+          element={
+            <SuperAdminRoute>
+              <HolidaysPage />
+            </SuperAdminRoute>
+          }
+        />
       </Route>
       <Route path="*" element={<Navigate to="/" replace />} />
     </Routes>
@@ -0,0 +1,127 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import {
+  Plus,
+  Pencil,
+  Trash2,
+  CheckCircle,
+  RotateCcw,
+  ChevronDown,
+  ChevronRight,
+} from 'lucide-react';
+import { AuditAction, AuditEntry, AuditValue } from '../types';
+
+interface AuditEntryListProps {
+  entries: AuditEntry[];
+  showProjectLinks?: boolean;
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/;
+
+function formatValue(value: AuditValue | undefined) {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'string' && ISO_DATE.test(value)) {
+    return format(new Date(value), 'dd MMM yyyy');
+  }
+  return String(value);
+}
+
+function getActionIcon(action: AuditAction) {
+  switch (action) {
+    case 'create':
+      return <Plus size={16} className="text-openserve-green" />;
+    case 'delete':
+      return <Trash2 size={16} className="text-red-500" />;
+    case 'complete':
+      return <CheckCircle size={16} className="text-green-500" />;
+    case 'uncomplete':
+      return <RotateCcw size={16} className="text-orange-500" />;
+    default:
+      return <Pencil size={16} className="text-blue-500" />;
+  }
+}
+
+export default function AuditEntryList({ entries, showProjectLinks = false }: AuditEntryListProps) {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  if (entries.length === 0) {
+    return <div className="p-8 text-center text-gray-500">No changes recorded yet</div>;
+  }
+
+  return (
+    <div className="divide-y divide-gray-100">
+      {entries.map((entry) => {
+        const fields = Array.from(
+          new Set([...Object.keys(entry.before || {}), ...Object.keys(entry.after || {})])
+        );
+        const isExpanded = expandedId === entry.id;
+
+        return (
+          <div key={entry.id} className="p-4">
+            <div className="flex items-start gap-3">
+              <div className="p-1.5 bg-gray-100 rounded-lg flex-shrink-0">
+                {getActionIcon(entry.action)}
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-gray-800">{entry.summary}</p>
+                <p className="text-xs text-gray-500">
+                  {entry.actorName} · {format(new Date(entry.createdAt), 'dd MMM yyyy HH:mm')}
+                  {showProjectLinks && entry.projectId && entry.action !== 'delete' && (
+                    <>
+                      {' · '}
+                      <Link
+                        to={`/projects/${entry.projectId}`}
+                        className="text-openserve-green hover:underline"
+                      >
+                        View project
+                      </Link>
+                    </>
+                  )}
+                </p>
+
+                {fields.length > 0 && (
+                  <button
+                    onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                    className="mt-1 flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700"
+                  >
+                    {isExpanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                    {fields.length} field{fields.length !== 1 ? 's' : ''}
+                  </button>
+                )}
+
+                {isExpanded && (
+                  <div className="mt-2 overflow-x-auto">
+                    <table className="w-full text-xs">
+                      <thead>
+                        <tr className="text-left text-gray-500">
+                          <th className="py-1 pr-4 font-medium">Field</th>
+                          <th className="py-1 pr-4 font-medium">Before</th>
+                          <th className="py-1 font-medium">After</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {fields.map((field) => (
+                          <tr key={field} className="border-t border-gray-100">
+                            <td className="py-1 pr-4 text-gray-600">{field}</td>
+                            <td className="py-1 pr-4 text-gray-500">
+                              {formatValue(entry.before?.[field])}
+                            </td>
+                            <td className="py-1 text-gray-800">
+                              {formatValue(entry.after?.[field])}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,287 @@
+import { useState, useEffect } from 'react';
+import { api } from '../utils/api';
+import { BlackoutImpact, BlackoutPeriod, REGIONS } from '../types';
+import { format } from 'date-fns';
+import { Eye, Plus, Trash2, ArrowRight } from 'lucide-react';
+import LoadingSpinner from './LoadingSpinner';
+
+const emptyForm = { name: '', startDate: '', endDate: '', region: '' };
+
+export default function BlackoutPeriodsPanel() {
+  const [blackouts, setBlackouts] = useState<BlackoutPeriod[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [formData, setFormData] = useState(emptyForm);
+  const [impact, setImpact] = useState<BlackoutImpact | null>(null);
+  const [applyToProjects, setApplyToProjects] = useState(true);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const fetchBlackouts = async () => {
+    try {
+      const response = await api.get('/blackouts');
+      setBlackouts(response.blackouts || []);
+    } catch (error) {
+      console.error('Failed to fetch blackout periods:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchBlackouts();
+  }, []);
+
+  const handleChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
+  ) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: value }));
+    // Any change invalidates the previous preview
+    setImpact(null);
+  };
+
+  const handlePreview = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSuccess('');
+    setIsPreviewing(true);
+
+    try {
+      const response = await api.post('/blackouts/preview', {
+        startDate: formData.startDate,
+        endDate: formData.endDate,
+        region: formData.region || null,
+      });
+      setImpact(response);
+    } catch (err: any) {
+      setError(err.message || 'Failed to preview shutdown period');
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    setError('');
+    setIsSaving(true);
+
+    try {
+      const response = await api.post('/blackouts', {
+        ...formData,
+        region: formData.region || null,
+        applyToProjects,
+      });
+      setFormData(emptyForm);
+      setImpact(null);
+      setSuccess(
+        response.shiftedPhases > 0
+          ? `Shutdown period added. ${response.shiftedPhases} phase deadline${
+              response.shiftedPhases !== 1 ? 's' : ''
+            } shifted.`
+          : 'Shutdown period added.'
+      );
+      setTimeout(() => setSuccess(''), 3000);
+      await fetchBlackouts();
+    } catch (err: any) {
+      setError(err.message || 'Failed to add shutdown period');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    setDeletingId(id);
+    try {
+      await api.delete(`/blackouts/${id}`);
+      setBlackouts(blackouts.filter((b) => b.id !== id));
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete shutdown period');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 mt-6">
+      <div className="p-4 border-b border-gray-200">
+        <h2 className="text-lg font-semibold text-gray-800">Shutdown Periods</h2>
+        <p className="text-sm text-gray-500">
+          Company or contractor shutdowns are treated as non-working days
+        </p>
+      </div>
+
+      <form onSubmit={handlePreview} className="p-4 border-b border-gray-200">
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 text-red-600 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+
+        {success && (
+          <div className="mb-4 p-3 bg-green-50 border border-green-200 text-green-600 rounded-lg text-sm">
+            {success}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+          <input
+            type="text"
+            name="name"
+            value={formData.name}
+            onChange={handleChange}
+            className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-openserve-green focus:border-openserve-green outline-none"
+            placeholder="e.g., December shutdown"
+            required
+          />
+          <input
+            type="date"
+            name="startDate"
+            value={formData.startDate}
+            onChange={handleChange}
+            className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-openserve-green focus:border-openserve-green outline-none"
+            required
+          />
+          <input
+            type="date"
+            name="endDate"
+            value={formData.endDate}
+            onChange={handleChange}
+            className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-openserve-green focus:border-openserve-green outline-none"
+            required
+          />
+          <select
+            name="region"
+            value={formData.region}
+            onChange={handleChange}
+            className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-openserve-green focus:border-openserve-green outline-none bg-white"
+          >
+            <option value="">All regions</option>
+            {REGIONS.map((region) => (
+              <option key={region} value={region}>
+                {region}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="mt-3 flex justify-end">
+          <button
+            type="submit"
+            disabled={isPreviewing}
+            className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-2 disabled:opacity-50"
+          >
+            {isPreviewing ? <LoadingSpinner size="sm" /> : <Eye size={18} />}
+            Preview Impact
+          </button>
+        </div>
+
+        {impact && (
+          <div className="mt-4">
+            {impact.totalPhases === 0 ? (
+              <p className="text-sm text-gray-500">
+                No active project deadlines are affected by this period.
+              </p>
+            ) : (
+              <div className="border border-yellow-200 bg-yellow-50 rounded-lg">
+                <p className="p-3 text-sm font-medium text-yellow-800 border-b border-yellow-200">
+                  {impact.totalPhases} phase deadline{impact.totalPhases !== 1 ? 's' : ''} across{' '}
+                  {impact.projects.length} active project
+                  {impact.projects.length !== 1 ? 's' : ''} would shift
+                </p>
+                <div className="max-h-64 overflow-y-auto divide-y divide-yellow-100">
+                  {impact.projects.map((project) => (
+                    <div key={project.id} className="p-3">
+                      <p className="text-sm font-medium text-gray-800">
+                        {project.orderNumber} · {project.customerName}
+                      </p>
+                      <ul className="mt-1 space-y-1">
+                        {project.phases.map((phase) => (
+                          <li
+                            key={phase.phaseId}
+                            className="flex items-center gap-2 text-sm text-gray-600"
+                          >
+                            <span className="min-w-[110px]">
+                              {phase.displayName}
+                            </span>
+                            <span>{format(new Date(phase.currentDeadline), 'dd MMM yyyy')}</span>
+                            <ArrowRight size={14} className="text-gray-400" />
+                            <span className="font-medium text-gray-800">
+                              {format(new Date(phase.newDeadline), 'dd MMM yyyy')}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="mt-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={applyToProjects}
+                  onChange={(e) => setApplyToProjects(e.target.checked)}
+                  className="rounded border-gray-300 text-openserve-green focus:ring-openserve-green"
+                />
+                Shift affected deadlines of active projects
+              </label>
+              <button
+                type="button"
+                onClick={handleCreate}
+                disabled={isSaving}
+                className="bg-openserve-green hover:bg-openserve-green-dark text-white font-medium py-2 px-4 rounded-lg transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+              >
+                {isSaving ? (
+                  <LoadingSpinner size="sm" />
+                ) : (
+                  <>
+                    <Plus size={18} />
+                    Add Shutdown Period
+                  </>
+                )}
+              </button>
+            </div>
+          </div>
+        )}
+      </form>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center p-8">
+          <LoadingSpinner />
+        </div>
+      ) : blackouts.length === 0 ? (
+        <p className="p-4 text-sm text-gray-500">No shutdown periods configured.</p>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {blackouts.map((blackout) => (
+            <div
+              key={blackout.id}
+              className="flex items-center justify-between gap-4 px-4 py-3 hover:bg-gray-50"
+            >
+              <div>
+                <p className="font-medium text-gray-800">{blackout.name}</p>
+                <p className="text-sm text-gray-500">
+                  {format(new Date(blackout.startDate), 'dd MMM yyyy')} –{' '}
+                  {format(new Date(blackout.endDate), 'dd MMM yyyy')} ·{' '}
+                  {blackout.region || 'All regions'}
+                </p>
+              </div>
+              <button
+                onClick={() => handleDelete(blackout.id)}
+                disabled={deletingId === blackout.id}
+                className="p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors"
+                title="Delete shutdown period"
+              >
+                {deletingId === blackout.id ? <LoadingSpinner size="sm" /> : <Trash2 size={18} />}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
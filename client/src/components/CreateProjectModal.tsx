@@ -1,6 +1,7 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { X } from 'lucide-react';
 import { api } from '../utils/api';
+import { PhaseTemplate, REGIONS } from '../types';
 import LoadingSpinner from './LoadingSpinner';
 
 interface CreateProjectModalProps {
@@ -19,11 +20,37 @@ export default function CreateProjectModal({
     timelineProvidedBy: '',
     timelineDateProvided: '',
     siteSurveyDate: '',
+    region: '',
+    templateId: '',
   });
+  const [templates, setTemplates] = useState<PhaseTemplate[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
 
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  useEffect(() => {
+    const fetchTemplates = async () => {
+      try {
+        const response = await api.get('/templates');
+        const list: PhaseTemplate[] = response.templates || [];
+        setTemplates(list);
+        // Preselect the default template
+        const defaultTemplate = list.find((t) => t.isDefault);
+        if (defaultTemplate) {
+          setFormData((prev) => ({ ...prev, templateId: defaultTemplate.id }));
+        }
+      } catch (error) {
+        console.error('Failed to fetch phase templates:', error);
+      }
+    };
+
+    fetchTemplates();
+  }, []);
+
+  const selectedTemplate = templates.find((t) => t.id === formData.templateId);
+
+  const handleChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
+  ) => {
     const { name, value } = e.target;
     setFormData((prev) => ({ ...prev, [name]: value }));
   };
@@ -34,7 +61,11 @@ export default function CreateProjectModal({
     setIsLoading(true);
 
     try {
-      await api.post('/projects', formData);
+      await api.post('/projects', {
+        ...formData,
+        region: formData.region || null,
+        templateId: formData.templateId || undefined,
+      });
       onCreated();
     } catch (err: any) {
       setError(err.message || 'Failed to create project');
@@ -140,6 +171,32 @@ export default function CreateProjectModal({
               />
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Job Type *
+              </label>
+              <select
+                name="templateId"
+                value={formData.templateId}
+                onChange={handleChange}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-openserve-green focus:border-openserve-green outline-none bg-white"
+                required
+              >
+                {templates.length === 0 && <option value="">Loading templates...</option>}
+                {templates.map((template) => (
+                  <option key={template.id} value={template.id}>
+                    {template.name}
+                    {template.isDefault ? ' (default)' : ''}
+                  </option>
+                ))}
+              </select>
+              {selectedTemplate && (
+                <p className="mt-1 text-xs text-gray-500">
+                  {selectedTemplate.phases.map((phase) => phase.displayName).join(' → ')}
+                </p>
+              )}
+            </div>
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
                 Site Survey Date *
@@ -156,6 +213,28 @@ export default function CreateProjectModal({
                 All phase deadlines will be calculated from this date
               </p>
             </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Region
+              </label>
+              <select
+                name="region"
+                value={formData.region}
+                onChange={handleChange}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-openserve-green focus:border-openserve-green outline-none bg-white"
+              >
+                <option value="">Not specified</option>
+                {REGIONS.map((region) => (
+                  <option key={region} value={region}>
+                    {region}
+                  </option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-gray-500">
+                Regional shutdown periods are excluded from this project's deadlines
+              </p>
+            </div>
           </div>
 
           <div className="mt-6 flex justify-end gap-3">
@@ -1,8 +1,8 @@
 import { useState } from 'react';
-import { X } from 'lucide-react';
+import { X, ArrowLeft, ArrowRight } from 'lucide-react';
 import { api } from '../utils/api';
 import { useAuthStore } from '../store/authStore';
-import { Project, PHASE_DISPLAY_NAMES, PHASE_ORDER, PhaseName } from '../types';
+import { Project, ProjectUpdatePreview, REGIONS } from '../types';
 import { format } from 'date-fns';
 import LoadingSpinner from './LoadingSpinner';
 
@@ -23,6 +23,7 @@ export default function EditProjectModal({
   const [siteSurveyDate, setSiteSurveyDate] = useState(
     format(new Date(project.siteSurveyDate), 'yyyy-MM-dd')
   );
+  const [region, setRegion] = useState(project.region || '');
 
   const initialPhases: Record<string, number> = {};
   const initialDeadlines: Record<string, string> = {};
@@ -33,6 +34,7 @@ export default function EditProjectModal({
 
   const [allowedDays, setAllowedDays] = useState(initialPhases);
   const [deadlines, setDeadlines] = useState(initialDeadlines);
+  const [preview, setPreview] = useState<ProjectUpdatePreview | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
 
@@ -50,31 +52,57 @@ export default function EditProjectModal({
     }));
   };
 
+  // Mirror phases follow the phase they mirror and are not edited directly
+  const editablePhases = project.phases.filter((phase) => !phase.mirrorOf);
+  const mirrorPhases = project.phases.filter((phase) => phase.mirrorOf);
+
+  const displayNameOf = (phaseName: string) =>
+    project.phases.find((phase) => phase.phaseName === phaseName)?.displayName || phaseName;
+
+  const buildUpdate = () => {
+    const phases = Object.entries(allowedDays)
+      .filter(([name]) => editablePhases.some((phase) => phase.phaseName === name))
+      .map(([phaseName, days]) => {
+        const phase: { phaseName: string; allowedDays: number; deadline?: string } = {
+          phaseName,
+          allowedDays: days,
+        };
+        // Include deadline if super admin and the deadline changed
+        if (isSuperAdmin && deadlines[phaseName] !== initialDeadlines[phaseName]) {
+          phase.deadline = deadlines[phaseName];
+        }
+        return phase;
+      });
+
+    return {
+      siteSurveyDate,
+      region: region || null,
+      phases,
+    };
+  };
+
+  // First submit runs a dry-run so the user can review shifted deadlines
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
     setIsLoading(true);
 
     try {
-      const phases = Object.entries(allowedDays)
-        .filter(([name]) => name !== 'fqa' && name !== 'com')
-        .map(([phaseName, days]) => {
-          const phase: { phaseName: string; allowedDays: number; deadline?: string } = {
-            phaseName,
-            allowedDays: days,
-          };
-          // Include deadline if super admin and the deadline changed
-          if (isSuperAdmin && deadlines[phaseName] !== initialDeadlines[phaseName]) {
-            phase.deadline = deadlines[phaseName];
-          }
-          return phase;
-        });
-
-      await api.patch(`/projects/${project.id}`, {
-        siteSurveyDate,
-        phases,
-      });
+      const response = await api.post(`/projects/${project.id}/preview`, buildUpdate());
+      setPreview(response.preview);
+    } catch (err: any) {
+      setError(err.message || 'Failed to preview changes');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleConfirm = async () => {
+    setError('');
+    setIsLoading(true);
 
+    try {
+      await api.patch(`/projects/${project.id}`, buildUpdate());
       onUpdated();
     } catch (err: any) {
       setError(err.message || 'Failed to update project');
@@ -83,16 +111,19 @@ export default function EditProjectModal({
     }
   };
 
-  // Filter out mirror phases for editing
-  const editablePhases = PHASE_ORDER.filter(
-    (name) => name !== 'fqa' && name !== 'com'
-  );
+  const formatShift = (days: number) => {
+    if (days === 0) return 'No change';
+    const label = `${Math.abs(days)} business day${Math.abs(days) !== 1 ? 's' : ''}`;
+    return days > 0 ? `+${label} later` : `${label} earlier`;
+  };
 
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
       <div className="bg-white rounded-xl shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
         <div className="flex items-center justify-between p-4 border-b border-gray-200">
-          <h2 className="text-xl font-semibold text-gray-800">Edit Project</h2>
+          <h2 className="text-xl font-semibold text-gray-800">
+            {preview ? 'Review Deadline Changes' : 'Edit Project'}
+          </h2>
           <button
             onClick={onClose}
             className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
@@ -101,109 +132,240 @@ export default function EditProjectModal({
           </button>
         </div>
 
-        <form onSubmit={handleSubmit} className="p-4">
-          {error && (
-            <div className="mb-4 p-3 bg-red-50 border border-red-200 text-red-600 rounded-lg text-sm">
-              {error}
+        {preview ? (
+          <div className="p-4">
+            {error && (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 text-red-600 rounded-lg text-sm">
+                {error}
+              </div>
+            )}
+
+            <p className="text-sm text-gray-600 mb-4">
+              {preview.changedPhases === 0
+                ? 'No phase deadlines change with these settings.'
+                : `${preview.changedPhases} phase deadline${
+                    preview.changedPhases !== 1 ? 's' : ''
+                  } will shift. Review the changes before saving.`}
+            </p>
+
+            <div className="border border-gray-200 rounded-lg overflow-hidden">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="bg-gray-50 border-b border-gray-200">
+                    <th className="text-left px-3 py-2 font-semibold text-gray-600">Phase</th>
+                    <th className="text-left px-3 py-2 font-semibold text-gray-600">Current</th>
+                    <th className="px-1 py-2" />
+                    <th className="text-left px-3 py-2 font-semibold text-gray-600">New</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {preview.phases
+                    .filter(
+                      (phase) =>
+                        !(
+                          project.phases.find((p) => p.phaseName === phase.phaseName)
+                            ?.isSkipped && phase.newAllowedDays === 0
+                        )
+                    )
+                    .map((phase) => (
+                      <tr
+                        key={phase.phaseName}
+                        className={phase.shiftDays !== 0 ? 'bg-yellow-50' : ''}
+                      >
+                        <td className="px-3 py-2 font-medium text-gray-700">
+                          {phase.displayName}
+                          {phase.isComplete && (
+                            <span className="block text-xs font-normal text-green-600">
+                              Completed
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 text-gray-500">
+                          {format(new Date(phase.currentDeadline), 'dd MMM yyyy')}
+                        </td>
+                        <td className="px-1 py-2">
+                          <ArrowRight size={14} className="text-gray-400" />
+                        </td>
+                        <td className="px-3 py-2">
+                          <span
+                            className={
+                              phase.shiftDays !== 0 ? 'font-medium text-gray-800' : 'text-gray-500'
+                            }
+                          >
+                            {format(new Date(phase.newDeadline), 'dd MMM yyyy')}
+                          </span>
+                          {phase.shiftDays !== 0 && (
+                            <span
+                              className={`block text-xs ${
+                                phase.shiftDays > 0 ? 'text-orange-600' : 'text-green-600'
+                              }`}
+                            >
+                              {formatShift(phase.shiftDays)}
+                            </span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                </tbody>
+              </table>
             </div>
-          )}
-
-          <div className="space-y-4">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Site Survey Date
-              </label>
-              <input
-                type="date"
-                value={siteSurveyDate}
-                onChange={(e) => setSiteSurveyDate(e.target.value)}
-                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-openserve-green focus:border-openserve-green outline-none"
-                required
-              />
-              <p className="mt-1 text-xs text-gray-500">
-                Changing this will recalculate all phase deadlines
-              </p>
+
+            <div className="mt-6 flex justify-between gap-3">
+              <button
+                type="button"
+                onClick={() => setPreview(null)}
+                className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors flex items-center gap-2"
+                disabled={isLoading}
+              >
+                <ArrowLeft size={18} />
+                Back
+              </button>
+              <button
+                type="button"
+                onClick={handleConfirm}
+                className="px-4 py-2 bg-openserve-green hover:bg-openserve-green-dark text-white rounded-lg transition-colors flex items-center gap-2"
+                disabled={isLoading}
+              >
+                {isLoading ? (
+                  <>
+                    <LoadingSpinner size="sm" />
+                    Saving...
+                  </>
+                ) : (
+                  'Confirm Changes'
+                )}
+              </button>
             </div>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="p-4">
+            {error && (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 text-red-600 rounded-lg text-sm">
+                {error}
+              </div>
+            )}
 
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Phase Settings
-              </label>
-              <div className="space-y-2">
-                {editablePhases.map((phaseName) => (
-                  <div
-                    key={phaseName}
-                    className="flex flex-col sm:flex-row sm:items-center justify-between p-3 bg-gray-50 rounded-lg gap-2"
-                  >
-                    <span className="text-sm font-medium text-gray-700 min-w-[120px]">
-                      {PHASE_DISPLAY_NAMES[phaseName as PhaseName]}
-                    </span>
-                    <div className="flex items-center gap-4">
-                      <div className="flex items-center gap-2">
-                        <input
-                          type="number"
-                          min="0"
-                          max="365"
-                          value={allowedDays[phaseName] || 0}
-                          onChange={(e) =>
-                            handleDaysChange(phaseName, parseInt(e.target.value) || 0)
-                          }
-                          className="w-16 px-2 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-openserve-green focus:border-openserve-green outline-none text-center text-sm"
-                        />
-                        <span className="text-xs text-gray-500">days</span>
-                      </div>
-                      {isSuperAdmin && (
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Site Survey Date
+                </label>
+                <input
+                  type="date"
+                  value={siteSurveyDate}
+                  onChange={(e) => setSiteSurveyDate(e.target.value)}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-openserve-green focus:border-openserve-green outline-none"
+                  required
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  Changing this will recalculate all phase deadlines
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Region
+                </label>
+                <select
+                  value={region}
+                  onChange={(e) => setRegion(e.target.value)}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-openserve-green focus:border-openserve-green outline-none bg-white"
+                >
+                  <option value="">Not specified</option>
+                  {REGIONS.map((name) => (
+                    <option key={name} value={name}>
+                      {name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Phase Settings
+                </label>
+                <div className="space-y-2">
+                  {editablePhases.map(({ phaseName, displayName }) => (
+                    <div
+                      key={phaseName}
+                      className="flex flex-col sm:flex-row sm:items-center justify-between p-3 bg-gray-50 rounded-lg gap-2"
+                    >
+                      <span className="text-sm font-medium text-gray-700 min-w-[120px]">
+                        {displayName || phaseName}
+                      </span>
+                      <div className="flex items-center gap-4">
                         <div className="flex items-center gap-2">
                           <input
-                            type="date"
-                            value={deadlines[phaseName] || ''}
+                            type="number"
+                            min="0"
+                            max="365"
+                            value={allowedDays[phaseName] || 0}
                             onChange={(e) =>
-                              handleDeadlineChange(phaseName, e.target.value)
+                              handleDaysChange(phaseName, parseInt(e.target.value) || 0)
                             }
-                            className="px-2 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-openserve-green focus:border-openserve-green outline-none text-sm"
+                            className="w-16 px-2 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-openserve-green focus:border-openserve-green outline-none text-center text-sm"
                           />
+                          <span className="text-xs text-gray-500">days</span>
                         </div>
-                      )}
+                        {isSuperAdmin && (
+                          <div className="flex items-center gap-2">
+                            <input
+                              type="date"
+                              value={deadlines[phaseName] || ''}
+                              onChange={(e) =>
+                                handleDeadlineChange(phaseName, e.target.value)
+                              }
+                              className="px-2 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-openserve-green focus:border-openserve-green outline-none text-sm"
+                            />
+                          </div>
+                        )}
+                      </div>
                     </div>
-                  </div>
-                ))}
+                  ))}
+                </div>
+                <p className="mt-2 text-xs text-gray-500">
+                  Set an optional phase to 0 to skip it.
+                  {mirrorPhases.map((phase) => (
+                    <span key={phase.phaseName}>
+                      {' '}
+                      {phase.displayName} mirrors {displayNameOf(phase.mirrorOf!)}.
+                    </span>
+                  ))}
+                  {isSuperAdmin && (
+                    <span className="block mt-1 text-purple-600">
+                      Super Admin: Edit deadline dates directly. Changes cascade to future phases.
+                    </span>
+                  )}
+                </p>
               </div>
-              <p className="mt-2 text-xs text-gray-500">
-                Set Wayleave to 0 to skip it. FQA mirrors Build, COM mirrors RFA.
-                {isSuperAdmin && (
-                  <span className="block mt-1 text-purple-600">
-                    Super Admin: Edit deadline dates directly. Changes cascade to future phases.
-                  </span>
-                )}
-              </p>
             </div>
-          </div>
 
-          <div className="mt-6 flex justify-end gap-3">
-            <button
-              type="button"
-              onClick={onClose}
-              className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
-              disabled={isLoading}
-            >
-              Cancel
-            </button>
-            <button
-              type="submit"
-              className="px-4 py-2 bg-openserve-green hover:bg-openserve-green-dark text-white rounded-lg transition-colors flex items-center gap-2"
-              disabled={isLoading}
-            >
-              {isLoading ? (
-                <>
-                  <LoadingSpinner size="sm" />
-                  Saving...
-                </>
-              ) : (
-                'Save Changes'
-              )}
-            </button>
-          </div>
-        </form>
+            <div className="mt-6 flex justify-end gap-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                disabled={isLoading}
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="px-4 py-2 bg-openserve-green hover:bg-openserve-green-dark text-white rounded-lg transition-colors flex items-center gap-2"
+                disabled={isLoading}
+              >
+                {isLoading ? (
+                  <>
+                    <LoadingSpinner size="sm" />
+                    Checking...
+                  </>
+                ) : (
+                  'Review Changes'
+                )}
+              </button>
+            </div>
+          </form>
+        )}
       </div>
     </div>
   );
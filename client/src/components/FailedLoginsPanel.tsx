@@ -0,0 +1,114 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { Search } from 'lucide-react';
+import { api } from '../utils/api';
+import { FailedLogin, FailedLoginReason } from '../types';
+import LoadingSpinner from './LoadingSpinner';
+
+const reasonLabels: Record<FailedLoginReason, string> = {
+  unknown_email: 'No such account',
+  wrong_password: 'Wrong password',
+  invalid_code: 'Wrong two-factor code',
+};
+
+// Recent rejected sign-in attempts, for spotting password guessing
+export default function FailedLoginsPanel() {
+  const [attempts, setAttempts] = useState<FailedLogin[]>([]);
+  const [searchInput, setSearchInput] = useState('');
+  const [query, setQuery] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const fetchAttempts = async () => {
+      setIsLoading(true);
+      setError('');
+      try {
+        const params = new URLSearchParams();
+        if (query) params.set('q', query);
+        const response = await api.get(`/users/failed-logins?${params.toString()}`);
+        setAttempts(response.attempts || []);
+      } catch (err: any) {
+        setError(err.message || 'Failed to load failed sign-in attempts');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchAttempts();
+  }, [query]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setQuery(searchInput.trim());
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 mt-6">
+      <div className="p-4 border-b border-gray-200 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800">Failed Sign-ins</h2>
+          <p className="text-sm text-gray-500">Rejected passwords and codes, newest first</p>
+        </div>
+        <form onSubmit={handleSearch} className="relative sm:w-72">
+          <Search size={18} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+          <input
+            type="text"
+            placeholder="Search by email or IP address..."
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            className="w-full pl-9 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-openserve-green focus:border-openserve-green outline-none text-sm"
+          />
+        </form>
+      </div>
+
+      {error && (
+        <div className="m-4 p-3 bg-red-50 border border-red-200 text-red-600 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center p-8">
+          <LoadingSpinner />
+        </div>
+      ) : attempts.length === 0 ? (
+        !error && <div className="p-8 text-center text-gray-500">No failed sign-ins</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="bg-gray-50 border-b border-gray-200">
+                <th className="text-left px-4 py-3 font-semibold text-gray-600">When</th>
+                <th className="text-left px-4 py-3 font-semibold text-gray-600">Email entered</th>
+                <th className="text-left px-4 py-3 font-semibold text-gray-600">Reason</th>
+                <th className="text-left px-4 py-3 font-semibold text-gray-600 hidden md:table-cell">
+                  IP address
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {attempts.map((attempt) => (
+                <tr key={attempt.id} className="hover:bg-gray-50">
+                  <td className="px-4 py-3 text-gray-500 whitespace-nowrap">
+                    {format(new Date(attempt.createdAt), 'dd MMM yyyy HH:mm:ss')}
+                  </td>
+                  <td className="px-4 py-3 text-gray-800">
+                    {attempt.email}
+                    {attempt.user && (
+                      <span className="ml-2 text-xs text-gray-400">({attempt.user.name})</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-gray-600">{reasonLabels[attempt.reason] || attempt.reason}</td>
+                  <td className="px-4 py-3 text-gray-500 font-mono hidden md:table-cell">
+                    {attempt.ipAddress || '-'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
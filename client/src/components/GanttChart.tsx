@@ -0,0 +1,283 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  addDays,
+  differenceInCalendarDays,
+  format,
+  isWeekend,
+  max,
+  min,
+  startOfDay,
+} from 'date-fns';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { api } from '../utils/api';
+import { PublicHoliday } from '../types';
+
+// Bar colours follow the phase list: green done, red overdue, orange/yellow due soon
+export type GanttTone = 'complete' | 'overdue' | 'urgent' | 'warning' | 'on-track';
+
+export interface GanttBar {
+  key: string;
+  label: string; // Shown on hover
+  start: Date; // The bar covers the days after its start up to and including its end
+  end: Date;
+  tone: GanttTone;
+  completedAt?: Date | null;
+}
+
+export interface GanttRow {
+  key: string;
+  label: string;
+  sublabel?: string;
+  to?: string; // Links the label to a page
+  bars: GanttBar[];
+  isExpanded?: boolean;
+  onToggle?: () => void; // Shows a chevron to expand or collapse the rows below
+  isNested?: boolean;
+}
+
+interface GanttChartProps {
+  rows: GanttRow[];
+}
+
+type Zoom = 'day' | 'week';
+
+const DAY_WIDTHS: Record<Zoom, number> = {
+  day: 28,
+  week: 8,
+};
+
+const TONE_STYLES: Record<GanttTone, string> = {
+  complete: 'bg-green-500',
+  overdue: 'bg-red-500',
+  urgent: 'bg-orange-500',
+  warning: 'bg-yellow-500',
+  'on-track': 'bg-gray-400',
+};
+
+const LEGEND: { tone: GanttTone; label: string }[] = [
+  { tone: 'complete', label: 'Complete' },
+  { tone: 'on-track', label: 'On track' },
+  { tone: 'warning', label: 'Due soon' },
+  { tone: 'urgent', label: 'Urgent' },
+  { tone: 'overdue', label: 'Overdue' },
+];
+
+const ROW_HEIGHT = 36;
+const HEADER_HEIGHT = 44;
+// Padding either side of the bars, in days
+const RANGE_PADDING = 3;
+
+const dateKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+export default function GanttChart({ rows }: GanttChartProps) {
+  const [zoom, setZoom] = useState<Zoom>('day');
+  const [holidays, setHolidays] = useState<Map<string, string>>(new Map());
+
+  const dayWidth = DAY_WIDTHS[zoom];
+  const today = startOfDay(new Date());
+
+  // The chart spans every bar and completion, with a little padding
+  const range = useMemo(() => {
+    const dates = rows.flatMap((row) =>
+      row.bars.flatMap((bar) => [bar.start, bar.end, ...(bar.completedAt ? [bar.completedAt] : [])])
+    );
+    if (dates.length === 0) return null;
+
+    const start = addDays(startOfDay(min(dates)), -RANGE_PADDING);
+    const end = addDays(startOfDay(max(dates)), RANGE_PADDING);
+    return { start, end, days: differenceInCalendarDays(end, start) + 1 };
+  }, [rows]);
+
+  const from = range ? dateKey(range.start) : '';
+  const to = range ? dateKey(range.end) : '';
+
+  // Public holidays in view, including ad-hoc ones from the holiday calendar
+  useEffect(() => {
+    if (!from || !to) return;
+
+    api
+      .get(`/holidays/range?from=${from}&to=${to}`)
+      .then((response) => {
+        const list: PublicHoliday[] = response.holidays || [];
+        setHolidays(new Map(list.map((holiday) => [dateKey(new Date(holiday.date)), holiday.name])));
+      })
+      .catch((error) => console.error('Failed to fetch holidays:', error));
+  }, [from, to]);
+
+  if (!range) {
+    return <div className="p-8 text-center text-gray-500">Nothing to show on the timeline</div>;
+  }
+
+  const days = Array.from({ length: range.days }, (_, index) => addDays(range.start, index));
+  const chartWidth = range.days * dayWidth;
+  const offsetOf = (date: Date) => differenceInCalendarDays(startOfDay(date), range.start) * dayWidth;
+  const showToday = today >= range.start && today <= range.end;
+
+  // Month labels sit over the first day of each month in view
+  const months = days.filter((day, index) => index === 0 || day.getDate() === 1);
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-3 p-4 border-b border-gray-200">
+        <div className="flex flex-wrap items-center gap-3 text-xs text-gray-600">
+          {LEGEND.map((item) => (
+            <span key={item.tone} className="flex items-center gap-1.5">
+              <span className={`w-3 h-2 rounded-sm ${TONE_STYLES[item.tone]}`} />
+              {item.label}
+            </span>
+          ))}
+          <span className="flex items-center gap-1.5">
+            <span className="w-2 h-2 rotate-45 bg-gray-800" />
+            Completed
+          </span>
+          <span className="flex items-center gap-1.5">
+            <span className="w-3 h-3 bg-gray-100 border border-gray-200" />
+            Weekend
+          </span>
+          <span className="flex items-center gap-1.5">
+            <span className="w-3 h-3 bg-amber-100 border border-amber-200" />
+            Public holiday
+          </span>
+        </div>
+        <div className="flex rounded-lg border border-gray-300 overflow-hidden text-sm">
+          {(['day', 'week'] as Zoom[]).map((option) => (
+            <button
+              key={option}
+              onClick={() => setZoom(option)}
+              className={`px-3 py-1 capitalize transition-colors ${
+                zoom === option ? 'bg-openserve-green text-white' : 'bg-white text-gray-600 hover:bg-gray-50'
+              }`}
+            >
+              {option}s
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <div className="flex min-w-max">
+          {/* Row labels stay in view while the chart scrolls */}
+          <div className="sticky left-0 z-20 w-56 flex-shrink-0 bg-white border-r border-gray-200">
+            <div style={{ height: HEADER_HEIGHT }} className="border-b border-gray-200" />
+            {rows.map((row) => (
+              <div
+                key={row.key}
+                style={{ height: ROW_HEIGHT }}
+                className={`flex items-center gap-1 px-3 border-b border-gray-100 text-sm ${
+                  row.isNested ? 'pl-8 text-gray-600' : 'font-medium text-gray-800'
+                }`}
+              >
+                {row.onToggle && (
+                  <button
+                    onClick={row.onToggle}
+                    className="p-0.5 text-gray-400 hover:text-gray-600 rounded"
+                    title={row.isExpanded ? 'Hide phases' : 'Show phases'}
+                  >
+                    {row.isExpanded ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+                  </button>
+                )}
+                <div className="min-w-0">
+                  {row.to ? (
+                    <Link to={row.to} className="block truncate hover:text-openserve-green">
+                      {row.label}
+                    </Link>
+                  ) : (
+                    <span className="block truncate">{row.label}</span>
+                  )}
+                  {row.sublabel && (
+                    <span className="block truncate text-xs font-normal text-gray-500">
+                      {row.sublabel}
+                    </span>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="relative" style={{ width: chartWidth }}>
+            {/* Weekends and public holidays */}
+            {days.map((day, index) => {
+              const holiday = holidays.get(dateKey(day));
+              if (!holiday && !isWeekend(day)) return null;
+
+              return (
+                <div
+                  key={index}
+                  title={holiday ? `${holiday} (${format(day, 'dd MMM yyyy')})` : undefined}
+                  className={`absolute top-0 bottom-0 ${holiday ? 'bg-amber-100' : 'bg-gray-100'}`}
+                  style={{ left: index * dayWidth, width: dayWidth }}
+                />
+              );
+            })}
+
+            {/* Month and day header */}
+            <div className="relative border-b border-gray-200" style={{ height: HEADER_HEIGHT }}>
+              {months.map((month) => (
+                <div
+                  key={dateKey(month)}
+                  className="absolute top-1 px-1 text-xs font-semibold text-gray-600 whitespace-nowrap border-l border-gray-300"
+                  style={{ left: offsetOf(month) }}
+                >
+                  {format(month, 'MMM yyyy')}
+                </div>
+              ))}
+              {days.map((day, index) =>
+                zoom === 'day' || day.getDay() === 1 ? (
+                  <div
+                    key={index}
+                    className="absolute bottom-1 text-[10px] text-gray-500 text-center"
+                    style={{ left: index * dayWidth, width: zoom === 'day' ? dayWidth : dayWidth * 7 }}
+                  >
+                    {zoom === 'day' ? format(day, 'd') : format(day, 'd MMM')}
+                  </div>
+                ) : null
+              )}
+            </div>
+
+            {rows.map((row) => (
+              <div
+                key={row.key}
+                className="relative border-b border-gray-100"
+                style={{ height: ROW_HEIGHT }}
+              >
+                {row.bars.map((bar) => {
+                  const left = offsetOf(bar.start) + dayWidth;
+                  const width = Math.max(offsetOf(bar.end) - offsetOf(bar.start), 4);
+
+                  return (
+                    <div key={bar.key}>
+                      <div
+                        title={bar.label}
+                        className={`absolute top-2.5 h-4 rounded opacity-90 ${TONE_STYLES[bar.tone]}`}
+                        style={{ left, width }}
+                      />
+                      {bar.completedAt && (
+                        <div
+                          title={`Completed ${format(bar.completedAt, 'dd MMM yyyy')}`}
+                          className="absolute top-3 w-3 h-3 rotate-45 bg-gray-800 border border-white"
+                          style={{ left: offsetOf(bar.completedAt) + dayWidth / 2 - 6 }}
+                        />
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+
+            {showToday && (
+              <div
+                className="absolute top-0 bottom-0 z-10 border-l-2 border-red-500 pointer-events-none"
+                style={{ left: offsetOf(today) + dayWidth / 2 }}
+              >
+                <span className="absolute top-4 left-1 px-1 rounded bg-red-500 text-[10px] font-medium text-white">
+                  Today
+                </span>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,259 @@
+import { useState, useEffect } from 'react';
+import { X, Upload, FileSpreadsheet } from 'lucide-react';
+import { api } from '../utils/api';
+import { ImportField, ImportPreview, ImportRowResult, PhaseTemplate } from '../types';
+import LoadingSpinner from './LoadingSpinner';
+
+interface ImportProjectsModalProps {
+  onClose: () => void;
+  onImported: () => void;
+}
+
+const COLUMNS: { field: ImportField; label: string }[] = [
+  { field: 'orderNumber', label: 'Order Number' },
+  { field: 'customerName', label: 'Customer' },
+  { field: 'pnr', label: 'PNR' },
+  { field: 'timelineProvidedBy', label: 'Timeline Provided By' },
+  { field: 'timelineDateProvided', label: 'Timeline Date' },
+  { field: 'siteSurveyDate', label: 'Site Survey Date' },
+  { field: 'region', label: 'Region' },
+];
+
+const STATUS_STYLES: Record<ImportRowResult['status'], string> = {
+  valid: 'bg-green-100 text-green-700',
+  invalid: 'bg-red-100 text-red-700',
+  duplicate: 'bg-yellow-100 text-yellow-700',
+};
+
+export default function ImportProjectsModal({ onClose, onImported }: ImportProjectsModalProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [templateId, setTemplateId] = useState('');
+  const [templates, setTemplates] = useState<PhaseTemplate[]>([]);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const fetchTemplates = async () => {
+      try {
+        const response = await api.get('/templates');
+        const list: PhaseTemplate[] = response.templates || [];
+        setTemplates(list);
+        // Preselect the default template
+        const defaultTemplate = list.find((t) => t.isDefault);
+        if (defaultTemplate) {
+          setTemplateId(defaultTemplate.id);
+        }
+      } catch (error) {
+        console.error('Failed to fetch phase templates:', error);
+      }
+    };
+
+    fetchTemplates();
+  }, []);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFile(e.target.files?.[0] || null);
+    // A different file needs checking again
+    setPreview(null);
+    setError('');
+  };
+
+  const handleCheck = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+
+    setError('');
+    setIsChecking(true);
+
+    try {
+      const response = await api.upload('/projects/import/preview', file);
+      setPreview(response);
+    } catch (err: any) {
+      setError(err.message || 'Failed to check file');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+
+    setError('');
+    setIsImporting(true);
+
+    try {
+      await api.upload(`/projects/import?templateId=${encodeURIComponent(templateId)}`, file);
+      onImported();
+    } catch (err: any) {
+      setError(err.message || 'Failed to import projects');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-xl max-w-5xl w-full max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-800">Import Projects</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X size={20} className="text-gray-500" />
+          </button>
+        </div>
+
+        <form onSubmit={handleCheck} className="p-4 border-b border-gray-200">
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 text-red-600 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          <p className="text-sm text-gray-500 mb-3">
+            Upload a CSV or Excel (.xlsx) file with a header row and the columns{' '}
+            {COLUMNS.map((column) => column.label).join(', ')}. Region is optional. Dates should
+            be YYYY-MM-DD text or Excel date cells.
+          </p>
+
+          <div className="flex flex-col md:flex-row gap-3">
+            <input
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              onChange={handleFileChange}
+              className="flex-1 text-sm text-gray-600 file:mr-3 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-gray-100 file:text-gray-700 hover:file:bg-gray-200"
+              required
+            />
+            <select
+              value={templateId}
+              onChange={(e) => setTemplateId(e.target.value)}
+              className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-openserve-green focus:border-openserve-green outline-none bg-white"
+              title="Job type for every imported project"
+              required
+            >
+              {templates.length === 0 && <option value="">Loading templates...</option>}
+              {templates.map((template) => (
+                <option key={template.id} value={template.id}>
+                  {template.name}
+                  {template.isDefault ? ' (default)' : ''}
+                </option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              disabled={!file || isChecking}
+              className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+            >
+              {isChecking ? <LoadingSpinner size="sm" /> : <FileSpreadsheet size={18} />}
+              Check File
+            </button>
+          </div>
+        </form>
+
+        {preview && (
+          <>
+            <div className="px-4 py-3 text-sm text-gray-600 border-b border-gray-200">
+              {preview.summary.total} row{preview.summary.total !== 1 ? 's' : ''}:{' '}
+              <span className="text-green-700 font-medium">{preview.summary.valid} ready</span>,{' '}
+              <span className="text-red-600 font-medium">{preview.summary.invalid} with errors</span>,{' '}
+              <span className="text-yellow-700 font-medium">
+                {preview.summary.duplicate} duplicate{preview.summary.duplicate !== 1 ? 's' : ''}
+              </span>
+              . Only ready rows are imported.
+            </div>
+
+            <div className="flex-1 overflow-auto">
+              <table className="w-full text-sm">
+                <thead className="sticky top-0">
+                  <tr className="bg-gray-50 border-b border-gray-200 text-gray-600">
+                    <th className="text-left px-3 py-2 font-semibold">Row</th>
+                    {COLUMNS.map((column) => (
+                      <th key={column.field} className="text-left px-3 py-2 font-semibold whitespace-nowrap">
+                        {column.label}
+                      </th>
+                    ))}
+                    <th className="text-left px-3 py-2 font-semibold">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {preview.rows.map((row) => {
+                    const issueFields = new Set(row.issues.map((issue) => issue.field));
+
+                    return (
+                      <tr key={row.row} className="align-top">
+                        <td className="px-3 py-2 text-gray-500">{row.row}</td>
+                        {COLUMNS.map((column) => (
+                          <td
+                            key={column.field}
+                            className={`px-3 py-2 ${
+                              issueFields.has(column.field)
+                                ? 'bg-red-50 text-red-700'
+                                : 'text-gray-800'
+                            }`}
+                          >
+                            {row.values[column.field] || (
+                              <span className="text-gray-300">—</span>
+                            )}
+                          </td>
+                        ))}
+                        <td className="px-3 py-2">
+                          <span
+                            className={`inline-flex px-2 py-0.5 rounded-lg text-xs font-medium capitalize ${
+                              STATUS_STYLES[row.status]
+                            }`}
+                          >
+                            {row.status}
+                          </span>
+                          {row.issues.map((issue, index) => (
+                            <p key={index} className="mt-1 text-xs text-gray-600 min-w-[180px]">
+                              {COLUMNS.find((column) => column.field === issue.field)?.label ||
+                                issue.field}
+                              : {issue.message}
+                            </p>
+                          ))}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+
+        <div className="p-4 border-t border-gray-200 flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+            disabled={isImporting}
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleImport}
+            className="px-4 py-2 bg-openserve-green hover:bg-openserve-green-dark text-white rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50"
+            disabled={!preview || preview.summary.valid === 0 || isImporting}
+          >
+            {isImporting ? (
+              <>
+                <LoadingSpinner size="sm" />
+                Importing...
+              </>
+            ) : (
+              <>
+                <Upload size={18} />
+                Import {preview ? preview.summary.valid : ''} Project
+                {preview?.summary.valid === 1 ? '' : 's'}
+              </>
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,18 @@
 import { Outlet, Link, useLocation } from 'react-router-dom';
 import { useAuthStore } from '../store/authStore';
 import NotificationBell from './NotificationBell';
+import { connectEvents, disconnectEvents } from '../utils/events';
+import { keepSessionFresh } from '../utils/api';
 import {
   FolderKanban,
   Users,
   Settings,
+  CalendarDays,
+  Calendar,
+  BarChart3,
+  History,
+  Webhook,
+  UserCircle,
   LogOut,
   ChevronDown,
 } from 'lucide-react';
@@ -16,6 +24,14 @@ export default function Layout() {
   const [userMenuOpen, setUserMenuOpen] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
 
+  // Live updates for every page while signed in
+  useEffect(() => {
+    connectEvents();
+    return () => disconnectEvents();
+  }, []);
+
+  useEffect(() => keepSessionFresh(), []);
+
   useEffect(() => {
     function handleClickOutside(event: MouseEvent) {
       if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
@@ -70,6 +86,16 @@ export default function Layout() {
                 <span>Projects</span>
               </Link>
 
+              <Link to="/calendar" className={navLinkClass('/calendar')}>
+                <Calendar size={20} />
+                <span>Calendar</span>
+              </Link>
+
+              <Link to="/analytics" className={navLinkClass('/analytics')}>
+                <BarChart3 size={20} />
+                <span>Analytics</span>
+              </Link>
+
               {(user?.role === 'admin' || user?.role === 'superadmin') && (
                 <Link to="/users" className={navLinkClass('/users')}>
                   <Users size={20} />
@@ -77,12 +103,33 @@ export default function Layout() {
                 </Link>
               )}
 
+              {(user?.role === 'admin' || user?.role === 'superadmin') && (
+                <Link to="/audit" className={navLinkClass('/audit')}>
+                  <History size={20} />
+                  <span>Audit Log</span>
+                </Link>
+              )}
+
+              {(user?.role === 'admin' || user?.role === 'superadmin') && (
+                <Link to="/webhooks" className={navLinkClass('/webhooks')}>
+                  <Webhook size={20} />
+                  <span>Webhooks</span>
+                </Link>
+              )}
+
               {user?.role === 'superadmin' && (
                 <Link to="/settings" className={navLinkClass('/settings')}>
                   <Settings size={20} />
                   <span>Settings</span>
                 </Link>
               )}
+
+              {user?.role === 'superadmin' && (
+                <Link to="/holidays" className={navLinkClass('/holidays')}>
+                  <CalendarDays size={20} />
+                  <span>Holidays</span>
+                </Link>
+              )}
             </nav>
 
             {/* Right side */}
@@ -132,6 +179,22 @@ export default function Layout() {
                         <FolderKanban size={18} />
                         Projects
                       </Link>
+                      <Link
+                        to="/calendar"
+                        className="flex items-center gap-2 px-4 py-2 text-gray-700 hover:bg-gray-100"
+                        onClick={() => setUserMenuOpen(false)}
+                      >
+                        <Calendar size={18} />
+                        Calendar
+                      </Link>
+                      <Link
+                        to="/analytics"
+                        className="flex items-center gap-2 px-4 py-2 text-gray-700 hover:bg-gray-100"
+                        onClick={() => setUserMenuOpen(false)}
+                      >
+                        <BarChart3 size={18} />
+                        Analytics
+                      </Link>
                       {(user?.role === 'admin' ||
                         user?.role === 'superadmin') && (
                         <Link
@@ -143,6 +206,28 @@ export default function Layout() {
                           Users
                         </Link>
                       )}
+                      {(user?.role === 'admin' ||
+                        user?.role === 'superadmin') && (
+                        <Link
+                          to="/audit"
+                          className="flex items-center gap-2 px-4 py-2 text-gray-700 hover:bg-gray-100"
+                          onClick={() => setUserMenuOpen(false)}
+                        >
+                          <History size={18} />
+                          Audit Log
+                        </Link>
+                      )}
+                      {(user?.role === 'admin' ||
+                        user?.role === 'superadmin') && (
+                        <Link
+                          to="/webhooks"
+                          className="flex items-center gap-2 px-4 py-2 text-gray-700 hover:bg-gray-100"
+                          onClick={() => setUserMenuOpen(false)}
+                        >
+                          <Webhook size={18} />
+                          Webhooks
+                        </Link>
+                      )}
                       {user?.role === 'superadmin' && (
                         <Link
                           to="/settings"
@@ -153,8 +238,27 @@ export default function Layout() {
                           Settings
                         </Link>
                       )}
+                      {user?.role === 'superadmin' && (
+                        <Link
+                          to="/holidays"
+                          className="flex items-center gap-2 px-4 py-2 text-gray-700 hover:bg-gray-100"
+                          onClick={() => setUserMenuOpen(false)}
+                        >
+                          <CalendarDays size={18} />
+                          Holidays
+                        </Link>
+                      )}
                     </div>
 
+                    <Link
+                      to="/profile"
+                      className="flex items-center gap-2 px-4 py-2 text-gray-700 hover:bg-gray-100"
+                      onClick={() => setUserMenuOpen(false)}
+                    >
+                      <UserCircle size={18} />
+                      My Profile
+                    </Link>
+
                     <button
                       onClick={() => {
                         logout();
@@ -9,16 +9,20 @@ export default function NotificationBell() {
   const menuRef = useRef<HTMLDivElement>(null);
   const navigate = useNavigate();
 
-  const { notifications, unreadCount, fetchNotifications, markAsRead, markAllAsRead } =
-    useNotificationStore();
+  const {
+    notifications,
+    unreadCount,
+    fetchNotifications,
+    markAsRead,
+    markAllAsRead,
+    subscribeToUpdates,
+  } = useNotificationStore();
 
+  // Load once, then refresh whenever the server pushes a change
   useEffect(() => {
     fetchNotifications();
-
-    // Refresh notifications every 5 minutes
-    const interval = setInterval(fetchNotifications, 5 * 60 * 1000);
-    return () => clearInterval(interval);
-  }, [fetchNotifications]);
+    return subscribeToUpdates();
+  }, [fetchNotifications, subscribeToUpdates]);
 
   useEffect(() => {
     function handleClickOutside(event: MouseEvent) {
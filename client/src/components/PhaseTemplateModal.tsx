@@ -0,0 +1,425 @@
+import { useState } from 'react';
+import { X, Plus, Trash2, ArrowUp, ArrowDown } from 'lucide-react';
+import { api } from '../utils/api';
+import { PhaseDependency, PhaseTemplate } from '../types';
+import LoadingSpinner from './LoadingSpinner';
+
+interface PhaseTemplateModalProps {
+  template: PhaseTemplate | null;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+interface PhaseRow {
+  key: string;
+  displayName: string;
+  defaultDays: number;
+  mirrorOf: string;
+  skippable: boolean;
+  predecessors: PhaseDependency[];
+}
+
+const emptyPhase: PhaseRow = {
+  key: '',
+  displayName: '',
+  defaultDays: 1,
+  mirrorOf: '',
+  skippable: false,
+  predecessors: [],
+};
+
+// Turn a display name into a phase key, e.g. "Kick-Off" -> "kick-off"
+const toKey = (name: string) =>
+  name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+export default function PhaseTemplateModal({
+  template,
+  onClose,
+  onSaved,
+}: PhaseTemplateModalProps) {
+  const isInUse = !!template && template.projectCount > 0;
+
+  const [name, setName] = useState(template?.name || '');
+  const [description, setDescription] = useState(template?.description || '');
+  const [phases, setPhases] = useState<PhaseRow[]>(
+    template
+      ? template.phases.map((phase) => ({
+          key: phase.key,
+          displayName: phase.displayName,
+          defaultDays: phase.defaultDays,
+          mirrorOf: phase.mirrorOf || '',
+          skippable: phase.skippable,
+          predecessors: phase.predecessors.map((dependency) => ({
+            key: dependency.predecessorKey,
+            lagDays: dependency.lagDays,
+          })),
+        }))
+      : [{ ...emptyPhase }]
+  );
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const updatePhase = (index: number, changes: Partial<PhaseRow>) => {
+    setPhases((prev) => {
+      const oldKey = prev[index].key;
+      let newKey = oldKey;
+
+      const next = prev.map((phase, i) => {
+        if (i !== index) return phase;
+        const updated = { ...phase, ...changes };
+        // New phases get a key derived from their name
+        if (!isInUse && changes.displayName !== undefined && phase.key === toKey(phase.displayName)) {
+          updated.key = toKey(changes.displayName);
+          newKey = updated.key;
+        }
+        // Mirror phases take their dates from the mirrored phase
+        if (updated.mirrorOf) {
+          updated.predecessors = [];
+        }
+        return updated;
+      });
+
+      if (newKey === oldKey) return next;
+
+      // Keep references to a renamed key pointing at the same phase
+      return next.map((phase) => ({
+        ...phase,
+        mirrorOf: phase.mirrorOf === oldKey ? newKey : phase.mirrorOf,
+        predecessors: phase.predecessors.map((p) =>
+          p.key === oldKey ? { ...p, key: newKey } : p
+        ),
+      }));
+    });
+  };
+
+  const togglePredecessor = (index: number, key: string) => {
+    const phase = phases[index];
+    const predecessors = phase.predecessors.some((p) => p.key === key)
+      ? phase.predecessors.filter((p) => p.key !== key)
+      : [...phase.predecessors, { key, lagDays: 0 }];
+    updatePhase(index, { predecessors });
+  };
+
+  const setPredecessorLag = (index: number, key: string, lagDays: number) => {
+    updatePhase(index, {
+      predecessors: phases[index].predecessors.map((p) =>
+        p.key === key ? { ...p, lagDays } : p
+      ),
+    });
+  };
+
+  const addPhase = () => {
+    setPhases((prev) => [...prev, { ...emptyPhase }]);
+  };
+
+  const removePhase = (index: number) => {
+    const removed = phases[index];
+    setPhases((prev) =>
+      prev
+        .filter((_, i) => i !== index)
+        .map((phase) => ({
+          ...phase,
+          mirrorOf: phase.mirrorOf === removed.key ? '' : phase.mirrorOf,
+          predecessors: phase.predecessors.filter((p) => p.key !== removed.key),
+        }))
+    );
+  };
+
+  const movePhase = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= phases.length) return;
+
+    setPhases((prev) => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsLoading(true);
+
+    const body = {
+      name,
+      description: description || null,
+      phases: phases.map((phase) => ({
+        key: phase.key,
+        displayName: phase.displayName,
+        defaultDays: phase.mirrorOf ? 0 : phase.defaultDays,
+        mirrorOf: phase.mirrorOf || null,
+        skippable: phase.mirrorOf ? false : phase.skippable,
+        predecessors: phase.mirrorOf ? [] : phase.predecessors,
+      })),
+    };
+
+    try {
+      if (template) {
+        await api.patch(`/templates/${template.id}`, body);
+      } else {
+        await api.post('/templates', body);
+      }
+      onSaved();
+    } catch (err: any) {
+      setError(err.message || 'Failed to save template');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-800">
+            {template ? 'Edit Phase Template' : 'New Phase Template'}
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X size={20} className="text-gray-500" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-4">
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 text-red-600 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          {isInUse && (
+            <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 text-yellow-800 rounded-lg text-sm">
+              {template!.projectCount} project{template!.projectCount !== 1 ? 's' : ''} use
+              this template. Phase names, default days, skip rules and dependencies can be changed, but
+              phases cannot be added, removed or reordered.
+            </div>
+          )}
+
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Name *
+              </label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-openserve-green focus:border-openserve-green outline-none"
+                placeholder="e.g., FTTH Drop"
+                required
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Description
+              </label>
+              <input
+                type="text"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-openserve-green focus:border-openserve-green outline-none"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Phases (in order)
+              </label>
+              <div className="space-y-2">
+                {phases.map((phase, index) => (
+                  <div key={index} className="p-3 bg-gray-50 rounded-lg">
+                    <div className="flex flex-col md:flex-row md:items-center gap-2">
+                      <input
+                        type="text"
+                        value={phase.displayName}
+                        onChange={(e) => updatePhase(index, { displayName: e.target.value })}
+                        className="flex-1 px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-openserve-green focus:border-openserve-green outline-none text-sm"
+                        placeholder="Phase name"
+                        required
+                      />
+                      <select
+                        value={phase.mirrorOf}
+                        onChange={(e) => updatePhase(index, { mirrorOf: e.target.value })}
+                        disabled={isInUse}
+                        className="px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-openserve-green focus:border-openserve-green outline-none bg-white text-sm disabled:bg-gray-100"
+                      >
+                        <option value="">Own deadline</option>
+                        {phases
+                          .slice(0, index)
+                          .filter((source) => !source.mirrorOf && source.key)
+                          .map((source) => (
+                            <option key={source.key} value={source.key}>
+                              Mirrors {source.displayName}
+                            </option>
+                          ))}
+                      </select>
+                      {!phase.mirrorOf && (
+                        <>
+                          <div className="flex items-center gap-2">
+                            <input
+                              type="number"
+                              min="0"
+                              max="365"
+                              value={phase.defaultDays}
+                              onChange={(e) =>
+                                updatePhase(index, { defaultDays: parseInt(e.target.value) || 0 })
+                              }
+                              className="w-16 px-2 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-openserve-green focus:border-openserve-green outline-none text-center text-sm"
+                            />
+                            <span className="text-xs text-gray-500">days</span>
+                          </div>
+                          <label
+                            className="flex items-center gap-1 text-xs text-gray-600"
+                            title="Skipped when set to 0 days"
+                          >
+                            <input
+                              type="checkbox"
+                              checked={phase.skippable}
+                              onChange={(e) => updatePhase(index, { skippable: e.target.checked })}
+                              className="rounded border-gray-300 text-openserve-green focus:ring-openserve-green"
+                            />
+                            Optional
+                          </label>
+                        </>
+                      )}
+                      {!isInUse && (
+                        <div className="flex items-center">
+                          <button
+                            type="button"
+                            onClick={() => movePhase(index, -1)}
+                            className="p-1.5 text-gray-400 hover:text-gray-700 rounded-lg"
+                            title="Move up"
+                          >
+                            <ArrowUp size={16} />
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => movePhase(index, 1)}
+                            className="p-1.5 text-gray-400 hover:text-gray-700 rounded-lg"
+                            title="Move down"
+                          >
+                            <ArrowDown size={16} />
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => removePhase(index)}
+                            disabled={phases.length === 1}
+                            className="p-1.5 text-gray-400 hover:text-red-500 rounded-lg disabled:opacity-30"
+                            title="Remove phase"
+                          >
+                            <Trash2 size={16} />
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                    {!phase.mirrorOf && index > 0 && (
+                      <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-gray-600">
+                        <span>Starts after:</span>
+                        {phases
+                          .slice(0, index)
+                          .filter((source) => !source.mirrorOf && source.key)
+                          .map((source) => {
+                            const dependency = phase.predecessors.find((p) => p.key === source.key);
+
+                            return (
+                              <span
+                                key={source.key}
+                                className={`inline-flex items-center gap-1 px-2 py-1 rounded-lg border ${
+                                  dependency
+                                    ? 'border-openserve-green bg-green-50 text-gray-800'
+                                    : 'border-gray-200 bg-white text-gray-500'
+                                }`}
+                              >
+                                <button
+                                  type="button"
+                                  onClick={() => togglePredecessor(index, source.key)}
+                                >
+                                  {source.displayName || source.key}
+                                </button>
+                                {dependency && (
+                                  <>
+                                    <span>+</span>
+                                    <input
+                                      type="number"
+                                      min="0"
+                                      max="365"
+                                      value={dependency.lagDays}
+                                      onChange={(e) =>
+                                        setPredecessorLag(
+                                          index,
+                                          source.key,
+                                          parseInt(e.target.value) || 0
+                                        )
+                                      }
+                                      className="w-12 px-1 py-0.5 border border-gray-300 rounded text-center"
+                                      title="Lag in business days"
+                                    />
+                                  </>
+                                )}
+                              </span>
+                            );
+                          })}
+                        {phase.predecessors.length === 0 && (
+                          <span className="text-gray-400">previous phase</span>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+              {!isInUse && (
+                <button
+                  type="button"
+                  onClick={addPhase}
+                  className="mt-2 text-sm text-openserve-green hover:underline flex items-center gap-1"
+                >
+                  <Plus size={16} />
+                  Add phase
+                </button>
+              )}
+              <p className="mt-2 text-xs text-gray-500">
+                Mirror phases share the deadline and completion of an earlier phase.
+                Optional phases are skipped when a project sets them to 0 days. Phases
+                that start after the same phase run in parallel; a phase with no
+                selection follows the previous phase.
+              </p>
+            </div>
+          </div>
+
+          <div className="mt-6 flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+              disabled={isLoading}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-openserve-green hover:bg-openserve-green-dark text-white rounded-lg transition-colors flex items-center gap-2"
+              disabled={isLoading}
+            >
+              {isLoading ? (
+                <>
+                  <LoadingSpinner size="sm" />
+                  Saving...
+                </>
+              ) : (
+                'Save Template'
+              )}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
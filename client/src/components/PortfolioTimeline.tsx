@@ -0,0 +1,132 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { api } from '../utils/api';
+import { useServerEvents } from '../utils/events';
+import { ProjectTimeline, TimelinePhase } from '../types';
+import GanttChart, { GanttBar, GanttRow, GanttTone } from './GanttChart';
+import LoadingSpinner from './LoadingSpinner';
+
+interface PortfolioTimelineProps {
+  query: string; // The dashboard's filters and sorting
+}
+
+const toBar = (project: ProjectTimeline, phase: TimelinePhase): GanttBar => ({
+  key: `${project.id}:${phase.phaseName}`,
+  label: `${phase.displayName}: due ${format(new Date(phase.deadline), 'dd MMM yyyy')}`,
+  start: new Date(phase.startDate),
+  end: new Date(phase.deadline),
+  tone: phase.status === 'at-risk' ? 'warning' : (phase.status as GanttTone),
+  completedAt: phase.completedAt ? new Date(phase.completedAt) : null,
+});
+
+// Filtered projects on one timeline: a row per project with its phases side by side,
+// expandable to a row per phase
+export default function PortfolioTimeline({ query }: PortfolioTimelineProps) {
+  const [projects, setProjects] = useState<ProjectTimeline[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+
+  const fetchTimeline = async (cursor?: string, limit?: number) => {
+    const params = new URLSearchParams(query);
+    if (cursor) params.set('cursor', cursor);
+    if (limit) params.set('limit', String(limit));
+
+    try {
+      const response = await api.get(`/projects/timeline?${params.toString()}`);
+      const page: ProjectTimeline[] = response.projects || [];
+      setProjects((prev) => (cursor ? [...prev, ...page] : page));
+      setNextCursor(response.nextCursor || null);
+    } catch (error) {
+      console.error('Failed to fetch project timeline:', error);
+    } finally {
+      setIsLoading(false);
+      setIsLoadingMore(false);
+    }
+  };
+
+  useEffect(() => {
+    setIsLoading(true);
+    fetchTimeline();
+  }, [query]);
+
+  // Reload the projects already on screen
+  useServerEvents((event) => {
+    if (event.type !== 'notifications') {
+      fetchTimeline(undefined, Math.min(Math.max(projects.length, 25), 100));
+    }
+  });
+
+  const toggleProject = (projectId: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(projectId)) {
+        next.delete(projectId);
+      } else {
+        next.add(projectId);
+      }
+      return next;
+    });
+  };
+
+  const handleLoadMore = () => {
+    if (!nextCursor) return;
+    setIsLoadingMore(true);
+    fetchTimeline(nextCursor);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  const rows: GanttRow[] = projects.flatMap((project) => {
+    // Skipped phases have no schedule and mirrors repeat another phase's bar
+    const phases = project.phases.filter((phase) => phase.status !== 'skipped' && !phase.mirrorOf);
+    const isExpanded = expanded.has(project.id);
+
+    const projectRow: GanttRow = {
+      key: project.id,
+      label: project.orderNumber,
+      sublabel: `${project.customerName} · ${project.completedPhases}/${project.totalPhases}`,
+      to: `/projects/${project.id}`,
+      // Collapsed rows show every phase; expanded ones leave that to the phase rows
+      bars: isExpanded ? [] : phases.map((phase) => toBar(project, phase)),
+      isExpanded,
+      onToggle: () => toggleProject(project.id),
+    };
+
+    if (!isExpanded) return [projectRow];
+
+    return [
+      projectRow,
+      ...phases.map((phase) => ({
+        key: `${project.id}:${phase.phaseName}`,
+        label: phase.displayName,
+        bars: [toBar(project, phase)],
+        isNested: true,
+      })),
+    ];
+  });
+
+  return (
+    <div>
+      <GanttChart rows={rows} />
+      {nextCursor && (
+        <div className="p-4 border-t border-gray-200 text-center">
+          <button
+            onClick={handleLoadMore}
+            disabled={isLoadingMore}
+            className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+          >
+            {isLoadingMore ? 'Loading...' : 'Load more'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
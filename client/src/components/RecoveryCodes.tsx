@@ -0,0 +1,54 @@
+import { useState } from 'react';
+import { Check, Copy, Download } from 'lucide-react';
+
+interface RecoveryCodesProps {
+  codes: string[];
+}
+
+// A fresh set of recovery codes; the server only keeps hashes, so this is the one chance to save them
+export default function RecoveryCodes({ codes }: RecoveryCodesProps) {
+  const [copied, setCopied] = useState(false);
+  const text = codes.join('\n');
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy recovery codes:', error);
+    }
+  };
+
+  return (
+    <div>
+      <p className="text-sm text-gray-600 mb-3">
+        Save these recovery codes somewhere safe. Each one can be used once to sign in if you
+        lose access to your authenticator app. They won't be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 p-4 bg-gray-50 border border-gray-200 rounded-lg font-mono text-sm text-gray-800">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <div className="flex gap-2 mt-3">
+        <button
+          type="button"
+          onClick={handleCopy}
+          className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors flex items-center justify-center gap-2 text-sm"
+        >
+          {copied ? <Check size={16} className="text-green-600" /> : <Copy size={16} />}
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+        <a
+          href={`data:text/plain;charset=utf-8,${encodeURIComponent(text + '\n')}`}
+          download="openserve-recovery-codes.txt"
+          className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors flex items-center justify-center gap-2 text-sm"
+        >
+          <Download size={16} />
+          Download
+        </a>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { format, formatDistanceToNow } from 'date-fns';
+import { Monitor, Smartphone, LogOut } from 'lucide-react';
+import { UserSession } from '../types';
+import LoadingSpinner from './LoadingSpinner';
+
+interface SessionListProps {
+  sessions: UserSession[];
+  revokingId: string | null;
+  onRevoke: (session: UserSession) => void;
+}
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const PLATFORMS: [RegExp, string][] = [
+  [/iPhone|iPad/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Linux/, 'Linux'],
+];
+
+// "Chrome on Windows", near enough to recognise a device by
+function describeUserAgent(userAgent: string | null) {
+  if (!userAgent) return 'Unknown device';
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (!browser && !platform) return 'Unknown device';
+  return [browser || 'Browser', platform].filter(Boolean).join(' on ');
+}
+
+export default function SessionList({ sessions, revokingId, onRevoke }: SessionListProps) {
+  if (sessions.length === 0) {
+    return <div className="p-8 text-center text-gray-500">No active sessions</div>;
+  }
+
+  return (
+    <div className="divide-y divide-gray-100">
+      {sessions.map((session) => {
+        const isMobile = /Mobi|iPhone|Android/.test(session.userAgent || '');
+        const Icon = isMobile ? Smartphone : Monitor;
+
+        return (
+          <div key={session.id} className="p-4 flex items-center gap-3">
+            <div className="p-1.5 bg-gray-100 rounded-lg flex-shrink-0">
+              <Icon size={16} className="text-gray-500" />
+            </div>
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-gray-800">
+                {describeUserAgent(session.userAgent)}
+                {session.current && (
+                  <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-700">
+                    This browser
+                  </span>
+                )}
+              </p>
+              <p className="text-xs text-gray-500">
+                {session.ipAddress && `${session.ipAddress} · `}
+                Active {formatDistanceToNow(new Date(session.lastActiveAt), { addSuffix: true })} ·
+                Signed in {format(new Date(session.createdAt), 'dd MMM yyyy HH:mm')}
+              </p>
+            </div>
+            {revokingId === session.id ? (
+              <LoadingSpinner size="sm" />
+            ) : (
+              <button
+                onClick={() => onRevoke(session)}
+                className="px-3 py-1.5 text-sm text-gray-600 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors flex items-center gap-1.5"
+                title="Sign out this session"
+              >
+                <LogOut size={16} />
+                Sign out
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
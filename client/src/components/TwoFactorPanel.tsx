@@ -0,0 +1,283 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { KeyRound, ShieldCheck, ShieldOff } from 'lucide-react';
+import { api } from '../utils/api';
+import { TwoFactorStatus } from '../types';
+import LoadingSpinner from './LoadingSpinner';
+import RecoveryCodes from './RecoveryCodes';
+import TwoFactorSetup from './TwoFactorSetup';
+
+type Dialog = 'setup' | 'recovery' | 'disable' | null;
+
+const inputClass =
+  'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-openserve-green focus:border-openserve-green outline-none';
+
+// The current user's two-factor sign-in: turn it on, replace recovery codes or turn it off
+export default function TwoFactorPanel() {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [dialog, setDialog] = useState<Dialog>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [newCodes, setNewCodes] = useState<string[] | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const fetchStatus = async () => {
+    try {
+      setStatus(await api.get('/auth/2fa'));
+    } catch (err: any) {
+      setError(err.message || 'Failed to load two-factor authentication');
+    }
+  };
+
+  useEffect(() => {
+    fetchStatus();
+  }, []);
+
+  const openDialog = (next: Dialog) => {
+    setDialog(next);
+    setCode('');
+    setPassword('');
+    setNewCodes(null);
+    setError('');
+  };
+
+  const closeDialog = () => {
+    setDialog(null);
+    fetchStatus();
+  };
+
+  const handleRecoveryCodes = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsSubmitting(true);
+    try {
+      const response = await api.post('/auth/2fa/recovery-codes', { code });
+      setNewCodes(response.recoveryCodes);
+    } catch (err: any) {
+      setError(err.message || 'Failed to replace recovery codes');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDisable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsSubmitting(true);
+    try {
+      await api.post('/auth/2fa/disable', { password, code });
+      closeDialog();
+    } catch (err: any) {
+      setError(err.message || 'Failed to turn off two-factor authentication');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 mb-6">
+      <div className="p-4 border-b border-gray-200 flex items-center justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800">Two-factor authentication</h2>
+          <p className="text-sm text-gray-500">
+            Ask for a code from an authenticator app as well as your password
+          </p>
+        </div>
+        {status && !status.enabled && (
+          <button
+            onClick={() => openDialog('setup')}
+            className="bg-openserve-green hover:bg-openserve-green-dark text-white font-medium py-2 px-4 rounded-lg transition-colors flex items-center gap-2"
+          >
+            <ShieldCheck size={18} />
+            Set up
+          </button>
+        )}
+      </div>
+
+      {error && !dialog && (
+        <div className="m-4 p-3 bg-red-50 border border-red-200 text-red-600 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      {!status ? (
+        !error && (
+          <div className="flex justify-center p-8">
+            <LoadingSpinner />
+          </div>
+        )
+      ) : status.enabled ? (
+        <div className="p-4 flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div className="text-sm">
+            <p className="font-medium text-green-700 flex items-center gap-2">
+              <ShieldCheck size={16} />
+              On
+              {status.enabledAt && ` since ${format(new Date(status.enabledAt), 'dd MMM yyyy')}`}
+            </p>
+            <p className={status.recoveryCodesRemaining <= 2 ? 'text-amber-600' : 'text-gray-500'}>
+              {status.recoveryCodesRemaining} recovery code
+              {status.recoveryCodesRemaining === 1 ? '' : 's'} left
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => openDialog('recovery')}
+              className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-2 text-sm"
+            >
+              <KeyRound size={16} />
+              New recovery codes
+            </button>
+            {!status.required && (
+              <button
+                onClick={() => openDialog('disable')}
+                className="px-4 py-2 text-gray-600 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors flex items-center gap-2 text-sm"
+              >
+                <ShieldOff size={16} />
+                Turn off
+              </button>
+            )}
+          </div>
+        </div>
+      ) : (
+        <p className="p-4 text-sm text-gray-500">
+          {status.required
+            ? "Your role requires two-factor authentication. You'll be asked to set it up the next time you sign in."
+            : 'Two-factor authentication is off.'}
+        </p>
+      )}
+
+      {dialog && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-xl max-w-md w-full p-6 max-h-[90vh] overflow-y-auto">
+            {dialog === 'setup' && (
+              <>
+                <h3 className="text-lg font-semibold text-gray-800 mb-4">
+                  Set up two-factor authentication
+                </h3>
+                <TwoFactorSetup
+                  start={() => api.post('/auth/2fa/setup')}
+                  confirm={async (setupCode) => {
+                    const response = await api.post('/auth/2fa/enable', { code: setupCode });
+                    return response.recoveryCodes;
+                  }}
+                  onDone={closeDialog}
+                  onCancel={closeDialog}
+                />
+              </>
+            )}
+
+            {dialog === 'recovery' && (
+              <>
+                <h3 className="text-lg font-semibold text-gray-800 mb-4">New recovery codes</h3>
+                {newCodes ? (
+                  <>
+                    <RecoveryCodes codes={newCodes} />
+                    <button
+                      onClick={closeDialog}
+                      className="mt-6 w-full bg-openserve-green hover:bg-openserve-green-dark text-white font-medium py-2.5 px-4 rounded-lg transition-colors"
+                    >
+                      Done
+                    </button>
+                  </>
+                ) : (
+                  <form onSubmit={handleRecoveryCodes} className="space-y-4">
+                    <p className="text-sm text-gray-500">
+                      Your current recovery codes will stop working. Enter a code from your
+                      authenticator app to continue.
+                    </p>
+                    {error && (
+                      <div className="p-3 bg-red-50 border border-red-200 text-red-600 rounded-lg text-sm">
+                        {error}
+                      </div>
+                    )}
+                    <input
+                      type="text"
+                      autoComplete="one-time-code"
+                      value={code}
+                      onChange={(e) => setCode(e.target.value)}
+                      className={`${inputClass} font-mono tracking-widest`}
+                      placeholder="123456"
+                      required
+                    />
+                    <div className="flex justify-end gap-3">
+                      <button
+                        type="button"
+                        onClick={closeDialog}
+                        className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                        disabled={isSubmitting}
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        type="submit"
+                        disabled={isSubmitting}
+                        className="px-4 py-2 bg-openserve-green hover:bg-openserve-green-dark text-white rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50"
+                      >
+                        {isSubmitting && <LoadingSpinner size="sm" />}
+                        Replace codes
+                      </button>
+                    </div>
+                  </form>
+                )}
+              </>
+            )}
+
+            {dialog === 'disable' && (
+              <form onSubmit={handleDisable} className="space-y-4">
+                <h3 className="text-lg font-semibold text-gray-800">
+                  Turn off two-factor authentication?
+                </h3>
+                <p className="text-sm text-gray-500">
+                  You'll only need your password to sign in. Confirm with your password and a code
+                  from your authenticator app.
+                </p>
+                {error && (
+                  <div className="p-3 bg-red-50 border border-red-200 text-red-600 rounded-lg text-sm">
+                    {error}
+                  </div>
+                )}
+                <input
+                  type="password"
+                  autoComplete="current-password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className={inputClass}
+                  placeholder="Password"
+                  required
+                />
+                <input
+                  type="text"
+                  autoComplete="one-time-code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  className={`${inputClass} font-mono tracking-widest`}
+                  placeholder="123456"
+                  required
+                />
+                <div className="flex justify-end gap-3">
+                  <button
+                    type="button"
+                    onClick={closeDialog}
+                    className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                    disabled={isSubmitting}
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={isSubmitting}
+                    className="px-4 py-2 bg-red-500 hover:bg-red-600 text-white rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50"
+                  >
+                    {isSubmitting && <LoadingSpinner size="sm" />}
+                    Turn off
+                  </button>
+                </div>
+              </form>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
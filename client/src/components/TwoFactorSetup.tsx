@@ -0,0 +1,153 @@
+import { useEffect, useState } from 'react';
+import { ShieldCheck } from 'lucide-react';
+import { TotpEnrolment } from '../types';
+import LoadingSpinner from './LoadingSpinner';
+import RecoveryCodes from './RecoveryCodes';
+
+interface TwoFactorSetupProps {
+  start: () => Promise<TotpEnrolment>;
+  confirm: (code: string) => Promise<string[]>;
+  onDone: () => void;
+  onCancel?: () => void;
+  doneLabel?: string;
+}
+
+// Scan a QR code into an authenticator app, confirm with its first code, then save the recovery codes.
+// Used from the profile page and during sign-in when a role requires two-factor authentication
+export default function TwoFactorSetup({
+  start,
+  confirm,
+  onDone,
+  onCancel,
+  doneLabel = 'Done',
+}: TwoFactorSetupProps) {
+  const [enrolment, setEnrolment] = useState<TotpEnrolment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [isStarting, setIsStarting] = useState(true);
+  const [isConfirming, setIsConfirming] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    start()
+      .then(setEnrolment)
+      .catch((err: any) => setError(err.message || 'Failed to start two-factor setup'))
+      .finally(() => setIsStarting(false));
+  }, []);
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsConfirming(true);
+    try {
+      setRecoveryCodes(await confirm(code));
+    } catch (err: any) {
+      setError(err.message || 'Failed to turn on two-factor authentication');
+    } finally {
+      setIsConfirming(false);
+    }
+  };
+
+  if (isStarting) {
+    return (
+      <div className="flex justify-center py-8">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  if (recoveryCodes) {
+    return (
+      <div>
+        <div className="mb-4 p-3 bg-green-50 border border-green-200 text-green-700 rounded-lg text-sm flex items-center gap-2">
+          <ShieldCheck size={16} />
+          Two-factor authentication is on
+        </div>
+        <RecoveryCodes codes={recoveryCodes} />
+        <button
+          type="button"
+          onClick={onDone}
+          className="mt-6 w-full bg-openserve-green hover:bg-openserve-green-dark text-white font-medium py-2.5 px-4 rounded-lg transition-colors"
+        >
+          {doneLabel}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 text-red-600 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      {enrolment && (
+        <form onSubmit={handleConfirm} className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Scan this QR code with an authenticator app such as Google Authenticator, Microsoft
+            Authenticator or 1Password, then enter the 6-digit code it shows.
+          </p>
+          <div className="flex justify-center">
+            <img
+              src={enrolment.qrCode}
+              alt="QR code for your authenticator app"
+              className="w-48 h-48 border border-gray-200 rounded-lg"
+            />
+          </div>
+          <div>
+            <p className="text-xs text-gray-500 mb-1">Can't scan it? Enter this key instead:</p>
+            <code className="block px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg text-sm font-mono text-gray-800 break-all">
+              {enrolment.secret.match(/.{1,4}/g)?.join(' ')}
+            </code>
+          </div>
+          <div>
+            <label htmlFor="totpCode" className="block text-sm font-medium text-gray-700 mb-1">
+              Code from the app
+            </label>
+            <input
+              id="totpCode"
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-openserve-green focus:border-openserve-green outline-none transition-colors font-mono tracking-widest"
+              placeholder="123456"
+              required
+            />
+          </div>
+          <div className="flex gap-3">
+            {onCancel && (
+              <button
+                type="button"
+                onClick={onCancel}
+                className="flex-1 px-4 py-2.5 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+            )}
+            <button
+              type="submit"
+              disabled={isConfirming}
+              className="flex-1 bg-openserve-green hover:bg-openserve-green-dark text-white font-medium py-2.5 px-4 rounded-lg transition-colors flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isConfirming ? <LoadingSpinner size="sm" /> : 'Verify and turn on'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {!enrolment && onCancel && (
+        <button
+          type="button"
+          onClick={onCancel}
+          className="w-full px-4 py-2.5 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+        >
+          Back
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,258 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Eye, EyeOff, UserPlus } from 'lucide-react';
+import { api } from '../utils/api';
+import { useAuthStore } from '../store/authStore';
+import { UserRole } from '../types';
+import LoadingSpinner from '../components/LoadingSpinner';
+import TwoFactorSetup from '../components/TwoFactorSetup';
+
+interface InviteDetails {
+  email: string;
+  name: string | null;
+  role: UserRole;
+  invitedBy: string | null;
+  expiresAt: string;
+}
+
+const roleLabels: Record<UserRole, string> = {
+  staff: 'Staff',
+  admin: 'Admin',
+  superadmin: 'Super Admin',
+};
+
+export default function AcceptInvitePage() {
+  const [searchParams] = useSearchParams();
+  const [invite, setInvite] = useState<InviteDetails | null>(null);
+  const [isLoadingInvite, setIsLoadingInvite] = useState(true);
+  const [name, setName] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [setupChallenge, setSetupChallenge] = useState<string | null>(null);
+  const { fetchUser } = useAuthStore();
+  const navigate = useNavigate();
+
+  // The token comes from the link in the invitation email
+  const token = searchParams.get('token') || '';
+
+  useEffect(() => {
+    if (!token) {
+      setIsLoadingInvite(false);
+      return;
+    }
+
+    api
+      .get(`/auth/invite?token=${encodeURIComponent(token)}`)
+      .then((response) => {
+        setInvite(response.invite);
+        setName(response.invite.name || '');
+      })
+      .catch(() => setInvite(null))
+      .finally(() => setIsLoadingInvite(false));
+  }, [token]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    if (password.length < 8) {
+      setError('Password must be at least 8 characters');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await api.post('/auth/accept-invite', { token, name, password });
+      // The account exists, but the role has to set up two-factor sign-in before a session starts
+      if (response.twoFactor === 'setup') {
+        setSetupChallenge(response.challengeToken);
+        setIsLoading(false);
+        return;
+      }
+      // The server has signed us in, so load the new account before entering the app
+      await fetchUser();
+      navigate('/', { replace: true });
+    } catch (err: any) {
+      setError(err.message || 'Failed to accept invite');
+      setIsLoading(false);
+    }
+  };
+
+  const handleSetupDone = async () => {
+    await fetchUser();
+    navigate('/', { replace: true });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100 flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        {/* Logo */}
+        <div className="text-center mb-8">
+          <div className="w-16 h-16 bg-openserve-green rounded-2xl flex items-center justify-center mx-auto mb-4">
+            <span className="text-white font-bold text-3xl">O</span>
+          </div>
+          <h1 className="text-2xl font-bold text-gray-800">OpenServe</h1>
+          <p className="text-gray-500">Milestone Tracker</p>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+          {isLoadingInvite ? (
+            <div className="flex justify-center py-8">
+              <LoadingSpinner />
+            </div>
+          ) : setupChallenge ? (
+            <>
+              <h2 className="text-xl font-semibold text-gray-800 mb-2">
+                Set up two-factor authentication
+              </h2>
+              <p className="text-gray-500 text-sm mb-6">
+                Your account is ready. Your role requires a code from an authenticator app when
+                signing in, so set one up to finish.
+              </p>
+              <TwoFactorSetup
+                start={() => api.post('/auth/login/setup', { challengeToken: setupChallenge })}
+                confirm={async (code) => {
+                  const response = await api.post('/auth/login/setup/confirm', {
+                    challengeToken: setupChallenge,
+                    code,
+                  });
+                  return response.recoveryCodes;
+                }}
+                onDone={handleSetupDone}
+                doneLabel="Continue"
+              />
+            </>
+          ) : !invite ? (
+            <>
+              <h2 className="text-xl font-semibold text-gray-800 mb-4">Invitation unavailable</h2>
+              <div className="p-3 bg-red-50 border border-red-200 text-red-600 rounded-lg text-sm">
+                This invitation is invalid or has expired. Ask whoever invited you to send a new
+                one.
+              </div>
+            </>
+          ) : (
+            <>
+              <h2 className="text-xl font-semibold text-gray-800 mb-2">Join OpenServe</h2>
+              <p className="text-gray-500 text-sm mb-6">
+                {invite.invitedBy ? `${invite.invitedBy} has invited you` : "You've been invited"}{' '}
+                to join as {roleLabels[invite.role] || invite.role}. This invitation expires on{' '}
+                {format(new Date(invite.expiresAt), 'dd MMM yyyy')}.
+              </p>
+
+              {error && (
+                <div className="mb-4 p-3 bg-red-50 border border-red-200 text-red-600 rounded-lg text-sm">
+                  {error}
+                </div>
+              )}
+
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Email address
+                  </label>
+                  <input
+                    type="email"
+                    value={invite.email}
+                    className="w-full px-4 py-2 border border-gray-200 rounded-lg bg-gray-50 text-gray-500"
+                    disabled
+                  />
+                </div>
+
+                <div>
+                  <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-1">
+                    Full name
+                  </label>
+                  <input
+                    id="name"
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-openserve-green focus:border-openserve-green outline-none transition-colors"
+                    placeholder="John Doe"
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label
+                    htmlFor="password"
+                    className="block text-sm font-medium text-gray-700 mb-1"
+                  >
+                    Password
+                  </label>
+                  <div className="relative">
+                    <input
+                      id="password"
+                      type={showPassword ? 'text' : 'password'}
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-openserve-green focus:border-openserve-green outline-none transition-colors pr-10"
+                      placeholder="At least 8 characters"
+                      required
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setShowPassword(!showPassword)}
+                      className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600"
+                    >
+                      {showPassword ? <EyeOff size={20} /> : <Eye size={20} />}
+                    </button>
+                  </div>
+                </div>
+
+                <div>
+                  <label
+                    htmlFor="confirmPassword"
+                    className="block text-sm font-medium text-gray-700 mb-1"
+                  >
+                    Confirm password
+                  </label>
+                  <input
+                    id="confirmPassword"
+                    type={showPassword ? 'text' : 'password'}
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-openserve-green focus:border-openserve-green outline-none transition-colors"
+                    placeholder="Repeat your password"
+                    required
+                  />
+                </div>
+
+                <button
+                  type="submit"
+                  disabled={isLoading}
+                  className="w-full bg-openserve-green hover:bg-openserve-green-dark text-white font-medium py-2.5 px-4 rounded-lg transition-colors flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isLoading ? (
+                    <LoadingSpinner size="sm" />
+                  ) : (
+                    <>
+                      <UserPlus size={20} />
+                      Accept invitation
+                    </>
+                  )}
+                </button>
+              </form>
+            </>
+          )}
+
+          <div className="mt-6 text-center text-sm text-gray-500">
+            Already have an account?{' '}
+            <Link to="/login" className="text-openserve-green hover:underline font-medium">
+              Sign in
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,386 @@
+import { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { format, startOfMonth, subMonths } from 'date-fns';
+import { CheckCircle, Clock, AlertTriangle, AlertCircle } from 'lucide-react';
+import { api } from '../utils/api';
+import { useServerEvents } from '../utils/events';
+import { useAuthStore } from '../store/authStore';
+import {
+  AnalyticsSummary,
+  AnalyticsTrend,
+  PhaseAnalytics,
+  ProjectStatus,
+  UserSummary,
+} from '../types';
+import LoadingSpinner from '../components/LoadingSpinner';
+
+const FILTER_KEYS = ['from', 'to', 'createdBy'];
+
+const filterInputClass =
+  'px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-openserve-green focus:border-openserve-green outline-none transition-colors';
+
+const STATUS_CARDS: {
+  status: ProjectStatus;
+  label: string;
+  icon: typeof CheckCircle;
+  color: string;
+}[] = [
+  { status: 'on-track', label: 'On Track', icon: Clock, color: 'text-green-500' },
+  { status: 'at-risk', label: 'At Risk', icon: AlertTriangle, color: 'text-yellow-500' },
+  { status: 'overdue', label: 'Overdue', icon: AlertCircle, color: 'text-red-500' },
+  { status: 'complete', label: 'Complete', icon: CheckCircle, color: 'text-gray-500' },
+];
+
+// Height of the tallest trend bar, in pixels
+const TREND_CHART_HEIGHT = 160;
+
+const formatDays = (days: number | null) => (days === null ? '-' : days.toFixed(1));
+
+export default function AnalyticsPage() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [summary, setSummary] = useState<AnalyticsSummary | null>(null);
+  const [phases, setPhases] = useState<PhaseAnalytics[]>([]);
+  const [trends, setTrends] = useState<AnalyticsTrend[]>([]);
+  const [trendInterval, setTrendInterval] = useState<'week' | 'month'>('month');
+  const [users, setUsers] = useState<UserSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const { user } = useAuthStore();
+
+  // Filters live in the URL; the server defaults to the last twelve months
+  const filterParams = new URLSearchParams();
+  for (const key of FILTER_KEYS) {
+    const value = searchParams.get(key);
+    if (value) filterParams.set(key, value);
+  }
+  const query = filterParams.toString();
+
+  const fetchAnalytics = async () => {
+    try {
+      const [summaryResponse, phasesResponse, trendsResponse] = await Promise.all([
+        api.get(`/analytics/summary?${query}`),
+        api.get(`/analytics/phases?${query}`),
+        api.get(`/analytics/trends?${query}`),
+      ]);
+      setSummary(summaryResponse);
+      setPhases(phasesResponse.phases || []);
+      setTrends(trendsResponse.trends || []);
+      setTrendInterval(trendsResponse.interval || 'month');
+      setError('');
+    } catch (err: any) {
+      setError(err.message || 'Failed to load analytics');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchAnalytics();
+  }, [query]);
+
+  useEffect(() => {
+    api
+      .get('/users/directory')
+      .then((response) => setUsers(response.users || []))
+      .catch((error) => console.error('Failed to fetch users:', error));
+  }, []);
+
+  useServerEvents((event) => {
+    if (event.type !== 'notifications') {
+      fetchAnalytics();
+    }
+  });
+
+  const handleFilterChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const params = new URLSearchParams(searchParams);
+    if (e.target.value) {
+      params.set(e.target.name, e.target.value);
+    } else {
+      params.delete(e.target.name);
+    }
+    setSearchParams(params, { replace: true });
+  };
+
+  const clearFilters = () => {
+    setSearchParams(new URLSearchParams(), { replace: true });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  const hasFilters = FILTER_KEYS.some((key) => searchParams.get(key));
+  const maxAgeing = Math.max(...(summary?.overdueAgeing.map((bucket) => bucket.count) || []), 1);
+  const maxCompleted = Math.max(...trends.map((trend) => trend.phasesCompleted), 1);
+  const maxCreated = Math.max(
+    ...trends.flatMap((trend) => [trend.projectsCreated, trend.deadlinesMissed]),
+    1
+  );
+  const periodLabel = (period: string) =>
+    format(new Date(`${period}T00:00:00`), trendInterval === 'week' ? 'dd MMM' : 'MMM yy');
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-800">Analytics</h1>
+        <p className="text-gray-500">How projects and phases are tracking against their deadlines</p>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-2 mb-6">
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          From
+          <input
+            type="date"
+            name="from"
+            value={
+              searchParams.get('from') || format(subMonths(startOfMonth(new Date()), 11), 'yyyy-MM-dd')
+            }
+            onChange={handleFilterChange}
+            className={filterInputClass}
+          />
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          To
+          <input
+            type="date"
+            name="to"
+            value={searchParams.get('to') || format(new Date(), 'yyyy-MM-dd')}
+            onChange={handleFilterChange}
+            className={filterInputClass}
+          />
+        </label>
+        <select
+          name="createdBy"
+          value={searchParams.get('createdBy') || ''}
+          onChange={handleFilterChange}
+          className={filterInputClass}
+        >
+          <option value="">Created by anyone</option>
+          {user && <option value={user.id}>Created by me</option>}
+          {users
+            .filter((u) => u.id !== user?.id)
+            .map((u) => (
+              <option key={u.id} value={u.id}>
+                Created by {u.name}
+              </option>
+            ))}
+        </select>
+        {hasFilters && (
+          <button
+            onClick={clearFilters}
+            className="px-3 py-2 text-sm text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 text-red-600 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      {/* Projects by status */}
+      {summary && (
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+          {STATUS_CARDS.map(({ status, label, icon: Icon, color }) => (
+            <div key={status} className="bg-white rounded-xl shadow-sm border border-gray-200 p-4">
+              <div className="flex items-center gap-2 text-sm text-gray-500">
+                <Icon size={18} className={color} />
+                {label}
+              </div>
+              <p className="text-2xl font-bold text-gray-800 mt-2">
+                {summary.statusCounts[status]}
+              </p>
+              <p className="text-xs text-gray-400">
+                {summary.totalProjects > 0
+                  ? `${Math.round((summary.statusCounts[status] / summary.totalProjects) * 100)}% of ${
+                      summary.totalProjects
+                    } projects created`
+                  : 'No projects created'}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
+        {/* Phase performance */}
+        <div className="lg:col-span-2 bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+          <div className="p-4 border-b border-gray-200">
+            <h2 className="font-semibold text-gray-800">Phase performance</h2>
+            <p className="text-sm text-gray-500">
+              Phases completed in the period, in business days
+            </p>
+          </div>
+          {phases.length === 0 ? (
+            <div className="p-8 text-center text-gray-500">No phases completed in this period</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-left text-gray-600">
+                  <tr>
+                    <th className="px-4 py-3 font-semibold">Phase</th>
+                    <th className="px-4 py-3 font-semibold text-right">Completed</th>
+                    <th className="px-4 py-3 font-semibold">On time</th>
+                    <th className="px-4 py-3 font-semibold text-right">Avg allowed</th>
+                    <th className="px-4 py-3 font-semibold text-right">Avg actual</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {phases.map((phase) => (
+                    <tr key={phase.phaseName}>
+                      <td className="px-4 py-3 font-medium text-gray-800">{phase.displayName}</td>
+                      <td className="px-4 py-3 text-right text-gray-600">{phase.completed}</td>
+                      <td className="px-4 py-3">
+                        <div className="flex items-center gap-2">
+                          <div className="w-24 h-2 bg-gray-100 rounded-full overflow-hidden">
+                            <div
+                              className="h-full bg-openserve-green"
+                              style={{ width: `${phase.onTimeRate ?? 0}%` }}
+                            />
+                          </div>
+                          <span className="text-gray-600">{phase.onTimeRate ?? 0}%</span>
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 text-right text-gray-600">
+                        {formatDays(phase.averageAllowedDays)}
+                      </td>
+                      <td
+                        className={`px-4 py-3 text-right ${
+                          (phase.averageActualDays ?? 0) > (phase.averageAllowedDays ?? 0)
+                            ? 'text-red-600 font-medium'
+                            : 'text-gray-600'
+                        }`}
+                      >
+                        {formatDays(phase.averageActualDays)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        {/* Overdue ageing */}
+        {summary && (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4">
+            <h2 className="font-semibold text-gray-800">Overdue phases</h2>
+            <p className="text-sm text-gray-500 mb-4">Open phases by business days overdue</p>
+            <div className="space-y-3">
+              {summary.overdueAgeing.map((bucket) => (
+                <div key={bucket.label}>
+                  <div className="flex justify-between text-sm mb-1">
+                    <span className="text-gray-600">{bucket.label}</span>
+                    <span className="font-medium text-gray-800">{bucket.count}</span>
+                  </div>
+                  <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-red-500"
+                      style={{ width: `${(bucket.count / maxAgeing) * 100}%` }}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Trends */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4">
+          <h2 className="font-semibold text-gray-800">Phases completed</h2>
+          <div className="flex flex-wrap items-center gap-3 text-xs text-gray-600 mt-1 mb-4">
+            <span className="flex items-center gap-1.5">
+              <span className="w-3 h-2 rounded-sm bg-openserve-green" />
+              On time
+            </span>
+            <span className="flex items-center gap-1.5">
+              <span className="w-3 h-2 rounded-sm bg-orange-400" />
+              Late
+            </span>
+          </div>
+          <div className="overflow-x-auto">
+            <div className="flex items-end gap-1 min-w-max" style={{ height: TREND_CHART_HEIGHT + 40 }}>
+              {trends.map((trend) => (
+                <div key={trend.period} className="flex flex-col items-center w-10">
+                  <span className="text-[10px] text-gray-500 mb-1">
+                    {trend.onTimeRate === null ? '' : `${trend.onTimeRate}%`}
+                  </span>
+                  <div
+                    className="w-6 flex flex-col justify-end"
+                    style={{ height: TREND_CHART_HEIGHT }}
+                    title={`${trend.phasesOnTime} of ${trend.phasesCompleted} on time`}
+                  >
+                    <div
+                      className="bg-orange-400 rounded-t"
+                      style={{
+                        height:
+                          ((trend.phasesCompleted - trend.phasesOnTime) / maxCompleted) *
+                          TREND_CHART_HEIGHT,
+                      }}
+                    />
+                    <div
+                      className="bg-openserve-green"
+                      style={{ height: (trend.phasesOnTime / maxCompleted) * TREND_CHART_HEIGHT }}
+                    />
+                  </div>
+                  <span className="text-[10px] text-gray-500 mt-1 whitespace-nowrap">
+                    {periodLabel(trend.period)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4">
+          <h2 className="font-semibold text-gray-800">Projects created and deadlines missed</h2>
+          <div className="flex flex-wrap items-center gap-3 text-xs text-gray-600 mt-1 mb-4">
+            <span className="flex items-center gap-1.5">
+              <span className="w-3 h-2 rounded-sm bg-blue-500" />
+              Projects created
+            </span>
+            <span className="flex items-center gap-1.5">
+              <span className="w-3 h-2 rounded-sm bg-red-500" />
+              Deadlines missed
+            </span>
+          </div>
+          <div className="overflow-x-auto">
+            <div className="flex items-end gap-1 min-w-max" style={{ height: TREND_CHART_HEIGHT + 40 }}>
+              {trends.map((trend) => (
+                <div key={trend.period} className="flex flex-col items-center w-10">
+                  <div className="flex items-end gap-0.5" style={{ height: TREND_CHART_HEIGHT }}>
+                    <div
+                      className="w-3 bg-blue-500 rounded-t"
+                      style={{ height: (trend.projectsCreated / maxCreated) * TREND_CHART_HEIGHT }}
+                      title={`${trend.projectsCreated} projects created`}
+                    />
+                    <div
+                      className="w-3 bg-red-500 rounded-t"
+                      style={{ height: (trend.deadlinesMissed / maxCreated) * TREND_CHART_HEIGHT }}
+                      title={`${trend.deadlinesMissed} deadlines missed`}
+                    />
+                  </div>
+                  <span className="text-[10px] text-gray-500 mt-1 whitespace-nowrap">
+                    {periodLabel(trend.period)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
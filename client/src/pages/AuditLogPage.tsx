@@ -0,0 +1,198 @@
+import { useState, useEffect } from 'react';
+import { api } from '../utils/api';
+import { AuditEntry } from '../types';
+import { Search } from 'lucide-react';
+import LoadingSpinner from '../components/LoadingSpinner';
+import AuditEntryList from '../components/AuditEntryList';
+
+const ENTITY_TYPE_OPTIONS = [
+  { value: '', label: 'All records' },
+  { value: 'project', label: 'Projects' },
+  { value: 'phase', label: 'Phases' },
+  { value: 'user', label: 'Users' },
+  { value: 'settings', label: 'Settings' },
+  { value: 'template', label: 'Phase templates' },
+  { value: 'holiday', label: 'Holidays' },
+  { value: 'blackout', label: 'Shutdown periods' },
+  { value: 'webhook', label: 'Webhooks' },
+  { value: 'invite', label: 'Invites' },
+];
+
+const ACTION_OPTIONS = [
+  { value: '', label: 'All actions' },
+  { value: 'create', label: 'Created' },
+  { value: 'update', label: 'Updated' },
+  { value: 'delete', label: 'Deleted' },
+  { value: 'complete', label: 'Completed' },
+  { value: 'uncomplete', label: 'Reopened' },
+];
+
+const inputClass =
+  'px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-openserve-green focus:border-openserve-green outline-none transition-colors';
+
+export default function AuditLogPage() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [searchInput, setSearchInput] = useState('');
+  const [filters, setFilters] = useState({
+    q: '',
+    entityType: '',
+    action: '',
+    from: '',
+    to: '',
+  });
+  const [error, setError] = useState('');
+
+  const buildQuery = (cursor?: string) => {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(filters)) {
+      if (value) params.set(key, value);
+    }
+    if (cursor) params.set('cursor', cursor);
+    return params.toString();
+  };
+
+  const fetchEntries = async () => {
+    setError('');
+    setIsLoading(true);
+    try {
+      const response = await api.get(`/audit?${buildQuery()}`);
+      setEntries(response.entries || []);
+      setNextCursor(response.nextCursor || null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load audit log');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+    setIsLoadingMore(true);
+    try {
+      const response = await api.get(`/audit?${buildQuery(nextCursor)}`);
+      setEntries((prev) => [...prev, ...(response.entries || [])]);
+      setNextCursor(response.nextCursor || null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load audit log');
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchEntries();
+  }, [filters]);
+
+  const handleFilterChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
+  ) => {
+    const { name, value } = e.target;
+    setFilters((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setFilters((prev) => ({ ...prev, q: searchInput.trim() }));
+  };
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-800">Audit Log</h1>
+        <p className="text-gray-500">
+          Every change to projects, phases, users and settings
+        </p>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-col lg:flex-row gap-3 mb-6">
+        <form onSubmit={handleSearch} className="relative flex-1">
+          <Search
+            size={20}
+            className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400"
+          />
+          <input
+            type="text"
+            placeholder="Search by description, person or record ID..."
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            className={`w-full pl-10 pr-4 ${inputClass}`}
+          />
+        </form>
+        <select
+          name="entityType"
+          value={filters.entityType}
+          onChange={handleFilterChange}
+          className={inputClass}
+        >
+          {ENTITY_TYPE_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <select
+          name="action"
+          value={filters.action}
+          onChange={handleFilterChange}
+          className={inputClass}
+        >
+          {ACTION_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <input
+          type="date"
+          name="from"
+          value={filters.from}
+          onChange={handleFilterChange}
+          className={inputClass}
+          title="From"
+        />
+        <input
+          type="date"
+          name="to"
+          value={filters.to}
+          onChange={handleFilterChange}
+          className={inputClass}
+          title="To"
+        />
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 text-red-600 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        {isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : (
+          <>
+            <AuditEntryList entries={entries} showProjectLinks />
+            {nextCursor && (
+              <div className="p-4 border-t border-gray-200 text-center">
+                <button
+                  onClick={handleLoadMore}
+                  disabled={isLoadingMore}
+                  className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+                >
+                  {isLoadingMore ? 'Loading...' : 'Load more'}
+                </button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
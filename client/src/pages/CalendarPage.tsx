@@ -0,0 +1,393 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  isSameMonth,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import {
+  ChevronLeft,
+  ChevronRight,
+  Rss,
+  Copy,
+  Check,
+  RefreshCw,
+  X,
+} from 'lucide-react';
+import { api } from '../utils/api';
+import { useServerEvents } from '../utils/events';
+import { CalendarDeadline } from '../types';
+import LoadingSpinner from '../components/LoadingSpinner';
+
+type CalendarView = 'month' | 'week';
+
+// Weeks start on Monday
+const WEEK_OPTIONS = { weekStartsOn: 1 as const };
+
+// Deadlines shown in a month cell before "+N more"
+const MAX_MONTH_CELL_DEADLINES = 3;
+
+const STATUS_STYLES: Record<CalendarDeadline['deadlineStatus'], string> = {
+  overdue: 'bg-red-100 text-red-700 hover:bg-red-200',
+  urgent: 'bg-orange-100 text-orange-700 hover:bg-orange-200',
+  warning: 'bg-yellow-100 text-yellow-700 hover:bg-yellow-200',
+  'on-track': 'bg-green-50 text-green-700 hover:bg-green-100',
+};
+
+export default function CalendarPage() {
+  const [view, setView] = useState<CalendarView>('month');
+  const [currentDate, setCurrentDate] = useState(new Date());
+  const [scope, setScope] = useState<'all' | 'involved'>('all');
+  const [deadlines, setDeadlines] = useState<CalendarDeadline[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showFeed, setShowFeed] = useState(false);
+  const [feedUrl, setFeedUrl] = useState('');
+  const [copied, setCopied] = useState(false);
+  const [showResetConfirm, setShowResetConfirm] = useState(false);
+  const [isResetting, setIsResetting] = useState(false);
+  const [error, setError] = useState('');
+
+  const navigate = useNavigate();
+
+  const rangeStart =
+    view === 'month'
+      ? startOfWeek(startOfMonth(currentDate), WEEK_OPTIONS)
+      : startOfWeek(currentDate, WEEK_OPTIONS);
+  const rangeEnd =
+    view === 'month'
+      ? endOfWeek(endOfMonth(currentDate), WEEK_OPTIONS)
+      : endOfWeek(currentDate, WEEK_OPTIONS);
+  const from = format(rangeStart, 'yyyy-MM-dd');
+  const to = format(rangeEnd, 'yyyy-MM-dd');
+
+  const fetchDeadlines = async () => {
+    try {
+      const response = await api.get(`/calendar/deadlines?from=${from}&to=${to}&scope=${scope}`);
+      setDeadlines(response.deadlines || []);
+    } catch (error) {
+      console.error('Failed to fetch deadlines:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchDeadlines();
+  }, [from, to, scope]);
+
+  useServerEvents((event) => {
+    if (event.type !== 'notifications') {
+      fetchDeadlines();
+    }
+  });
+
+  const handleShowFeed = async () => {
+    if (showFeed) {
+      setShowFeed(false);
+      return;
+    }
+
+    setError('');
+    try {
+      const response = await api.get('/calendar/feed');
+      setFeedUrl(response.url);
+      setShowFeed(true);
+    } catch (err: any) {
+      setError(err.message || 'Failed to get calendar feed');
+    }
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy feed URL:', error);
+    }
+  };
+
+  const handleReset = async () => {
+    setIsResetting(true);
+    setError('');
+    try {
+      const response = await api.post('/calendar/feed/reset');
+      setFeedUrl(response.url);
+      setShowResetConfirm(false);
+    } catch (err: any) {
+      setError(err.message || 'Failed to reset calendar feed');
+    } finally {
+      setIsResetting(false);
+    }
+  };
+
+  const handlePrevious = () =>
+    setCurrentDate(view === 'month' ? addMonths(currentDate, -1) : addWeeks(currentDate, -1));
+  const handleNext = () =>
+    setCurrentDate(view === 'month' ? addMonths(currentDate, 1) : addWeeks(currentDate, 1));
+
+  const days: Date[] = [];
+  for (let day = rangeStart; day <= rangeEnd; day = addDays(day, 1)) {
+    days.push(day);
+  }
+
+  const deadlinesOn = (day: Date) =>
+    deadlines.filter((deadline) => isSameDay(new Date(deadline.deadline), day));
+
+  const renderDeadline = (deadline: CalendarDeadline) => (
+    <button
+      key={deadline.phaseId}
+      onClick={() => navigate(`/projects/${deadline.project.id}`)}
+      className={`w-full text-left px-2 py-1 rounded text-xs transition-colors ${
+        STATUS_STYLES[deadline.deadlineStatus]
+      }`}
+      title={`${deadline.project.orderNumber} (${deadline.project.customerName}): ${
+        deadline.displayName
+      }${deadline.assignee ? `, assigned to ${deadline.assignee.name}` : ''}`}
+    >
+      <span className="block truncate font-medium">{deadline.project.orderNumber}</span>
+      <span className="block truncate">{deadline.displayName}</span>
+    </button>
+  );
+
+  const title =
+    view === 'month'
+      ? format(currentDate, 'MMMM yyyy')
+      : `${format(rangeStart, 'dd MMM')} – ${format(rangeEnd, 'dd MMM yyyy')}`;
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-800">Calendar</h1>
+          <p className="text-gray-500">Deadlines of phases that are still open</p>
+        </div>
+        <button
+          onClick={handleShowFeed}
+          className="border border-gray-300 bg-white hover:bg-gray-50 text-gray-700 font-medium py-2.5 px-4 rounded-lg transition-colors flex items-center gap-2"
+        >
+          <Rss size={20} />
+          Subscribe
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 text-red-600 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      {/* Calendar feed */}
+      {showFeed && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 mb-6">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <h2 className="font-semibold text-gray-800">Subscribe in your calendar app</h2>
+              <p className="text-sm text-gray-500 mt-1">
+                Add this address to Outlook, Google Calendar or Apple Calendar to see open
+                deadlines on projects you own or watch. Moved deadlines update on the next
+                refresh. Keep the address private: anyone with it can see these deadlines.
+              </p>
+            </div>
+            <button
+              onClick={() => setShowFeed(false)}
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <X size={18} className="text-gray-500" />
+            </button>
+          </div>
+          <div className="flex flex-col md:flex-row gap-2 mt-3">
+            <input
+              type="text"
+              value={feedUrl}
+              readOnly
+              onFocus={(e) => e.target.select()}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono bg-gray-50"
+            />
+            <button
+              onClick={handleCopy}
+              className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors flex items-center justify-center gap-2 text-sm"
+            >
+              {copied ? <Check size={16} className="text-green-600" /> : <Copy size={16} />}
+              {copied ? 'Copied' : 'Copy'}
+            </button>
+            <a
+              href={feedUrl.replace(/^https?:/, 'webcal:')}
+              className="px-4 py-2 bg-openserve-green hover:bg-openserve-green-dark text-white rounded-lg transition-colors flex items-center justify-center gap-2 text-sm"
+            >
+              <Rss size={16} />
+              Open in calendar app
+            </a>
+            <button
+              onClick={() => setShowResetConfirm(true)}
+              className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors flex items-center justify-center gap-2 text-sm"
+            >
+              <RefreshCw size={16} />
+              Reset address
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <div className="flex items-center gap-1">
+          <button
+            onClick={handlePrevious}
+            className="p-2 border border-gray-300 bg-white rounded-lg hover:bg-gray-50 transition-colors"
+            title={`Previous ${view}`}
+          >
+            <ChevronLeft size={18} />
+          </button>
+          <button
+            onClick={() => setCurrentDate(new Date())}
+            className="px-3 py-2 border border-gray-300 bg-white rounded-lg hover:bg-gray-50 transition-colors text-sm"
+          >
+            Today
+          </button>
+          <button
+            onClick={handleNext}
+            className="p-2 border border-gray-300 bg-white rounded-lg hover:bg-gray-50 transition-colors"
+            title={`Next ${view}`}
+          >
+            <ChevronRight size={18} />
+          </button>
+        </div>
+        <h2 className="text-lg font-semibold text-gray-800 ml-2">{title}</h2>
+
+        <div className="flex items-center gap-2 sm:ml-auto">
+          <select
+            value={scope}
+            onChange={(e) => setScope(e.target.value as 'all' | 'involved')}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-openserve-green focus:border-openserve-green outline-none bg-white"
+          >
+            <option value="all">All projects</option>
+            <option value="involved">My work</option>
+          </select>
+          <div className="flex rounded-lg border border-gray-300 overflow-hidden text-sm">
+            {(['month', 'week'] as CalendarView[]).map((option) => (
+              <button
+                key={option}
+                onClick={() => setView(option)}
+                className={`px-3 py-2 capitalize transition-colors ${
+                  view === option
+                    ? 'bg-openserve-green text-white'
+                    : 'bg-white text-gray-600 hover:bg-gray-50'
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Calendar */}
+      {isLoading ? (
+        <div className="flex items-center justify-center h-64">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+          <div className="grid grid-cols-7 bg-gray-50 border-b border-gray-200">
+            {days.slice(0, 7).map((day) => (
+              <div key={day.toISOString()} className="px-2 py-2 text-xs font-semibold text-gray-600">
+                {format(day, 'EEE')}
+              </div>
+            ))}
+          </div>
+          <div className="grid grid-cols-7">
+            {days.map((day) => {
+              const dayDeadlines = deadlinesOn(day);
+              const isToday = isSameDay(day, new Date());
+              const visible =
+                view === 'month' ? dayDeadlines.slice(0, MAX_MONTH_CELL_DEADLINES) : dayDeadlines;
+              const hidden = dayDeadlines.length - visible.length;
+
+              return (
+                <div
+                  key={day.toISOString()}
+                  className={`border-b border-r border-gray-100 p-1.5 ${
+                    view === 'month' ? 'min-h-[7rem]' : 'min-h-[24rem]'
+                  } ${view === 'month' && !isSameMonth(day, currentDate) ? 'bg-gray-50' : ''}`}
+                >
+                  <div className="flex items-center justify-between mb-1">
+                    <span
+                      className={`inline-flex items-center justify-center w-6 h-6 rounded-full text-xs ${
+                        isToday
+                          ? 'bg-openserve-green text-white font-semibold'
+                          : view === 'month' && !isSameMonth(day, currentDate)
+                          ? 'text-gray-400'
+                          : 'text-gray-700'
+                      }`}
+                    >
+                      {format(day, 'd')}
+                    </span>
+                  </div>
+                  <div className="space-y-1">
+                    {visible.map(renderDeadline)}
+                    {hidden > 0 && (
+                      <button
+                        onClick={() => {
+                          setCurrentDate(day);
+                          setView('week');
+                        }}
+                        className="w-full text-left px-2 text-xs text-gray-500 hover:text-openserve-green"
+                      >
+                        +{hidden} more
+                      </button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Reset Confirmation Modal */}
+      {showResetConfirm && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-xl max-w-md w-full p-6">
+            <h3 className="text-lg font-semibold text-gray-800 mb-2">Reset Calendar Address?</h3>
+            <p className="text-gray-500 mb-6">
+              The current address stops working straight away. Calendar apps subscribed to it
+              will need the new address.
+            </p>
+            <div className="flex justify-end gap-3">
+              <button
+                onClick={() => setShowResetConfirm(false)}
+                className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                disabled={isResetting}
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleReset}
+                className="px-4 py-2 bg-red-500 hover:bg-red-600 text-white rounded-lg transition-colors flex items-center gap-2"
+                disabled={isResetting}
+              >
+                {isResetting ? (
+                  <LoadingSpinner size="sm" />
+                ) : (
+                  <>
+                    <RefreshCw size={18} />
+                    Reset
+                  </>
+                )}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,9 @@
 import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { api } from '../utils/api';
+import { useServerEvents } from '../utils/events';
 import { useAuthStore } from '../store/authStore';
-import { Project, ProjectStatus } from '../types';
+import { PhaseTemplate, Project, ProjectStatus, User } from '../types';
 import { format } from 'date-fns';
 import {
   Plus,
@@ -13,41 +14,224 @@ import {
   AlertTriangle,
   AlertCircle,
   Clock,
+  X,
+  Upload,
+  Download,
+  List,
+  GanttChartSquare,
 } from 'lucide-react';
 import LoadingSpinner from '../components/LoadingSpinner';
 import CreateProjectModal from '../components/CreateProjectModal';
+import ImportProjectsModal from '../components/ImportProjectsModal';
+import PortfolioTimeline from '../components/PortfolioTimeline';
+
+// Query parameters shared by the dashboard URL and GET /api/projects
+const FILTER_KEYS = [
+  'q',
+  'status',
+  'createdBy',
+  'owner',
+  'assignee',
+  'involved',
+  'surveyFrom',
+  'surveyTo',
+  'overduePhase',
+];
+
+// "My work" views, each a people filter set to the current user
+const WORK_OPTIONS = [
+  { value: 'involved', label: 'My work' },
+  { value: 'assignee', label: 'Assigned to me' },
+  { value: 'owner', label: 'Owned by me' },
+];
+
+const SORT_OPTIONS = [
+  { value: 'createdAt:desc', label: 'Newest first' },
+  { value: 'createdAt:asc', label: 'Oldest first' },
+  { value: 'updatedAt:desc', label: 'Recently updated' },
+  { value: 'orderNumber:asc', label: 'Order number' },
+  { value: 'customerName:asc', label: 'Customer name' },
+  { value: 'siteSurveyDate:asc', label: 'Site survey (earliest)' },
+  { value: 'siteSurveyDate:desc', label: 'Site survey (latest)' },
+];
+
+const filterInputClass =
+  'px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-openserve-green focus:border-openserve-green outline-none transition-colors';
 
 export default function DashboardPage() {
+  const [searchParams, setSearchParams] = useSearchParams();
   const [projects, setProjects] = useState<Project[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const [searchQuery, setSearchQuery] = useState('');
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [searchInput, setSearchInput] = useState(searchParams.get('q') || '');
+  const [users, setUsers] = useState<User[]>([]);
+  const [phaseOptions, setPhaseOptions] = useState<{ key: string; displayName: string }[]>([]);
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [showExportMenu, setShowExportMenu] = useState(false);
   const [deleteId, setDeleteId] = useState<string | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
 
   const { user } = useAuthStore();
   const navigate = useNavigate();
 
-  const fetchProjects = async () => {
+  const isAdmin = user?.role === 'admin' || user?.role === 'superadmin';
+  const query = searchParams.toString();
+  const hasFilters = FILTER_KEYS.some((key) => searchParams.get(key));
+  const isTimelineView = searchParams.get('view') === 'timeline';
+
+  // The timeline takes the same filters, without the view switch
+  const timelineParams = new URLSearchParams(searchParams);
+  timelineParams.delete('view');
+  const timelineQuery = timelineParams.toString();
+
+  // Downloads use the current filters and sort order
+  const exportUrl = (fileFormat: 'csv' | 'xlsx') => {
+    const params = new URLSearchParams(searchParams);
+    params.set('format', fileFormat);
+    return `/api/projects/export?${params.toString()}`;
+  };
+
+  const fetchProjects = async (cursor?: string) => {
+    const params = new URLSearchParams(searchParams);
+    if (cursor) params.set('cursor', cursor);
+
     try {
-      const response = await api.get('/projects');
-      setProjects(Array.isArray(response) ? response : response.projects || []);
+      const response = await api.get(`/projects?${params.toString()}`);
+      const page: Project[] = Array.isArray(response) ? response : response.projects || [];
+      setProjects((prev) => (cursor ? [...prev, ...page] : page));
+      setTotalCount(response.totalCount ?? page.length);
+      setNextCursor(response.nextCursor || null);
     } catch (error) {
       console.error('Failed to fetch projects:', error);
     } finally {
       setIsLoading(false);
+      setIsLoadingMore(false);
+    }
+  };
+
+  // Reload the projects already on screen, keeping the current filters
+  const refreshProjects = async () => {
+    const params = new URLSearchParams(searchParams);
+    params.set('limit', String(Math.min(Math.max(projects.length, 25), 100)));
+
+    try {
+      const response = await api.get(`/projects?${params.toString()}`);
+      setProjects(response.projects || []);
+      setTotalCount(response.totalCount ?? 0);
+      setNextCursor(response.nextCursor || null);
+    } catch (error) {
+      console.error('Failed to refresh projects:', error);
     }
   };
 
+  useServerEvents((event) => {
+    if (event.type !== 'notifications') {
+      refreshProjects();
+    }
+  });
+
+  // Filters live in the URL, so refetch whenever it changes
   useEffect(() => {
     fetchProjects();
-  }, []);
+  }, [query]);
+
+  // Options for the creator and overdue phase filters
+  useEffect(() => {
+    api
+      .get('/templates')
+      .then((response) => {
+        const options = new Map<string, string>();
+        for (const template of (response.templates || []) as PhaseTemplate[]) {
+          for (const phase of template.phases) {
+            if (!phase.mirrorOf && !options.has(phase.key)) {
+              options.set(phase.key, phase.displayName);
+            }
+          }
+        }
+        setPhaseOptions(
+          Array.from(options, ([key, displayName]) => ({ key, displayName }))
+        );
+      })
+      .catch((error) => console.error('Failed to fetch phase templates:', error));
+
+    if (isAdmin) {
+      api
+        .get('/users')
+        .then((response) => setUsers(response.users || []))
+        .catch((error) => console.error('Failed to fetch users:', error));
+    }
+  }, [isAdmin]);
+
+  const updateParams = (updates: Record<string, string>) => {
+    const params = new URLSearchParams(searchParams);
+    for (const [key, value] of Object.entries(updates)) {
+      if (value) {
+        params.set(key, value);
+      } else {
+        params.delete(key);
+      }
+    }
+    setSearchParams(params, { replace: true });
+  };
+
+  // Keep the search box in step with the URL on back/forward navigation
+  useEffect(() => {
+    setSearchInput(searchParams.get('q') || '');
+  }, [searchParams.get('q')]);
+
+  // Apply the search box to the URL once typing pauses
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      if (searchInput.trim() !== (searchParams.get('q') || '')) {
+        updateParams({ q: searchInput.trim() });
+      }
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  const handleFilterChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
+  ) => {
+    updateParams({ [e.target.name]: e.target.value });
+  };
+
+  const workView = WORK_OPTIONS.find((option) => searchParams.get(option.value) === 'me')?.value || '';
+
+  const handleWorkViewChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    updateParams({
+      ...Object.fromEntries(WORK_OPTIONS.map((option) => [option.value, ''])),
+      ...(e.target.value ? { [e.target.value]: 'me' } : {}),
+    });
+  };
+
+  const handleSortChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const [sortBy, sortOrder] = e.target.value.split(':');
+    // Newest first is the server default, so keep it out of the URL
+    updateParams(
+      e.target.value === SORT_OPTIONS[0].value ? { sortBy: '', sortOrder: '' } : { sortBy, sortOrder }
+    );
+  };
+
+  const handleClearFilters = () => {
+    setSearchInput('');
+    updateParams(Object.fromEntries(FILTER_KEYS.map((key) => [key, ''])));
+  };
+
+  const handleLoadMore = () => {
+    if (!nextCursor) return;
+    setIsLoadingMore(true);
+    fetchProjects(nextCursor);
+  };
 
   const handleDelete = async (id: string) => {
     setIsDeleting(true);
     try {
       await api.delete(`/projects/${id}`);
       setProjects(projects.filter((p) => p.id !== id));
+      setTotalCount((count) => count - 1);
       setDeleteId(null);
     } catch (error) {
       console.error('Failed to delete project:', error);
@@ -56,15 +240,6 @@ export default function DashboardPage() {
     }
   };
 
-  const filteredProjects = projects.filter((project) => {
-    const query = searchQuery.toLowerCase();
-    return (
-      project.orderNumber.toLowerCase().includes(query) ||
-      project.customerName.toLowerCase().includes(query) ||
-      project.pnr.toLowerCase().includes(query)
-    );
-  });
-
   const getStatusIcon = (status: ProjectStatus) => {
     switch (status) {
       case 'complete':
@@ -104,8 +279,6 @@ export default function DashboardPage() {
     }
   };
 
-  const isAdmin = user?.role === 'admin' || user?.role === 'superadmin';
-
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -121,21 +294,77 @@ export default function DashboardPage() {
         <div>
           <h1 className="text-2xl font-bold text-gray-800">Projects</h1>
           <p className="text-gray-500">
-            {projects.length} total project{projects.length !== 1 ? 's' : ''}
+            {totalCount} {hasFilters ? 'matching' : 'total'} project{totalCount !== 1 ? 's' : ''}
           </p>
         </div>
 
-        <button
-          onClick={() => setShowCreateModal(true)}
-          className="bg-openserve-green hover:bg-openserve-green-dark text-white font-medium py-2.5 px-4 rounded-lg transition-colors flex items-center gap-2"
-        >
-          <Plus size={20} />
-          New Project
-        </button>
+        <div className="flex items-center gap-2">
+          <div className="flex rounded-lg border border-gray-300 overflow-hidden">
+            <button
+              onClick={() => updateParams({ view: '' })}
+              className={`py-2.5 px-3 transition-colors ${
+                isTimelineView ? 'bg-white text-gray-500 hover:bg-gray-50' : 'bg-gray-100 text-gray-800'
+              }`}
+              title="List view"
+            >
+              <List size={20} />
+            </button>
+            <button
+              onClick={() => updateParams({ view: 'timeline' })}
+              className={`py-2.5 px-3 border-l border-gray-300 transition-colors ${
+                isTimelineView ? 'bg-gray-100 text-gray-800' : 'bg-white text-gray-500 hover:bg-gray-50'
+              }`}
+              title="Timeline view"
+            >
+              <GanttChartSquare size={20} />
+            </button>
+          </div>
+          <div className="relative">
+            <button
+              onClick={() => setShowExportMenu(!showExportMenu)}
+              className="border border-gray-300 bg-white hover:bg-gray-50 text-gray-700 font-medium py-2.5 px-4 rounded-lg transition-colors flex items-center gap-2"
+            >
+              <Download size={20} />
+              Export
+            </button>
+            {showExportMenu && (
+              <div className="absolute right-0 mt-2 w-44 bg-white rounded-lg shadow-lg border border-gray-200 py-1 z-10">
+                <a
+                  href={exportUrl('csv')}
+                  onClick={() => setShowExportMenu(false)}
+                  className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                >
+                  CSV
+                </a>
+                <a
+                  href={exportUrl('xlsx')}
+                  onClick={() => setShowExportMenu(false)}
+                  className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                >
+                  Excel (.xlsx)
+                </a>
+              </div>
+            )}
+          </div>
+          <button
+            onClick={() => setShowImportModal(true)}
+            className="border border-gray-300 bg-white hover:bg-gray-50 text-gray-700 font-medium py-2.5 px-4 rounded-lg transition-colors flex items-center gap-2"
+          >
+            <Upload size={20} />
+            Import
+          </button>
+          <button
+            onClick={() => setShowCreateModal(true)}
+            className="bg-openserve-green hover:bg-openserve-green-dark text-white font-medium py-2.5 px-4 rounded-lg transition-colors flex items-center gap-2"
+          >
+            <Plus size={20} />
+            New Project
+          </button>
+        </div>
       </div>
 
-      {/* Search */}
-      <div className="mb-6">
+      {/* Search and filters */}
+      <div className="mb-6 space-y-3">
         <div className="relative">
           <Search
             size={20}
@@ -144,28 +373,130 @@ export default function DashboardPage() {
           <input
             type="text"
             placeholder="Search by order number, customer name, or PNR..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
             className="w-full pl-10 pr-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-openserve-green focus:border-openserve-green outline-none transition-colors"
           />
         </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={workView}
+            onChange={handleWorkViewChange}
+            className={filterInputClass}
+          >
+            <option value="">All projects</option>
+            {WORK_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+
+          <select
+            name="status"
+            value={searchParams.get('status') || ''}
+            onChange={handleFilterChange}
+            className={filterInputClass}
+          >
+            <option value="">Any status</option>
+            <option value="on-track">On Track</option>
+            <option value="at-risk">At Risk</option>
+            <option value="overdue">Overdue</option>
+            <option value="complete">Complete</option>
+          </select>
+
+          <select
+            name="createdBy"
+            value={searchParams.get('createdBy') || ''}
+            onChange={handleFilterChange}
+            className={filterInputClass}
+          >
+            <option value="">Created by anyone</option>
+            {user && <option value={user.id}>Created by me</option>}
+            {users
+              .filter((u) => u.id !== user?.id)
+              .map((u) => (
+                <option key={u.id} value={u.id}>
+                  Created by {u.name}
+                </option>
+              ))}
+          </select>
+
+          <select
+            name="overduePhase"
+            value={searchParams.get('overduePhase') || ''}
+            onChange={handleFilterChange}
+            className={filterInputClass}
+          >
+            <option value="">Any overdue phase</option>
+            {phaseOptions.map((phase) => (
+              <option key={phase.key} value={phase.key}>
+                {phase.displayName} overdue
+              </option>
+            ))}
+          </select>
+
+          <div className="flex items-center gap-2 text-sm text-gray-500">
+            <span>Site survey</span>
+            <input
+              type="date"
+              name="surveyFrom"
+              value={searchParams.get('surveyFrom') || ''}
+              onChange={handleFilterChange}
+              className={filterInputClass}
+            />
+            <span>to</span>
+            <input
+              type="date"
+              name="surveyTo"
+              value={searchParams.get('surveyTo') || ''}
+              onChange={handleFilterChange}
+              className={filterInputClass}
+            />
+          </div>
+
+          <select
+            value={`${searchParams.get('sortBy') || 'createdAt'}:${
+              searchParams.get('sortOrder') || 'desc'
+            }`}
+            onChange={handleSortChange}
+            className={`${filterInputClass} sm:ml-auto`}
+          >
+            {SORT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+
+          {hasFilters && (
+            <button
+              onClick={handleClearFilters}
+              className="flex items-center gap-1 px-3 py-2 text-sm text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <X size={16} />
+              Clear filters
+            </button>
+          )}
+        </div>
       </div>
 
       {/* Projects Table */}
-      {filteredProjects.length === 0 ? (
+      {projects.length === 0 ? (
         <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-8 text-center">
           <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
             <Search size={24} className="text-gray-400" />
           </div>
           <h3 className="text-lg font-medium text-gray-800 mb-1">
-            {searchQuery ? 'No projects found' : 'No projects yet'}
+            {hasFilters ? 'No projects found' : 'No projects yet'}
           </h3>
           <p className="text-gray-500 mb-4">
-            {searchQuery
-              ? 'Try adjusting your search terms'
+            {hasFilters
+              ? 'Try adjusting your search terms or filters'
               : 'Create your first project to get started'}
           </p>
-          {!searchQuery && (
+          {!hasFilters && (
             <button
               onClick={() => setShowCreateModal(true)}
               className="bg-openserve-green hover:bg-openserve-green-dark text-white font-medium py-2 px-4 rounded-lg transition-colors inline-flex items-center gap-2"
@@ -175,6 +506,10 @@ export default function DashboardPage() {
             </button>
           )}
         </div>
+      ) : isTimelineView ? (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+          <PortfolioTimeline query={timelineQuery} />
+        </div>
       ) : (
         <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
           <div className="overflow-x-auto">
@@ -208,7 +543,7 @@ export default function DashboardPage() {
                 </tr>
               </thead>
               <tbody className="divide-y divide-gray-100">
-                {filteredProjects.map((project) => (
+                {projects.map((project) => (
                   <tr
                     key={project.id}
                     className={`${getStatusColor(
@@ -291,6 +626,17 @@ export default function DashboardPage() {
               </tbody>
             </table>
           </div>
+          {nextCursor && (
+            <div className="p-4 border-t border-gray-200 text-center">
+              <button
+                onClick={handleLoadMore}
+                disabled={isLoadingMore}
+                className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+              >
+                {isLoadingMore ? 'Loading...' : 'Load more'}
+              </button>
+            </div>
+          )}
         </div>
       )}
 
@@ -305,6 +651,17 @@ export default function DashboardPage() {
         />
       )}
 
+      {/* Import Modal */}
+      {showImportModal && (
+        <ImportProjectsModal
+          onClose={() => setShowImportModal(false)}
+          onImported={() => {
+            setShowImportModal(false);
+            fetchProjects();
+          }}
+        />
+      )}
+
       {/* Delete Confirmation Modal */}
       {deleteId && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Mail, ArrowLeft } from 'lucide-react';
+import { api } from '../utils/api';
+import LoadingSpinner from '../components/LoadingSpinner';
+
+export default function ForgotPasswordPage() {
+  const [email, setEmail] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [sent, setSent] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsLoading(true);
+
+    try {
+      await api.post('/auth/forgot-password', { email });
+      setSent(true);
+    } catch (err: any) {
+      setError(err.message || 'Failed to send reset link');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100 flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        {/* Logo */}
+        <div className="text-center mb-8">
+          <div className="w-16 h-16 bg-openserve-green rounded-2xl flex items-center justify-center mx-auto mb-4">
+            <span className="text-white font-bold text-3xl">O</span>
+          </div>
+          <h1 className="text-2xl font-bold text-gray-800">OpenServe</h1>
+          <p className="text-gray-500">Milestone Tracker</p>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+          {sent ? (
+            <div className="text-center">
+              <div className="w-16 h-16 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-4">
+                <Mail size={32} className="text-green-500" />
+              </div>
+              <h2 className="text-xl font-semibold text-gray-800 mb-2">Check your email</h2>
+              <p className="text-gray-500">
+                If an account exists for {email}, we've sent a link to reset your password. The
+                link expires in an hour.
+              </p>
+            </div>
+          ) : (
+            <>
+              <h2 className="text-xl font-semibold text-gray-800 mb-2">Forgot your password?</h2>
+              <p className="text-gray-500 text-sm mb-6">
+                Enter your email address and we'll send you a link to choose a new one.
+              </p>
+
+              {error && (
+                <div className="mb-4 p-3 bg-red-50 border border-red-200 text-red-600 rounded-lg text-sm">
+                  {error}
+                </div>
+              )}
+
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div>
+                  <label
+                    htmlFor="email"
+                    className="block text-sm font-medium text-gray-700 mb-1"
+                  >
+                    Email address
+                  </label>
+                  <input
+                    id="email"
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-openserve-green focus:border-openserve-green outline-none transition-colors"
+                    placeholder="you@example.com"
+                    required
+                  />
+                </div>
+
+                <button
+                  type="submit"
+                  disabled={isLoading}
+                  className="w-full bg-openserve-green hover:bg-openserve-green-dark text-white font-medium py-2.5 px-4 rounded-lg transition-colors flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isLoading ? (
+                    <LoadingSpinner size="sm" />
+                  ) : (
+                    <>
+                      <Mail size={20} />
+                      Send reset link
+                    </>
+                  )}
+                </button>
+              </form>
+            </>
+          )}
+
+          <div className="mt-6 text-center text-sm text-gray-500">
+            <Link
+              to="/login"
+              className="inline-flex items-center gap-1 text-openserve-green hover:underline font-medium"
+            >
+              <ArrowLeft size={16} />
+              Back to sign in
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
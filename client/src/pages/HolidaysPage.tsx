@@ -0,0 +1,303 @@
+import { useState, useEffect } from 'react';
+import { api } from '../utils/api';
+import { CalendarHoliday } from '../types';
+import { format } from 'date-fns';
+import {
+  CalendarDays,
+  ChevronLeft,
+  ChevronRight,
+  Plus,
+  Trash2,
+  RotateCcw,
+  Ban,
+  Info,
+} from 'lucide-react';
+import LoadingSpinner from '../components/LoadingSpinner';
+import BlackoutPeriodsPanel from '../components/BlackoutPeriodsPanel';
+
+export default function HolidaysPage() {
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [holidays, setHolidays] = useState<CalendarHoliday[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [formData, setFormData] = useState({ date: '', name: '' });
+  const [isSaving, setIsSaving] = useState(false);
+  const [updatingDate, setUpdatingDate] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const fetchHolidays = async () => {
+    try {
+      const response = await api.get(`/holidays?year=${year}`);
+      setHolidays(response.holidays || []);
+    } catch (error) {
+      console.error('Failed to fetch holidays:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchHolidays();
+  }, [year]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsSaving(true);
+
+    try {
+      await api.post('/holidays', { ...formData, type: 'adhoc' });
+      setFormData({ date: '', name: '' });
+      await fetchHolidays();
+    } catch (err: any) {
+      setError(err.message || 'Failed to add holiday');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async (holiday: CalendarHoliday) => {
+    setError('');
+    setUpdatingDate(holiday.date);
+    try {
+      await api.post('/holidays', {
+        date: format(new Date(holiday.date), 'yyyy-MM-dd'),
+        name: holiday.name,
+        type: 'removed',
+      });
+      await fetchHolidays();
+    } catch (err: any) {
+      setError(err.message || 'Failed to remove holiday');
+    } finally {
+      setUpdatingDate(null);
+    }
+  };
+
+  const handleDeleteOverride = async (holiday: CalendarHoliday) => {
+    if (!holiday.override) return;
+
+    setError('');
+    setUpdatingDate(holiday.date);
+    try {
+      await api.delete(`/holidays/${holiday.override.id}`);
+      await fetchHolidays();
+    } catch (err: any) {
+      setError(err.message || 'Failed to update holiday');
+    } finally {
+      setUpdatingDate(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-openserve-green/10 rounded-lg">
+            <CalendarDays size={24} className="text-openserve-green" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-800">Holiday Calendar</h1>
+            <p className="text-gray-500">
+              Public holidays excluded from business day calculations
+            </p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setYear(year - 1)}
+            className="p-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            title="Previous year"
+          >
+            <ChevronLeft size={18} />
+          </button>
+          <span className="font-semibold text-gray-800 w-16 text-center">{year}</span>
+          <button
+            onClick={() => setYear(year + 1)}
+            className="p-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            title="Next year"
+          >
+            <ChevronRight size={18} />
+          </button>
+        </div>
+      </div>
+
+      {/* Info Box */}
+      <div className="bg-blue-50 border border-blue-200 rounded-xl p-4 mb-6">
+        <div className="flex items-start gap-3">
+          <Info size={20} className="text-blue-500 flex-shrink-0 mt-0.5" />
+          <div>
+            <p className="text-blue-800 font-medium">How the calendar works</p>
+            <p className="text-blue-600 text-sm mt-1">
+              Standard South African public holidays are calculated automatically.
+              Add once-off holidays declared by the President, or remove a standard
+              holiday that should be treated as a working day. Shutdown periods
+              exclude a date range from business days, either everywhere or for a
+              single region. Changes apply to all deadline calculations immediately,
+              and to stored deadlines the next time a project is recalculated.
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {/* Add Holiday Form */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 mb-6">
+        <div className="p-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-800">Add Ad-hoc Holiday</h2>
+        </div>
+        <form onSubmit={handleAdd} className="p-4">
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 text-red-600 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+          <div className="flex flex-col sm:flex-row gap-3">
+            <input
+              type="date"
+              name="date"
+              value={formData.date}
+              onChange={handleChange}
+              className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-openserve-green focus:border-openserve-green outline-none"
+              required
+            />
+            <input
+              type="text"
+              name="name"
+              value={formData.name}
+              onChange={handleChange}
+              className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-openserve-green focus:border-openserve-green outline-none"
+              placeholder="e.g., Local Government Elections"
+              required
+            />
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="bg-openserve-green hover:bg-openserve-green-dark text-white font-medium py-2 px-4 rounded-lg transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+            >
+              {isSaving ? (
+                <LoadingSpinner size="sm" />
+              ) : (
+                <>
+                  <Plus size={18} />
+                  Add Holiday
+                </>
+              )}
+            </button>
+          </div>
+        </form>
+      </div>
+
+      {/* Holidays Table */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="bg-gray-50 border-b border-gray-200">
+                <th className="text-left px-4 py-3 text-sm font-semibold text-gray-600">
+                  Date
+                </th>
+                <th className="text-left px-4 py-3 text-sm font-semibold text-gray-600">
+                  Holiday
+                </th>
+                <th className="text-left px-4 py-3 text-sm font-semibold text-gray-600 hidden sm:table-cell">
+                  Source
+                </th>
+                <th className="text-right px-4 py-3 text-sm font-semibold text-gray-600">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {holidays.map((holiday) => (
+                <tr
+                  key={`${holiday.source}-${holiday.date}`}
+                  className={holiday.isRemoved ? 'bg-gray-50' : 'hover:bg-gray-50'}
+                >
+                  <td
+                    className={`px-4 py-3 ${
+                      holiday.isRemoved ? 'text-gray-400 line-through' : 'text-gray-800'
+                    }`}
+                  >
+                    {format(new Date(holiday.date), 'EEE, dd MMM yyyy')}
+                  </td>
+                  <td
+                    className={`px-4 py-3 ${
+                      holiday.isRemoved ? 'text-gray-400 line-through' : 'text-gray-600'
+                    }`}
+                  >
+                    {holiday.name}
+                  </td>
+                  <td className="px-4 py-3 hidden sm:table-cell">
+                    {holiday.source === 'adhoc' ? (
+                      <span className="inline-flex px-2 py-1 rounded-lg text-xs font-medium bg-purple-100 text-purple-700">
+                        Ad-hoc
+                        {holiday.override?.createdByUser &&
+                          ` · ${holiday.override.createdByUser.name}`}
+                      </span>
+                    ) : holiday.isRemoved ? (
+                      <span className="inline-flex px-2 py-1 rounded-lg text-xs font-medium bg-gray-200 text-gray-600">
+                        Removed
+                      </span>
+                    ) : (
+                      <span className="inline-flex px-2 py-1 rounded-lg text-xs font-medium bg-gray-100 text-gray-700">
+                        Standard
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="flex justify-end">
+                      {updatingDate === holiday.date ? (
+                        <div className="p-2">
+                          <LoadingSpinner size="sm" />
+                        </div>
+                      ) : holiday.source === 'adhoc' ? (
+                        <button
+                          onClick={() => handleDeleteOverride(holiday)}
+                          className="p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors"
+                          title="Delete holiday"
+                        >
+                          <Trash2 size={18} />
+                        </button>
+                      ) : holiday.isRemoved ? (
+                        <button
+                          onClick={() => handleDeleteOverride(holiday)}
+                          className="p-2 text-gray-400 hover:text-openserve-green hover:bg-green-50 rounded-lg transition-colors"
+                          title="Restore holiday"
+                        >
+                          <RotateCcw size={18} />
+                        </button>
+                      ) : (
+                        <button
+                          onClick={() => handleRemove(holiday)}
+                          className="p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors"
+                          title="Treat as a working day"
+                        >
+                          <Ban size={18} />
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <BlackoutPeriodsPanel />
+    </div>
+  );
+}
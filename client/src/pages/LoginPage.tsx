@@ -1,14 +1,36 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
 import { useAuthStore } from '../store/authStore';
-import { Eye, EyeOff, LogIn } from 'lucide-react';
+import { api } from '../utils/api';
+import { RegistrationMode } from '../types';
+import { Eye, EyeOff, LogIn, ShieldCheck } from 'lucide-react';
 import LoadingSpinner from '../components/LoadingSpinner';
+import TwoFactorSetup from '../components/TwoFactorSetup';
 
 export default function LoginPage() {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
-  const { login, isLoading, error, clearError } = useAuthStore();
+  const [registrationMode, setRegistrationMode] = useState<RegistrationMode>('open');
+  const [code, setCode] = useState('');
+  const [isVerifying, setIsVerifying] = useState(false);
+  const {
+    login,
+    verifyTwoFactor,
+    cancelTwoFactor,
+    fetchUser,
+    twoFactorChallenge,
+    isLoading,
+    error,
+    clearError,
+  } = useAuthStore();
+
+  useEffect(() => {
+    api
+      .get('/auth/registration')
+      .then((policy) => setRegistrationMode(policy.mode))
+      .catch(() => setRegistrationMode('open'));
+  }, []);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -16,6 +38,20 @@ export default function LoginPage() {
     await login(email, password);
   };
 
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsVerifying(true);
+    const verified = await verifyTwoFactor(code);
+    if (!verified) setIsVerifying(false);
+  };
+
+  // Back to the password form, e.g. after the challenge has timed out
+  const handleBack = () => {
+    cancelTwoFactor();
+    setCode('');
+    setPassword('');
+  };
+
   return (
     <div className="min-h-screen bg-gray-100 flex items-center justify-center p-4">
       <div className="w-full max-w-md">
@@ -28,90 +64,191 @@ export default function LoginPage() {
           <p className="text-gray-500">Milestone Tracker</p>
         </div>
 
-        {/* Form */}
-        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
-          <h2 className="text-xl font-semibold text-gray-800 mb-6">
-            Sign in to your account
-          </h2>
+        {/* Second step: the role requires two-factor sign-in but no app is set up yet */}
+        {twoFactorChallenge?.mode === 'setup' ? (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+            <h2 className="text-xl font-semibold text-gray-800 mb-2">
+              Set up two-factor authentication
+            </h2>
+            <p className="text-gray-500 text-sm mb-6">
+              Your role requires a code from an authenticator app when signing in.
+            </p>
+            <TwoFactorSetup
+              start={() =>
+                api.post('/auth/login/setup', {
+                  challengeToken: twoFactorChallenge.challengeToken,
+                })
+              }
+              confirm={async (setupCode) => {
+                const response = await api.post('/auth/login/setup/confirm', {
+                  challengeToken: twoFactorChallenge.challengeToken,
+                  code: setupCode,
+                });
+                return response.recoveryCodes;
+              }}
+              onDone={() => {
+                cancelTwoFactor();
+                fetchUser();
+              }}
+              onCancel={handleBack}
+              doneLabel="Continue"
+            />
+          </div>
+        ) : twoFactorChallenge?.mode === 'verify' ? (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+            <h2 className="text-xl font-semibold text-gray-800 mb-2">
+              Two-factor authentication
+            </h2>
+            <p className="text-gray-500 text-sm mb-6">
+              Enter the 6-digit code from your authenticator app, or one of your recovery codes.
+            </p>
 
-          {error && (
-            <div className="mb-4 p-3 bg-red-50 border border-red-200 text-red-600 rounded-lg text-sm">
-              {error}
-            </div>
-          )}
+            {error && (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 text-red-600 rounded-lg text-sm">
+                {error}
+              </div>
+            )}
 
-          <form onSubmit={handleSubmit} className="space-y-4">
-            <div>
-              <label
-                htmlFor="email"
-                className="block text-sm font-medium text-gray-700 mb-1"
+            <form onSubmit={handleVerify} className="space-y-4">
+              <div>
+                <label htmlFor="code" className="block text-sm font-medium text-gray-700 mb-1">
+                  Code
+                </label>
+                <input
+                  id="code"
+                  type="text"
+                  autoComplete="one-time-code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-openserve-green focus:border-openserve-green outline-none transition-colors font-mono tracking-widest"
+                  placeholder="123456"
+                  autoFocus
+                  required
+                />
+              </div>
+
+              <button
+                type="submit"
+                disabled={isVerifying}
+                className="w-full bg-openserve-green hover:bg-openserve-green-dark text-white font-medium py-2.5 px-4 rounded-lg transition-colors flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                Email address
-              </label>
-              <input
-                id="email"
-                type="email"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-openserve-green focus:border-openserve-green outline-none transition-colors"
-                placeholder="you@example.com"
-                required
-              />
-            </div>
+                {isVerifying ? (
+                  <LoadingSpinner size="sm" />
+                ) : (
+                  <>
+                    <ShieldCheck size={20} />
+                    Verify
+                  </>
+                )}
+              </button>
+            </form>
 
-            <div>
-              <label
-                htmlFor="password"
-                className="block text-sm font-medium text-gray-700 mb-1"
+            <div className="mt-6 text-center text-sm">
+              <button
+                type="button"
+                onClick={handleBack}
+                className="text-openserve-green hover:underline font-medium"
               >
-                Password
-              </label>
-              <div className="relative">
+                Back to sign in
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+            <h2 className="text-xl font-semibold text-gray-800 mb-6">
+              Sign in to your account
+            </h2>
+
+            {error && (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 text-red-600 rounded-lg text-sm">
+                {error}
+              </div>
+            )}
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label
+                  htmlFor="email"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  Email address
+                </label>
                 <input
-                  id="password"
-                  type={showPassword ? 'text' : 'password'}
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-openserve-green focus:border-openserve-green outline-none transition-colors pr-10"
-                  placeholder="Enter your password"
+                  id="email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-openserve-green focus:border-openserve-green outline-none transition-colors"
+                  placeholder="you@example.com"
                   required
                 />
-                <button
-                  type="button"
-                  onClick={() => setShowPassword(!showPassword)}
-                  className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600"
-                >
-                  {showPassword ? <EyeOff size={20} /> : <Eye size={20} />}
-                </button>
               </div>
-            </div>
 
-            <button
-              type="submit"
-              disabled={isLoading}
-              className="w-full bg-openserve-green hover:bg-openserve-green-dark text-white font-medium py-2.5 px-4 rounded-lg transition-colors flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              {isLoading ? (
-                <LoadingSpinner size="sm" />
-              ) : (
-                <>
-                  <LogIn size={20} />
-                  Sign in
-                </>
-              )}
-            </button>
-          </form>
-
-          <div className="mt-6 text-center text-sm text-gray-500">
-            Don't have an account?{' '}
-            <Link
-              to="/register"
-              className="text-openserve-green hover:underline font-medium"
-            >
-              Register
-            </Link>
+              <div>
+                <div className="flex items-center justify-between mb-1">
+                  <label
+                    htmlFor="password"
+                    className="block text-sm font-medium text-gray-700"
+                  >
+                    Password
+                  </label>
+                  <Link
+                    to="/forgot-password"
+                    className="text-sm text-openserve-green hover:underline"
+                  >
+                    Forgot password?
+                  </Link>
+                </div>
+                <div className="relative">
+                  <input
+                    id="password"
+                    type={showPassword ? 'text' : 'password'}
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-openserve-green focus:border-openserve-green outline-none transition-colors pr-10"
+                    placeholder="Enter your password"
+                    required
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setShowPassword(!showPassword)}
+                    className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600"
+                  >
+                    {showPassword ? <EyeOff size={20} /> : <Eye size={20} />}
+                  </button>
+                </div>
+              </div>
+
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="w-full bg-openserve-green hover:bg-openserve-green-dark text-white font-medium py-2.5 px-4 rounded-lg transition-colors flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isLoading ? (
+                  <LoadingSpinner size="sm" />
+                ) : (
+                  <>
+                    <LogIn size={20} />
+                    Sign in
+                  </>
+                )}
+              </button>
+            </form>
+
+            {/* Nobody can sign themselves up when registration is by invitation */}
+            {registrationMode !== 'invite' && (
+              <div className="mt-6 text-center text-sm text-gray-500">
+                Don't have an account?{' '}
+                <Link
+                  to="/register"
+                  className="text-openserve-green hover:underline font-medium"
+                >
+                  Register
+                </Link>
+              </div>
+            )}
           </div>
-        </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,449 @@
+import { useState, useEffect } from 'react';
+import { api } from '../utils/api';
+import { useAuthStore } from '../store/authStore';
+import { useNotificationStore } from '../store/notificationStore';
+import { NotificationPreferences, PhaseTemplate, UserSession } from '../types';
+import { UserCircle, Save, Bell, LogOut } from 'lucide-react';
+import LoadingSpinner from '../components/LoadingSpinner';
+import SessionList from '../components/SessionList';
+import TwoFactorPanel from '../components/TwoFactorPanel';
+
+const roleLabel = {
+  staff: 'Staff',
+  admin: 'Admin',
+  superadmin: 'Super Admin',
+};
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+const formatHour = (hour: number) => `${hour.toString().padStart(2, '0')}:00`;
+
+const inputClass =
+  'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-openserve-green focus:border-openserve-green outline-none bg-white';
+
+const checkboxClass = 'rounded border-gray-300 text-openserve-green focus:ring-openserve-green';
+
+export default function ProfilePage() {
+  const { user, logout } = useAuthStore();
+  const { fetchNotifications } = useNotificationStore();
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+  const [phases, setPhases] = useState<{ key: string; displayName: string }[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [sessionsError, setSessionsError] = useState('');
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [isSigningOutAll, setIsSigningOutAll] = useState(false);
+
+  const fetchSessions = async () => {
+    try {
+      const response = await api.get('/auth/sessions');
+      setSessions(response.sessions || []);
+    } catch (err: any) {
+      setSessionsError(err.message || 'Failed to load sessions');
+    }
+  };
+
+  useEffect(() => {
+    fetchSessions();
+  }, []);
+
+  const handleRevokeSession = async (session: UserSession) => {
+    setSessionsError('');
+    setRevokingId(session.id);
+    try {
+      await api.delete(`/auth/sessions/${session.id}`);
+      if (session.current) {
+        await logout();
+        return;
+      }
+      setSessions(sessions.filter((s) => s.id !== session.id));
+    } catch (err: any) {
+      setSessionsError(err.message || 'Failed to sign out session');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleSignOutEverywhere = async () => {
+    setSessionsError('');
+    setIsSigningOutAll(true);
+    try {
+      await api.post('/auth/logout-all');
+      await logout();
+    } catch (err: any) {
+      setSessionsError(err.message || 'Failed to sign out everywhere');
+      setIsSigningOutAll(false);
+    }
+  };
+
+  useEffect(() => {
+    const fetchPreferences = async () => {
+      try {
+        const [preferencesResponse, templatesResponse] = await Promise.all([
+          api.get('/notifications/preferences'),
+          api.get('/templates'),
+        ]);
+        setPreferences(preferencesResponse.preferences);
+
+        // Phases from every template, listed once per key
+        const seen = new Map<string, string>();
+        for (const template of (templatesResponse.templates || []) as PhaseTemplate[]) {
+          for (const phase of template.phases) {
+            if (!seen.has(phase.key)) {
+              seen.set(phase.key, phase.displayName);
+            }
+          }
+        }
+        setPhases(Array.from(seen, ([key, displayName]) => ({ key, displayName })));
+      } catch (err: any) {
+        setError(err.message || 'Failed to load notification preferences');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchPreferences();
+  }, []);
+
+  const update = (changes: Partial<NotificationPreferences>) => {
+    if (preferences) {
+      setPreferences({ ...preferences, ...changes });
+    }
+  };
+
+  const setPhaseWarningDays = (key: string, value: string) => {
+    if (!preferences) return;
+
+    const phaseWarningDays = { ...preferences.phaseWarningDays };
+    if (value === '') {
+      delete phaseWarningDays[key];
+    } else {
+      phaseWarningDays[key] = Math.max(0, parseInt(value) || 0);
+    }
+    update({ phaseWarningDays });
+  };
+
+  const setQuietHours = (enabled: boolean) => {
+    update(enabled ? { quietHoursStart: 22, quietHoursEnd: 6 } : { quietHoursStart: null, quietHoursEnd: null });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!preferences) return;
+
+    setError('');
+    setSuccess('');
+    setIsSaving(true);
+
+    try {
+      const response = await api.patch('/notifications/preferences', preferences);
+      setPreferences(response.preferences);
+      setSuccess('Preferences saved successfully!');
+      fetchNotifications();
+      setTimeout(() => setSuccess(''), 3000);
+    } catch (err: any) {
+      setError(err.message || 'Failed to save preferences');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="flex items-center gap-3 mb-6">
+        <div className="p-2 bg-openserve-green/10 rounded-lg">
+          <UserCircle size={24} className="text-openserve-green" />
+        </div>
+        <div>
+          <h1 className="text-2xl font-bold text-gray-800">My Profile</h1>
+          <p className="text-gray-500">Your account and notification preferences</p>
+        </div>
+      </div>
+
+      {/* Account */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 mb-6">
+        <div className="p-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-800">Account</h2>
+        </div>
+        <dl className="p-4 grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div>
+            <dt className="text-sm text-gray-500">Name</dt>
+            <dd className="font-medium text-gray-800">{user?.name}</dd>
+          </div>
+          <div>
+            <dt className="text-sm text-gray-500">Email</dt>
+            <dd className="font-medium text-gray-800">{user?.email}</dd>
+          </div>
+          <div>
+            <dt className="text-sm text-gray-500">Role</dt>
+            <dd className="font-medium text-gray-800">{roleLabel[user?.role || 'staff']}</dd>
+          </div>
+        </dl>
+      </div>
+
+      <TwoFactorPanel />
+
+      {/* Sessions */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 mb-6">
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-800">Sessions</h2>
+            <p className="text-sm text-gray-500">Browsers you're signed in on</p>
+          </div>
+          <button
+            onClick={handleSignOutEverywhere}
+            disabled={isSigningOutAll}
+            className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-2 disabled:opacity-50"
+          >
+            {isSigningOutAll ? <LoadingSpinner size="sm" /> : <LogOut size={18} />}
+            Sign out everywhere
+          </button>
+        </div>
+        {sessionsError && (
+          <div className="m-4 p-3 bg-red-50 border border-red-200 text-red-600 rounded-lg text-sm">
+            {sessionsError}
+          </div>
+        )}
+        <SessionList sessions={sessions} revokingId={revokingId} onRevoke={handleRevokeSession} />
+      </div>
+
+      {/* Notification preferences */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+        <form onSubmit={handleSubmit}>
+          <div className="p-4 border-b border-gray-200 flex items-center gap-2">
+            <Bell size={20} className="text-gray-500" />
+            <h2 className="text-lg font-semibold text-gray-800">Notifications</h2>
+          </div>
+
+          <div className="p-4 space-y-6">
+            {error && (
+              <div className="p-3 bg-red-50 border border-red-200 text-red-600 rounded-lg text-sm">
+                {error}
+              </div>
+            )}
+
+            {success && (
+              <div className="p-3 bg-green-50 border border-green-200 text-green-600 rounded-lg text-sm">
+                {success}
+              </div>
+            )}
+
+            {preferences && (
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <fieldset>
+                    <legend className="block text-sm font-medium text-gray-700 mb-2">Channels</legend>
+                    <div className="space-y-2">
+                      <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={preferences.inAppEnabled}
+                          onChange={(e) => update({ inAppEnabled: e.target.checked })}
+                          className={checkboxClass}
+                        />
+                        In-app notifications
+                      </label>
+                      <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={preferences.emailAlertsEnabled}
+                          onChange={(e) => update({ emailAlertsEnabled: e.target.checked })}
+                          className={checkboxClass}
+                        />
+                        Email me as soon as a phase is overdue
+                      </label>
+                      <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={preferences.emailDigestEnabled}
+                          onChange={(e) => update({ emailDigestEnabled: e.target.checked })}
+                          className={checkboxClass}
+                        />
+                        Morning email digest
+                      </label>
+                    </div>
+                  </fieldset>
+
+                  <fieldset>
+                    <legend className="block text-sm font-medium text-gray-700 mb-2">Notify me about</legend>
+                    <div className="space-y-2">
+                      <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={preferences.notifyOverdue}
+                          onChange={(e) => update({ notifyOverdue: e.target.checked })}
+                          className={checkboxClass}
+                        />
+                        Overdue phases
+                      </label>
+                      <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={preferences.notifyUrgent}
+                          onChange={(e) => update({ notifyUrgent: e.target.checked })}
+                          className={checkboxClass}
+                        />
+                        Urgent phases
+                      </label>
+                      <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={preferences.notifyWarning}
+                          onChange={(e) => update({ notifyWarning: e.target.checked })}
+                          className={checkboxClass}
+                        />
+                        Upcoming deadlines
+                      </label>
+                    </div>
+                  </fieldset>
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Warn me (business days before)
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      max="30"
+                      value={preferences.warningDays}
+                      onChange={(e) => update({ warningDays: parseInt(e.target.value) || 0 })}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Urgent (business days before)
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      max="30"
+                      value={preferences.urgentDays}
+                      onChange={(e) => update({ urgentDays: parseInt(e.target.value) || 0 })}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Projects</label>
+                    <select
+                      value={preferences.projectScope}
+                      onChange={(e) =>
+                        update({ projectScope: e.target.value as NotificationPreferences['projectScope'] })
+                      }
+                      className={inputClass}
+                    >
+                      <option value="all">All projects</option>
+                      <option value="involved">Projects I own, watch or am assigned to</option>
+                      <option value="created">Only projects I created</option>
+                    </select>
+                  </div>
+                </div>
+
+                <div>
+                  <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-2">
+                    <input
+                      type="checkbox"
+                      checked={preferences.quietHoursStart !== null}
+                      onChange={(e) => setQuietHours(e.target.checked)}
+                      className={checkboxClass}
+                    />
+                    Quiet hours
+                  </label>
+                  {preferences.quietHoursStart !== null && preferences.quietHoursEnd !== null && (
+                    <div className="flex items-center gap-2">
+                      <select
+                        value={preferences.quietHoursStart}
+                        onChange={(e) => update({ quietHoursStart: parseInt(e.target.value) })}
+                        className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-openserve-green focus:border-openserve-green outline-none bg-white"
+                      >
+                        {HOURS.map((hour) => (
+                          <option key={hour} value={hour}>
+                            {formatHour(hour)}
+                          </option>
+                        ))}
+                      </select>
+                      <span className="text-gray-500">to</span>
+                      <select
+                        value={preferences.quietHoursEnd}
+                        onChange={(e) => update({ quietHoursEnd: parseInt(e.target.value) })}
+                        className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-openserve-green focus:border-openserve-green outline-none bg-white"
+                      >
+                        {HOURS.map((hour) => (
+                          <option key={hour} value={hour}>
+                            {formatHour(hour)}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+                  <p className="mt-1 text-xs text-gray-500">
+                    Emails are held during quiet hours and sent once they end
+                  </p>
+                </div>
+
+                {phases.length > 0 && (
+                  <div>
+                    <h3 className="text-sm font-medium text-gray-700 mb-1">Lead time per phase</h3>
+                    <p className="text-xs text-gray-500 mb-2">
+                      Leave blank to use the warning lead time above
+                    </p>
+                    <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3">
+                      {phases.map((phase) => (
+                        <div key={phase.key}>
+                          <label className="block text-xs text-gray-600 mb-1">{phase.displayName}</label>
+                          <input
+                            type="number"
+                            min="0"
+                            max="30"
+                            value={preferences.phaseWarningDays[phase.key] ?? ''}
+                            placeholder={String(preferences.warningDays)}
+                            onChange={(e) => setPhaseWarningDays(phase.key, e.target.value)}
+                            className={inputClass}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+
+          <div className="p-4 border-t border-gray-200 flex justify-end">
+            <button
+              type="submit"
+              disabled={isSaving || !preferences}
+              className="bg-openserve-green hover:bg-openserve-green-dark text-white font-medium py-2.5 px-6 rounded-lg transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+            >
+              {isSaving ? (
+                <>
+                  <LoadingSpinner size="sm" />
+                  Saving...
+                </>
+              ) : (
+                <>
+                  <Save size={20} />
+                  Save Preferences
+                </>
+              )}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
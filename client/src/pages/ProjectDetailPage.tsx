@@ -1,9 +1,10 @@
 import { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { api } from '../utils/api';
+import { useServerEvents } from '../utils/events';
 import { useAuthStore } from '../store/authStore';
 import { useNotificationStore } from '../store/notificationStore';
-import { Project, ProjectPhase, PHASE_DISPLAY_NAMES, PHASE_ORDER, PhaseName } from '../types';
+import { AuditEntry, Project, ProjectPhase, UserSummary } from '../types';
 import { format } from 'date-fns';
 import {
   ArrowLeft,
@@ -16,9 +17,22 @@ import {
   Clock,
   AlertTriangle,
   AlertCircle,
+  MapPin,
+  Layers,
+  Route,
+  TrendingUp,
+  History,
+  ListChecks,
+  Eye,
+  EyeOff,
+  UserCheck,
+  Printer,
+  GanttChartSquare,
 } from 'lucide-react';
 import LoadingSpinner from '../components/LoadingSpinner';
 import EditProjectModal from '../components/EditProjectModal';
+import AuditEntryList from '../components/AuditEntryList';
+import GanttChart, { GanttTone } from '../components/GanttChart';
 
 export default function ProjectDetailPage() {
   const { id } = useParams<{ id: string }>();
@@ -26,6 +40,12 @@ export default function ProjectDetailPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [showEditModal, setShowEditModal] = useState(false);
   const [completingPhase, setCompletingPhase] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState<'phases' | 'timeline' | 'history'>('phases');
+  const [history, setHistory] = useState<AuditEntry[]>([]);
+  const [isHistoryLoading, setIsHistoryLoading] = useState(false);
+  const [users, setUsers] = useState<UserSummary[]>([]);
+  const [isUpdatingWatch, setIsUpdatingWatch] = useState(false);
+  const [error, setError] = useState('');
 
   const { user } = useAuthStore();
   const { fetchNotifications } = useNotificationStore();
@@ -45,10 +65,97 @@ export default function ProjectDetailPage() {
     }
   };
 
+  const fetchHistory = async () => {
+    setIsHistoryLoading(true);
+    try {
+      const response = await api.get(`/projects/${id}/history`);
+      setHistory(response.entries || []);
+    } catch (error) {
+      console.error('Failed to fetch project history:', error);
+    } finally {
+      setIsHistoryLoading(false);
+    }
+  };
+
   useEffect(() => {
     fetchProject();
   }, [id]);
 
+  // Reload when someone else changes this project
+  useServerEvents((event) => {
+    if (event.type === 'notifications') return;
+    if (event.type !== 'refresh' && event.projectId && event.projectId !== id) return;
+
+    if (event.type === 'project' && event.action === 'deleted') {
+      navigate('/');
+      return;
+    }
+
+    fetchProject();
+    if (activeTab === 'history') {
+      fetchHistory();
+    }
+  });
+
+  // People to choose from when changing the owner or assigning phases
+  useEffect(() => {
+    if (project?.canManage && users.length === 0) {
+      api
+        .get('/users/directory')
+        .then((response) => setUsers(response.users || []))
+        .catch((error) => console.error('Failed to fetch users:', error));
+    }
+  }, [project?.canManage]);
+
+  // History is loaded when its tab is opened, so it reflects changes made on the page
+  useEffect(() => {
+    if (activeTab === 'history') {
+      fetchHistory();
+    }
+  }, [activeTab, id]);
+
+  const isWatching = !!project?.watchers?.some((watcher) => watcher.userId === user?.id);
+
+  const handleToggleWatch = async () => {
+    setError('');
+    setIsUpdatingWatch(true);
+    try {
+      if (isWatching) {
+        await api.delete(`/projects/${id}/watch`);
+      } else {
+        await api.post(`/projects/${id}/watch`);
+      }
+      await fetchProject();
+      fetchNotifications();
+    } catch (err: any) {
+      setError(err.message || 'Failed to update watch status');
+    } finally {
+      setIsUpdatingWatch(false);
+    }
+  };
+
+  const handleOwnerChange = async (ownerId: string) => {
+    setError('');
+    try {
+      await api.patch(`/projects/${id}/owner`, { ownerId: ownerId || null });
+      await fetchProject();
+      fetchNotifications();
+    } catch (err: any) {
+      setError(err.message || 'Failed to change owner');
+    }
+  };
+
+  const handleAssigneeChange = async (phase: ProjectPhase, assigneeId: string) => {
+    setError('');
+    try {
+      await api.patch(`/phases/${phase.id}/assignee`, { assigneeId: assigneeId || null });
+      await fetchProject();
+      fetchNotifications();
+    } catch (err: any) {
+      setError(err.message || 'Failed to assign phase');
+    }
+  };
+
   const handleCompletePhase = async (phase: ProjectPhase) => {
     setCompletingPhase(phase.id);
     try {
@@ -68,12 +175,8 @@ export default function ProjectDetailPage() {
 
   const getPhaseStatus = (phase: ProjectPhase) => {
     if (phase.isComplete) return 'complete';
-    if (phase.phaseName === 'wayleave' && phase.allowedDays === 0) return 'skipped';
-    const days = phase.daysUntilDeadline || 0;
-    if (days < 0) return 'overdue';
-    if (days <= 1) return 'urgent';
-    if (days <= 3) return 'warning';
-    return 'on-track';
+    if (phase.isSkipped) return 'skipped';
+    return phase.deadlineStatus || 'on-track';
   };
 
   const getStatusIcon = (status: string) => {
@@ -119,16 +222,34 @@ export default function ProjectDetailPage() {
     return `${days} day${days !== 1 ? 's' : ''} remaining`;
   };
 
-  const isMirrorPhase = (phaseName: string) => {
-    return phaseName === 'fqa' || phaseName === 'com';
+  // Positive variance means the forecast is later than the baseline
+  const formatVariance = (days: number) => {
+    if (days === 0) return 'On baseline';
+    const label = `${Math.abs(days)} day${Math.abs(days) !== 1 ? 's' : ''}`;
+    return days > 0 ? `${label} late` : `${label} early`;
+  };
+
+  const getVarianceColor = (days: number) => {
+    if (days > 0) return 'text-red-600';
+    if (days < 0) return 'text-green-600';
+    return 'text-gray-500';
   };
 
-  const getMirrorSource = (phaseName: string) => {
-    if (phaseName === 'fqa') return 'build';
-    if (phaseName === 'com') return 'rfa';
-    return null;
+  // Phases arrive sorted in template order with display names and mirror rules
+  const getDisplayName = (phaseName: string) => {
+    const phase = project?.phases.find((p) => p.phaseName === phaseName);
+    return phase?.displayName || phaseName;
   };
 
+  const formatPredecessors = (phase: ProjectPhase) =>
+    (phase.predecessors || [])
+      .map(
+        (predecessor) =>
+          getDisplayName(predecessor.key) +
+          (predecessor.lagDays > 0 ? ` + ${predecessor.lagDays} day lag` : '')
+      )
+      .join(', ');
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -145,13 +266,6 @@ export default function ProjectDetailPage() {
     );
   }
 
-  // Sort phases by PHASE_ORDER
-  const sortedPhases = [...project.phases].sort(
-    (a, b) =>
-      PHASE_ORDER.indexOf(a.phaseName as PhaseName) -
-      PHASE_ORDER.indexOf(b.phaseName as PhaseName)
-  );
-
   return (
     <div>
       {/* Back button */}
@@ -171,16 +285,41 @@ export default function ProjectDetailPage() {
               {project.orderNumber}
             </h1>
             <p className="text-lg text-gray-600">{project.customerName}</p>
+            <div className="flex flex-wrap gap-2">
+              {project.region && (
+                <span className="inline-flex items-center gap-1 mt-1 px-2 py-0.5 rounded-lg text-xs font-medium bg-gray-100 text-gray-600">
+                  <MapPin size={12} />
+                  {project.region}
+                </span>
+              )}
+              {project.template && (
+                <span className="inline-flex items-center gap-1 mt-1 px-2 py-0.5 rounded-lg text-xs font-medium bg-gray-100 text-gray-600">
+                  <Layers size={12} />
+                  {project.template.name}
+                </span>
+              )}
+            </div>
           </div>
-          {isAdmin && (
-            <button
-              onClick={() => setShowEditModal(true)}
+          <div className="flex flex-wrap gap-2">
+            <a
+              href={`/api/projects/${project.id}/report.pdf`}
+              target="_blank"
+              rel="noreferrer"
               className="flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
             >
-              <Edit size={18} />
-              Edit Project
-            </button>
-          )}
+              <Printer size={18} />
+              PDF Report
+            </a>
+            {isAdmin && (
+              <button
+                onClick={() => setShowEditModal(true)}
+                className="flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                <Edit size={18} />
+                Edit Project
+              </button>
+            )}
+          </div>
         </div>
 
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 mt-6">
@@ -229,135 +368,341 @@ export default function ProjectDetailPage() {
           </div>
         </div>
 
-        <div className="mt-4 pt-4 border-t border-gray-100 flex items-center gap-2 text-sm text-gray-500">
-          <User size={16} />
-          Created by {project.createdByUser.name} on{' '}
-          {format(new Date(project.createdAt), 'dd MMM yyyy')}
+        <div className="mt-4 pt-4 border-t border-gray-100 flex flex-col lg:flex-row lg:items-center lg:justify-between gap-3 text-sm text-gray-500">
+          <div className="flex items-center gap-2">
+            <User size={16} />
+            Created by {project.createdByUser.name} on{' '}
+            {format(new Date(project.createdAt), 'dd MMM yyyy')}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <div className="flex items-center gap-2">
+              <UserCheck size={16} />
+              <span>Owner:</span>
+              {project.canManage ? (
+                <select
+                  value={project.ownerId || ''}
+                  onChange={(e) => handleOwnerChange(e.target.value)}
+                  className="px-2 py-1 border border-gray-300 rounded-lg text-sm text-gray-800 focus:ring-2 focus:ring-openserve-green focus:border-openserve-green outline-none bg-white"
+                >
+                  <option value="">No owner</option>
+                  {users.map((u) => (
+                    <option key={u.id} value={u.id}>
+                      {u.name}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <span className="font-medium text-gray-800">{project.owner?.name || 'No owner'}</span>
+              )}
+            </div>
+
+            {project.watchers && project.watchers.length > 0 && (
+              <span title={project.watchers.map((watcher) => watcher.user.name).join(', ')}>
+                {project.watchers.length} watcher{project.watchers.length !== 1 ? 's' : ''}
+              </span>
+            )}
+
+            <button
+              onClick={handleToggleWatch}
+              disabled={isUpdatingWatch}
+              className="flex items-center gap-2 px-3 py-1.5 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors disabled:opacity-50"
+            >
+              {isWatching ? <EyeOff size={16} /> : <Eye size={16} />}
+              {isWatching ? 'Unwatch' : 'Watch'}
+            </button>
+          </div>
         </div>
+
+        {error && (
+          <div className="mt-4 p-3 bg-red-50 border border-red-200 text-red-600 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
       </div>
 
-      {/* Phases */}
-      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
-        <div className="p-4 border-b border-gray-200">
-          <h2 className="text-lg font-semibold text-gray-800">Project Phases</h2>
+      {/* Tabs */}
+      <div className="flex gap-2 mb-4">
+        <button
+          onClick={() => setActiveTab('phases')}
+          className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${
+            activeTab === 'phases'
+              ? 'bg-openserve-green text-white'
+              : 'bg-white text-gray-600 border border-gray-200 hover:bg-gray-50'
+          }`}
+        >
+          <ListChecks size={18} />
+          Phases
+        </button>
+        <button
+          onClick={() => setActiveTab('timeline')}
+          className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${
+            activeTab === 'timeline'
+              ? 'bg-openserve-green text-white'
+              : 'bg-white text-gray-600 border border-gray-200 hover:bg-gray-50'
+          }`}
+        >
+          <GanttChartSquare size={18} />
+          Timeline
+        </button>
+        <button
+          onClick={() => setActiveTab('history')}
+          className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${
+            activeTab === 'history'
+              ? 'bg-openserve-green text-white'
+              : 'bg-white text-gray-600 border border-gray-200 hover:bg-gray-50'
+          }`}
+        >
+          <History size={18} />
+          History
+        </button>
+      </div>
+
+      {/* History */}
+      {activeTab === 'history' && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+          <div className="p-4 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-800">Change History</h2>
+          </div>
+          {isHistoryLoading ? (
+            <div className="flex items-center justify-center h-32">
+              <LoadingSpinner />
+            </div>
+          ) : (
+            <AuditEntryList entries={history} />
+          )}
+        </div>
+      )}
+
+      {/* Timeline */}
+      {activeTab === 'timeline' && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+          <GanttChart
+            rows={project.phases
+              .filter((phase) => !phase.isSkipped)
+              .map((phase) => ({
+                key: phase.id,
+                label: phase.displayName || phase.phaseName,
+                sublabel: phase.mirrorOf ? `Same as ${getDisplayName(phase.mirrorOf)}` : undefined,
+                bars: [
+                  {
+                    key: phase.id,
+                    label: `${phase.displayName || phase.phaseName}: due ${format(
+                      new Date(phase.deadline),
+                      'dd MMM yyyy'
+                    )}`,
+                    start: new Date(phase.startDate || project.siteSurveyDate),
+                    end: new Date(phase.deadline),
+                    tone: getPhaseStatus(phase) as GanttTone,
+                    completedAt: phase.completedAt ? new Date(phase.completedAt) : null,
+                  },
+                ],
+              }))}
+          />
         </div>
+      )}
 
-        <div className="divide-y divide-gray-100">
-          {sortedPhases.map((phase) => {
-            const status = getPhaseStatus(phase);
-            const isSkipped = phase.phaseName === 'wayleave' && phase.allowedDays === 0;
-            const isMirror = isMirrorPhase(phase.phaseName);
-            const mirrorSource = getMirrorSource(phase.phaseName);
-
-            if (isSkipped) return null;
-
-            return (
-              <div
-                key={phase.id}
-                className={`p-4 ${getStatusBg(status)} border-l-4 ${
-                  status === 'complete'
-                    ? 'border-l-green-500'
-                    : status === 'overdue'
-                    ? 'border-l-red-500'
-                    : status === 'urgent'
-                    ? 'border-l-orange-500'
-                    : status === 'warning'
-                    ? 'border-l-yellow-500'
-                    : 'border-l-gray-300'
-                }`}
-              >
-                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
-                  <div className="flex items-center gap-4">
-                    <div className="flex items-center gap-3 min-w-[140px]">
-                      {getStatusIcon(status)}
-                      <span className="font-medium text-gray-800">
-                        {PHASE_DISPLAY_NAMES[phase.phaseName as PhaseName]}
-                      </span>
+      {/* Phases */}
+      {activeTab === 'phases' && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+          <div className="p-4 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-800">Project Phases</h2>
+            {project.criticalPath && project.criticalPath.length > 0 && (
+              <p className="mt-1 flex items-start gap-2 text-sm text-gray-500">
+                <Route size={16} className="text-red-500 flex-shrink-0 mt-0.5" />
+                <span>
+                  Critical path: {project.criticalPath.map(getDisplayName).join(' → ')}
+                </span>
+              </p>
+            )}
+            {project.forecast && (
+              <p className="mt-1 flex items-start gap-2 text-sm text-gray-500">
+                <TrendingUp size={16} className="text-openserve-green flex-shrink-0 mt-0.5" />
+                <span>
+                  Forecast completion:{' '}
+                  <span className="font-medium text-gray-800">
+                    {format(new Date(project.forecast.projectedCompletion), 'dd MMM yyyy')}
+                  </span>{' '}
+                  (baseline {format(new Date(project.forecast.baselineCompletion), 'dd MMM yyyy')}){' '}
+                  <span className={`font-medium ${getVarianceColor(project.forecast.varianceDays)}`}>
+                    {formatVariance(project.forecast.varianceDays)}
+                  </span>
+                </span>
+              </p>
+            )}
+          </div>
+
+          <div className="divide-y divide-gray-100">
+            {project.phases.map((phase) => {
+              const status = getPhaseStatus(phase);
+              const isSkipped = phase.isSkipped;
+              const isMirror = !!phase.mirrorOf;
+              const mirrorSource = phase.mirrorOf;
+
+              if (isSkipped) return null;
+
+              return (
+                <div
+                  key={phase.id}
+                  className={`p-4 ${getStatusBg(status)} border-l-4 ${
+                    status === 'complete'
+                      ? 'border-l-green-500'
+                      : status === 'overdue'
+                      ? 'border-l-red-500'
+                      : status === 'urgent'
+                      ? 'border-l-orange-500'
+                      : status === 'warning'
+                      ? 'border-l-yellow-500'
+                      : 'border-l-gray-300'
+                  }`}
+                >
+                  <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+                    <div className="flex items-center gap-4">
+                      <div className="flex items-center gap-3 min-w-[140px]">
+                        {getStatusIcon(status)}
+                        <span
+                          className="font-medium text-gray-800"
+                          title={
+                            phase.predecessors && phase.predecessors.length > 0
+                              ? `Starts after ${formatPredecessors(phase)}`
+                              : 'Starts at site survey'
+                          }
+                        >
+                          {phase.displayName || phase.phaseName}
+                        </span>
+                        {!isMirror && !phase.isComplete && phase.isCritical && (
+                          <span className="inline-flex px-2 py-0.5 rounded-lg text-xs font-medium bg-red-100 text-red-700">
+                            Critical
+                          </span>
+                        )}
+                      </div>
+
+                      <div className="text-sm text-gray-500">
+                        {!isMirror && (
+                          <span className="mr-4">
+                            {phase.allowedDays} day{phase.allowedDays !== 1 ? 's' : ''}
+                            {isAdmin && (
+                              <button
+                                onClick={() => setShowEditModal(true)}
+                                className="ml-1 text-openserve-green hover:underline"
+                              >
+                                (edit)
+                              </button>
+                            )}
+                          </span>
+                        )}
+                        {isMirror && mirrorSource && (
+                          <span className="text-gray-400 italic">
+                            Same as {getDisplayName(mirrorSource)}
+                          </span>
+                        )}
+                        {!isMirror &&
+                          !phase.isComplete &&
+                          !phase.isCritical &&
+                          typeof phase.totalFloat === 'number' && (
+                            <span className="text-gray-400">
+                              {phase.totalFloat} day{phase.totalFloat !== 1 ? 's' : ''} float
+                            </span>
+                          )}
+                      </div>
                     </div>
 
-                    <div className="text-sm text-gray-500">
+                    <div className="flex items-center gap-4 sm:gap-6">
+                      <div className="text-sm">
+                        <span className="text-gray-500">Deadline: </span>
+                        <span className="font-medium text-gray-800">
+                          {format(new Date(phase.deadline), 'dd MMM yyyy')}
+                        </span>
+                        {phase.forecastDeadline &&
+                          typeof phase.varianceDays === 'number' &&
+                          phase.varianceDays !== 0 && (
+                            <div className="text-xs text-gray-500">
+                              {phase.isComplete ? 'Actual' : 'Forecast'}:{' '}
+                              {format(new Date(phase.forecastDeadline), 'dd MMM yyyy')}{' '}
+                              <span className={getVarianceColor(phase.varianceDays)}>
+                                ({formatVariance(phase.varianceDays)})
+                              </span>
+                            </div>
+                          )}
+                      </div>
+
+                      <div
+                        className={`text-sm font-medium min-w-[120px] ${
+                          status === 'complete'
+                            ? 'text-green-600'
+                            : status === 'overdue'
+                            ? 'text-red-600'
+                            : status === 'urgent'
+                            ? 'text-orange-600'
+                            : status === 'warning'
+                            ? 'text-yellow-600'
+                            : 'text-gray-600'
+                        }`}
+                      >
+                        {formatDaysUntil(phase.daysUntilDeadline, phase.isComplete)}
+                      </div>
+
                       {!isMirror && (
-                        <span className="mr-4">
-                          {phase.allowedDays} day{phase.allowedDays !== 1 ? 's' : ''}
-                          {isAdmin && (
-                            <button
-                              onClick={() => setShowEditModal(true)}
-                              className="ml-1 text-openserve-green hover:underline"
-                            >
-                              (edit)
-                            </button>
+                        <button
+                          onClick={() => handleCompletePhase(phase)}
+                          disabled={
+                            completingPhase === phase.id ||
+                            (phase.isComplete && !isAdmin)
+                          }
+                          className={`flex items-center gap-2 px-3 py-1.5 rounded-lg transition-colors ${
+                            phase.isComplete
+                              ? 'bg-green-100 text-green-700 hover:bg-green-200'
+                              : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                          } disabled:opacity-50 disabled:cursor-not-allowed`}
+                        >
+                          {completingPhase === phase.id ? (
+                            <LoadingSpinner size="sm" />
+                          ) : (
+                            <>
+                              <CheckCircle size={16} />
+                              {phase.isComplete ? 'Done' : 'Mark Complete'}
+                            </>
                           )}
-                        </span>
-                      )}
-                      {isMirror && mirrorSource && (
-                        <span className="text-gray-400 italic">
-                          Same as {PHASE_DISPLAY_NAMES[mirrorSource as PhaseName]}
-                        </span>
+                        </button>
                       )}
                     </div>
                   </div>
 
-                  <div className="flex items-center gap-4 sm:gap-6">
-                    <div className="text-sm">
-                      <span className="text-gray-500">Deadline: </span>
-                      <span className="font-medium text-gray-800">
-                        {format(new Date(phase.deadline), 'dd MMM yyyy')}
-                      </span>
+                  {!isMirror && (project.canManage || phase.assignee) && (
+                    <div className="mt-2 flex items-center gap-2 text-sm text-gray-500">
+                      <UserCheck size={14} />
+                      <span>Assignee:</span>
+                      {project.canManage ? (
+                        <select
+                          value={phase.assigneeId || ''}
+                          onChange={(e) => handleAssigneeChange(phase, e.target.value)}
+                          className="px-2 py-0.5 border border-gray-300 rounded-lg text-sm text-gray-800 focus:ring-2 focus:ring-openserve-green focus:border-openserve-green outline-none bg-white"
+                        >
+                          <option value="">Unassigned</option>
+                          {users.map((u) => (
+                            <option key={u.id} value={u.id}>
+                              {u.name}
+                            </option>
+                          ))}
+                        </select>
+                      ) : (
+                        <span className="font-medium text-gray-700">{phase.assignee?.name}</span>
+                      )}
                     </div>
+                  )}
 
-                    <div
-                      className={`text-sm font-medium min-w-[120px] ${
-                        status === 'complete'
-                          ? 'text-green-600'
-                          : status === 'overdue'
-                          ? 'text-red-600'
-                          : status === 'urgent'
-                          ? 'text-orange-600'
-                          : status === 'warning'
-                          ? 'text-yellow-600'
-                          : 'text-gray-600'
-                      }`}
-                    >
-                      {formatDaysUntil(phase.daysUntilDeadline, phase.isComplete)}
+                  {phase.isComplete && phase.completedByUser && (
+                    <div className="mt-2 text-sm text-gray-500">
+                      Completed by {phase.completedByUser.name} on{' '}
+                      {format(new Date(phase.completedAt!), 'dd MMM yyyy HH:mm')}
                     </div>
-
-                    {!isMirror && (
-                      <button
-                        onClick={() => handleCompletePhase(phase)}
-                        disabled={
-                          completingPhase === phase.id ||
-                          (phase.isComplete && !isAdmin)
-                        }
-                        className={`flex items-center gap-2 px-3 py-1.5 rounded-lg transition-colors ${
-                          phase.isComplete
-                            ? 'bg-green-100 text-green-700 hover:bg-green-200'
-                            : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
-                        } disabled:opacity-50 disabled:cursor-not-allowed`}
-                      >
-                        {completingPhase === phase.id ? (
-                          <LoadingSpinner size="sm" />
-                        ) : (
-                          <>
-                            <CheckCircle size={16} />
-                            {phase.isComplete ? 'Done' : 'Mark Complete'}
-                          </>
-                        )}
-                      </button>
-                    )}
-                  </div>
+                  )}
                 </div>
-
-                {phase.isComplete && phase.completedByUser && (
-                  <div className="mt-2 text-sm text-gray-500">
-                    Completed by {phase.completedByUser.name} on{' '}
-                    {format(new Date(phase.completedAt!), 'dd MMM yyyy HH:mm')}
-                  </div>
-                )}
-              </div>
-            );
-          })}
+              );
+            })}
+          </div>
         </div>
-      </div>
+      )}
 
       {/* Edit Modal */}
       {showEditModal && (
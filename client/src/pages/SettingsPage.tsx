@@ -1,48 +1,61 @@
 import { useState, useEffect } from 'react';
 import { api } from '../utils/api';
-import { GlobalSettings } from '../types';
+import { GlobalSettings, PhaseTemplate, RegistrationMode, UserRole } from '../types';
 import { format } from 'date-fns';
-import { Settings, Save, Info } from 'lucide-react';
+import {
+  Settings,
+  Save,
+  Info,
+  Plus,
+  Edit,
+  Trash2,
+  Layers,
+  UserCheck,
+  ShieldCheck,
+} from 'lucide-react';
 import LoadingSpinner from '../components/LoadingSpinner';
+import PhaseTemplateModal from '../components/PhaseTemplateModal';
 
-interface SettingsField {
-  key: keyof GlobalSettings;
-  label: string;
-  description?: string;
-}
-
-const SETTINGS_FIELDS: SettingsField[] = [
-  { key: 'defaultPlanningDays', label: 'Planning Days', description: 'Time for project planning' },
-  { key: 'defaultFundingDays', label: 'Funding Days', description: 'Time to secure funding' },
-  { key: 'defaultWayleaveDays', label: 'Wayleave Days', description: 'Set to 0 to skip wayleave phase' },
-  { key: 'defaultMaterialsDays', label: 'Materials Days', description: 'Time for materials procurement' },
-  { key: 'defaultAnnouncementDays', label: 'Announcement Days', description: 'Time for announcements' },
-  { key: 'defaultKickOffDays', label: 'Kick-Off Days', description: 'Time for project kick-off' },
-  { key: 'defaultBuildDays', label: 'Build Days', description: 'Time for construction (FQA mirrors this)' },
-  { key: 'defaultEccDays', label: 'ECC Days', description: 'Time for ECC completion' },
-  { key: 'defaultIntegrationDays', label: 'Integration Days', description: 'Time for system integration' },
-  { key: 'defaultRfaDays', label: 'RFA Days', description: 'Time for RFA (COM mirrors this)' },
+const TWO_FACTOR_ROLES: { role: UserRole; label: string }[] = [
+  { role: 'staff', label: 'Staff' },
+  { role: 'admin', label: 'Admins' },
+  { role: 'superadmin', label: 'Super Admins' },
 ];
 
 export default function SettingsPage() {
   const [settings, setSettings] = useState<GlobalSettings | null>(null);
-  const [formData, setFormData] = useState<Record<string, number>>({});
+  const [templates, setTemplates] = useState<PhaseTemplate[]>([]);
+  const [defaultTemplateId, setDefaultTemplateId] = useState('');
+  const [editingTemplate, setEditingTemplate] = useState<PhaseTemplate | null>(null);
+  const [showTemplateModal, setShowTemplateModal] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
+  const [registrationMode, setRegistrationMode] = useState<RegistrationMode>('open');
+  const [allowedDomains, setAllowedDomains] = useState('');
+  const [isSavingRegistration, setIsSavingRegistration] = useState(false);
+  const [registrationError, setRegistrationError] = useState('');
+  const [registrationSuccess, setRegistrationSuccess] = useState('');
+  const [twoFactorRoles, setTwoFactorRoles] = useState<UserRole[]>([]);
+  const [isSavingTwoFactor, setIsSavingTwoFactor] = useState(false);
+  const [twoFactorError, setTwoFactorError] = useState('');
+  const [twoFactorSuccess, setTwoFactorSuccess] = useState('');
 
   const fetchSettings = async () => {
     try {
-      const response = await api.get("/settings");
-      const settingsData = response.settings || response;
+      const [settingsResponse, templatesResponse] = await Promise.all([
+        api.get('/settings'),
+        api.get('/templates'),
+      ]);
+      const settingsData = settingsResponse.settings || settingsResponse;
       setSettings(settingsData);
-
-      const data: Record<string, number> = {};
-      SETTINGS_FIELDS.forEach(({ key }) => {
-        data[key] = settingsData[key] as number;
-      });
-      setFormData(data);
+      setDefaultTemplateId(settingsData.defaultTemplateId || '');
+      setRegistrationMode(settingsData.registrationMode || 'open');
+      setAllowedDomains((settingsData.allowedEmailDomains || []).join(', '));
+      setTwoFactorRoles(settingsData.twoFactorRequiredRoles || []);
+      setTemplates(templatesResponse.templates || []);
     } catch (error) {
       console.error('Failed to fetch settings:', error);
     } finally {
@@ -54,10 +67,6 @@ export default function SettingsPage() {
     fetchSettings();
   }, []);
 
-  const handleChange = (key: string, value: number) => {
-    setFormData((prev) => ({ ...prev, [key]: value }));
-  };
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
@@ -65,7 +74,7 @@ export default function SettingsPage() {
     setIsSaving(true);
 
     try {
-      await api.patch('/settings', formData);
+      await api.patch('/settings', { defaultTemplateId });
       setSuccess('Settings saved successfully!');
       await fetchSettings();
       setTimeout(() => setSuccess(''), 3000);
@@ -76,6 +85,72 @@ export default function SettingsPage() {
     }
   };
 
+  const handleRegistrationSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setRegistrationError('');
+    setRegistrationSuccess('');
+    setIsSavingRegistration(true);
+
+    try {
+      await api.patch('/settings', {
+        registrationMode,
+        allowedEmailDomains: allowedDomains
+          .split(',')
+          .map((domain) => domain.trim())
+          .filter(Boolean),
+      });
+      setRegistrationSuccess('Registration settings saved!');
+      await fetchSettings();
+      setTimeout(() => setRegistrationSuccess(''), 3000);
+    } catch (err: any) {
+      setRegistrationError(err.message || 'Failed to save registration settings');
+    } finally {
+      setIsSavingRegistration(false);
+    }
+  };
+
+  const toggleTwoFactorRole = (role: UserRole, required: boolean) => {
+    setTwoFactorRoles((prev) =>
+      required ? [...prev, role] : prev.filter((existing) => existing !== role)
+    );
+  };
+
+  const handleTwoFactorSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setTwoFactorError('');
+    setTwoFactorSuccess('');
+    setIsSavingTwoFactor(true);
+
+    try {
+      await api.patch('/settings', { twoFactorRequiredRoles: twoFactorRoles });
+      setTwoFactorSuccess('Two-factor settings saved!');
+      await fetchSettings();
+      setTimeout(() => setTwoFactorSuccess(''), 3000);
+    } catch (err: any) {
+      setTwoFactorError(err.message || 'Failed to save two-factor settings');
+    } finally {
+      setIsSavingTwoFactor(false);
+    }
+  };
+
+  const handleDeleteTemplate = async (template: PhaseTemplate) => {
+    setError('');
+    setDeletingId(template.id);
+    try {
+      await api.delete(`/templates/${template.id}`);
+      setTemplates(templates.filter((t) => t.id !== template.id));
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete template');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  const openTemplateModal = (template: PhaseTemplate | null) => {
+    setEditingTemplate(template);
+    setShowTemplateModal(true);
+  };
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -106,9 +181,12 @@ export default function SettingsPage() {
           <div>
             <p className="text-blue-800 font-medium">Important Note</p>
             <p className="text-blue-600 text-sm mt-1">
-              These default values apply to newly created projects only.
-              Existing projects keep their current values. Admin users can
-              override these values for individual projects.
+              Phase templates define the steps, default durations and mirror
+              rules for each job type. Templates apply to newly created projects
+              only. Existing projects keep their current values, and once a
+              template is in use its phases can be renamed or re-timed but not
+              restructured. Admin users can override durations for individual
+              projects.
             </p>
           </div>
         </div>
@@ -119,7 +197,7 @@ export default function SettingsPage() {
         <form onSubmit={handleSubmit}>
           <div className="p-4 border-b border-gray-200">
             <h2 className="text-lg font-semibold text-gray-800">
-              Default Phase Duration (Business Days)
+              Default Job Type
             </h2>
           </div>
 
@@ -136,34 +214,23 @@ export default function SettingsPage() {
               </div>
             )}
 
-            <div className="grid gap-4">
-              {SETTINGS_FIELDS.map(({ key, label, description }) => (
-                <div
-                  key={key}
-                  className="flex flex-col sm:flex-row sm:items-center sm:justify-between p-4 bg-gray-50 rounded-lg gap-3"
-                >
-                  <div>
-                    <label className="font-medium text-gray-800">{label}</label>
-                    {description && (
-                      <p className="text-sm text-gray-500">{description}</p>
-                    )}
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <input
-                      type="number"
-                      min="0"
-                      max="365"
-                      value={formData[key] || 0}
-                      onChange={(e) =>
-                        handleChange(key, parseInt(e.target.value) || 0)
-                      }
-                      className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-openserve-green focus:border-openserve-green outline-none text-center"
-                    />
-                    <span className="text-gray-500 w-10">days</span>
-                  </div>
-                </div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Template for new projects
+            </label>
+            <select
+              value={defaultTemplateId}
+              onChange={(e) => setDefaultTemplateId(e.target.value)}
+              className="w-full sm:w-80 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-openserve-green focus:border-openserve-green outline-none bg-white"
+            >
+              {templates.map((template) => (
+                <option key={template.id} value={template.id}>
+                  {template.name}
+                </option>
               ))}
-            </div>
+            </select>
+            <p className="mt-1 text-xs text-gray-500">
+              Preselected when creating a project
+            </p>
           </div>
 
           <div className="p-4 border-t border-gray-200 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
@@ -193,6 +260,238 @@ export default function SettingsPage() {
           </div>
         </form>
       </div>
+
+      {/* Phase Templates */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 mt-6">
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-800">Phase Templates</h2>
+            <p className="text-sm text-gray-500">Default durations are in business days</p>
+          </div>
+          <button
+            onClick={() => openTemplateModal(null)}
+            className="bg-openserve-green hover:bg-openserve-green-dark text-white font-medium py-2 px-4 rounded-lg transition-colors flex items-center gap-2"
+          >
+            <Plus size={18} />
+            New Template
+          </button>
+        </div>
+
+        <div className="divide-y divide-gray-100">
+          {templates.map((template) => (
+            <div key={template.id} className="p-4 hover:bg-gray-50">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <Layers size={16} className="text-gray-400" />
+                    <p className="font-medium text-gray-800">{template.name}</p>
+                    {template.isDefault && (
+                      <span className="inline-flex px-2 py-0.5 rounded-lg text-xs font-medium bg-green-100 text-green-700">
+                        Default
+                      </span>
+                    )}
+                  </div>
+                  {template.description && (
+                    <p className="text-sm text-gray-500 mt-1">{template.description}</p>
+                  )}
+                  <p className="text-sm text-gray-600 mt-2">
+                    {template.phases
+                      .map((phase) =>
+                        phase.mirrorOf
+                          ? `${phase.displayName} (mirror)`
+                          : `${phase.displayName} (${phase.defaultDays}d)`
+                      )
+                      .join(' → ')}
+                  </p>
+                  <p className="text-xs text-gray-400 mt-1">
+                    Used by {template.projectCount} project
+                    {template.projectCount !== 1 ? 's' : ''}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => openTemplateModal(template)}
+                    className="p-2 text-gray-400 hover:text-openserve-green hover:bg-green-50 rounded-lg transition-colors"
+                    title="Edit template"
+                  >
+                    <Edit size={18} />
+                  </button>
+                  {!template.isDefault && template.projectCount === 0 && (
+                    <button
+                      onClick={() => handleDeleteTemplate(template)}
+                      disabled={deletingId === template.id}
+                      className="p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors"
+                      title="Delete template"
+                    >
+                      {deletingId === template.id ? (
+                        <LoadingSpinner size="sm" />
+                      ) : (
+                        <Trash2 size={18} />
+                      )}
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Registration */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 mt-6">
+        <form onSubmit={handleRegistrationSubmit}>
+          <div className="p-4 border-b border-gray-200 flex items-center gap-2">
+            <UserCheck size={20} className="text-gray-400" />
+            <h2 className="text-lg font-semibold text-gray-800">Registration</h2>
+          </div>
+
+          <div className="p-4 space-y-4">
+            {registrationError && (
+              <div className="p-3 bg-red-50 border border-red-200 text-red-600 rounded-lg text-sm">
+                {registrationError}
+              </div>
+            )}
+
+            {registrationSuccess && (
+              <div className="p-3 bg-green-50 border border-green-200 text-green-600 rounded-lg text-sm">
+                {registrationSuccess}
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Who can create an account
+              </label>
+              <select
+                value={registrationMode}
+                onChange={(e) => setRegistrationMode(e.target.value as RegistrationMode)}
+                className="w-full sm:w-80 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-openserve-green focus:border-openserve-green outline-none bg-white"
+              >
+                <option value="open">Anyone</option>
+                <option value="domain">Allowed email domains only</option>
+                <option value="invite">Invitation only</option>
+              </select>
+              <p className="mt-1 text-xs text-gray-500">
+                Invited users can always join, whatever this is set to
+              </p>
+            </div>
+
+            {registrationMode === 'domain' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Allowed email domains
+                </label>
+                <input
+                  type="text"
+                  value={allowedDomains}
+                  onChange={(e) => setAllowedDomains(e.target.value)}
+                  className="w-full sm:w-96 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-openserve-green focus:border-openserve-green outline-none transition-colors"
+                  placeholder="openserve.co.za, telkom.co.za"
+                />
+                <p className="mt-1 text-xs text-gray-500">Separate domains with commas</p>
+              </div>
+            )}
+          </div>
+
+          <div className="p-4 border-t border-gray-200 flex justify-end">
+            <button
+              type="submit"
+              disabled={isSavingRegistration}
+              className="bg-openserve-green hover:bg-openserve-green-dark text-white font-medium py-2.5 px-6 rounded-lg transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+            >
+              {isSavingRegistration ? (
+                <>
+                  <LoadingSpinner size="sm" />
+                  Saving...
+                </>
+              ) : (
+                <>
+                  <Save size={20} />
+                  Save Registration
+                </>
+              )}
+            </button>
+          </div>
+        </form>
+      </div>
+
+      {/* Two-factor authentication */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 mt-6">
+        <form onSubmit={handleTwoFactorSubmit}>
+          <div className="p-4 border-b border-gray-200 flex items-center gap-2">
+            <ShieldCheck size={20} className="text-gray-400" />
+            <h2 className="text-lg font-semibold text-gray-800">Two-Factor Authentication</h2>
+          </div>
+
+          <div className="p-4 space-y-4">
+            {twoFactorError && (
+              <div className="p-3 bg-red-50 border border-red-200 text-red-600 rounded-lg text-sm">
+                {twoFactorError}
+              </div>
+            )}
+
+            {twoFactorSuccess && (
+              <div className="p-3 bg-green-50 border border-green-200 text-green-600 rounded-lg text-sm">
+                {twoFactorSuccess}
+              </div>
+            )}
+
+            <fieldset>
+              <legend className="block text-sm font-medium text-gray-700 mb-2">
+                Require an authenticator app for
+              </legend>
+              <div className="space-y-2">
+                {TWO_FACTOR_ROLES.map(({ role, label }) => (
+                  <label key={role} className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={twoFactorRoles.includes(role)}
+                      onChange={(e) => toggleTwoFactorRole(role, e.target.checked)}
+                      className="rounded border-gray-300 text-openserve-green focus:ring-openserve-green"
+                    />
+                    {label}
+                  </label>
+                ))}
+              </div>
+              <p className="mt-2 text-xs text-gray-500">
+                Users in these roles who haven't set it up are asked to the next time they sign
+                in. Anyone can turn it on from their profile.
+              </p>
+            </fieldset>
+          </div>
+
+          <div className="p-4 border-t border-gray-200 flex justify-end">
+            <button
+              type="submit"
+              disabled={isSavingTwoFactor}
+              className="bg-openserve-green hover:bg-openserve-green-dark text-white font-medium py-2.5 px-6 rounded-lg transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+            >
+              {isSavingTwoFactor ? (
+                <>
+                  <LoadingSpinner size="sm" />
+                  Saving...
+                </>
+              ) : (
+                <>
+                  <Save size={20} />
+                  Save Two-Factor Settings
+                </>
+              )}
+            </button>
+          </div>
+        </form>
+      </div>
+
+      {showTemplateModal && (
+        <PhaseTemplateModal
+          template={editingTemplate}
+          onClose={() => setShowTemplateModal(false)}
+          onSaved={() => {
+            setShowTemplateModal(false);
+            fetchSettings();
+          }}
+        />
+      )}
     </div>
   );
 }
@@ -1,10 +1,26 @@
 import { useState, useEffect } from 'react';
 import { api } from '../utils/api';
 import { useAuthStore } from '../store/authStore';
-import { User, UserRole } from '../types';
+import { User, UserInvite, UserRole, UserSession } from '../types';
 import { format } from 'date-fns';
-import { Trash2, Shield, ShieldCheck, UserCog } from 'lucide-react';
+import {
+  Trash2,
+  Shield,
+  ShieldCheck,
+  UserCog,
+  UserPlus,
+  Mail,
+  RefreshCw,
+  X,
+  Monitor,
+  LogOut,
+  ShieldOff,
+  Lock,
+  Unlock,
+} from 'lucide-react';
 import LoadingSpinner from '../components/LoadingSpinner';
+import SessionList from '../components/SessionList';
+import FailedLoginsPanel from '../components/FailedLoginsPanel';
 
 export default function UsersPage() {
   const [users, setUsers] = useState<User[]>([]);
@@ -12,6 +28,21 @@ export default function UsersPage() {
   const [deleteId, setDeleteId] = useState<string | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
   const [updatingRole, setUpdatingRole] = useState<string | null>(null);
+  const [invites, setInvites] = useState<UserInvite[]>([]);
+  const [showInviteModal, setShowInviteModal] = useState(false);
+  const [inviteForm, setInviteForm] = useState({ email: '', name: '', role: 'staff' as UserRole });
+  const [isInviting, setIsInviting] = useState(false);
+  const [inviteError, setInviteError] = useState('');
+  const [inviteLink, setInviteLink] = useState('');
+  const [busyInviteId, setBusyInviteId] = useState<string | null>(null);
+  const [sessionsUser, setSessionsUser] = useState<User | null>(null);
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [isLoadingSessions, setIsLoadingSessions] = useState(false);
+  const [revokingSessionId, setRevokingSessionId] = useState<string | null>(null);
+  const [sessionsError, setSessionsError] = useState('');
+  const [resetTwoFactorUser, setResetTwoFactorUser] = useState<User | null>(null);
+  const [isResettingTwoFactor, setIsResettingTwoFactor] = useState(false);
+  const [unlockingId, setUnlockingId] = useState<string | null>(null);
 
   const { user: currentUser } = useAuthStore();
 
@@ -26,10 +57,152 @@ export default function UsersPage() {
     }
   };
 
+  const fetchInvites = async () => {
+    try {
+      const response = await api.get('/invites');
+      setInvites(response.invites || []);
+    } catch (error) {
+      console.error('Failed to fetch invites:', error);
+    }
+  };
+
   useEffect(() => {
     fetchUsers();
+    fetchInvites();
   }, []);
 
+  const openSessions = async (targetUser: User) => {
+    setSessionsUser(targetUser);
+    setSessions([]);
+    setSessionsError('');
+    setIsLoadingSessions(true);
+    try {
+      const response = await api.get(`/users/${targetUser.id}/sessions`);
+      setSessions(response.sessions || []);
+    } catch (err: any) {
+      setSessionsError(err.message || 'Failed to load sessions');
+    } finally {
+      setIsLoadingSessions(false);
+    }
+  };
+
+  const handleRevokeSession = async (session: UserSession) => {
+    if (!sessionsUser) return;
+    setSessionsError('');
+    setRevokingSessionId(session.id);
+    try {
+      await api.delete(`/users/${sessionsUser.id}/sessions/${session.id}`);
+      setSessions(sessions.filter((s) => s.id !== session.id));
+    } catch (err: any) {
+      setSessionsError(err.message || 'Failed to sign out session');
+    } finally {
+      setRevokingSessionId(null);
+    }
+  };
+
+  const handleRevokeAllSessions = async () => {
+    if (!sessionsUser) return;
+    setSessionsError('');
+    setRevokingSessionId('all');
+    try {
+      await api.delete(`/users/${sessionsUser.id}/sessions`);
+      setSessions([]);
+    } catch (err: any) {
+      setSessionsError(err.message || 'Failed to sign out sessions');
+    } finally {
+      setRevokingSessionId(null);
+    }
+  };
+
+  const handleResetTwoFactor = async (targetUser: User) => {
+    setIsResettingTwoFactor(true);
+    try {
+      await api.delete(`/users/${targetUser.id}/2fa`);
+      setUsers(users.map((u) => (u.id === targetUser.id ? { ...u, twoFactorEnabled: false } : u)));
+      setResetTwoFactorUser(null);
+    } catch (error: any) {
+      alert(error.message || 'Failed to reset two-factor authentication');
+    } finally {
+      setIsResettingTwoFactor(false);
+    }
+  };
+
+  const handleUnlock = async (targetUser: User) => {
+    setUnlockingId(targetUser.id);
+    try {
+      await api.post(`/users/${targetUser.id}/unlock`);
+      setUsers(
+        users.map((u) =>
+          u.id === targetUser.id ? { ...u, lockedUntil: null, failedLoginCount: 0 } : u
+        )
+      );
+    } catch (error: any) {
+      alert(error.message || 'Failed to unlock user');
+    } finally {
+      setUnlockingId(null);
+    }
+  };
+
+  const openInviteModal = () => {
+    setInviteForm({ email: '', name: '', role: 'staff' });
+    setInviteError('');
+    setInviteLink('');
+    setShowInviteModal(true);
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setInviteError('');
+    setIsInviting(true);
+    try {
+      const response = await api.post('/invites', {
+        email: inviteForm.email,
+        name: inviteForm.name || undefined,
+        role: inviteForm.role,
+      });
+      // Deployments without email hand back the link to share instead
+      if (response.inviteUrl) {
+        setInviteLink(response.inviteUrl);
+      } else {
+        setShowInviteModal(false);
+      }
+      await fetchInvites();
+    } catch (err: any) {
+      setInviteError(err.message || 'Failed to send invite');
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleResendInvite = async (id: string) => {
+    setBusyInviteId(id);
+    try {
+      const response = await api.post(`/invites/${id}/resend`);
+      if (response.inviteUrl) {
+        setInviteError('');
+        setInviteLink(response.inviteUrl);
+        setShowInviteModal(true);
+      }
+      await fetchInvites();
+    } catch (error: any) {
+      alert(error.message || 'Failed to resend invite');
+    } finally {
+      setBusyInviteId(null);
+    }
+  };
+
+  const handleRevokeInvite = async (id: string) => {
+    setBusyInviteId(id);
+    try {
+      await api.delete(`/invites/${id}`);
+      await fetchInvites();
+    } catch (error: any) {
+      alert(error.message || 'Failed to revoke invite');
+    } finally {
+      setBusyInviteId(null);
+    }
+  };
+
   const handleRoleChange = async (userId: string, newRole: UserRole) => {
     setUpdatingRole(userId);
     try {
@@ -103,6 +276,13 @@ export default function UsersPage() {
     return false;
   };
 
+  // Your own sessions are on your profile page
+  const canManageSessions = (targetUser: User) => {
+    if (!currentUser) return false;
+    if (targetUser.id === currentUser.id) return false;
+    return currentUser.role === 'superadmin' || targetUser.role === 'staff';
+  };
+
   const canDeleteUser = (targetUser: User) => {
     if (!currentUser) return false;
     if (targetUser.id === currentUser.id) return false;
@@ -139,6 +319,15 @@ export default function UsersPage() {
     return [];
   };
 
+  // Admins invite staff; Super Admins can invite any role
+  const inviteRoles: UserRole[] =
+    currentUser?.role === 'superadmin' ? ['staff', 'admin', 'superadmin'] : ['staff'];
+
+  // Accepted invites show up as users, and revoked ones need no action
+  const openInvites = invites.filter(
+    (invite) => invite.status === 'pending' || invite.status === 'expired'
+  );
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -157,6 +346,13 @@ export default function UsersPage() {
             {users.length} total user{users.length !== 1 ? 's' : ''}
           </p>
         </div>
+        <button
+          onClick={openInviteModal}
+          className="bg-openserve-green hover:bg-openserve-green-dark text-white font-medium py-2.5 px-4 rounded-lg transition-colors flex items-center gap-2"
+        >
+          <UserPlus size={20} />
+          Invite User
+        </button>
       </div>
 
       {/* Users Table */}
@@ -198,6 +394,26 @@ export default function UsersPage() {
                           {user.id === currentUser?.id && (
                             <span className="ml-2 text-xs text-gray-400">(you)</span>
                           )}
+                          {user.twoFactorEnabled && (
+                            <span
+                              className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-700"
+                              title="Signs in with two-factor authentication"
+                            >
+                              2FA
+                            </span>
+                          )}
+                          {user.lockedUntil && (
+                            <span
+                              className="ml-2 inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-700"
+                              title={`Locked after too many failed sign-ins until ${format(
+                                new Date(user.lockedUntil),
+                                'dd MMM yyyy HH:mm'
+                              )}`}
+                            >
+                              <Lock size={12} />
+                              Locked
+                            </span>
+                          )}
                         </div>
                       </div>
                     </div>
@@ -246,6 +462,39 @@ export default function UsersPage() {
                   </td>
                   <td className="px-4 py-3">
                     <div className="flex justify-end">
+                      {user.lockedUntil &&
+                        canManageSessions(user) &&
+                        (unlockingId === user.id ? (
+                          <div className="p-2">
+                            <LoadingSpinner size="sm" />
+                          </div>
+                        ) : (
+                          <button
+                            onClick={() => handleUnlock(user)}
+                            className="p-2 text-red-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                            title="Unlock account"
+                          >
+                            <Unlock size={18} />
+                          </button>
+                        ))}
+                      {canManageSessions(user) && (
+                        <button
+                          onClick={() => openSessions(user)}
+                          className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                          title="Sessions"
+                        >
+                          <Monitor size={18} />
+                        </button>
+                      )}
+                      {canManageSessions(user) && user.twoFactorEnabled && (
+                        <button
+                          onClick={() => setResetTwoFactorUser(user)}
+                          className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                          title="Reset two-factor authentication"
+                        >
+                          <ShieldOff size={18} />
+                        </button>
+                      )}
                       {canDeleteUser(user) ? (
                         <button
                           onClick={() => setDeleteId(user.id)}
@@ -266,6 +515,290 @@ export default function UsersPage() {
         </div>
       </div>
 
+      {/* Invitations */}
+      {openInvites.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 mt-6">
+          <div className="p-4 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-800">Invitations</h2>
+            <p className="text-sm text-gray-500">Sent but not yet accepted</p>
+          </div>
+          <div className="divide-y divide-gray-100">
+            {openInvites.map((invite) => (
+              <div
+                key={invite.id}
+                className="p-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3"
+              >
+                <div className="flex items-center gap-3 min-w-0">
+                  <div className="w-10 h-10 bg-gray-100 rounded-full flex items-center justify-center flex-shrink-0">
+                    <Mail size={18} className="text-gray-400" />
+                  </div>
+                  <div className="min-w-0">
+                    <div className="font-medium text-gray-800 truncate">
+                      {invite.name ? `${invite.name} (${invite.email})` : invite.email}
+                    </div>
+                    <div className="text-sm text-gray-500">
+                      {getRoleLabel(invite.role)} · invited
+                      {invite.invitedByUser ? ` by ${invite.invitedByUser.name}` : ''} on{' '}
+                      {format(new Date(invite.createdAt), 'dd MMM yyyy')} ·{' '}
+                      {invite.status === 'expired' ? (
+                        <span className="text-red-600">
+                          expired {format(new Date(invite.expiresAt), 'dd MMM yyyy')}
+                        </span>
+                      ) : (
+                        `expires ${format(new Date(invite.expiresAt), 'dd MMM yyyy')}`
+                      )}
+                    </div>
+                  </div>
+                </div>
+                <div className="flex items-center gap-1 self-end sm:self-auto">
+                  {busyInviteId === invite.id ? (
+                    <LoadingSpinner size="sm" />
+                  ) : (
+                    <>
+                      {inviteRoles.includes(invite.role) && (
+                        <button
+                          onClick={() => handleResendInvite(invite.id)}
+                          className="px-3 py-1.5 text-sm text-gray-600 hover:bg-gray-100 rounded-lg transition-colors flex items-center gap-1.5"
+                          title="Send a new link"
+                        >
+                          <RefreshCw size={16} />
+                          Resend
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleRevokeInvite(invite.id)}
+                        className="px-3 py-1.5 text-sm text-gray-600 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors flex items-center gap-1.5"
+                        title="Revoke invitation"
+                      >
+                        <X size={16} />
+                        Revoke
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <FailedLoginsPanel />
+
+      {/* Invite Modal */}
+      {showInviteModal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-xl max-w-md w-full">
+            <div className="flex items-center justify-between p-4 border-b border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-800">Invite User</h3>
+              <button
+                onClick={() => setShowInviteModal(false)}
+                className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <X size={20} className="text-gray-500" />
+              </button>
+            </div>
+            {inviteLink ? (
+              <div className="p-4 space-y-4">
+                <p className="text-sm text-gray-600">
+                  Email isn't set up on this server, so share this link with them. It expires in 7
+                  days.
+                </p>
+                <input
+                  type="text"
+                  readOnly
+                  value={inviteLink}
+                  onFocus={(e) => e.target.select()}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg bg-gray-50 font-mono text-sm text-gray-800 outline-none"
+                />
+                <div className="flex justify-end pt-2">
+                  <button
+                    type="button"
+                    onClick={() => setShowInviteModal(false)}
+                    className="px-4 py-2 bg-openserve-green hover:bg-openserve-green-dark text-white rounded-lg transition-colors"
+                  >
+                    Done
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <form onSubmit={handleInvite} className="p-4 space-y-4">
+                {inviteError && (
+                  <div className="p-3 bg-red-50 border border-red-200 text-red-600 rounded-lg text-sm">
+                    {inviteError}
+                  </div>
+                )}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Email address *
+                  </label>
+                  <input
+                    type="email"
+                    value={inviteForm.email}
+                    onChange={(e) => setInviteForm({ ...inviteForm, email: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-openserve-green focus:border-openserve-green outline-none transition-colors"
+                    placeholder="colleague@openserve.co.za"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                  <input
+                    type="text"
+                    value={inviteForm.name}
+                    onChange={(e) => setInviteForm({ ...inviteForm, name: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-openserve-green focus:border-openserve-green outline-none transition-colors"
+                    placeholder="Optional, they can change it"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Role</label>
+                  <select
+                    value={inviteForm.role}
+                    onChange={(e) =>
+                      setInviteForm({ ...inviteForm, role: e.target.value as UserRole })
+                    }
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-openserve-green focus:border-openserve-green outline-none bg-white"
+                  >
+                    {inviteRoles.map((role) => (
+                      <option key={role} value={role}>
+                        {getRoleLabel(role)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <p className="text-xs text-gray-500">
+                  They'll get an email with a link to set their password. The link expires in 7
+                  days and works even when open registration is turned off.
+                </p>
+                <div className="flex justify-end gap-3 pt-2">
+                  <button
+                    type="button"
+                    onClick={() => setShowInviteModal(false)}
+                    className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                    disabled={isInviting}
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    className="px-4 py-2 bg-openserve-green hover:bg-openserve-green-dark text-white rounded-lg transition-colors flex items-center gap-2"
+                    disabled={isInviting}
+                  >
+                    {isInviting ? (
+                      <LoadingSpinner size="sm" />
+                    ) : (
+                      <>
+                        <Mail size={18} />
+                        Send Invite
+                      </>
+                    )}
+                  </button>
+                </div>
+              </form>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Sessions Modal */}
+      {sessionsUser && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-xl max-w-lg w-full max-h-[80vh] flex flex-col">
+            <div className="flex items-center justify-between p-4 border-b border-gray-200">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-800">Sessions</h3>
+                <p className="text-sm text-gray-500">Where {sessionsUser.name} is signed in</p>
+              </div>
+              <button
+                onClick={() => setSessionsUser(null)}
+                className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <X size={20} className="text-gray-500" />
+              </button>
+            </div>
+            {sessionsError && (
+              <div className="m-4 mb-0 p-3 bg-red-50 border border-red-200 text-red-600 rounded-lg text-sm">
+                {sessionsError}
+              </div>
+            )}
+            <div className="overflow-y-auto">
+              {isLoadingSessions ? (
+                <div className="flex justify-center p-8">
+                  <LoadingSpinner />
+                </div>
+              ) : (
+                <SessionList
+                  sessions={sessions}
+                  revokingId={revokingSessionId}
+                  onRevoke={handleRevokeSession}
+                />
+              )}
+            </div>
+            <div className="p-4 border-t border-gray-200 flex justify-end gap-3">
+              <button
+                onClick={() => setSessionsUser(null)}
+                className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                Close
+              </button>
+              <button
+                onClick={handleRevokeAllSessions}
+                className="px-4 py-2 bg-red-500 hover:bg-red-600 text-white rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50"
+                disabled={sessions.length === 0 || revokingSessionId !== null}
+              >
+                {revokingSessionId === 'all' ? (
+                  <LoadingSpinner size="sm" />
+                ) : (
+                  <>
+                    <LogOut size={18} />
+                    Sign out everywhere
+                  </>
+                )}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Reset Two-Factor Confirmation Modal */}
+      {resetTwoFactorUser && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-xl max-w-md w-full p-6">
+            <h3 className="text-lg font-semibold text-gray-800 mb-2">
+              Reset Two-Factor Authentication?
+            </h3>
+            <p className="text-gray-500 mb-6">
+              {resetTwoFactorUser.name}'s authenticator app and recovery codes will stop working.
+              They can sign in with just their password, and will be asked to set up a new app if
+              their role requires it.
+            </p>
+            <div className="flex justify-end gap-3">
+              <button
+                onClick={() => setResetTwoFactorUser(null)}
+                className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                disabled={isResettingTwoFactor}
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => handleResetTwoFactor(resetTwoFactorUser)}
+                className="px-4 py-2 bg-red-500 hover:bg-red-600 text-white rounded-lg transition-colors flex items-center gap-2"
+                disabled={isResettingTwoFactor}
+              >
+                {isResettingTwoFactor ? (
+                  <LoadingSpinner size="sm" />
+                ) : (
+                  <>
+                    <ShieldOff size={18} />
+                    Reset
+                  </>
+                )}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Delete Confirmation Modal */}
       {deleteId && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
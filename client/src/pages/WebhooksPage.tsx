@@ -0,0 +1,571 @@
+import { useState, useEffect } from 'react';
+import { api } from '../utils/api';
+import { Webhook as WebhookConfig, WebhookDelivery, WebhookEvent } from '../types';
+import { format } from 'date-fns';
+import {
+  Webhook,
+  Plus,
+  Pencil,
+  Trash2,
+  Send,
+  Eye,
+  EyeOff,
+  ChevronDown,
+  ChevronRight,
+  RefreshCw,
+  Info,
+} from 'lucide-react';
+import LoadingSpinner from '../components/LoadingSpinner';
+
+const EVENT_OPTIONS: { value: WebhookEvent; label: string }[] = [
+  { value: 'project.created', label: 'Project created' },
+  { value: 'project.updated', label: 'Project schedule updated' },
+  { value: 'project.deleted', label: 'Project deleted' },
+  { value: 'phase.completed', label: 'Phase completed' },
+  { value: 'phase.reopened', label: 'Phase reopened' },
+  { value: 'phase.overdue', label: 'Phase overdue' },
+];
+
+const STATUS_STYLES: Record<WebhookDelivery['status'], string> = {
+  success: 'bg-green-100 text-green-700',
+  pending: 'bg-yellow-100 text-yellow-700',
+  failed: 'bg-red-100 text-red-700',
+};
+
+interface WebhookForm {
+  name: string;
+  url: string;
+  secret: string;
+  events: WebhookEvent[];
+  isActive: boolean;
+}
+
+const emptyForm: WebhookForm = { name: '', url: '', secret: '', events: [], isActive: true };
+
+const inputClass =
+  'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-openserve-green focus:border-openserve-green outline-none';
+
+export default function WebhooksPage() {
+  const [webhooks, setWebhooks] = useState<WebhookConfig[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [formData, setFormData] = useState<WebhookForm>(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [visibleSecretId, setVisibleSecretId] = useState<string | null>(null);
+  const [testingId, setTestingId] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [isLoadingDeliveries, setIsLoadingDeliveries] = useState(false);
+  const [deleteId, setDeleteId] = useState<string | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const fetchWebhooks = async () => {
+    try {
+      const response = await api.get('/webhooks');
+      setWebhooks(response.webhooks || []);
+    } catch (error) {
+      console.error('Failed to fetch webhooks:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const fetchDeliveries = async (webhookId: string) => {
+    setIsLoadingDeliveries(true);
+    try {
+      const response = await api.get(`/webhooks/${webhookId}/deliveries`);
+      setDeliveries(response.deliveries || []);
+    } catch (error) {
+      console.error('Failed to fetch webhook deliveries:', error);
+    } finally {
+      setIsLoadingDeliveries(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchWebhooks();
+  }, []);
+
+  const showSuccess = (message: string) => {
+    setSuccess(message);
+    setTimeout(() => setSuccess(''), 3000);
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const toggleEvent = (event: WebhookEvent) => {
+    setFormData((prev) => ({
+      ...prev,
+      events: prev.events.includes(event)
+        ? prev.events.filter((e) => e !== event)
+        : [...prev.events, event],
+    }));
+  };
+
+  const handleEdit = (webhook: WebhookConfig) => {
+    setError('');
+    setEditingId(webhook.id);
+    setFormData({
+      name: webhook.name,
+      url: webhook.url,
+      secret: '',
+      events: webhook.events,
+      isActive: webhook.isActive,
+    });
+  };
+
+  const handleCancelEdit = () => {
+    setError('');
+    setEditingId(null);
+    setFormData(emptyForm);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsSaving(true);
+
+    // A blank secret keeps the current one, or has the server generate one
+    const { secret, ...rest } = formData;
+    const payload = secret ? formData : rest;
+
+    try {
+      if (editingId) {
+        await api.patch(`/webhooks/${editingId}`, payload);
+        showSuccess('Webhook updated.');
+      } else {
+        await api.post('/webhooks', payload);
+        showSuccess('Webhook added. Copy its secret to your receiver to verify signatures.');
+      }
+      setEditingId(null);
+      setFormData(emptyForm);
+      await fetchWebhooks();
+    } catch (err: any) {
+      setError(err.message || 'Failed to save webhook');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (webhook: WebhookConfig) => {
+    setError('');
+    try {
+      const response = await api.patch(`/webhooks/${webhook.id}`, {
+        isActive: !webhook.isActive,
+      });
+      setWebhooks(webhooks.map((w) => (w.id === webhook.id ? response.webhook : w)));
+    } catch (err: any) {
+      setError(err.message || 'Failed to update webhook');
+    }
+  };
+
+  const handleTest = async (webhook: WebhookConfig) => {
+    setError('');
+    setTestingId(webhook.id);
+    try {
+      const response = await api.post(`/webhooks/${webhook.id}/test`);
+      const delivery: WebhookDelivery = response.delivery;
+      if (delivery.status === 'success') {
+        showSuccess(`Test event delivered to ${webhook.name} (HTTP ${delivery.responseStatus}).`);
+      } else {
+        setError(`Test event to ${webhook.name} failed: ${delivery.error}`);
+      }
+      if (expandedId === webhook.id) {
+        await fetchDeliveries(webhook.id);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to send test event');
+    } finally {
+      setTestingId(null);
+    }
+  };
+
+  const handleToggleDeliveries = async (webhookId: string) => {
+    if (expandedId === webhookId) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(webhookId);
+    setDeliveries([]);
+    await fetchDeliveries(webhookId);
+  };
+
+  const handleDelete = async (id: string) => {
+    setIsDeleting(true);
+    try {
+      await api.delete(`/webhooks/${id}`);
+      setWebhooks(webhooks.filter((w) => w.id !== id));
+      if (editingId === id) handleCancelEdit();
+      if (expandedId === id) setExpandedId(null);
+      setDeleteId(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete webhook');
+      setDeleteId(null);
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="flex items-center gap-3 mb-6">
+        <div className="p-2 bg-openserve-green/10 rounded-lg">
+          <Webhook size={24} className="text-openserve-green" />
+        </div>
+        <div>
+          <h1 className="text-2xl font-bold text-gray-800">Webhooks</h1>
+          <p className="text-gray-500">Notify other systems when projects and phases change</p>
+        </div>
+      </div>
+
+      {/* Info Box */}
+      <div className="bg-blue-50 border border-blue-200 rounded-xl p-4 mb-6">
+        <div className="flex items-start gap-3">
+          <Info size={20} className="text-blue-500 flex-shrink-0 mt-0.5" />
+          <div>
+            <p className="text-blue-800 font-medium">How deliveries work</p>
+            <p className="text-blue-600 text-sm mt-1">
+              Each event is POSTed as JSON to the webhook URL. The{' '}
+              <code>X-Webhook-Signature</code> header holds an HMAC-SHA256 of the{' '}
+              <code>X-Webhook-Timestamp</code> header, a full stop and the raw body, keyed
+              with the webhook's secret. Any response other than 2xx is retried with
+              increasing delays, up to 6 attempts.
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {/* Webhook Form */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 mb-6">
+        <div className="p-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-800">
+            {editingId ? 'Edit Webhook' : 'Add Webhook'}
+          </h2>
+        </div>
+        <form onSubmit={handleSubmit} className="p-4 space-y-4">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 text-red-600 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          {success && (
+            <div className="p-3 bg-green-50 border border-green-200 text-green-600 rounded-lg text-sm">
+              {success}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <input
+              type="text"
+              name="name"
+              value={formData.name}
+              onChange={handleChange}
+              className={inputClass}
+              placeholder="e.g., Operations dashboard"
+              required
+            />
+            <input
+              type="url"
+              name="url"
+              value={formData.url}
+              onChange={handleChange}
+              className={inputClass}
+              placeholder="https://example.com/hooks/openserve"
+              required
+            />
+          </div>
+
+          <input
+            type="text"
+            name="secret"
+            value={formData.secret}
+            onChange={handleChange}
+            className={inputClass}
+            placeholder={
+              editingId
+                ? 'New secret (leave blank to keep the current one)'
+                : 'Secret (leave blank to generate one)'
+            }
+            minLength={16}
+          />
+
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">Events</p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
+              {EVENT_OPTIONS.map((option) => (
+                <label key={option.value} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={formData.events.includes(option.value)}
+                    onChange={() => toggleEvent(option.value)}
+                    className="rounded border-gray-300 text-openserve-green focus:ring-openserve-green"
+                  />
+                  {option.label}
+                  <code className="text-xs text-gray-400">{option.value}</code>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={formData.isActive}
+                onChange={(e) => setFormData((prev) => ({ ...prev, isActive: e.target.checked }))}
+                className="rounded border-gray-300 text-openserve-green focus:ring-openserve-green"
+              />
+              Active
+            </label>
+            <div className="flex justify-end gap-3">
+              {editingId && (
+                <button
+                  type="button"
+                  onClick={handleCancelEdit}
+                  className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                >
+                  Cancel
+                </button>
+              )}
+              <button
+                type="submit"
+                disabled={isSaving || formData.events.length === 0}
+                className="bg-openserve-green hover:bg-openserve-green-dark text-white font-medium py-2 px-4 rounded-lg transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+              >
+                {isSaving ? (
+                  <LoadingSpinner size="sm" />
+                ) : editingId ? (
+                  'Save Changes'
+                ) : (
+                  <>
+                    <Plus size={18} />
+                    Add Webhook
+                  </>
+                )}
+              </button>
+            </div>
+          </div>
+        </form>
+      </div>
+
+      {/* Webhook List */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        {webhooks.length === 0 ? (
+          <p className="p-4 text-sm text-gray-500">No webhooks configured.</p>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {webhooks.map((webhook) => (
+              <div key={webhook.id}>
+                <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-3 px-4 py-3">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium text-gray-800">{webhook.name}</p>
+                      <button
+                        onClick={() => handleToggleActive(webhook)}
+                        className={`inline-flex px-2 py-0.5 rounded-lg text-xs font-medium ${
+                          webhook.isActive
+                            ? 'bg-green-100 text-green-700'
+                            : 'bg-gray-200 text-gray-600'
+                        }`}
+                        title={webhook.isActive ? 'Pause deliveries' : 'Resume deliveries'}
+                      >
+                        {webhook.isActive ? 'Active' : 'Paused'}
+                      </button>
+                    </div>
+                    <p className="text-sm text-gray-500 truncate">{webhook.url}</p>
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {webhook.events.map((event) => (
+                        <span
+                          key={event}
+                          className="inline-flex px-2 py-0.5 rounded text-xs bg-gray-100 text-gray-600"
+                        >
+                          {event}
+                        </span>
+                      ))}
+                    </div>
+                    <div className="flex items-center gap-2 mt-1 text-xs text-gray-500">
+                      <span>Secret:</span>
+                      <code>
+                        {visibleSecretId === webhook.id ? webhook.secret : '••••••••••••'}
+                      </code>
+                      <button
+                        onClick={() =>
+                          setVisibleSecretId(visibleSecretId === webhook.id ? null : webhook.id)
+                        }
+                        className="text-gray-400 hover:text-gray-600"
+                        title={visibleSecretId === webhook.id ? 'Hide secret' : 'Show secret'}
+                      >
+                        {visibleSecretId === webhook.id ? <EyeOff size={14} /> : <Eye size={14} />}
+                      </button>
+                    </div>
+                  </div>
+
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <button
+                      onClick={() => handleTest(webhook)}
+                      disabled={testingId === webhook.id}
+                      className="px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-2 disabled:opacity-50"
+                    >
+                      {testingId === webhook.id ? <LoadingSpinner size="sm" /> : <Send size={16} />}
+                      Send test event
+                    </button>
+                    <button
+                      onClick={() => handleToggleDeliveries(webhook.id)}
+                      className="px-3 py-2 text-sm text-gray-600 hover:bg-gray-100 rounded-lg transition-colors flex items-center gap-1"
+                    >
+                      {expandedId === webhook.id ? (
+                        <ChevronDown size={16} />
+                      ) : (
+                        <ChevronRight size={16} />
+                      )}
+                      Deliveries
+                    </button>
+                    <button
+                      onClick={() => handleEdit(webhook)}
+                      className="p-2 text-gray-400 hover:text-openserve-green hover:bg-green-50 rounded-lg transition-colors"
+                      title="Edit webhook"
+                    >
+                      <Pencil size={18} />
+                    </button>
+                    <button
+                      onClick={() => setDeleteId(webhook.id)}
+                      className="p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors"
+                      title="Delete webhook"
+                    >
+                      <Trash2 size={18} />
+                    </button>
+                  </div>
+                </div>
+
+                {/* Delivery Log */}
+                {expandedId === webhook.id && (
+                  <div className="px-4 pb-4">
+                    <div className="border border-gray-200 rounded-lg overflow-hidden">
+                      <div className="flex items-center justify-between px-3 py-2 bg-gray-50 border-b border-gray-200">
+                        <p className="text-sm font-medium text-gray-700">Recent deliveries</p>
+                        <button
+                          onClick={() => fetchDeliveries(webhook.id)}
+                          className="p-1 text-gray-400 hover:text-gray-600"
+                          title="Refresh"
+                        >
+                          <RefreshCw size={14} />
+                        </button>
+                      </div>
+                      {isLoadingDeliveries ? (
+                        <div className="flex items-center justify-center p-6">
+                          <LoadingSpinner />
+                        </div>
+                      ) : deliveries.length === 0 ? (
+                        <p className="p-3 text-sm text-gray-500">No deliveries yet.</p>
+                      ) : (
+                        <div className="overflow-x-auto max-h-80 overflow-y-auto">
+                          <table className="w-full text-sm">
+                            <thead>
+                              <tr className="border-b border-gray-200 text-gray-600">
+                                <th className="text-left px-3 py-2 font-semibold">Time</th>
+                                <th className="text-left px-3 py-2 font-semibold">Event</th>
+                                <th className="text-left px-3 py-2 font-semibold">Status</th>
+                                <th className="text-left px-3 py-2 font-semibold">Attempts</th>
+                                <th className="text-left px-3 py-2 font-semibold">Response</th>
+                              </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-100">
+                              {deliveries.map((delivery) => (
+                                <tr key={delivery.id} className="align-top">
+                                  <td className="px-3 py-2 text-gray-600 whitespace-nowrap">
+                                    {format(new Date(delivery.createdAt), 'dd MMM yyyy HH:mm:ss')}
+                                  </td>
+                                  <td className="px-3 py-2 text-gray-800">
+                                    <code>{delivery.event}</code>
+                                  </td>
+                                  <td className="px-3 py-2">
+                                    <span
+                                      className={`inline-flex px-2 py-0.5 rounded-lg text-xs font-medium capitalize ${
+                                        STATUS_STYLES[delivery.status]
+                                      }`}
+                                    >
+                                      {delivery.status}
+                                    </span>
+                                  </td>
+                                  <td className="px-3 py-2 text-gray-600">{delivery.attempts}</td>
+                                  <td className="px-3 py-2 text-gray-600">
+                                    {delivery.responseStatus && (
+                                      <span className="mr-2">HTTP {delivery.responseStatus}</span>
+                                    )}
+                                    {delivery.error && (
+                                      <span className="text-red-600">{delivery.error}</span>
+                                    )}
+                                    {delivery.status === 'pending' && delivery.nextAttemptAt && (
+                                      <span className="block text-xs text-gray-400">
+                                        Next attempt{' '}
+                                        {format(new Date(delivery.nextAttemptAt), 'HH:mm:ss')}
+                                      </span>
+                                    )}
+                                  </td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Delete Confirmation Modal */}
+      {deleteId && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-xl max-w-md w-full p-6">
+            <h3 className="text-lg font-semibold text-gray-800 mb-2">Delete Webhook?</h3>
+            <p className="text-gray-500 mb-6">
+              No further events will be sent to it, and its delivery log will be removed.
+            </p>
+            <div className="flex justify-end gap-3">
+              <button
+                onClick={() => setDeleteId(null)}
+                className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                disabled={isDeleting}
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => handleDelete(deleteId)}
+                className="px-4 py-2 bg-red-500 hover:bg-red-600 text-white rounded-lg transition-colors flex items-center gap-2"
+                disabled={isDeleting}
+              >
+                {isDeleting ? (
+                  <LoadingSpinner size="sm" />
+                ) : (
+                  <>
+                    <Trash2 size={18} />
+                    Delete
+                  </>
+                )}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
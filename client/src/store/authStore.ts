@@ -1,13 +1,22 @@
 import { create } from 'zustand';
 import { User } from '../types';
-import { api } from '../utils/api';
+import { api, setSessionExpiredHandler } from '../utils/api';
+
+// The password was right and a second step is needed: a code, or setting up an app first
+export interface TwoFactorChallenge {
+  mode: 'verify' | 'setup';
+  challengeToken: string;
+}
 
 interface AuthState {
   user: User | null;
   isLoading: boolean;
   isAuthenticated: boolean;
   error: string | null;
+  twoFactorChallenge: TwoFactorChallenge | null;
   login: (email: string, password: string) => Promise<boolean>;
+  verifyTwoFactor: (code: string) => Promise<boolean>;
+  cancelTwoFactor: () => void;
   register: (name: string, email: string, password: string) => Promise<boolean>;
   logout: () => Promise<void>;
   fetchUser: () => Promise<void>;
@@ -19,11 +28,19 @@ export const useAuthStore = create<AuthState>((set) => ({
   isLoading: true,
   isAuthenticated: false,
   error: null,
+  twoFactorChallenge: null,
 
   login: async (email: string, password: string) => {
     set({ isLoading: true, error: null });
     try {
       const response = await api.post('/auth/login', { email, password });
+      if (response.twoFactor) {
+        set({
+          twoFactorChallenge: { mode: response.twoFactor, challengeToken: response.challengeToken },
+          isLoading: false,
+        });
+        return false;
+      }
       set({
         user: response.user,
         isAuthenticated: true,
@@ -39,6 +56,30 @@ export const useAuthStore = create<AuthState>((set) => ({
     }
   },
 
+  verifyTwoFactor: async (code: string) => {
+    const challenge = useAuthStore.getState().twoFactorChallenge;
+    if (!challenge) return false;
+
+    set({ error: null });
+    try {
+      const response = await api.post('/auth/login/verify', {
+        challengeToken: challenge.challengeToken,
+        code,
+      });
+      set({
+        user: response.user,
+        isAuthenticated: true,
+        twoFactorChallenge: null,
+      });
+      return true;
+    } catch (error: any) {
+      set({ error: error.message || 'Verification failed' });
+      return false;
+    }
+  },
+
+  cancelTwoFactor: () => set({ twoFactorChallenge: null, error: null }),
+
   register: async (name: string, email: string, password: string) => {
     set({ isLoading: true, error: null });
     try {
@@ -83,3 +124,8 @@ export const useAuthStore = create<AuthState>((set) => ({
 
   clearError: () => set({ error: null }),
 }));
+
+// Signed out elsewhere or the session ran out: drop back to the sign-in page
+setSessionExpiredHandler(() => {
+  useAuthStore.setState({ user: null, isAuthenticated: false });
+});
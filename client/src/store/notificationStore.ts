@@ -1,6 +1,7 @@
 import { create } from 'zustand';
 import { Notification } from '../types';
 import { api } from '../utils/api';
+import { subscribeToEvents } from '../utils/events';
 
 interface NotificationState {
   notifications: Notification[];
@@ -9,6 +10,7 @@ interface NotificationState {
   fetchNotifications: () => Promise<void>;
   markAsRead: (id: string) => Promise<void>;
   markAllAsRead: () => Promise<void>;
+  subscribeToUpdates: () => () => void;
 }
 
 export const useNotificationStore = create<NotificationState>((set, get) => ({
@@ -52,4 +54,13 @@ export const useNotificationStore = create<NotificationState>((set, get) => ({
       // Ignore errors
     }
   },
+
+  // Refetch when the server says this user's notifications changed
+  // Returns a function that stops listening
+  subscribeToUpdates: () =>
+    subscribeToEvents((event) => {
+      if (event.type === 'notifications' || event.type === 'refresh') {
+        get().fetchNotifications();
+      }
+    }),
 }));
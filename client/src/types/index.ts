@@ -6,20 +6,91 @@ export interface User {
   email: string;
   role: UserRole;
   createdAt: string;
+  twoFactorEnabled?: boolean;
+  failedLoginCount?: number;
+  lockedUntil?: string | null; // set while sign-in is locked after too many failures
+}
+
+export type FailedLoginReason = 'unknown_email' | 'wrong_password' | 'invalid_code';
+
+// A rejected sign-in attempt, listed for security review
+export interface FailedLogin {
+  id: string;
+  email: string;
+  userId: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  reason: FailedLoginReason;
+  createdAt: string;
+  user: UserSummary | null;
+}
+
+// The current user's two-factor sign-in
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+// Shown while setting up an authenticator app
+export interface TotpEnrolment {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string; // PNG data URL
+}
+
+// Minimal user details for pickers and labels
+export interface UserSummary {
+  id: string;
+  name: string;
+}
+
+// A browser the user is signed in on
+export interface UserSession {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  lastActiveAt: string;
+  expiresAt: string;
+  createdAt: string;
+  current: boolean;
+}
+
+export type InviteStatus = 'pending' | 'accepted' | 'revoked' | 'expired';
+
+// Emailed invitation to join with a role
+export interface UserInvite {
+  id: string;
+  email: string;
+  name: string | null;
+  role: UserRole;
+  status: InviteStatus;
+  expiresAt: string;
+  acceptedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+  invitedByUser: UserSummary | null;
+}
+
+// Who may create an account on the register page
+export type RegistrationMode = 'open' | 'domain' | 'invite';
+
+export interface RegistrationPolicy {
+  mode: RegistrationMode;
+  allowedEmailDomains: string[];
 }
 
 export interface GlobalSettings {
   id: string;
-  defaultPlanningDays: number;
-  defaultFundingDays: number;
-  defaultWayleaveDays: number;
-  defaultMaterialsDays: number;
-  defaultAnnouncementDays: number;
-  defaultKickOffDays: number;
-  defaultBuildDays: number;
-  defaultEccDays: number;
-  defaultIntegrationDays: number;
-  defaultRfaDays: number;
+  defaultTemplateId: string | null;
+  registrationMode: RegistrationMode;
+  allowedEmailDomains: string[];
+  twoFactorRequiredRoles: UserRole[];
+  defaultTemplate?: {
+    id: string;
+    name: string;
+  } | null;
   updatedBy: string | null;
   updatedAt: string;
   updatedByUser?: {
@@ -28,24 +99,61 @@ export interface GlobalSettings {
   } | null;
 }
 
-export type PhaseName =
-  | 'planning'
-  | 'funding'
-  | 'wayleave'
-  | 'materials'
-  | 'announcement'
-  | 'kickoff'
-  | 'build'
-  | 'fqa'
-  | 'ecc'
-  | 'integration'
-  | 'rfa'
-  | 'com';
+// Phase keys are defined by the project's phase template
+export type PhaseName = string;
+
+// Finish-to-start dependency on an earlier phase, with lag in business days
+export interface PhaseDependency {
+  key: string;
+  lagDays: number;
+}
+
+export interface PhaseTemplatePhase {
+  id: string;
+  templateId: string;
+  key: string;
+  displayName: string;
+  sortOrder: number;
+  defaultDays: number;
+  mirrorOf: string | null;
+  skippable: boolean;
+  predecessors: {
+    id: string;
+    predecessorKey: string;
+    lagDays: number;
+  }[];
+}
+
+export interface PhaseTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+  createdByUser?: {
+    id: string;
+    name: string;
+  } | null;
+  phases: PhaseTemplatePhase[];
+  projectCount: number;
+  isDefault: boolean;
+}
 
 export interface ProjectPhase {
   id: string;
   projectId: string;
   phaseName: PhaseName;
+  displayName?: string;
+  mirrorOf?: string | null;
+  isSkipped?: boolean;
+  predecessors?: PhaseDependency[];
+  startDate?: string | null; // Latest predecessor deadline, or the site survey date
+  totalFloat?: number | null;
+  isCritical?: boolean;
+  baselineDeadline?: string;
+  forecastDeadline?: string | null;
+  varianceDays?: number | null;
   allowedDays: number;
   deadline: string;
   isComplete: boolean;
@@ -55,11 +163,21 @@ export interface ProjectPhase {
     id: string;
     name: string;
   } | null;
+  assigneeId?: string | null;
+  assignee?: UserSummary | null;
   daysUntilDeadline?: number;
+  deadlineStatus?: 'overdue' | 'urgent' | 'warning' | 'on-track'; // Based on the viewer's lead times
 }
 
 export type ProjectStatus = 'on-track' | 'at-risk' | 'overdue' | 'complete';
 
+// Baseline is the committed schedule; the forecast re-chains from actual completions
+export interface ProjectForecast {
+  baselineCompletion: string;
+  projectedCompletion: string;
+  varianceDays: number;
+}
+
 export interface Project {
   id: string;
   orderNumber: string;
@@ -68,6 +186,12 @@ export interface Project {
   timelineProvidedBy: string;
   timelineDateProvided: string;
   siteSurveyDate: string;
+  region: string | null;
+  templateId: string | null;
+  template?: {
+    id: string;
+    name: string;
+  } | null;
   createdBy: string;
   createdAt: string;
   updatedAt: string;
@@ -75,12 +199,36 @@ export interface Project {
     id: string;
     name: string;
   };
+  ownerId?: string | null;
+  owner?: UserSummary | null;
+  watchers?: { id: string; userId: string; user: UserSummary }[];
+  canManage?: boolean; // Viewer may change the owner and phase assignees
   phases: ProjectPhase[];
+  criticalPath?: PhaseName[];
+  forecast?: ProjectForecast | null;
   status?: ProjectStatus;
   completedPhases?: number;
   totalPhases?: number;
 }
 
+export interface PhaseDeadlineChange {
+  phaseName: PhaseName;
+  displayName: string;
+  isComplete: boolean;
+  currentAllowedDays: number;
+  newAllowedDays: number;
+  currentDeadline: string;
+  newDeadline: string;
+  shiftDays: number;
+}
+
+export interface ProjectUpdatePreview {
+  currentSiteSurveyDate: string;
+  newSiteSurveyDate: string;
+  phases: PhaseDeadlineChange[];
+  changedPhases: number;
+}
+
 export type NotificationType = 'warning' | 'urgent' | 'overdue';
 
 export interface Notification {
@@ -99,32 +247,258 @@ export interface Notification {
   };
 }
 
-export const PHASE_DISPLAY_NAMES: Record<PhaseName, string> = {
-  planning: 'Planning',
-  funding: 'Funding',
-  wayleave: 'Wayleave',
-  materials: 'Materials',
-  announcement: 'Announcement',
-  kickoff: 'Kick-Off',
-  build: 'Build',
-  fqa: 'FQA',
-  ecc: 'ECC',
-  integration: 'Integration',
-  rfa: 'RFA',
-  com: 'COM',
-};
-
-export const PHASE_ORDER: PhaseName[] = [
-  'planning',
-  'funding',
-  'wayleave',
-  'materials',
-  'announcement',
-  'kickoff',
-  'build',
-  'fqa',
-  'ecc',
-  'integration',
-  'rfa',
-  'com',
+export type NotificationProjectScope = 'all' | 'involved' | 'created';
+
+export interface NotificationPreferences {
+  inAppEnabled: boolean;
+  emailAlertsEnabled: boolean;
+  emailDigestEnabled: boolean;
+  notifyWarning: boolean;
+  notifyUrgent: boolean;
+  notifyOverdue: boolean;
+  warningDays: number;
+  urgentDays: number;
+  phaseWarningDays: Record<string, number>; // Overrides warningDays for individual phases
+  projectScope: NotificationProjectScope;
+  quietHoursStart: number | null;
+  quietHoursEnd: number | null;
+}
+
+export type HolidayType = 'adhoc' | 'removed';
+
+export interface HolidayOverride {
+  id: string;
+  date: string;
+  name: string;
+  type: HolidayType;
+  createdBy: string | null;
+  createdAt: string;
+  createdByUser?: {
+    id: string;
+    name: string;
+  } | null;
+}
+
+export interface CalendarHoliday {
+  date: string;
+  name: string;
+  source: 'computed' | 'adhoc';
+  isRemoved: boolean;
+  override: HolidayOverride | null;
+}
+
+export interface PublicHoliday {
+  date: string;
+  name: string;
+}
+
+export interface BlackoutPeriod {
+  id: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+  region: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  createdByUser?: {
+    id: string;
+    name: string;
+  } | null;
+}
+
+export interface BlackoutImpact {
+  projects: {
+    id: string;
+    orderNumber: string;
+    customerName: string;
+    region: string | null;
+    phases: {
+      phaseId: string;
+      phaseName: PhaseName;
+      displayName: string;
+      currentDeadline: string;
+      newDeadline: string;
+    }[];
+  }[];
+  totalPhases: number;
+}
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'complete' | 'uncomplete';
+
+export type AuditEntityType =
+  | 'project'
+  | 'phase'
+  | 'user'
+  | 'settings'
+  | 'template'
+  | 'holiday'
+  | 'blackout'
+  | 'webhook'
+  | 'invite';
+
+export type AuditValue = string | number | boolean | null;
+
+export interface AuditEntry {
+  id: string;
+  actorId: string | null;
+  actorName: string;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  projectId: string | null;
+  summary: string;
+  before: Record<string, AuditValue> | null;
+  after: Record<string, AuditValue> | null;
+  createdAt: string;
+}
+
+export type ImportField =
+  | 'orderNumber'
+  | 'customerName'
+  | 'pnr'
+  | 'timelineProvidedBy'
+  | 'timelineDateProvided'
+  | 'siteSurveyDate'
+  | 'region';
+
+export interface ImportRowResult {
+  row: number;
+  values: Partial<Record<ImportField, string>>;
+  status: 'valid' | 'invalid' | 'duplicate';
+  issues: { field: string; message: string }[];
+}
+
+export interface ImportPreview {
+  rows: ImportRowResult[];
+  summary: {
+    total: number;
+    valid: number;
+    invalid: number;
+    duplicate: number;
+  };
+}
+
+export type WebhookEvent =
+  | 'project.created'
+  | 'project.updated'
+  | 'project.deleted'
+  | 'phase.completed'
+  | 'phase.reopened'
+  | 'phase.overdue';
+
+export interface Webhook {
+  id: string;
+  name: string;
+  url: string;
+  secret: string;
+  events: WebhookEvent[];
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+  createdByUser: {
+    id: string;
+    name: string;
+  } | null;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  event: WebhookEvent | 'webhook.test';
+  payload: Record<string, unknown>;
+  status: 'pending' | 'success' | 'failed';
+  attempts: number;
+  nextAttemptAt: string | null;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  createdAt: string;
+  deliveredAt: string | null;
+}
+
+// Phase status with the project list's fixed bands (at risk is due within 3 business days)
+export type TimelinePhaseStatus = 'complete' | 'skipped' | 'overdue' | 'at-risk' | 'on-track';
+
+export interface TimelinePhase {
+  phaseName: PhaseName;
+  displayName: string;
+  mirrorOf: string | null;
+  startDate: string;
+  deadline: string;
+  isComplete: boolean;
+  completedAt: string | null;
+  status: TimelinePhaseStatus;
+}
+
+export interface ProjectTimeline {
+  id: string;
+  orderNumber: string;
+  customerName: string;
+  region: string | null;
+  siteSurveyDate: string;
+  status: ProjectStatus;
+  completedPhases: number;
+  totalPhases: number;
+  phases: TimelinePhase[];
+}
+
+// An open phase deadline on the calendar page
+export interface CalendarDeadline {
+  phaseId: string;
+  phaseName: PhaseName;
+  displayName: string;
+  deadline: string;
+  daysUntilDeadline: number;
+  deadlineStatus: 'overdue' | 'urgent' | 'warning' | 'on-track'; // Based on the viewer's lead times
+  assignee: UserSummary | null;
+  project: {
+    id: string;
+    orderNumber: string;
+    customerName: string;
+  };
+}
+
+// Project counts and overdue ageing on the analytics page
+export interface AnalyticsSummary {
+  totalProjects: number;
+  statusCounts: Record<ProjectStatus, number>;
+  overdueAgeing: {
+    label: string;
+    minDays: number;
+    maxDays: number | null; // The last bucket is open-ended
+    count: number;
+  }[];
+}
+
+// Completed phases of one kind: on-time rate and allowed vs actual business days
+export interface PhaseAnalytics {
+  phaseName: PhaseName;
+  displayName: string;
+  completed: number;
+  onTime: number;
+  onTimeRate: number | null;
+  averageAllowedDays: number | null;
+  averageActualDays: number | null;
+}
+
+export interface AnalyticsTrend {
+  period: string; // First day of the week or month
+  projectsCreated: number;
+  phasesCompleted: number;
+  phasesOnTime: number;
+  onTimeRate: number | null;
+  deadlinesMissed: number;
+}
+
+// Regions used to scope blackout periods
+export const REGIONS = [
+  'Eastern Cape',
+  'Free State',
+  'Gauteng',
+  'KwaZulu-Natal',
+  'Limpopo',
+  'Mpumalanga',
+  'North West',
+  'Northern Cape',
+  'Western Cape',
 ];
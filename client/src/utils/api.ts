@@ -16,50 +16,109 @@ async function handleResponse(response: Response) {
   return data;
 }
 
+// Access tokens last 15 minutes
+const SESSION_REFRESH_INTERVAL_MS = 10 * 60 * 1000;
+
+let refreshing: Promise<boolean> | null = null;
+let sessionExpiredHandler: (() => void) | null = null;
+
+// Renew the short-lived access token with the refresh cookie; concurrent callers share one request
+export function refreshSession(): Promise<boolean> {
+  if (!refreshing) {
+    refreshing = fetch(`${BASE_URL}/auth/refresh`, { method: 'POST', credentials: 'include' })
+      .then((response) => response.ok)
+      .finally(() => {
+        refreshing = null;
+      });
+  }
+  return refreshing;
+}
+
+// Renew the access token ahead of its expiry while the app is open, so plain links
+// (exports, PDF reports) and event stream reconnects carry a valid one
+export function keepSessionFresh(): () => void {
+  const timer = window.setInterval(() => {
+    refreshSession().catch(() => {
+      // Offline; the next request will try again
+    });
+  }, SESSION_REFRESH_INTERVAL_MS);
+  return () => window.clearInterval(timer);
+}
+
+// Called when the session can't be renewed, e.g. after being signed out elsewhere
+export function setSessionExpiredHandler(handler: () => void) {
+  sessionExpiredHandler = handler;
+}
+
+// Requests that fail with 401 are retried once after renewing the access token.
+// The sign-in steps and refresh answer 401 for bad credentials, so they aren't retried
+async function request(endpoint: string, init: RequestInit) {
+  const send = () => fetch(`${BASE_URL}${endpoint}`, { ...init, credentials: 'include' });
+  const response = await send();
+
+  if (
+    response.status !== 401 ||
+    endpoint.startsWith('/auth/login') ||
+    endpoint === '/auth/refresh'
+  ) {
+    return handleResponse(response);
+  }
+
+  if (await refreshSession()) {
+    return handleResponse(await send());
+  }
+
+  sessionExpiredHandler?.();
+  return handleResponse(response);
+}
+
 export const api = {
   async get(endpoint: string) {
-    const response = await fetch(`${BASE_URL}${endpoint}`, {
+    return request(endpoint, {
       method: 'GET',
-      credentials: 'include',
       headers: {
         'Content-Type': 'application/json',
       },
     });
-    return handleResponse(response);
   },
 
   async post(endpoint: string, data?: any) {
-    const response = await fetch(`${BASE_URL}${endpoint}`, {
+    return request(endpoint, {
       method: 'POST',
-      credentials: 'include',
       headers: {
         'Content-Type': 'application/json',
       },
       body: data ? JSON.stringify(data) : undefined,
     });
-    return handleResponse(response);
   },
 
   async patch(endpoint: string, data?: any) {
-    const response = await fetch(`${BASE_URL}${endpoint}`, {
+    return request(endpoint, {
       method: 'PATCH',
-      credentials: 'include',
       headers: {
         'Content-Type': 'application/json',
       },
       body: data ? JSON.stringify(data) : undefined,
     });
-    return handleResponse(response);
+  },
+
+  // Send a file as the raw request body
+  async upload(endpoint: string, file: File) {
+    return request(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/octet-stream',
+      },
+      body: file,
+    });
   },
 
   async delete(endpoint: string) {
-    const response = await fetch(`${BASE_URL}${endpoint}`, {
+    return request(endpoint, {
       method: 'DELETE',
-      credentials: 'include',
       headers: {
         'Content-Type': 'application/json',
       },
     });
-    return handleResponse(response);
   },
 };
@@ -0,0 +1,120 @@
+import { useEffect, useRef } from 'react';
+import { refreshSession } from './api';
+
+// Changes pushed by GET /api/events. Payloads only identify what changed,
+// so listeners refetch whatever they are showing
+export type ServerEvent =
+  | { type: 'project'; action: 'created' | 'updated' | 'deleted'; projectId?: string } // No projectId: many projects changed
+  | { type: 'phase'; action: 'completed' | 'reopened' | 'assigned'; projectId: string; phaseId: string }
+  | { type: 'notifications' }
+  // Sent on a timer when live updates are unavailable, and after a reconnect,
+  // in case changes were missed: refetch everything on screen
+  | { type: 'refresh' };
+
+type EventListener = (event: ServerEvent) => void;
+
+const EVENT_TYPES = ['project', 'phase', 'notifications'] as const;
+const POLL_INTERVAL_MS = 60 * 1000;
+
+const listeners = new Set<EventListener>();
+let source: EventSource | null = null;
+let pollTimer: number | null = null;
+let hasDisconnected = false;
+let hasRetriedAuth = false;
+let isConnected = false;
+
+function emit(event: ServerEvent) {
+  listeners.forEach((listener) => listener(event));
+}
+
+function startPolling() {
+  if (pollTimer === null) {
+    pollTimer = window.setInterval(() => emit({ type: 'refresh' }), POLL_INTERVAL_MS);
+  }
+}
+
+// Open the event stream, falling back to polling where the server can't stream
+// (the Netlify deployment answers GET /api/events with an error)
+export function connectEvents() {
+  if (source || pollTimer !== null) return;
+  isConnected = true;
+
+  if (typeof EventSource === 'undefined') {
+    startPolling();
+    return;
+  }
+
+  source = new EventSource('/api/events', { withCredentials: true });
+
+  for (const type of EVENT_TYPES) {
+    source.addEventListener(type, (e) => {
+      emit({ type, ...JSON.parse((e as MessageEvent).data) });
+    });
+  }
+
+  source.onopen = () => {
+    hasRetriedAuth = false;
+    if (hasDisconnected) {
+      hasDisconnected = false;
+      emit({ type: 'refresh' });
+    }
+  };
+
+  source.onerror = () => {
+    // The browser retries dropped connections by itself; a closed stream
+    // means the server refused it. That may only be an expired access token,
+    // so renew it and try once more before polling instead
+    if (source?.readyState === EventSource.CLOSED) {
+      source.close();
+      source = null;
+      hasDisconnected = true;
+
+      if (hasRetriedAuth) {
+        startPolling();
+        return;
+      }
+
+      hasRetriedAuth = true;
+      refreshSession()
+        .catch(() => false)
+        .then((renewed) => {
+          // Signed out while renewing
+          if (!isConnected) return;
+          if (renewed) {
+            connectEvents();
+          } else {
+            startPolling();
+          }
+        });
+    } else {
+      hasDisconnected = true;
+    }
+  };
+}
+
+export function disconnectEvents() {
+  source?.close();
+  source = null;
+  if (pollTimer !== null) {
+    window.clearInterval(pollTimer);
+    pollTimer = null;
+  }
+  hasDisconnected = false;
+  hasRetriedAuth = false;
+  isConnected = false;
+}
+
+export function subscribeToEvents(listener: EventListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Call the latest listener for every event while the component is mounted
+export function useServerEvents(listener: EventListener) {
+  const listenerRef = useRef(listener);
+  listenerRef.current = listener;
+
+  useEffect(() => subscribeToEvents((event) => listenerRef.current(event)), []);
+}
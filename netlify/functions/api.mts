@@ -3,10 +3,16 @@ import express, { Request, Response, NextFunction } from 'express';
 import serverless from 'serverless-http';
 import cors from 'cors';
 import cookieParser from 'cookie-parser';
-import { PrismaClient } from '@prisma/client';
+import { NotificationPreference, Prisma, PrismaClient, Project, UserInvite, WebhookDelivery } from '@prisma/client';
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import { z } from 'zod';
+import ExcelJS from 'exceljs';
+import { Readable } from 'stream';
+import { createHash, createHmac, randomBytes } from 'crypto';
+import QRCode from 'qrcode';
+import PDFDocument from 'pdfkit';
+import nodemailer from 'nodemailer';
 
 // Initialize Prisma
 const prisma = new PrismaClient();
@@ -15,39 +21,39 @@ const prisma = new PrismaClient();
 const JWT_SECRET = process.env.JWT_SECRET || 'openserve-secret';
 
 // Business days utility functions (from server/src/utils/businessDays.ts)
-function getSouthAfricanPublicHolidays(year: number): Date[] {
-  const holidays: Date[] = [];
+function getSouthAfricanPublicHolidays(year: number): { date: Date; name: string }[] {
+  const holidays: { date: Date; name: string }[] = [];
 
   // Fixed holidays
-  holidays.push(new Date(year, 0, 1));   // New Year's Day
-  holidays.push(new Date(year, 2, 21));  // Human Rights Day
-  holidays.push(new Date(year, 3, 27));  // Freedom Day
-  holidays.push(new Date(year, 4, 1));   // Workers' Day
-  holidays.push(new Date(year, 5, 16));  // Youth Day
-  holidays.push(new Date(year, 7, 9));   // National Women's Day
-  holidays.push(new Date(year, 8, 24));  // Heritage Day
-  holidays.push(new Date(year, 11, 16)); // Day of Reconciliation
-  holidays.push(new Date(year, 11, 25)); // Christmas Day
-  holidays.push(new Date(year, 11, 26)); // Day of Goodwill
+  holidays.push({ date: new Date(year, 0, 1), name: "New Year's Day" });
+  holidays.push({ date: new Date(year, 2, 21), name: 'Human Rights Day' });
+  holidays.push({ date: new Date(year, 3, 27), name: 'Freedom Day' });
+  holidays.push({ date: new Date(year, 4, 1), name: "Workers' Day" });
+  holidays.push({ date: new Date(year, 5, 16), name: 'Youth Day' });
+  holidays.push({ date: new Date(year, 7, 9), name: "National Women's Day" });
+  holidays.push({ date: new Date(year, 8, 24), name: 'Heritage Day' });
+  holidays.push({ date: new Date(year, 11, 16), name: 'Day of Reconciliation' });
+  holidays.push({ date: new Date(year, 11, 25), name: 'Christmas Day' });
+  holidays.push({ date: new Date(year, 11, 26), name: 'Day of Goodwill' });
 
   // Easter-based holidays (Good Friday and Family Day)
   const easter = getEasterSunday(year);
   const goodFriday = new Date(easter);
   goodFriday.setDate(easter.getDate() - 2);
-  holidays.push(goodFriday);
+  holidays.push({ date: goodFriday, name: 'Good Friday' });
 
   const familyDay = new Date(easter);
   familyDay.setDate(easter.getDate() + 1);
-  holidays.push(familyDay);
+  holidays.push({ date: familyDay, name: 'Family Day' });
 
   // Handle Sunday rule - if holiday falls on Sunday, Monday is observed
-  const adjustedHolidays: Date[] = [];
+  const adjustedHolidays: { date: Date; name: string }[] = [];
   holidays.forEach(holiday => {
     adjustedHolidays.push(holiday);
-    if (holiday.getDay() === 0) {
-      const monday = new Date(holiday);
-      monday.setDate(holiday.getDate() + 1);
-      adjustedHolidays.push(monday);
+    if (holiday.date.getDay() === 0) {
+      const monday = new Date(holiday.date);
+      monday.setDate(holiday.date.getDate() + 1);
+      adjustedHolidays.push({ date: monday, name: holiday.name });
     }
   });
 
@@ -72,30 +78,63 @@ function getEasterSunday(year: number): Date {
   return new Date(year, month - 1, day);
 }
 
+// Holiday calendar overrides maintained by Super Admins, loaded by loadBusinessCalendar
+// Ad-hoc holidays are added to the computed ones, removed holidays become normal business days
+let holidayOverrides = { added: new Map<string, string>(), removed: new Set<string>() };
+
+const dateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Company shutdown periods, loaded with the holiday calendar (a period without a region applies everywhere)
+let blackoutPeriods: { startDate: Date; endDate: Date; region: string | null }[] = [];
+
+async function refreshBusinessCalendar() {
+  const [holidays, blackouts] = await Promise.all([prisma.holiday.findMany(), prisma.blackoutPeriod.findMany()]);
+  holidayOverrides = {
+    added: new Map(holidays.filter(h => h.type === 'adhoc').map(h => [dateKey(h.date), h.name])),
+    removed: new Set(holidays.filter(h => h.type === 'removed').map(h => dateKey(h.date)))
+  };
+  blackoutPeriods = blackouts.map(({ startDate, endDate, region }) => ({ startDate, endDate, region }));
+}
+
+// Effective public holidays for a year (computed + ad-hoc - removed)
+function getPublicHolidays(year: number): { date: Date; name: string }[] {
+  const holidays = getSouthAfricanPublicHolidays(year).filter(holiday => !holidayOverrides.removed.has(dateKey(holiday.date)));
+  for (const [key, name] of holidayOverrides.added) {
+    const [y, m, d] = key.split('-').map(Number);
+    if (y === year) holidays.push({ date: new Date(y, m - 1, d), name });
+  }
+  return holidays.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
 function isPublicHoliday(date: Date): boolean {
-  const year = date.getFullYear();
-  const holidays = getSouthAfricanPublicHolidays(year);
-  return holidays.some(holiday =>
-    holiday.getDate() === date.getDate() &&
-    holiday.getMonth() === date.getMonth() &&
-    holiday.getFullYear() === date.getFullYear()
-  );
+  const key = dateKey(date);
+  if (holidayOverrides.removed.has(key)) return false;
+  if (holidayOverrides.added.has(key)) return true;
+  return getSouthAfricanPublicHolidays(date.getFullYear()).some(holiday => dateKey(holiday.date) === key);
+}
+
+function isBlackoutDay(date: Date, region?: string | null): boolean {
+  const key = dateKey(date);
+  return blackoutPeriods.some(period =>
+    (period.region === null || period.region === region) && dateKey(period.startDate) <= key && key <= dateKey(period.endDate));
 }
 
-function isBusinessDay(date: Date): boolean {
+function isBusinessDay(date: Date, region?: string | null): boolean {
   const day = date.getDay();
   if (day === 0 || day === 6) return false;
   if (isPublicHoliday(date)) return false;
+  if (isBlackoutDay(date, region)) return false;
   return true;
 }
 
-function addBusinessDays(startDate: Date, businessDays: number): Date {
+function addBusinessDays(startDate: Date, businessDays: number, region?: string | null): Date {
   let currentDate = new Date(startDate);
   let daysAdded = 0;
 
   while (daysAdded < businessDays) {
     currentDate.setDate(currentDate.getDate() + 1);
-    if (isBusinessDay(currentDate)) {
+    if (isBusinessDay(currentDate, region)) {
       daysAdded++;
     }
   }
@@ -103,8 +142,18 @@ function addBusinessDays(startDate: Date, businessDays: number): Date {
   return currentDate;
 }
 
-function getBusinessDaysUntil(deadline: Date): number {
-  const now = new Date();
+function subtractBusinessDays(date: Date, businessDays: number, region?: string | null): Date {
+  const current = new Date(date);
+  let removed = 0;
+  while (removed < businessDays) {
+    current.setDate(current.getDate() - 1);
+    if (isBusinessDay(current, region)) removed++;
+  }
+  return current;
+}
+
+function getBusinessDaysUntil(deadline: Date, region?: string | null, from: Date = new Date()): number {
+  const now = new Date(from);
   now.setHours(0, 0, 0, 0);
   const target = new Date(deadline);
   target.setHours(0, 0, 0, 0);
@@ -114,7 +163,7 @@ function getBusinessDaysUntil(deadline: Date): number {
     const current = new Date(target);
     while (current < now) {
       current.setDate(current.getDate() + 1);
-      if (isBusinessDay(current)) days--;
+      if (isBusinessDay(current, region)) days--;
     }
     return days;
   }
@@ -123,36 +172,338 @@ function getBusinessDaysUntil(deadline: Date): number {
   const current = new Date(now);
   while (current < target) {
     current.setDate(current.getDate() + 1);
-    if (isBusinessDay(current)) days++;
+    if (isBusinessDay(current, region)) days++;
   }
   return days;
 }
 
-// Phase order for calculations
-const PHASE_ORDER = [
-  'planning', 'funding', 'wayleave', 'materials', 'announcement',
-  'kickoff', 'build', 'fqa', 'ecc', 'integration', 'rfa', 'com'
-];
+// Per-user notification preferences (users without a row get these defaults)
+const DEFAULT_PREFERENCES = {
+  inAppEnabled: true, emailAlertsEnabled: true, emailDigestEnabled: true,
+  notifyWarning: true, notifyUrgent: true, notifyOverdue: true,
+  warningDays: 3, urgentDays: 1, phaseWarningDays: {} as Record<string, number>,
+  projectScope: 'all', quietHoursStart: null as number | null, quietHoursEnd: null as number | null
+};
+type Preferences = typeof DEFAULT_PREFERENCES;
+
+function toPreferences(record: NotificationPreference | null): Preferences {
+  if (!record) return { ...DEFAULT_PREFERENCES };
+  const { id, userId: _, updatedAt, ...preferences } = record;
+  return { ...preferences, phaseWarningDays: (record.phaseWarningDays as Record<string, number> | null) || {} };
+}
+
+const getPreferences = async (userId: string) =>
+  toPreferences(await prisma.notificationPreference.findUnique({ where: { userId } }));
+
+function getDeadlineBand(daysUntil: number, phaseName: string, preferences: Preferences): string | null {
+  if (daysUntil < 0) return 'overdue';
+  if (daysUntil <= preferences.urgentDays) return 'urgent';
+  if (daysUntil <= (preferences.phaseWarningDays[phaseName] ?? preferences.warningDays)) return 'warning';
+  return null;
+}
+
+// Phases of a template, in order (mirror phases share their source's deadline)
+interface TemplatePhase {
+  key: string;
+  displayName: string;
+  defaultDays: number;
+  mirrorOf: string | null;
+  skippable: boolean;
+  predecessors: { predecessorKey: string; lagDays: number }[];
+}
 
-function calculatePhaseDeadlines(siteSurveyDate: Date, allowedDays: Record<string, number>) {
+// Optional phases given no days are skipped for that project
+const isPhaseSkipped = (definition: { skippable: boolean } | undefined, allowedDays: number) =>
+  !!definition?.skippable && allowedDays === 0;
+
+async function getTemplatePhases(templateId?: string | null): Promise<{ templateId: string; phases: TemplatePhase[] } | null> {
+  let id = templateId;
+  if (!id) {
+    const settings = await prisma.globalSettings.findFirst();
+    id = settings?.defaultTemplateId;
+  }
+
+  const template = id
+    ? await prisma.phaseTemplate.findUnique({ where: { id }, include: { phases: { include: { predecessors: true }, orderBy: { sortOrder: 'asc' } } } })
+    : await prisma.phaseTemplate.findFirst({ include: { phases: { include: { predecessors: true }, orderBy: { sortOrder: 'asc' } } }, orderBy: { createdAt: 'asc' } });
+
+  return template ? { templateId: template.id, phases: template.phases } : null;
+}
+
+// Deadlines over the phase dependency graph (no dependencies = follows the previous phase)
+function calculatePhaseDeadlines(siteSurveyDate: Date, phases: TemplatePhase[], allowedDays: Record<string, number>, region?: string | null) {
   const deadlines: Record<string, Date> = {};
-  let currentDate = new Date(siteSurveyDate);
+  const finishes: Record<string, Date> = {};
+  let previous: string | null = null;
+
+  for (const phase of phases) {
+    if (phase.mirrorOf) {
+      deadlines[phase.key] = new Date(deadlines[phase.mirrorOf] || finishes[phase.mirrorOf] || siteSurveyDate);
+      continue;
+    }
+
+    const predecessors = phase.predecessors.length > 0
+      ? phase.predecessors
+      : previous ? [{ predecessorKey: previous, lagDays: 0 }] : [];
+
+    let start = new Date(siteSurveyDate);
+    for (const predecessor of predecessors) {
+      const candidate = addBusinessDays(finishes[predecessor.predecessorKey] || new Date(siteSurveyDate), predecessor.lagDays, region);
+      if (candidate > start) start = candidate;
+    }
+
+    const days = allowedDays[phase.key] || 0;
+    finishes[phase.key] = days > 0 ? addBusinessDays(start, days, region) : new Date(start);
+    deadlines[phase.key] = new Date(finishes[phase.key]);
+    previous = phase.key;
+  }
+
+  return deadlines;
+}
+
+// Phase start dates from the stored deadlines: latest predecessor deadline plus lag, or the site survey
+function calculatePhaseStarts(siteSurveyDate: Date, phases: TemplatePhase[], allowedDays: Record<string, number>, deadlines: Record<string, Date>, region?: string | null) {
+  const starts: Record<string, Date> = {};
+  const finishes: Record<string, Date> = {};
+  let previous: string | null = null;
+
+  for (const phase of phases) {
+    if (phase.mirrorOf) {
+      if (starts[phase.mirrorOf]) starts[phase.key] = starts[phase.mirrorOf];
+      continue;
+    }
+
+    const predecessors = phase.predecessors.length > 0
+      ? phase.predecessors
+      : previous ? [{ predecessorKey: previous, lagDays: 0 }] : [];
+
+    let start = new Date(siteSurveyDate);
+    for (const predecessor of predecessors) {
+      const candidate = addBusinessDays(finishes[predecessor.predecessorKey] || new Date(siteSurveyDate), predecessor.lagDays, region);
+      if (candidate > start) start = candidate;
+    }
+
+    starts[phase.key] = start;
+    finishes[phase.key] = phase.skippable && allowedDays[phase.key] === 0 ? start : new Date(deadlines[phase.key] || start);
+    previous = phase.key;
+  }
+
+  return starts;
+}
+
+// Each scheduled phase's predecessors: its own dependencies, or the previous phase when it has none
+function getPhasePredecessors(phases: TemplatePhase[]) {
+  const predecessors: Record<string, { predecessorKey: string; lagDays: number }[]> = {};
+  let previous: string | null = null;
+  for (const phase of phases.filter(p => !p.mirrorOf)) {
+    predecessors[phase.key] = phase.predecessors.length > 0
+      ? phase.predecessors
+      : previous ? [{ predecessorKey: previous, lagDays: 0 }] : [];
+    previous = phase.key;
+  }
+  return predecessors;
+}
+
+function getPhaseStart(siteSurveyDate: Date, predecessors: { predecessorKey: string; lagDays: number }[], finishes: Record<string, Date>, region?: string | null) {
+  let start = new Date(siteSurveyDate);
+  for (const predecessor of predecessors) {
+    const candidate = addBusinessDays(finishes[predecessor.predecessorKey] || new Date(siteSurveyDate), predecessor.lagDays, region);
+    if (candidate > start) start = candidate;
+  }
+  return start;
+}
+
+// Forecast deadlines re-chained from actual completions: completed phases finish on their
+// completion date, open phases follow their predecessors' forecasts and never finish before today
+function calculateForecastDeadlines(siteSurveyDate: Date, phases: TemplatePhase[], allowedDays: Record<string, number>, completedAt: Record<string, Date | null>, region?: string | null) {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const earliestOpenFinish = isBusinessDay(today, region) ? today : addBusinessDays(today, 1, region);
+  const predecessors = getPhasePredecessors(phases);
+  const forecasts: Record<string, Date> = {};
+  const finishes: Record<string, Date> = {};
+
+  for (const phase of phases) {
+    if (phase.mirrorOf) {
+      if (forecasts[phase.mirrorOf]) forecasts[phase.key] = forecasts[phase.mirrorOf];
+      continue;
+    }
+
+    const start = getPhaseStart(siteSurveyDate, predecessors[phase.key], finishes, region);
+    const completed = completedAt[phase.key];
+    if (completed) {
+      forecasts[phase.key] = new Date(completed);
+      forecasts[phase.key].setHours(0, 0, 0, 0);
+      finishes[phase.key] = forecasts[phase.key];
+      continue;
+    }
+    if (phase.skippable && allowedDays[phase.key] === 0) {
+      finishes[phase.key] = start;
+      continue;
+    }
+
+    const forecast = addBusinessDays(start, allowedDays[phase.key] || 0, region);
+    forecasts[phase.key] = forecast < earliestOpenFinish ? earliestOpenFinish : forecast;
+    finishes[phase.key] = forecasts[phase.key];
+  }
 
-  for (const phase of PHASE_ORDER) {
-    const days = allowedDays[phase] || 0;
-    if (days > 0) {
-      currentDate = addBusinessDays(currentDate, days);
+  return forecasts;
+}
+
+// Float (business days a phase can slip without moving the final deadline) and the critical path
+function analyzeCriticalPath(siteSurveyDate: Date, phases: TemplatePhase[], allowedDays: Record<string, number>, deadlines: Record<string, Date>, region?: string | null) {
+  const predecessors = getPhasePredecessors(phases);
+  const scheduled = phases.filter(phase => !phase.mirrorOf);
+  const isSkipped = (phase: TemplatePhase) => phase.skippable && allowedDays[phase.key] === 0;
+
+  // Forward pass: actual finishes, with skipped phases passing through
+  const finishes: Record<string, Date> = {};
+  for (const phase of scheduled) {
+    finishes[phase.key] = isSkipped(phase)
+      ? getPhaseStart(siteSurveyDate, predecessors[phase.key], finishes, region)
+      : new Date(deadlines[phase.key] || siteSurveyDate);
+  }
+  const projectEnd = new Date(Math.max(siteSurveyDate.getTime(), ...scheduled.map(phase => finishes[phase.key].getTime())));
+
+  // Backward pass: latest finish that doesn't move the project end
+  const latestFinishes: Record<string, Date> = {};
+  for (const phase of [...scheduled].reverse()) {
+    let latestFinish = projectEnd;
+    for (const successor of scheduled) {
+      const dependency = predecessors[successor.key].find(p => p.predecessorKey === phase.key);
+      if (!dependency) continue;
+      const latestStart = subtractBusinessDays(latestFinishes[successor.key], isSkipped(successor) ? 0 : allowedDays[successor.key] || 0, region);
+      const candidate = subtractBusinessDays(latestStart, dependency.lagDays, region);
+      if (candidate < latestFinish) latestFinish = candidate;
+    }
+    latestFinishes[phase.key] = latestFinish;
+  }
+
+  const info: Record<string, { totalFloat: number; isCritical: boolean }> = {};
+  for (const phase of scheduled) {
+    const totalFloat = getBusinessDaysUntil(latestFinishes[phase.key], region, finishes[phase.key]);
+    info[phase.key] = { totalFloat, isCritical: !isSkipped(phase) && totalFloat <= 0 };
+  }
+  // Mirror phases share the schedule of the phase they mirror
+  for (const phase of phases) {
+    if (phase.mirrorOf && info[phase.mirrorOf]) info[phase.key] = { ...info[phase.mirrorOf] };
+  }
+
+  return { phases: info, criticalPath: scheduled.filter(phase => info[phase.key].isCritical).map(phase => phase.key) };
+}
+
+// Deadlines after a phase's deadline is set by hand: phases downstream of it in the
+// dependency graph are re-chained from it, everything else keeps its current deadline
+function calculatePhaseDeadlinesFromDeadline(changedPhase: string, newDeadline: Date, siteSurveyDate: Date, phases: TemplatePhase[], allowedDays: Record<string, number>, currentDeadlines: Record<string, Date>, region?: string | null) {
+  const deadlines: Record<string, Date> = { ...currentDeadlines };
+  const finishes: Record<string, Date> = { ...currentDeadlines };
+  const source = phases.find(phase => phase.key === changedPhase)?.mirrorOf || changedPhase;
+  deadlines[source] = new Date(newDeadline);
+  finishes[source] = deadlines[source];
+
+  const affected = new Set([source]);
+  let previous: string | null = null;
+
+  for (const phase of phases) {
+    if (phase.mirrorOf) {
+      if (affected.has(phase.mirrorOf)) deadlines[phase.key] = deadlines[phase.mirrorOf];
+      continue;
+    }
+
+    const predecessors = phase.predecessors.length > 0
+      ? phase.predecessors
+      : previous ? [{ predecessorKey: previous, lagDays: 0 }] : [];
+    previous = phase.key;
+    if (phase.key === source) continue;
+
+    const isSkipped = phase.skippable && allowedDays[phase.key] === 0;
+    const isAffected = predecessors.some(predecessor => affected.has(predecessor.predecessorKey));
+    if (!isAffected && !isSkipped) continue;
+
+    let start = new Date(siteSurveyDate);
+    for (const predecessor of predecessors) {
+      const candidate = addBusinessDays(finishes[predecessor.predecessorKey] || new Date(siteSurveyDate), predecessor.lagDays, region);
+      if (candidate > start) start = candidate;
     }
-    deadlines[phase] = new Date(currentDate);
+    if (isAffected) affected.add(phase.key);
 
-    // FQA mirrors Build, COM mirrors RFA
-    if (phase === 'build') deadlines['fqa'] = new Date(currentDate);
-    if (phase === 'rfa') deadlines['com'] = new Date(currentDate);
+    if (isSkipped) {
+      finishes[phase.key] = start;
+      continue;
+    }
+    deadlines[phase.key] = addBusinessDays(start, allowedDays[phase.key] || 0, region);
+    finishes[phase.key] = deadlines[phase.key];
   }
 
   return deadlines;
 }
 
+function getProjectPhaseStarts(project: { siteSurveyDate: Date; region: string | null; phases: { phaseName: string; allowedDays: number; deadline: Date }[] }, phases: TemplatePhase[]) {
+  const allowedDays = Object.fromEntries(project.phases.map(phase => [phase.phaseName, phase.allowedDays]));
+  const deadlines = Object.fromEntries(project.phases.map(phase => [phase.phaseName, phase.deadline]));
+  return calculatePhaseStarts(project.siteSurveyDate, phases, allowedDays, deadlines, project.region);
+}
+
+// Move a project's stored deadlines onto a changed calendar (e.g. a new blackout period).
+// Open phases keep their working days and start after their predecessors' moved deadlines;
+// completed phases and phases whose start and working days are unaffected stay put
+function shiftPhaseDeadlines(
+  project: { siteSurveyDate: Date; region: string | null; phases: { phaseName: string; allowedDays: number; deadline: Date; isComplete: boolean }[] },
+  phases: TemplatePhase[],
+  periods: typeof blackoutPeriods
+) {
+  const allowedDays = Object.fromEntries(project.phases.map(phase => [phase.phaseName, phase.allowedDays]));
+  const deadlines = Object.fromEntries(project.phases.map(phase => [phase.phaseName, phase.deadline]));
+  const completed = new Set(project.phases.filter(phase => phase.isComplete).map(phase => phase.phaseName));
+  const starts = calculatePhaseStarts(project.siteSurveyDate, phases, allowedDays, deadlines, project.region);
+  const spans = Object.fromEntries(Object.entries(starts).map(([key, start]) =>
+    [key, { start, businessDays: deadlines[key] ? Math.max(0, getBusinessDaysUntil(deadlines[key], project.region, start)) : 0 }]));
+
+  const current = blackoutPeriods;
+  blackoutPeriods = periods;
+  try {
+    const shifted: Record<string, Date> = {};
+    const finishes: Record<string, Date> = {};
+    let previous: string | null = null;
+
+    for (const phase of phases) {
+      if (phase.mirrorOf) {
+        if (shifted[phase.mirrorOf]) shifted[phase.key] = shifted[phase.mirrorOf];
+        continue;
+      }
+
+      const predecessors = phase.predecessors.length > 0
+        ? phase.predecessors
+        : previous ? [{ predecessorKey: previous, lagDays: 0 }] : [];
+
+      let start = new Date(project.siteSurveyDate);
+      for (const predecessor of predecessors) {
+        const candidate = addBusinessDays(finishes[predecessor.predecessorKey] || new Date(project.siteSurveyDate), predecessor.lagDays, project.region);
+        if (candidate > start) start = candidate;
+      }
+      previous = phase.key;
+
+      if (phase.skippable && allowedDays[phase.key] === 0) {
+        finishes[phase.key] = start;
+        continue;
+      }
+      if (!deadlines[phase.key]) continue;
+
+      const span = spans[phase.key];
+      const isUnaffected = dateKey(start) === dateKey(span.start)
+        && Math.max(0, getBusinessDaysUntil(deadlines[phase.key], project.region, start)) === span.businessDays;
+      shifted[phase.key] = completed.has(phase.key) || isUnaffected
+        ? new Date(deadlines[phase.key])
+        : addBusinessDays(start, span.businessDays, project.region);
+      finishes[phase.key] = shifted[phase.key];
+    }
+
+    return shifted;
+  } finally {
+    blackoutPeriods = current;
+  }
+}
+
 // Express app setup
 const app = express();
 
@@ -166,8 +517,55 @@ app.use(cookieParser());
 // Auth middleware
 interface AuthRequest extends Request {
   user?: { id: string; email: string; role: string; name: string };
+  sessionId?: string;
+}
+
+// Sessions: 15 minute access tokens naming a session, renewed with a refresh token
+// that is rotated on every use. Sessions end after 7 idle days, or 30 days at most
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+const sessionExpiry = (createdAt: Date) =>
+  new Date(Math.min(Date.now() + 7 * 86400000, createdAt.getTime() + 30 * 86400000));
+const isActive = (session: { revokedAt: Date | null; expiresAt: Date }) => !session.revokedAt && session.expiresAt > new Date();
+
+function setSessionCookies(res: Response, session: { id: string; userId: string; expiresAt: Date }, refreshToken: string | null) {
+  const secure = process.env.NODE_ENV === 'production';
+  const token = jwt.sign({ sessionId: session.id, userId: session.userId }, JWT_SECRET, { expiresIn: '15m' });
+  res.cookie('token', token, { httpOnly: true, secure, sameSite: 'lax', maxAge: 15 * 60 * 1000 });
+  if (refreshToken) {
+    res.cookie('refreshToken', refreshToken, { httpOnly: true, secure, sameSite: 'lax', path: '/api/auth', expires: session.expiresAt });
+  }
+}
+
+function clearSessionCookies(res: Response) {
+  res.clearCookie('token');
+  res.clearCookie('refreshToken', { path: '/api/auth' });
+}
+
+// The client's address as Netlify's edge saw it; X-Forwarded-For can be set by the client
+const clientIp = (req: Request) => req.get('x-nf-client-connection-ip') || req.ip || null;
+
+async function startSession(req: Request, res: Response, userId: string) {
+  const refreshToken = randomBytes(32).toString('hex');
+  await prisma.session.deleteMany({ where: { userId, OR: [{ revokedAt: { not: null } }, { expiresAt: { lt: new Date() } }] } });
+  const session = await prisma.session.create({
+    data: {
+      userId, refreshTokenHash: hashToken(refreshToken), expiresAt: sessionExpiry(new Date()),
+      userAgent: req.get('user-agent')?.slice(0, 255) || null, ipAddress: clientIp(req)
+    }
+  });
+  setSessionCookies(res, session, refreshToken);
 }
 
+const revokeSessions = (where: Prisma.SessionWhereInput) =>
+  prisma.session.updateMany({ where: { ...where, revokedAt: null }, data: { revokedAt: new Date() } });
+
+const activeSessions = (userId: string, currentId?: string) =>
+  prisma.session.findMany({
+    where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+    select: { id: true, userAgent: true, ipAddress: true, lastActiveAt: true, expiresAt: true, createdAt: true },
+    orderBy: { lastActiveAt: 'desc' }
+  }).then((sessions) => sessions.map((s) => ({ ...s, current: s.id === currentId })));
+
 const authenticate = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const token = req.cookies.token;
@@ -175,14 +573,16 @@ const authenticate = async (req: AuthRequest, res: Response, next: NextFunction)
       return res.status(401).json({ error: 'Not authenticated' });
     }
 
-    const decoded = jwt.verify(token, JWT_SECRET) as { userId: string };
-    const user = await prisma.user.findUnique({ where: { id: decoded.userId } });
+    const decoded = jwt.verify(token, JWT_SECRET) as { sessionId: string; userId: string };
+    const session = await prisma.session.findUnique({ where: { id: decoded.sessionId }, include: { user: true } });
 
-    if (!user) {
-      return res.status(401).json({ error: 'User not found' });
+    if (!session || session.userId !== decoded.userId || !isActive(session)) {
+      return res.status(401).json({ error: 'Session has ended, please sign in again' });
     }
 
+    const { user } = session;
     req.user = { id: user.id, email: user.email, role: user.role, name: user.name };
+    req.sessionId = session.id;
     next();
   } catch (error) {
     return res.status(401).json({ error: 'Invalid token' });
@@ -198,11 +598,229 @@ const requireRole = (...roles: string[]) => {
   };
 };
 
+// Load the holiday calendar before handlers that compute deadlines
+const loadBusinessCalendar = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    await refreshBusinessCalendar();
+    next();
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to load business calendar' });
+  }
+};
+
+// Admins manage every project; otherwise the owner (or the creator while there is no owner)
+const canManageProject = (user: { id: string; role: string }, project: { ownerId: string | null; createdBy: string }) =>
+  user.role === 'admin' || user.role === 'superadmin' || (project.ownerId ? project.ownerId === user.id : project.createdBy === user.id);
+
+// Append-only audit log
+async function audit(actor: { id: string; name: string } | null, entry: {
+  action: string; entityType: string; entityId: string; projectId?: string | null; summary: string;
+  before?: Prisma.InputJsonValue | null; after?: Prisma.InputJsonValue | null;
+}, db: Prisma.TransactionClient = prisma) {
+  await db.auditLog.create({
+    data: {
+      actorId: actor?.id ?? null,
+      actorName: actor?.name ?? 'System',
+      action: entry.action,
+      entityType: entry.entityType,
+      entityId: entry.entityId,
+      projectId: entry.projectId ?? null,
+      summary: entry.summary,
+      before: entry.before ?? undefined,
+      after: entry.after ?? undefined,
+    }
+  });
+}
+
+// Who may self-register: open, listed email domains only, or invitation only
+async function registrationPolicy() {
+  const settings = await prisma.globalSettings.findFirst();
+  return { mode: settings?.registrationMode || 'open', allowedEmailDomains: settings?.allowedEmailDomains || [] };
+}
+
+// Two-factor sign-in: RFC 6238 codes (30s, 6 digits, one step either side) plus single-use recovery codes
+const BASE32 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+function base32(buffer: Buffer) {
+  let bits = '';
+  for (const byte of buffer) bits += byte.toString(2).padStart(8, '0');
+  return (bits.match(/.{1,5}/g) || []).map((chunk) => BASE32[parseInt(chunk.padEnd(5, '0'), 2)]).join('');
+}
+
+function totpCode(secret: string, step: number) {
+  const bits = [...secret.toUpperCase()].map((c) => BASE32.indexOf(c)).filter((i) => i >= 0).map((i) => i.toString(2).padStart(5, '0')).join('');
+  const key = Buffer.from((bits.match(/.{8}/g) || []).map((byte) => parseInt(byte, 2)));
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = createHmac('sha1', key).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 15;
+  return String((hmac.readUInt32BE(offset) & 0x7fffffff) % 1000000).padStart(6, '0');
+}
+
+const normalizeRecoveryCode = (code: string) => code.replace(/[\s-]/g, '').toLowerCase();
+
+async function totpEnrolment(secret: string, email: string) {
+  const issuer = 'OpenServe Milestone Tracker';
+  const otpauthUrl = `otpauth://totp/${encodeURIComponent(`${issuer}:${email}`)}?${new URLSearchParams({ secret, issuer, period: '30', digits: '6' })}`;
+  return { secret, otpauthUrl, qrCode: await QRCode.toDataURL(otpauthUrl, { margin: 1, width: 200 }) };
+}
+
+async function replaceRecoveryCodes(userId: string) {
+  const codes = Array.from({ length: 10 }, () => randomBytes(5).toString('hex').replace(/^(.{5})/, '$1-'));
+  await prisma.recoveryCode.deleteMany({ where: { userId } });
+  await prisma.recoveryCode.createMany({ data: codes.map((code) => ({ userId, codeHash: hashToken(normalizeRecoveryCode(code)) })) });
+  return codes;
+}
+
+// Matches an authenticator code (each time step only once) or an unused recovery code, using it up
+async function verifySecondFactor(user: { id: string; totpSecret: string | null }, code: string) {
+  if (!user.totpSecret) return false;
+  const digits = code.replace(/\s/g, '');
+  const now = Math.floor(Date.now() / 30000);
+  const step = /^\d{6}$/.test(digits) ? [now - 1, now, now + 1].find((s) => totpCode(user.totpSecret!, s) === digits) : undefined;
+  if (step !== undefined) {
+    const { count } = await prisma.user.updateMany({
+      where: { id: user.id, OR: [{ totpLastUsedStep: null }, { totpLastUsedStep: { lt: step } }] },
+      data: { totpLastUsedStep: step }
+    });
+    return count === 1;
+  }
+  const { count } = await prisma.recoveryCode.updateMany({
+    where: { userId: user.id, codeHash: hashToken(normalizeRecoveryCode(code)), usedAt: null },
+    data: { usedAt: new Date() }
+  });
+  return count > 0;
+}
+
+async function isTwoFactorRequired(role: string) {
+  const settings = await prisma.globalSettings.findFirst();
+  return (settings?.twoFactorRequiredRoles || []).includes(role);
+}
+
+// Short-lived token standing in for the password between sign-in steps
+const challengeToken = (userId: string, purpose: 'verify' | 'setup') => jwt.sign({ userId, purpose }, JWT_SECRET, { expiresIn: '5m' });
+
+async function challengeUser(token: unknown, purpose: 'verify' | 'setup') {
+  try {
+    const decoded = jwt.verify(String(token), JWT_SECRET) as { userId: string; purpose: string };
+    return decoded.purpose === purpose ? await prisma.user.findUnique({ where: { id: decoded.userId } }) : null;
+  } catch {
+    return null;
+  }
+}
+
+const CHALLENGE_EXPIRED = 'Sign-in has timed out, please enter your password again';
+
+// Login throttling: per account, 3 free tries then a doubling wait (capped at a minute) and a
+// 15 minute lockout at 10 failures; per IP, the same wait after 10 failures in 15 minutes and a block at 50
+const delaySeconds = (failures: number, free: number) => failures < free ? 0 : Math.min(2 ** (failures - free + 1), 60);
+
+type LoginAttempt = { id: string; userId: string | null; failedLoginCount: number; lastFailedLoginAt: Date | null; startedAt: Date };
+const throttled = (retryAfter: number) => ({ retryAfter, error: `Too many failed sign-in attempts. Wait ${retryAfter} seconds and try again` });
+
+// Checked and recorded before the password: the attempt counts as failed until released and the account's
+// count is claimed atomically, so parallel guesses can't all get in before any has failed
+async function startLoginAttempt(
+  req: Request, email: string, reason: string,
+  user: { id: string; failedLoginCount: number; lastFailedLoginAt: Date | null; lockedUntil: Date | null } | null
+): Promise<{ attempt: LoginAttempt } | { retryAfter: number; error: string }> {
+  const now = new Date();
+  if (user?.lockedUntil && user.lockedUntil > now) {
+    const minutes = Math.ceil((user.lockedUntil.getTime() - now.getTime()) / 60000);
+    return { retryAfter: Math.ceil((user.lockedUntil.getTime() - now.getTime()) / 1000), error: `Too many failed sign-in attempts. This account is locked for ${minutes} minute${minutes === 1 ? '' : 's'}, or an admin can unlock it` };
+  }
+  // A lockout that has run out starts the count again
+  const lockExpired = Boolean(user?.lockedUntil);
+  const failedLoginCount = lockExpired ? 0 : user?.failedLoginCount ?? 0;
+  const waitUntil = user?.lastFailedLoginAt && !lockExpired ? user.lastFailedLoginAt.getTime() + delaySeconds(failedLoginCount, 3) * 1000 : 0;
+  if (waitUntil > now.getTime()) return throttled(Math.ceil((waitUntil - now.getTime()) / 1000));
+
+  await prisma.failedLogin.deleteMany({ where: { createdAt: { lt: new Date(now.getTime() - 90 * 86400000) } } });
+  const { id } = await prisma.failedLogin.create({
+    data: { email, reason, userId: user?.id ?? null, ipAddress: clientIp(req), userAgent: req.get('user-agent')?.slice(0, 255) || null }
+  });
+  const ipAddress = clientIp(req);
+  if (ipAddress) {
+    const recent = await prisma.failedLogin.findMany({
+      where: { ipAddress, createdAt: { gte: new Date(now.getTime() - 15 * 60000) }, id: { not: id } },
+      select: { createdAt: true }, orderBy: { createdAt: 'desc' }, take: 50
+    });
+    if (recent.length >= 50) {
+      await prisma.failedLogin.delete({ where: { id } });
+      const retryAfter = Math.ceil((recent[49].createdAt.getTime() + 15 * 60000 - now.getTime()) / 1000);
+      return { retryAfter, error: `Too many failed sign-in attempts from your network. Try again in ${Math.ceil(retryAfter / 60)} minutes` };
+    }
+    const ipWaitUntil = recent.length > 0 ? recent[0].createdAt.getTime() + delaySeconds(recent.length, 10) * 1000 : 0;
+    if (ipWaitUntil > now.getTime()) {
+      await prisma.failedLogin.delete({ where: { id } });
+      return throttled(Math.ceil((ipWaitUntil - now.getTime()) / 1000));
+    }
+  }
+  if (user) {
+    const { count } = await prisma.user.updateMany({
+      where: { id: user.id, failedLoginCount: user.failedLoginCount, lockedUntil: user.lockedUntil },
+      data: { failedLoginCount: failedLoginCount + 1, lastFailedLoginAt: now, lockedUntil: null }
+    });
+    if (count === 0) {
+      await prisma.failedLogin.delete({ where: { id } });
+      return throttled(1);
+    }
+  }
+  return { attempt: { id, userId: user?.id ?? null, failedLoginCount, lastFailedLoginAt: lockExpired ? null : user?.lastFailedLoginAt ?? null, startedAt: now } };
+}
+
+function rejectThrottled(res: Response, throttle: { retryAfter: number; error: string }) {
+  res.set('Retry-After', String(throttle.retryAfter));
+  return res.status(429).json(throttle);
+}
+
+// Wrong password or code: the attempt stays counted, and the one that reaches 10 locks the account
+async function failLoginAttempt(attempt: LoginAttempt, user: { id: string; name: string } | null) {
+  const failedLoginCount = attempt.failedLoginCount + 1;
+  if (!user || failedLoginCount < 10) return;
+  const { count } = await prisma.user.updateMany({ where: { id: user.id, lockedUntil: null }, data: { lockedUntil: new Date(attempt.startedAt.getTime() + 15 * 60000) } });
+  if (count === 1) {
+    await audit(null, { action: 'update', entityType: 'user', entityId: user.id, summary: `Locked ${user.name}'s account after ${failedLoginCount} failed sign-in attempts` });
+  }
+}
+
+// Right password or code: undo the attempt, unless another has moved the count on since
+async function releaseLoginAttempt(attempt: LoginAttempt) {
+  await prisma.failedLogin.deleteMany({ where: { id: attempt.id } });
+  if (!attempt.userId) return;
+  await prisma.user.updateMany({
+    where: { id: attempt.userId, failedLoginCount: attempt.failedLoginCount + 1, lastFailedLoginAt: attempt.startedAt },
+    data: { failedLoginCount: attempt.failedLoginCount, lastFailedLoginAt: attempt.lastFailedLoginAt }
+  });
+}
+
+const clearFailedLogins = (userId: string) =>
+  prisma.user.update({ where: { id: userId }, data: { failedLoginCount: 0, lastFailedLoginAt: null, lockedUntil: null } });
+
 // Auth routes
+app.get('/api/auth/registration', async (req, res) => {
+  try {
+    res.json(await registrationPolicy());
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to get registration policy' });
+  }
+});
+
 app.post('/api/auth/register', async (req, res) => {
   try {
     const { name, email, password } = req.body;
 
+    const policy = await registrationPolicy();
+    if (policy.mode === 'invite') {
+      return res.status(403).json({ error: 'Registration is by invitation only. Ask an admin to invite you.' });
+    }
+    const domain = String(email || '').split('@').pop()!.toLowerCase();
+    if (policy.mode === 'domain' && !policy.allowedEmailDomains.includes(domain)) {
+      return res.status(403).json({
+        error: `Registration is limited to ${policy.allowedEmailDomains.map((d: string) => `@${d}`).join(', ')} email addresses`
+      });
+    }
+
     const existingUser = await prisma.user.findUnique({ where: { email } });
     if (existingUser) {
       return res.status(400).json({ error: 'Email already exists' });
@@ -212,15 +830,13 @@ app.post('/api/auth/register', async (req, res) => {
     const user = await prisma.user.create({
       data: { name, email, password: hashedPassword, role: 'staff' }
     });
-
-    const token = jwt.sign({ userId: user.id }, JWT_SECRET, { expiresIn: '7d' });
-    res.cookie('token', token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: 7 * 24 * 60 * 60 * 1000
+    await audit(user, {
+      action: 'create', entityType: 'user', entityId: user.id, summary: `${user.name} registered`,
+      after: { name: user.name, email: user.email, role: user.role }
     });
 
+    await startSession(req, res, user.id);
+
     res.json({ user: { id: user.id, name: user.name, email: user.email, role: user.role } });
   } catch (error) {
     res.status(500).json({ error: 'Registration failed' });
@@ -232,22 +848,30 @@ app.post('/api/auth/login', async (req, res) => {
     const { email, password } = req.body;
 
     const user = await prisma.user.findUnique({ where: { email } });
+    const throttle = await startLoginAttempt(req, String(email || ''), user ? 'wrong_password' : 'unknown_email', user);
+    if (!('attempt' in throttle)) {
+      return rejectThrottled(res, throttle);
+    }
     if (!user) {
       return res.status(401).json({ error: 'Invalid credentials' });
     }
 
     const validPassword = await bcrypt.compare(password, user.password);
     if (!validPassword) {
+      await failLoginAttempt(throttle.attempt, user);
       return res.status(401).json({ error: 'Invalid credentials' });
     }
+    await releaseLoginAttempt(throttle.attempt);
 
-    const token = jwt.sign({ userId: user.id }, JWT_SECRET, { expiresIn: '7d' });
-    res.cookie('token', token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: 7 * 24 * 60 * 60 * 1000
-    });
+    if (user.totpEnabledAt) {
+      return res.json({ twoFactor: 'verify', challengeToken: challengeToken(user.id, 'verify') });
+    }
+    if (await isTwoFactorRequired(user.role)) {
+      return res.json({ twoFactor: 'setup', challengeToken: challengeToken(user.id, 'setup') });
+    }
+
+    await clearFailedLogins(user.id);
+    await startSession(req, res, user.id);
 
     res.json({ user: { id: user.id, name: user.name, email: user.email, role: user.role } });
   } catch (error) {
@@ -255,425 +879,3323 @@ app.post('/api/auth/login', async (req, res) => {
   }
 });
 
-app.post('/api/auth/logout', (req, res) => {
-  res.clearCookie('token');
-  res.json({ message: 'Logged out' });
-});
+app.post('/api/auth/login/verify', async (req, res) => {
+  try {
+    const user = await challengeUser(req.body.challengeToken, 'verify');
+    if (!user || !user.totpEnabledAt) {
+      return res.status(401).json({ error: CHALLENGE_EXPIRED });
+    }
+    const throttle = await startLoginAttempt(req, user.email, 'invalid_code', user);
+    if (!('attempt' in throttle)) {
+      return rejectThrottled(res, throttle);
+    }
+    if (!(await verifySecondFactor(user, String(req.body.code || '')))) {
+      await failLoginAttempt(throttle.attempt, user);
+      return res.status(401).json({ error: 'Invalid code' });
+    }
+    await releaseLoginAttempt(throttle.attempt);
 
-app.get('/api/auth/me', authenticate, (req: AuthRequest, res) => {
-  res.json({ user: req.user });
+    await clearFailedLogins(user.id);
+    await startSession(req, res, user.id);
+
+    res.json({ user: { id: user.id, name: user.name, email: user.email, role: user.role } });
+  } catch (error) {
+    res.status(500).json({ error: 'Login failed' });
+  }
 });
 
-// Projects routes
-app.get('/api/projects', authenticate, async (req: AuthRequest, res) => {
+// Roles that must use two-factor sign-in set it up here before their first session
+app.post('/api/auth/login/setup', async (req, res) => {
   try {
-    const projects = await prisma.project.findMany({
-      include: { phases: true, createdByUser: { select: { name: true } } },
-      orderBy: { createdAt: 'desc' }
-    });
+    const user = await challengeUser(req.body.challengeToken, 'setup');
+    if (!user || user.totpEnabledAt) {
+      return res.status(401).json({ error: CHALLENGE_EXPIRED });
+    }
+    const secret = base32(randomBytes(20));
+    await prisma.user.update({ where: { id: user.id }, data: { totpSecret: secret, totpEnabledAt: null, totpLastUsedStep: null } });
+    res.json(await totpEnrolment(secret, user.email));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to start two-factor setup' });
+  }
+});
 
-    const projectsWithStatus = projects.map(project => {
-      const phases = project.phases;
-      const now = new Date();
+async function enableTwoFactor(userId: string, code: string) {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user?.totpSecret || user.totpEnabledAt || !(await verifySecondFactor(user, code))) return null;
+  await prisma.user.update({ where: { id: user.id }, data: { totpEnabledAt: new Date() } });
+  await audit(user, { action: 'update', entityType: 'user', entityId: user.id, summary: `${user.name} turned on two-factor authentication` });
+  return replaceRecoveryCodes(user.id);
+}
 
-      let status = 'on-track';
-      for (const phase of phases) {
-        if (!phase.isComplete) {
-          const daysUntil = getBusinessDaysUntil(phase.deadline);
-          if (daysUntil < 0) {
-            status = 'overdue';
-            break;
-          } else if (daysUntil <= 2) {
-            status = 'at-risk';
-          }
-        }
-      }
+app.post('/api/auth/login/setup/confirm', async (req, res) => {
+  try {
+    const user = await challengeUser(req.body.challengeToken, 'setup');
+    if (!user) {
+      return res.status(401).json({ error: CHALLENGE_EXPIRED });
+    }
+    const recoveryCodes = await enableTwoFactor(user.id, String(req.body.code || ''));
+    if (!recoveryCodes) {
+      return res.status(400).json({ error: 'Invalid code, check the time on your device and try again' });
+    }
 
-      return { ...project, status };
-    });
+    await clearFailedLogins(user.id);
+    await startSession(req, res, user.id);
 
-    res.json(projectsWithStatus);
+    res.json({ user: { id: user.id, name: user.name, email: user.email, role: user.role }, recoveryCodes });
   } catch (error) {
-    res.status(500).json({ error: 'Failed to fetch projects' });
+    res.status(500).json({ error: 'Failed to turn on two-factor authentication' });
   }
 });
 
-app.get('/api/projects/:id', authenticate, async (req: AuthRequest, res) => {
+app.post('/api/auth/refresh', async (req, res) => {
   try {
-    const project = await prisma.project.findUnique({
-      where: { id: req.params.id },
-      include: {
-        phases: { orderBy: { deadline: 'asc' } },
-        createdByUser: { select: { name: true } }
+    const hash = hashToken(req.cookies.refreshToken || '');
+    const session = await prisma.session.findUnique({ where: { refreshTokenHash: hash } });
+    if (session && isActive(session)) {
+      const refreshToken = randomBytes(32).toString('hex');
+      const swapped = await prisma.session.updateMany({
+        where: { id: session.id, refreshTokenHash: hash },
+        data: {
+          refreshTokenHash: hashToken(refreshToken), previousTokenHash: hash, rotatedAt: new Date(),
+          lastActiveAt: new Date(), expiresAt: sessionExpiry(session.createdAt)
+        }
+      });
+      if (swapped.count === 1) {
+        setSessionCookies(res, { ...session, expiresAt: sessionExpiry(session.createdAt) }, refreshToken);
+        return res.json({ message: 'Session refreshed' });
       }
-    });
-
-    if (!project) {
-      return res.status(404).json({ error: 'Project not found' });
     }
 
-    // Add daysUntilDeadline to each phase
-    const phasesWithDays = project.phases.map(phase => ({
-      ...phase,
-      daysUntilDeadline: getBusinessDaysUntil(phase.deadline)
-    }));
+    // A replaced token: a concurrent refresh from another tab, or a copied token
+    const previous = await prisma.session.findUnique({ where: { previousTokenHash: hash } });
+    if (previous && isActive(previous)) {
+      if (previous.rotatedAt && Date.now() - previous.rotatedAt.getTime() < 30 * 1000) {
+        setSessionCookies(res, previous, null);
+        return res.json({ message: 'Session refreshed' });
+      }
+      await revokeSessions({ id: previous.id });
+    }
 
-    res.json({ ...project, phases: phasesWithDays });
+    clearSessionCookies(res);
+    res.status(401).json({ error: 'Session has ended, please sign in again' });
   } catch (error) {
-    res.status(500).json({ error: 'Failed to fetch project' });
+    res.status(500).json({ error: 'Failed to refresh session' });
   }
 });
 
-app.post('/api/projects', authenticate, async (req: AuthRequest, res) => {
+app.post('/api/auth/logout', async (req, res) => {
   try {
-    const { orderNumber, customerName, pnr, timelineProvidedBy, timelineDateProvided, siteSurveyDate } = req.body;
-
-    // Get global settings for default days
-    let settings = await prisma.globalSettings.findFirst();
-    if (!settings) {
-      settings = await prisma.globalSettings.create({ data: {} });
+    if (req.cookies.refreshToken) {
+      await revokeSessions({ refreshTokenHash: hashToken(req.cookies.refreshToken) });
     }
+  } catch (error) {
+    // The cookies are cleared regardless
+  }
+  clearSessionCookies(res);
+  res.json({ message: 'Logged out' });
+});
 
-    const allowedDays: Record<string, number> = {
-      planning: settings.defaultPlanningDays,
-      funding: settings.defaultFundingDays,
-      wayleave: settings.defaultWayleaveDays,
-      materials: settings.defaultMaterialsDays,
-      announcement: settings.defaultAnnouncementDays,
-      kickoff: settings.defaultKickOffDays,
-      build: settings.defaultBuildDays,
-      fqa: 0,
-      ecc: settings.defaultEccDays,
-      integration: settings.defaultIntegrationDays,
-      rfa: settings.defaultRfaDays,
-      com: 0,
-    };
-
-    const deadlines = calculatePhaseDeadlines(new Date(siteSurveyDate), allowedDays);
+app.post('/api/auth/logout-all', authenticate, async (req: AuthRequest, res) => {
+  try {
+    await revokeSessions({ userId: req.user!.id });
+    await audit(req.user!, { action: 'update', entityType: 'user', entityId: req.user!.id, summary: `${req.user!.name} signed out everywhere` });
+    clearSessionCookies(res);
+    res.json({ message: 'Signed out everywhere' });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to sign out everywhere' });
+  }
+});
 
-    const project = await prisma.project.create({
-      data: {
-        orderNumber,
-        customerName,
-        pnr,
-        timelineProvidedBy,
-        timelineDateProvided: new Date(timelineDateProvided),
-        siteSurveyDate: new Date(siteSurveyDate),
-        createdBy: req.user!.id,
-        phases: {
-          create: PHASE_ORDER.map(phase => ({
-            phaseName: phase,
-            allowedDays: allowedDays[phase],
-            deadline: deadlines[phase],
-          }))
-        }
-      },
-      include: { phases: true }
-    });
-
-    res.status(201).json(project);
+app.get('/api/auth/sessions', authenticate, async (req: AuthRequest, res) => {
+  try {
+    res.json({ sessions: await activeSessions(req.user!.id, req.sessionId) });
   } catch (error) {
-    console.error('Create project error:', error);
-    res.status(500).json({ error: 'Failed to create project' });
+    res.status(500).json({ error: 'Failed to get sessions' });
   }
 });
 
-app.patch('/api/projects/:id', authenticate, requireRole('admin', 'superadmin'), async (req: AuthRequest, res) => {
+app.delete('/api/auth/sessions/:id', authenticate, async (req: AuthRequest, res) => {
   try {
-    const { siteSurveyDate, phases } = req.body;
-    const projectId = req.params.id;
+    const { count } = await revokeSessions({ id: req.params.id, userId: req.user!.id });
+    if (count === 0) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    if (req.params.id === req.sessionId) clearSessionCookies(res);
+    res.json({ message: 'Session signed out' });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to sign out session' });
+  }
+});
 
-    // Update site survey date
-    await prisma.project.update({
-      where: { id: projectId },
-      data: { siteSurveyDate: new Date(siteSurveyDate) }
-    });
+// Password reset: the emailed link holds a one-time token, valid for an hour
+const RESET_TOKEN_TTL_HOURS = 1;
 
-    // Build allowed days from phases
-    const allowedDays: Record<string, number> = {};
-    const customDeadlines: Record<string, Date> = {};
+app.post('/api/auth/forgot-password', async (req, res) => {
+  try {
+    const validation = z.object({ email: z.string().email('Invalid email address') }).safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: 'Validation failed', details: validation.error.errors });
+    }
 
-    for (const phase of phases) {
-      allowedDays[phase.phaseName] = phase.allowedDays;
-      if (phase.deadline) {
-        customDeadlines[phase.phaseName] = new Date(phase.deadline);
+    const user = await prisma.user.findUnique({ where: { email: validation.data.email }, select: { id: true, name: true, email: true } });
+    if (user) {
+      const token = randomBytes(32).toString('hex');
+      const now = new Date();
+      // A new link supersedes any earlier ones
+      await prisma.$transaction([
+        prisma.passwordResetToken.updateMany({ where: { userId: user.id, usedAt: null }, data: { usedAt: now } }),
+        prisma.passwordResetToken.create({ data: { userId: user.id, tokenHash: hashToken(token), expiresAt: new Date(now.getTime() + RESET_TOKEN_TTL_HOURS * 3600000) } })
+      ]);
+      try {
+        await sendMail({ to: user.email, ...renderPasswordResetEmail(user.name, `${appUrl()}/reset-password?token=${token}`, RESET_TOKEN_TTL_HOURS) });
+      } catch (error) {
+        console.error(`Password reset email to ${user.email} failed:`, error);
       }
     }
 
-    // Calculate new deadlines from site survey date
-    const deadlines = calculatePhaseDeadlines(new Date(siteSurveyDate), allowedDays);
+    res.json({ message: 'If an account exists for that email, a reset link is on its way' });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to send reset link' });
+  }
+});
 
-    // Apply custom deadlines if provided (super admin feature)
-    for (const [phaseName, deadline] of Object.entries(customDeadlines)) {
-      deadlines[phaseName] = deadline;
+// Signs the user out everywhere, and proving access to the mailbox also lifts a lockout
+app.post('/api/auth/reset-password', async (req, res) => {
+  try {
+    const validation = z.object({ token: z.string().min(1, 'Reset token is required'), password: z.string().min(8, 'Password must be at least 8 characters') }).safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: 'Validation failed', details: validation.error.errors });
     }
+    const { token, password } = validation.data;
+    const hashedPassword = await bcrypt.hash(password, 10);
+    const now = new Date();
 
-    // Update each phase
-    for (const phase of phases) {
-      await prisma.projectPhase.updateMany({
-        where: { projectId, phaseName: phase.phaseName },
-        data: {
-          allowedDays: phase.allowedDays,
-          deadline: deadlines[phase.phaseName]
-        }
+    const user = await prisma.$transaction(async (tx) => {
+      const resetToken = await tx.passwordResetToken.findUnique({ where: { tokenHash: hashToken(token) } });
+      if (!resetToken || resetToken.usedAt || resetToken.expiresAt < now) return null;
+      // Claim the token, so two requests racing with the same link can't both use it
+      const claimed = await tx.passwordResetToken.updateMany({ where: { id: resetToken.id, usedAt: null }, data: { usedAt: now } });
+      if (claimed.count === 0) return null;
+      await tx.passwordResetToken.updateMany({ where: { userId: resetToken.userId, usedAt: null }, data: { usedAt: now } });
+
+      const updated = await tx.user.update({
+        where: { id: resetToken.userId },
+        data: { password: hashedPassword, failedLoginCount: 0, lastFailedLoginAt: null, lockedUntil: null }
       });
+      await tx.session.updateMany({ where: { userId: updated.id, revokedAt: null }, data: { revokedAt: now } });
+      await audit(updated, { action: 'update', entityType: 'user', entityId: updated.id, summary: `${updated.name} reset their password` }, tx);
+      return updated;
+    });
+    if (!user) {
+      return res.status(400).json({ error: 'This reset link is invalid or has expired' });
     }
 
-    // Update mirror phases (FQA mirrors Build, COM mirrors RFA)
-    const buildPhase = phases.find((p: any) => p.phaseName === 'build');
-    if (buildPhase) {
-      await prisma.projectPhase.updateMany({
-        where: { projectId, phaseName: 'fqa' },
-        data: { allowedDays: 0, deadline: deadlines['build'] }
-      });
+    clearSessionCookies(res);
+    res.json({ message: 'Password reset, please sign in with your new password' });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to reset password' });
+  }
+});
+
+// Invitations: without a mail transport the link is returned for the inviting admin to share
+const INVITE_TTL_DAYS = 7;
+const inviteInclude = { invitedByUser: { select: { id: true, name: true } } };
+const isOpenInvite = (invite: { acceptedAt: Date | null; revokedAt: Date | null; expiresAt: Date }) =>
+  !invite.acceptedAt && !invite.revokedAt && invite.expiresAt >= new Date();
+
+// The token hash stays on the server
+const toInviteResponse = ({ tokenHash, ...invite }: UserInvite & { invitedByUser: { id: string; name: string } | null }) => ({
+  ...invite,
+  status: invite.acceptedAt ? 'accepted' : invite.revokedAt ? 'revoked' : invite.expiresAt < new Date() ? 'expired' : 'pending'
+});
+
+// Admins invite staff, Super Admins invite anyone
+const canInviteAs = (user: { role: string }, role: string) => user.role === 'superadmin' || role === 'staff';
+
+app.get('/api/auth/invite', async (req, res) => {
+  try {
+    const token = typeof req.query.token === 'string' ? req.query.token : '';
+    const invite = token
+      ? await prisma.userInvite.findUnique({ where: { tokenHash: hashToken(token) }, include: { invitedByUser: { select: { name: true } } } })
+      : null;
+    if (!invite || !isOpenInvite(invite)) {
+      return res.status(404).json({ error: 'This invitation is invalid or has expired' });
     }
+    res.json({
+      invite: { email: invite.email, name: invite.name, role: invite.role, invitedBy: invite.invitedByUser?.name ?? null, expiresAt: invite.expiresAt }
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to get invite' });
+  }
+});
 
-    const rfaPhase = phases.find((p: any) => p.phaseName === 'rfa');
-    if (rfaPhase) {
-      await prisma.projectPhase.updateMany({
-        where: { projectId, phaseName: 'com' },
-        data: { allowedDays: 0, deadline: deadlines['rfa'] }
-      });
+// Works whatever the registration setting, as an admin chose to let this person in
+app.post('/api/auth/accept-invite', async (req, res) => {
+  try {
+    const validation = z.object({ token: z.string().min(1), name: z.string().min(2), password: z.string().min(8) }).safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: 'Validation failed', details: validation.error.errors });
     }
+    const { token, name, password } = validation.data;
+    const hashedPassword = await bcrypt.hash(password, 10);
 
-    // Fetch updated project
-    const updatedProject = await prisma.project.findUnique({
-      where: { id: projectId },
-      include: {
-        phases: { orderBy: { deadline: 'asc' } },
-        createdByUser: { select: { name: true } }
+    const result = await prisma.$transaction(async (tx) => {
+      const invite = await tx.userInvite.findUnique({ where: { tokenHash: hashToken(token) }, include: { invitedByUser: { select: { name: true } } } });
+      if (!invite || !isOpenInvite(invite)) return { error: 'This invitation is invalid or has expired' };
+      if (await tx.user.findFirst({ where: { email: { equals: invite.email, mode: 'insensitive' } } })) {
+        return { error: 'An account with this email already exists. Sign in instead.' };
       }
+      // Claim the invite, so two requests racing with the same link can't both use it
+      const claimed = await tx.userInvite.updateMany({ where: { id: invite.id, acceptedAt: null, revokedAt: null }, data: { acceptedAt: new Date() } });
+      if (claimed.count === 0) return { error: 'This invitation is invalid or has expired' };
+      const user = await tx.user.create({ data: { name, email: invite.email, password: hashedPassword, role: invite.role } });
+      return { user, invitedBy: invite.invitedByUser?.name };
     });
+    if (!result.user) {
+      return res.status(400).json({ error: result.error });
+    }
 
-    // Add daysUntilDeadline
-    const phasesWithDays = updatedProject!.phases.map(phase => ({
-      ...phase,
-      daysUntilDeadline: getBusinessDaysUntil(phase.deadline)
-    }));
+    const { user } = result;
+    await audit(user, {
+      action: 'create', entityType: 'user', entityId: user.id,
+      summary: `${user.name} joined from ${result.invitedBy ? `${result.invitedBy}'s` : 'an'} invitation`,
+      after: { name: user.name, email: user.email, role: user.role }
+    });
 
-    res.json({ ...updatedProject, phases: phasesWithDays });
+    // Roles that require two-factor sign-in set it up before getting a session
+    if (await isTwoFactorRequired(user.role)) {
+      return res.status(201).json({ message: 'Invitation accepted', twoFactor: 'setup', challengeToken: challengeToken(user.id, 'setup') });
+    }
+    await startSession(req, res, user.id);
+    res.status(201).json({ message: 'Invitation accepted', user: { id: user.id, name: user.name, email: user.email, role: user.role } });
   } catch (error) {
-    console.error('Update project error:', error);
-    res.status(500).json({ error: 'Failed to update project' });
+    res.status(500).json({ error: 'Failed to accept invite' });
   }
 });
 
-app.delete('/api/projects/:id', authenticate, requireRole('superadmin'), async (req: AuthRequest, res) => {
+app.get('/api/invites', authenticate, requireRole('admin', 'superadmin'), async (req: AuthRequest, res) => {
   try {
-    await prisma.project.delete({ where: { id: req.params.id } });
-    res.json({ message: 'Project deleted' });
+    const invites = await prisma.userInvite.findMany({ include: inviteInclude, orderBy: { createdAt: 'desc' }, take: 100 });
+    res.json({ invites: invites.map(toInviteResponse) });
   } catch (error) {
-    res.status(500).json({ error: 'Failed to delete project' });
+    res.status(500).json({ error: 'Failed to get invites' });
   }
 });
 
-// Phases routes
-app.post('/api/phases/:id/complete', authenticate, async (req: AuthRequest, res) => {
+// Replaces any pending invitation to the same address
+app.post('/api/invites', authenticate, requireRole('admin', 'superadmin'), async (req: AuthRequest, res) => {
   try {
-    const phase = await prisma.projectPhase.update({
-      where: { id: req.params.id },
-      data: {
-        isComplete: true,
-        completedBy: req.user!.id,
-        completedAt: new Date()
-      }
-    });
-
-    // Handle mirror phases
-    if (phase.phaseName === 'build' || phase.phaseName === 'fqa') {
-      const mirrorName = phase.phaseName === 'build' ? 'fqa' : 'build';
-      await prisma.projectPhase.updateMany({
-        where: { projectId: phase.projectId, phaseName: mirrorName },
-        data: { isComplete: true, completedBy: req.user!.id, completedAt: new Date() }
-      });
+    const validation = z.object({
+      email: z.string().trim().email(),
+      name: z.string().trim().optional(),
+      role: z.enum(['staff', 'admin', 'superadmin']).default('staff')
+    }).safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: 'Validation failed', details: validation.error.errors });
     }
-    if (phase.phaseName === 'rfa' || phase.phaseName === 'com') {
-      const mirrorName = phase.phaseName === 'rfa' ? 'com' : 'rfa';
-      await prisma.projectPhase.updateMany({
-        where: { projectId: phase.projectId, phaseName: mirrorName },
-        data: { isComplete: true, completedBy: req.user!.id, completedAt: new Date() }
-      });
+    const { email, name, role } = validation.data;
+    if (!canInviteAs(req.user!, role)) {
+      return res.status(403).json({ error: 'Only Super Admin can invite Admins or Super Admins' });
+    }
+    if (await prisma.user.findFirst({ where: { email: { equals: email, mode: 'insensitive' } } })) {
+      return res.status(400).json({ error: 'A user with this email already exists' });
     }
 
-    res.json(phase);
+    const token = randomBytes(32).toString('hex');
+    const invite = await prisma.$transaction(async (tx) => {
+      await tx.userInvite.updateMany({
+        where: { email: { equals: email, mode: 'insensitive' }, acceptedAt: null, revokedAt: null },
+        data: { revokedAt: new Date() }
+      });
+      return tx.userInvite.create({
+        data: {
+          email, name: name || null, role, tokenHash: hashToken(token),
+          expiresAt: new Date(Date.now() + INVITE_TTL_DAYS * 24 * 60 * 60 * 1000), invitedBy: req.user!.id
+        },
+        include: inviteInclude
+      });
+    });
+    await audit(req.user!, {
+      action: 'create', entityType: 'invite', entityId: invite.id, summary: `Invited ${email} as ${role}`,
+      after: { email, name: name || null, role }
+    });
+    res.status(201).json({ invite: toInviteResponse(invite), inviteUrl: `${appUrl()}/accept-invite?token=${token}` });
   } catch (error) {
-    res.status(500).json({ error: 'Failed to complete phase' });
+    res.status(500).json({ error: 'Failed to create invite' });
   }
 });
 
-app.post('/api/phases/:id/uncomplete', authenticate, requireRole('admin', 'superadmin'), async (req: AuthRequest, res) => {
+// A fresh link for a pending or expired invitation, so the earlier link stops working
+app.post('/api/invites/:id/resend', authenticate, requireRole('admin', 'superadmin'), async (req: AuthRequest, res) => {
   try {
-    const phase = await prisma.projectPhase.update({
-      where: { id: req.params.id },
-      data: { isComplete: false, completedBy: null, completedAt: null }
+    const existing = await prisma.userInvite.findUnique({ where: { id: req.params.id } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Invite not found' });
+    }
+    if (existing.acceptedAt || existing.revokedAt) {
+      return res.status(400).json({ error: 'Only pending or expired invites can be resent' });
+    }
+    if (!canInviteAs(req.user!, existing.role)) {
+      return res.status(403).json({ error: 'Only Super Admin can invite Admins or Super Admins' });
+    }
+    const token = randomBytes(32).toString('hex');
+    const invite = await prisma.userInvite.update({
+      where: { id: existing.id },
+      data: { tokenHash: hashToken(token), expiresAt: new Date(Date.now() + INVITE_TTL_DAYS * 24 * 60 * 60 * 1000) },
+      include: inviteInclude
     });
-    res.json(phase);
+    res.json({ invite: toInviteResponse(invite), inviteUrl: `${appUrl()}/accept-invite?token=${token}` });
   } catch (error) {
-    res.status(500).json({ error: 'Failed to uncomplete phase' });
+    res.status(500).json({ error: 'Failed to resend invite' });
   }
 });
 
-// Users routes
-app.get('/api/users', authenticate, requireRole('admin', 'superadmin'), async (req: AuthRequest, res) => {
+app.delete('/api/invites/:id', authenticate, requireRole('admin', 'superadmin'), async (req: AuthRequest, res) => {
   try {
-    const users = await prisma.user.findMany({
-      select: { id: true, name: true, email: true, role: true, createdAt: true }
-    });
-    res.json(users);
+    const existing = await prisma.userInvite.findUnique({ where: { id: req.params.id } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Invite not found' });
+    }
+    if (existing.acceptedAt) {
+      return res.status(400).json({ error: 'This invite has already been accepted' });
+    }
+    if (!existing.revokedAt) {
+      await prisma.userInvite.update({ where: { id: existing.id }, data: { revokedAt: new Date() } });
+      await audit(req.user!, {
+        action: 'delete', entityType: 'invite', entityId: existing.id, summary: `Revoked the invite for ${existing.email}`,
+        before: { email: existing.email, role: existing.role }
+      });
+    }
+    res.json({ message: 'Invite revoked' });
   } catch (error) {
-    res.status(500).json({ error: 'Failed to fetch users' });
+    res.status(500).json({ error: 'Failed to revoke invite' });
   }
 });
 
-app.patch('/api/users/:id/role', authenticate, requireRole('admin', 'superadmin'), async (req: AuthRequest, res) => {
+app.get('/api/auth/me', authenticate, async (req: AuthRequest, res) => {
+  const user = await prisma.user.findUnique({ where: { id: req.user!.id }, select: { totpEnabledAt: true } });
+  res.json({ user: { ...req.user, twoFactorEnabled: Boolean(user?.totpEnabledAt) } });
+});
+
+// The current user's two-factor sign-in
+app.get('/api/auth/2fa', authenticate, async (req: AuthRequest, res) => {
   try {
-    const { role } = req.body;
-    const user = await prisma.user.update({
-      where: { id: req.params.id },
-      data: { role },
-      select: { id: true, name: true, email: true, role: true }
+    const user = await prisma.user.findUnique({ where: { id: req.user!.id } });
+    res.json({
+      enabled: Boolean(user?.totpEnabledAt),
+      enabledAt: user?.totpEnabledAt ?? null,
+      required: await isTwoFactorRequired(req.user!.role),
+      recoveryCodesRemaining: await prisma.recoveryCode.count({ where: { userId: req.user!.id, usedAt: null } })
     });
-    res.json(user);
   } catch (error) {
-    res.status(500).json({ error: 'Failed to update user role' });
+    res.status(500).json({ error: 'Failed to get two-factor status' });
   }
 });
 
-app.delete('/api/users/:id', authenticate, requireRole('admin', 'superadmin'), async (req: AuthRequest, res) => {
+app.post('/api/auth/2fa/setup', authenticate, async (req: AuthRequest, res) => {
   try {
-    await prisma.user.delete({ where: { id: req.params.id } });
-    res.json({ message: 'User deleted' });
+    const user = await prisma.user.findUnique({ where: { id: req.user!.id } });
+    if (user?.totpEnabledAt) {
+      return res.status(400).json({ error: 'Two-factor authentication is already set up' });
+    }
+    const secret = base32(randomBytes(20));
+    await prisma.user.update({ where: { id: req.user!.id }, data: { totpSecret: secret, totpEnabledAt: null, totpLastUsedStep: null } });
+    res.json(await totpEnrolment(secret, req.user!.email));
   } catch (error) {
-    res.status(500).json({ error: 'Failed to delete user' });
+    res.status(500).json({ error: 'Failed to start two-factor setup' });
   }
 });
 
-// Settings routes
-app.get('/api/settings', authenticate, async (req: AuthRequest, res) => {
+app.post('/api/auth/2fa/enable', authenticate, async (req: AuthRequest, res) => {
   try {
-    let settings = await prisma.globalSettings.findFirst();
-    if (!settings) {
-      settings = await prisma.globalSettings.create({ data: {} });
+    const recoveryCodes = await enableTwoFactor(req.user!.id, String(req.body.code || ''));
+    if (!recoveryCodes) {
+      return res.status(400).json({ error: 'Invalid code, check the time on your device and try again' });
     }
-    res.json(settings);
+    res.json({ recoveryCodes });
   } catch (error) {
-    res.status(500).json({ error: 'Failed to fetch settings' });
+    res.status(500).json({ error: 'Failed to turn on two-factor authentication' });
   }
 });
 
-app.patch('/api/settings', authenticate, requireRole('superadmin'), async (req: AuthRequest, res) => {
+app.post('/api/auth/2fa/recovery-codes', authenticate, async (req: AuthRequest, res) => {
   try {
-    let settings = await prisma.globalSettings.findFirst();
-    if (!settings) {
-      settings = await prisma.globalSettings.create({ data: { ...req.body, updatedBy: req.user!.id } });
-    } else {
-      settings = await prisma.globalSettings.update({
-        where: { id: settings.id },
-        data: { ...req.body, updatedBy: req.user!.id }
-      });
+    const user = await prisma.user.findUnique({ where: { id: req.user!.id } });
+    if (!user?.totpEnabledAt) {
+      return res.status(400).json({ error: 'Two-factor authentication is not turned on' });
     }
-    res.json(settings);
+    if (!(await verifySecondFactor(user, String(req.body.code || '')))) {
+      return res.status(400).json({ error: 'Invalid code' });
+    }
+    const recoveryCodes = await replaceRecoveryCodes(user.id);
+    await audit(req.user!, { action: 'update', entityType: 'user', entityId: user.id, summary: `${user.name} replaced their two-factor recovery codes` });
+    res.json({ recoveryCodes });
   } catch (error) {
-    res.status(500).json({ error: 'Failed to update settings' });
+    res.status(500).json({ error: 'Failed to replace recovery codes' });
   }
 });
 
-// Notifications routes
-app.get('/api/notifications', authenticate, async (req: AuthRequest, res) => {
+app.post('/api/auth/2fa/disable', authenticate, async (req: AuthRequest, res) => {
   try {
-    // Generate notifications based on project phases
-    const projects = await prisma.project.findMany({
-      include: { phases: true }
-    });
+    const user = await prisma.user.findUnique({ where: { id: req.user!.id } });
+    if (!user?.totpEnabledAt) {
+      return res.status(400).json({ error: 'Two-factor authentication is not turned on' });
+    }
+    if (await isTwoFactorRequired(user.role)) {
+      return res.status(403).json({ error: 'Two-factor authentication is required for your role' });
+    }
+    const validPassword = await bcrypt.compare(String(req.body.password || ''), user.password);
+    if (!validPassword || !(await verifySecondFactor(user, String(req.body.code || '')))) {
+      return res.status(400).json({ error: 'Incorrect password or code' });
+    }
+    await prisma.user.update({ where: { id: user.id }, data: { totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null } });
+    await prisma.recoveryCode.deleteMany({ where: { userId: user.id } });
+    await audit(req.user!, { action: 'update', entityType: 'user', entityId: user.id, summary: `${user.name} turned off two-factor authentication` });
+    res.json({ message: 'Two-factor authentication turned off' });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to turn off two-factor authentication' });
+  }
+});
 
-    const notifications: any[] = [];
-    const now = new Date();
+// Projects matching the dashboard filters, with their status (shared by the list and export)
+async function findListedProjects(req: AuthRequest) {
+  const { q, status: statusFilter, surveyFrom, surveyTo, overduePhase } =
+    req.query as Record<string, string | undefined>;
+  // People filters accept "me" for the current user
+  const [createdBy, owner, assignee, involved] = ['createdBy', 'owner', 'assignee', 'involved']
+    .map(key => req.query[key] === 'me' ? req.user!.id : req.query[key] as string | undefined);
+  const sortBy = ['createdAt', 'updatedAt', 'orderNumber', 'customerName', 'siteSurveyDate']
+    .includes(req.query.sortBy as string) ? req.query.sortBy as string : 'createdAt';
+  const sortOrder = req.query.sortOrder === 'asc' ? 'asc' : 'desc';
 
-    for (const project of projects) {
-      for (const phase of project.phases) {
-        if (phase.isComplete) continue;
+  const projects = await prisma.project.findMany({
+    where: {
+      createdBy: createdBy || undefined,
+      ownerId: owner || undefined,
+      phases: assignee ? { some: { assigneeId: assignee, isComplete: false } } : undefined,
+      AND: involved ? [{
+        OR: [
+          { ownerId: involved },
+          { watchers: { some: { userId: involved } } },
+          { phases: { some: { assigneeId: involved, isComplete: false } } }
+        ]
+      }] : undefined,
+      siteSurveyDate: surveyFrom || surveyTo ? {
+        gte: surveyFrom ? new Date(surveyFrom) : undefined,
+        lte: surveyTo ? new Date(`${surveyTo}T23:59:59.999`) : undefined
+      } : undefined,
+      OR: q ? [
+        { orderNumber: { contains: q, mode: 'insensitive' } },
+        { customerName: { contains: q, mode: 'insensitive' } },
+        { pnr: { contains: q, mode: 'insensitive' } }
+      ] : undefined
+    },
+    include: {
+      phases: { include: { completedByUser: { select: { name: true } } } },
+      createdByUser: { select: { name: true } },
+      owner: { select: { id: true, name: true } }
+    },
+    orderBy: [{ [sortBy]: sortOrder }, { id: sortOrder }]
+  });
 
-        const daysUntil = getBusinessDaysUntil(phase.deadline);
-        let type: string | null = null;
-        let message = '';
+  const projectsWithStatus = projects.map(project => {
+    const phases = project.phases;
+    const now = new Date();
 
+    let status = 'on-track';
+    for (const phase of phases) {
+      if (!phase.isComplete) {
+        const daysUntil = getBusinessDaysUntil(phase.deadline, project.region);
         if (daysUntil < 0) {
-          type = 'overdue';
-          message = `${phase.phaseName} is ${Math.abs(daysUntil)} business days overdue`;
-        } else if (daysUntil === 0) {
-          type = 'urgent';
-          message = `${phase.phaseName} is due today`;
+          status = 'overdue';
+          break;
         } else if (daysUntil <= 2) {
-          type = 'warning';
-          message = `${phase.phaseName} is due in ${daysUntil} business days`;
+          status = 'at-risk';
         }
+      }
+    }
 
-        if (type) {
-          // Upsert notification
-          const existing = await prisma.notification.findUnique({
-            where: {
-              userId_projectId_phaseName: {
-                userId: req.user!.id,
-                projectId: project.id,
-                phaseName: phase.phaseName
-              }
-            }
-          });
-
-          if (existing) {
-            notifications.push(existing);
-          } else {
-            const notification = await prisma.notification.create({
-              data: {
-                userId: req.user!.id,
-                projectId: project.id,
-                phaseName: phase.phaseName,
-                type,
-                message
-              }
-            });
-            notifications.push(notification);
-          }
-        }
+    return { ...project, status };
+  });
+
+  // Status depends on business days, so filter it here
+  return projectsWithStatus.filter(project =>
+    (!statusFilter || project.status === statusFilter) &&
+    (!overduePhase || project.phases.some(phase =>
+      phase.phaseName === overduePhase && !phase.isComplete && getBusinessDaysUntil(phase.deadline, project.region) < 0))
+  );
+}
+
+// Projects routes
+app.get('/api/projects', authenticate, loadBusinessCalendar, async (req: AuthRequest, res) => {
+  try {
+    const cursor = req.query.cursor as string | undefined;
+    const limit = Math.min(parseInt(req.query.limit as string) || 25, 100);
+    const filtered = await findListedProjects(req);
+    const start = cursor ? filtered.findIndex(project => project.id === cursor) + 1 : 0;
+    const page = filtered.slice(start, start + limit);
+
+    res.json({
+      projects: page,
+      nextCursor: start + limit < filtered.length ? page[page.length - 1].id : null,
+      totalCount: filtered.length
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch projects' });
+  }
+});
+
+// Export the filtered list as CSV or XLSX (from server/src/utils/spreadsheetExport.ts)
+app.get('/api/projects/export', authenticate, loadBusinessCalendar, async (req: AuthRequest, res) => {
+  try {
+    const fileFormat = req.query.format === 'xlsx' ? 'xlsx' : 'csv';
+    const projects = await findListedProjects(req);
+
+    const templatePhases = await prisma.phaseTemplatePhase.findMany({ orderBy: [{ templateId: 'asc' }, { sortOrder: 'asc' }] });
+    const phaseColumns = new Map<string, string>();
+    for (const phase of templatePhases) {
+      if (!phaseColumns.has(phase.key)) phaseColumns.set(phase.key, phase.displayName);
+    }
+
+    const statusLabels: Record<string, string> = { complete: 'Complete', overdue: 'Overdue', 'at-risk': 'At risk', 'on-track': 'On track' };
+    const headers = [
+      'Order Number', 'Customer', 'PNR', 'Region', 'Owner', 'Created By', 'Timeline Provided By', 'Timeline Date',
+      'Site Survey Date', 'Status', 'Progress', 'Progress %',
+      ...[...phaseColumns.values()].flatMap(name => [`${name} Deadline`, `${name} Completed`, `${name} Completed By`, `${name} Days Late`])
+    ];
+
+    const rows = projects.map(project => {
+      const counted = project.phases.filter(phase => phase.allowedDays > 0);
+      const completed = counted.filter(phase => phase.isComplete).length;
+      const status = counted.length > 0 && completed === counted.length ? 'complete' : project.status;
+      return [
+        project.orderNumber, project.customerName, project.pnr, project.region, project.owner?.name ?? null,
+        project.createdByUser.name, project.timelineProvidedBy, project.timelineDateProvided, project.siteSurveyDate,
+        statusLabels[status], `${completed}/${counted.length}`, counted.length ? Math.round((completed / counted.length) * 100) : 0,
+        ...[...phaseColumns.keys()].flatMap(key => {
+          const phase = project.phases.find(p => p.phaseName === key);
+          if (!phase) return [null, null, null, null];
+          const daysLate = -getBusinessDaysUntil(phase.deadline, project.region, phase.completedAt || new Date());
+          return [phase.deadline, phase.isComplete ? phase.completedAt : null, phase.isComplete ? phase.completedByUser?.name ?? null : null, Math.max(daysLate, 0)];
+        })
+      ];
+    });
+
+    const toDay = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+    let file: Buffer;
+    if (fileFormat === 'csv') {
+      const escape = (value: unknown) => {
+        if (value === null || value === undefined) return '';
+        const text = value instanceof Date ? toDay(value) : String(value);
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+      };
+      file = Buffer.from(`\uFEFF${[headers, ...rows].map(row => row.map(escape).join(',')).join('\r\n')}\r\n`, 'utf-8');
+    } else {
+      const workbook = new ExcelJS.Workbook();
+      const sheet = workbook.addWorksheet('Projects', { views: [{ state: 'frozen', ySplit: 1 }] });
+      sheet.addRow(headers).font = { bold: true };
+      for (const row of rows) {
+        sheet.addRow(row.map(value => value instanceof Date ? new Date(Date.UTC(value.getFullYear(), value.getMonth(), value.getDate())) : value));
       }
+      sheet.eachRow(row => row.eachCell(cell => { if (cell.value instanceof Date) cell.numFmt = 'yyyy-mm-dd'; }));
+      file = Buffer.from(await workbook.xlsx.writeBuffer());
     }
 
-    // Get all user notifications
-    const userNotifications = await prisma.notification.findMany({
-      where: { userId: req.user!.id },
-      orderBy: { createdAt: 'desc' }
+    res.set({
+      'Content-Type': fileFormat === 'csv' ? 'text/csv; charset=utf-8' : 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'Content-Disposition': `attachment; filename="projects-${toDay(new Date())}.${fileFormat}"`
     });
+    res.send(file);
+  } catch (error) {
+    console.error('Export projects error:', error);
+    res.status(500).json({ error: 'Failed to export projects' });
+  }
+});
 
-    res.json(userNotifications);
+// Phase schedules for the portfolio timeline, paged like the list
+app.get('/api/projects/timeline', authenticate, loadBusinessCalendar, async (req: AuthRequest, res) => {
+  try {
+    const cursor = req.query.cursor as string | undefined;
+    const limit = Math.min(parseInt(req.query.limit as string) || 25, 100);
+    const filtered = await findListedProjects(req);
+    const start = cursor ? filtered.findIndex(project => project.id === cursor) + 1 : 0;
+    const page = filtered.slice(start, start + limit);
+
+    const templates = new Map<string | null, TemplatePhase[]>();
+    for (const project of page) {
+      if (!templates.has(project.templateId)) {
+        templates.set(project.templateId, (await getTemplatePhases(project.templateId))?.phases || []);
+      }
+    }
+
+    const projects = page.map(project => {
+      const phases = templates.get(project.templateId)!;
+      const starts = getProjectPhaseStarts(project, phases);
+      const order = (key: string) => phases.findIndex(phase => phase.key === key);
+      const counted = project.phases.filter(phase => phase.allowedDays > 0);
+      const completed = counted.filter(phase => phase.isComplete).length;
+
+      return {
+        id: project.id,
+        orderNumber: project.orderNumber,
+        customerName: project.customerName,
+        region: project.region,
+        siteSurveyDate: project.siteSurveyDate,
+        status: counted.length > 0 && completed === counted.length ? 'complete' : project.status,
+        completedPhases: completed,
+        totalPhases: counted.length,
+        phases: [...project.phases].sort((a, b) => order(a.phaseName) - order(b.phaseName)).map(phase => {
+          const definition = phases.find(p => p.key === phase.phaseName);
+          const daysUntil = getBusinessDaysUntil(phase.deadline, project.region);
+          return {
+            phaseName: phase.phaseName,
+            displayName: definition?.displayName || phase.phaseName,
+            mirrorOf: definition?.mirrorOf || null,
+            startDate: starts[phase.phaseName] || project.siteSurveyDate,
+            deadline: phase.deadline,
+            isComplete: phase.isComplete,
+            completedAt: phase.completedAt,
+            status: phase.isComplete ? 'complete'
+              : definition?.skippable && phase.allowedDays === 0 ? 'skipped'
+              : daysUntil < 0 ? 'overdue' : daysUntil <= 3 ? 'at-risk' : 'on-track'
+          };
+        })
+      };
+    });
+
+    res.json({
+      projects,
+      nextCursor: start + limit < filtered.length ? page[page.length - 1].id : null,
+      totalCount: filtered.length
+    });
   } catch (error) {
-    res.status(500).json({ error: 'Failed to fetch notifications' });
+    console.error('Get project timeline error:', error);
+    res.status(500).json({ error: 'Failed to get project timeline' });
   }
 });
 
-app.patch('/api/notifications/:id/read', authenticate, async (req: AuthRequest, res) => {
+app.get('/api/projects/:id', authenticate, loadBusinessCalendar, async (req: AuthRequest, res) => {
   try {
-    const notification = await prisma.notification.update({
+    const project = await prisma.project.findUnique({
       where: { id: req.params.id },
-      data: { isRead: true }
+      include: {
+        phases: { orderBy: { deadline: 'asc' }, include: { assignee: { select: { id: true, name: true } } } },
+        createdByUser: { select: { name: true } },
+        owner: { select: { id: true, name: true } },
+        watchers: { include: { user: { select: { id: true, name: true } } } }
+      }
     });
-    res.json(notification);
+
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    // Add schedule float, the forecast (re-chained from actual completions), daysUntilDeadline
+    // and the deadline band for the viewer's lead times to each phase
+    const preferences = await getPreferences(req.user!.id);
+    const templatePhases = (await getTemplatePhases(project.templateId))?.phases || [];
+    const allowedDays = Object.fromEntries(project.phases.map(phase => [phase.phaseName, phase.allowedDays]));
+    const deadlines = Object.fromEntries(project.phases.map(phase => [phase.phaseName, phase.deadline]));
+    const completedAt = Object.fromEntries(project.phases.map(phase => [phase.phaseName, phase.completedAt]));
+    const starts = getProjectPhaseStarts(project, templatePhases);
+    const schedule = analyzeCriticalPath(project.siteSurveyDate, templatePhases, allowedDays, deadlines, project.region);
+    const forecasts = calculateForecastDeadlines(project.siteSurveyDate, templatePhases, allowedDays, completedAt, project.region);
+
+    const phasesWithDays = project.phases.map(phase => {
+      const daysUntilDeadline = getBusinessDaysUntil(phase.deadline, project.region);
+      const forecastDeadline = forecasts[phase.phaseName] || null;
+      return {
+        ...phase,
+        startDate: starts[phase.phaseName] || null,
+        totalFloat: schedule.phases[phase.phaseName]?.totalFloat ?? null,
+        isCritical: schedule.phases[phase.phaseName]?.isCritical || false,
+        baselineDeadline: phase.deadline,
+        forecastDeadline,
+        varianceDays: forecastDeadline ? getBusinessDaysUntil(forecastDeadline, project.region, phase.deadline) : null,
+        daysUntilDeadline,
+        deadlineStatus: getDeadlineBand(daysUntilDeadline, phase.phaseName, preferences) || 'on-track'
+      };
+    });
+
+    // Projected completion is the last forecast finish across all phases
+    const scheduledPhases = phasesWithDays.filter(phase => phase.forecastDeadline);
+    const baselineCompletion = new Date(Math.max(...scheduledPhases.map(phase => phase.deadline.getTime())));
+    const projectedCompletion = new Date(Math.max(...scheduledPhases.map(phase => phase.forecastDeadline!.getTime())));
+    const forecast = scheduledPhases.length > 0
+      ? { baselineCompletion, projectedCompletion, varianceDays: getBusinessDaysUntil(projectedCompletion, project.region, baselineCompletion) }
+      : null;
+
+    res.json({ ...project, phases: phasesWithDays, criticalPath: schedule.criticalPath, forecast, canManage: canManageProject(req.user!, project) });
   } catch (error) {
-    res.status(500).json({ error: 'Failed to mark notification as read' });
+    res.status(500).json({ error: 'Failed to fetch project' });
   }
 });
 
-app.post('/api/notifications/read-all', authenticate, async (req: AuthRequest, res) => {
+app.post('/api/projects', authenticate, loadBusinessCalendar, async (req: AuthRequest, res) => {
   try {
-    await prisma.notification.updateMany({
-      where: { userId: req.user!.id },
-      data: { isRead: true }
+    const { orderNumber, customerName, pnr, timelineProvidedBy, timelineDateProvided, siteSurveyDate, templateId, region } = req.body;
+
+    // Get the selected (or default) phase template for default days
+    const template = await getTemplatePhases(templateId);
+    if (!template) {
+      return res.status(400).json({ error: 'Phase template not found' });
+    }
+
+    const allowedDays: Record<string, number> = {};
+    for (const phase of template.phases) {
+      allowedDays[phase.key] = phase.mirrorOf ? 0 : phase.defaultDays;
+    }
+
+    const deadlines = calculatePhaseDeadlines(new Date(siteSurveyDate), template.phases, allowedDays, region || null);
+
+    const project = await prisma.project.create({
+      data: {
+        orderNumber,
+        customerName,
+        pnr,
+        region: region || null,
+        timelineProvidedBy,
+        timelineDateProvided: new Date(timelineDateProvided),
+        siteSurveyDate: new Date(siteSurveyDate),
+        templateId: template.templateId,
+        createdBy: req.user!.id,
+        ownerId: req.user!.id,
+        phases: {
+          create: template.phases.map(phase => ({
+            phaseName: phase.key,
+            allowedDays: allowedDays[phase.key],
+            deadline: deadlines[phase.key],
+          }))
+        }
+      },
+      include: { phases: true }
     });
-    res.json({ message: 'All notifications marked as read' });
+
+    await audit(req.user!, {
+      action: 'create', entityType: 'project', entityId: project.id, projectId: project.id,
+      summary: `Created project ${project.orderNumber}`,
+      after: { orderNumber, customerName, pnr, siteSurveyDate: project.siteSurveyDate.toISOString() }
+    });
+    await queueWebhookEvent('project.created', { project: toWebhookProject(project), createdBy: { id: req.user!.id, name: req.user!.name } });
+
+    res.status(201).json(project);
+  } catch (error) {
+    console.error('Create project error:', error);
+    res.status(500).json({ error: 'Failed to create project' });
+  }
+});
+
+// Bulk import (from server/src/utils/projectImport.ts)
+const IMPORT_COLUMNS: Record<string, string[]> = {
+  orderNumber: ['ordernumber', 'orderno', 'order'],
+  customerName: ['customername', 'customer'],
+  pnr: ['pnr'],
+  timelineProvidedBy: ['timelineprovidedby', 'timelineprovider'],
+  timelineDateProvided: ['timelinedateprovided', 'timelinedate'],
+  siteSurveyDate: ['sitesurveydate', 'sitesurvey'],
+  region: ['region', 'province'],
+};
+
+const validDate = z.string().transform(str => new Date(str)).refine(date => !isNaN(date.getTime()), 'Invalid date');
+const importRowSchema = z.object({
+  orderNumber: z.string().min(1, 'Order number is required'),
+  customerName: z.string().min(1, 'Customer name is required'),
+  pnr: z.string().min(1, 'PNR is required'),
+  timelineProvidedBy: z.string().min(1, 'Timeline Provided By is required'),
+  timelineDateProvided: validDate,
+  siteSurveyDate: validDate,
+  region: z.string().nullable().optional(),
+});
+
+type ImportRow = z.infer<typeof importRowSchema>;
+
+interface ImportRowResult {
+  row: number;
+  values: Record<string, string>;
+  status: 'valid' | 'invalid' | 'duplicate';
+  issues: { field: string; message: string }[];
+}
+
+function importCell(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (typeof value === 'object') {
+    if ('richText' in value) return value.richText.map(part => part.text).join('').trim();
+    if ('text' in value) return String(value.text).trim();
+    if ('result' in value) return importCell(value.result as ExcelJS.CellValue);
+    return '';
+  }
+  return String(value).trim();
+}
+
+async function analyzeImport(body: Buffer) {
+  const workbook = new ExcelJS.Workbook();
+  let sheet: ExcelJS.Worksheet | undefined;
+  try {
+    if (body[0] === 0x50 && body[1] === 0x4b) {
+      // exceljs types load() as taking an ArrayBuffer but reads Node buffers fine
+      await workbook.xlsx.load(body as unknown as ArrayBuffer);
+      sheet = workbook.worksheets[0];
+    } else {
+      sheet = await workbook.csv.read(Readable.from(body), { map: (value: string) => value });
+    }
+  } catch {
+    sheet = undefined;
+  }
+  if (!sheet) return { error: 'The file could not be read as CSV or XLSX' };
+
+  const columns = new Map<number, string>();
+  sheet.getRow(1).eachCell((cell, col) => {
+    const header = importCell(cell.value).toLowerCase().replace(/[^a-z0-9]/g, '');
+    const field = Object.keys(IMPORT_COLUMNS).find(key => IMPORT_COLUMNS[key].includes(header));
+    if (field) columns.set(col, field);
+  });
+  const missing = Object.keys(IMPORT_COLUMNS).filter(f => f !== 'region' && ![...columns.values()].includes(f));
+  if (missing.length > 0) return { error: `Missing columns: ${missing.join(', ')}` };
+
+  const parsed: { row: number; values: Record<string, string> }[] = [];
+  sheet.eachRow((row, rowNumber) => {
+    if (rowNumber === 1) return;
+    const values: Record<string, string> = {};
+    columns.forEach((field, col) => { const v = importCell(row.getCell(col).value); if (v) values[field] = v; });
+    if (Object.keys(values).length > 0) parsed.push({ row: rowNumber, values });
+  });
+  if (parsed.length === 0) return { error: 'The file has no project rows' };
+  if (parsed.length > 1000) return { error: 'Files can have at most 1000 rows' };
+
+  const existing = await prisma.project.findMany({
+    where: { OR: [
+      { orderNumber: { in: parsed.map(r => r.values.orderNumber).filter(Boolean) } },
+      { pnr: { in: parsed.map(r => r.values.pnr).filter(Boolean) } },
+    ] },
+    select: { orderNumber: true, pnr: true },
+  });
+  const seenOrders = new Map<string, number>(existing.map(p => [p.orderNumber, 0]));
+  const seenPnrs = new Map<string, number>(existing.map(p => [p.pnr, 0]));
+
+  const rows: ImportRowResult[] = [];
+  const valid: ImportRow[] = [];
+  for (const { row, values } of parsed) {
+    const validation = importRowSchema.safeParse({ ...values, region: values.region || null });
+    const issues = validation.success ? [] : validation.error.errors.map(e => ({ field: String(e.path[0] ?? ''), message: e.message }));
+    const duplicates: ImportRowResult['issues'] = [];
+    for (const [field, label, seen] of [['orderNumber', 'Order number', seenOrders], ['pnr', 'PNR', seenPnrs]] as const) {
+      const value = values[field];
+      if (!value) continue;
+      if (seen.has(value)) {
+        const firstRow = seen.get(value);
+        duplicates.push({ field, message: firstRow ? `${label} ${value} is repeated from row ${firstRow}` : `${label} ${value} already exists` });
+      } else {
+        seen.set(value, row);
+      }
+    }
+    rows.push({ row, values, status: issues.length ? 'invalid' : duplicates.length ? 'duplicate' : 'valid', issues: [...issues, ...duplicates] });
+    if (validation.success && duplicates.length === 0) valid.push(validation.data);
+  }
+
+  const summary = {
+    total: rows.length,
+    valid: valid.length,
+    invalid: rows.filter(r => r.status === 'invalid').length,
+    duplicate: rows.filter(r => r.status === 'duplicate').length,
+  };
+  return { rows, valid, summary };
+}
+
+const spreadsheetUpload = express.raw({ type: () => true, limit: '5mb' });
+
+app.post('/api/projects/import/preview', authenticate, spreadsheetUpload, async (req: AuthRequest, res) => {
+  try {
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) return res.status(400).json({ error: 'No file uploaded' });
+    const result = await analyzeImport(req.body);
+    if ('error' in result) return res.status(400).json({ error: result.error });
+    res.json({ rows: result.rows, summary: result.summary });
+  } catch (error) {
+    console.error('Preview project import error:', error);
+    res.status(500).json({ error: 'Failed to preview import' });
+  }
+});
+
+app.post('/api/projects/import', authenticate, spreadsheetUpload, loadBusinessCalendar, async (req: AuthRequest, res) => {
+  try {
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) return res.status(400).json({ error: 'No file uploaded' });
+    const result = await analyzeImport(req.body);
+    if ('error' in result) return res.status(400).json({ error: result.error });
+
+    const template = await getTemplatePhases(req.query.templateId as string | undefined);
+    if (!template) return res.status(400).json({ error: 'Phase template not found' });
+    if (result.valid.length === 0) return res.status(400).json({ error: 'No valid rows to import', rows: result.rows, summary: result.summary });
+
+    const allowedDays: Record<string, number> = {};
+    for (const phase of template.phases) {
+      allowedDays[phase.key] = phase.mirrorOf ? 0 : phase.defaultDays;
+    }
+
+    const projects = await prisma.$transaction(async (tx) => {
+      const created: Project[] = [];
+      for (const data of result.valid) {
+        const deadlines = calculatePhaseDeadlines(data.siteSurveyDate, template.phases, allowedDays, data.region || null);
+        const project = await tx.project.create({
+          data: {
+            ...data,
+            region: data.region || null,
+            templateId: template.templateId,
+            createdBy: req.user!.id,
+            ownerId: req.user!.id,
+            phases: {
+              create: template.phases.map(phase => ({
+                phaseName: phase.key,
+                allowedDays: allowedDays[phase.key],
+                deadline: deadlines[phase.key],
+              }))
+            }
+          }
+        });
+        await tx.auditLog.create({
+          data: {
+            actorId: req.user!.id, actorName: req.user!.name, action: 'create', entityType: 'project',
+            entityId: project.id, projectId: project.id, summary: `Imported project ${project.orderNumber}`,
+            after: { orderNumber: project.orderNumber, customerName: project.customerName, pnr: project.pnr, siteSurveyDate: project.siteSurveyDate.toISOString() },
+          }
+        });
+        created.push(project);
+      }
+      return created;
+    }, { timeout: 60000 });
+    for (const project of projects) {
+      await queueWebhookEvent('project.created', { project: toWebhookProject(project), createdBy: { id: req.user!.id, name: req.user!.name } });
+    }
+
+    res.status(201).json({
+      imported: projects.length,
+      skipped: result.rows.length - projects.length,
+      projects: projects.map(({ id, orderNumber, customerName }) => ({ id, orderNumber, customerName })),
+    });
+  } catch (error) {
+    console.error('Import projects error:', error);
+    res.status(500).json({ error: 'Failed to import projects' });
+  }
+});
+
+// Project updates: same body for the dry-run preview and PATCH
+const projectUpdateSchema = z.object({
+  siteSurveyDate: z.string().transform(str => new Date(str)).refine(date => !isNaN(date.getTime())).optional(),
+  region: z.string().nullable().optional(),
+  phases: z.array(z.object({
+    phaseName: z.string(),
+    allowedDays: z.number().int().min(0).optional(),
+    deadline: z.string().transform(str => new Date(str)).refine(date => !isNaN(date.getTime())).optional()
+  })).optional()
+});
+
+// Allowed days and deadlines an update would produce. A deadline set by hand (superadmin only)
+// re-chains the phases after it, otherwise the schedule is recalculated from the site survey
+function planProjectUpdate(
+  existing: { siteSurveyDate: Date; region: string | null; phases: { phaseName: string; allowedDays: number; deadline: Date }[] },
+  phases: TemplatePhase[],
+  data: z.infer<typeof projectUpdateSchema>,
+  isSuperAdmin: boolean
+) {
+  const allowedDays = Object.fromEntries(existing.phases.map(phase => [phase.phaseName, phase.allowedDays]));
+  const currentDeadlines = Object.fromEntries(existing.phases.map(phase => [phase.phaseName, phase.deadline]));
+  const indexOf = (phaseName: string) => phases.findIndex(phase => phase.key === phaseName);
+
+  let recalculate = false;
+  let changed: { phaseName: string; deadline: Date } | null = null;
+  for (const update of data.phases || []) {
+    if (indexOf(update.phaseName) === -1) continue;
+    if (update.allowedDays !== undefined) {
+      allowedDays[update.phaseName] = update.allowedDays;
+      recalculate = true;
+    }
+    if (update.deadline && isSuperAdmin) {
+      currentDeadlines[update.phaseName] = update.deadline;
+      if (!changed || indexOf(changed.phaseName) > indexOf(update.phaseName)) {
+        changed = { phaseName: update.phaseName, deadline: update.deadline };
+      }
+    }
+  }
+
+  const siteSurveyDate = data.siteSurveyDate || existing.siteSurveyDate;
+  const region = data.region !== undefined ? data.region : existing.region;
+
+  const deadlines = changed
+    ? calculatePhaseDeadlinesFromDeadline(changed.phaseName, changed.deadline, siteSurveyDate, phases, allowedDays, currentDeadlines, region)
+    : recalculate || data.siteSurveyDate || region !== existing.region
+      ? calculatePhaseDeadlines(siteSurveyDate, phases, allowedDays, region)
+      : currentDeadlines;
+
+  return { siteSurveyDate, region, allowedDays, deadlines };
+}
+
+// Preview an update without saving it, with before/after deadlines per phase
+app.post('/api/projects/:id/preview', authenticate, requireRole('admin', 'superadmin'), loadBusinessCalendar, async (req: AuthRequest, res) => {
+  try {
+    const validation = projectUpdateSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: 'Validation failed', details: validation.error.errors });
+    }
+    const existing = await prisma.project.findUnique({ where: { id: req.params.id }, include: { phases: true } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+    const templatePhases = (await getTemplatePhases(existing.templateId))?.phases || [];
+    const plan = planProjectUpdate(existing, templatePhases, validation.data, req.user!.role === 'superadmin');
+
+    const phases = templatePhases.map(({ key: phaseName, displayName }) => {
+      const phase = existing.phases.find(p => p.phaseName === phaseName);
+      const currentDeadline = phase?.deadline || existing.siteSurveyDate;
+      const newDeadline = plan.deadlines[phaseName] || plan.siteSurveyDate;
+      return {
+        phaseName, displayName,
+        isComplete: phase?.isComplete || false,
+        currentAllowedDays: phase?.allowedDays ?? 0,
+        newAllowedDays: plan.allowedDays[phaseName],
+        currentDeadline, newDeadline,
+        // Positive when the deadline moves later
+        shiftDays: getBusinessDaysUntil(newDeadline, plan.region, currentDeadline)
+      };
+    });
+
+    res.json({
+      preview: {
+        currentSiteSurveyDate: existing.siteSurveyDate,
+        newSiteSurveyDate: plan.siteSurveyDate,
+        phases,
+        changedPhases: phases.filter(phase => phase.shiftDays !== 0).length
+      }
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to preview project update' });
+  }
+});
+
+app.patch('/api/projects/:id', authenticate, requireRole('admin', 'superadmin'), loadBusinessCalendar, async (req: AuthRequest, res) => {
+  try {
+    const validation = projectUpdateSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: 'Validation failed', details: validation.error.errors });
+    }
+    const projectId = req.params.id;
+    const existing = await prisma.project.findUnique({ where: { id: projectId }, include: { phases: true } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+    const templatePhases = (await getTemplatePhases(existing.templateId))?.phases || [];
+    const plan = planProjectUpdate(existing, templatePhases, validation.data, req.user!.role === 'superadmin');
+
+    const project = await prisma.project.update({
+      where: { id: projectId },
+      data: { siteSurveyDate: plan.siteSurveyDate, region: plan.region }
+    });
+
+    // Update each phase (mirror phases, e.g. FQA and COM, carry their source's deadline)
+    for (const { key: phaseName } of templatePhases) {
+      await prisma.projectPhase.updateMany({
+        where: { projectId, phaseName },
+        data: { allowedDays: plan.allowedDays[phaseName], deadline: plan.deadlines[phaseName] || plan.siteSurveyDate }
+      });
+    }
+
+    // Fetch updated project
+    const updatedProject = await prisma.project.findUnique({
+      where: { id: projectId },
+      include: {
+        phases: { orderBy: { deadline: 'asc' } },
+        createdByUser: { select: { name: true } }
+      }
+    });
+
+    // Record only the fields that changed
+    const before: Record<string, Prisma.InputJsonValue | null> = {};
+    const after: Record<string, Prisma.InputJsonValue | null> = {};
+    if (existing.siteSurveyDate.getTime() !== updatedProject!.siteSurveyDate.getTime()) {
+      before.siteSurveyDate = existing.siteSurveyDate.toISOString();
+      after.siteSurveyDate = updatedProject!.siteSurveyDate.toISOString();
+    }
+    if (existing.region !== updatedProject!.region) {
+      before.region = existing.region;
+      after.region = updatedProject!.region;
+    }
+    for (const phase of updatedProject!.phases) {
+      const old = existing.phases.find(p => p.phaseName === phase.phaseName);
+      if (old && old.allowedDays !== phase.allowedDays) {
+        before[`${phase.phaseName}.allowedDays`] = old.allowedDays;
+        after[`${phase.phaseName}.allowedDays`] = phase.allowedDays;
+      }
+      if (old && old.deadline.getTime() !== phase.deadline.getTime()) {
+        before[`${phase.phaseName}.deadline`] = old.deadline.toISOString();
+        after[`${phase.phaseName}.deadline`] = phase.deadline.toISOString();
+      }
+    }
+    if (Object.keys(after).length > 0) {
+      await audit(req.user!, {
+        action: 'update', entityType: 'project', entityId: projectId, projectId,
+        summary: `Updated schedule for project ${project.orderNumber}`, before, after
+      });
+    }
+    await queueWebhookEvent('project.updated', {
+      project: toWebhookProject(updatedProject!),
+      phases: updatedProject!.phases.map(phase => ({ key: phase.phaseName, allowedDays: phase.allowedDays, deadline: phase.deadline.toISOString(), isComplete: phase.isComplete })),
+      updatedBy: { id: req.user!.id, name: req.user!.name }
+    });
+
+    // Add daysUntilDeadline
+    const phasesWithDays = updatedProject!.phases.map(phase => ({
+      ...phase,
+      daysUntilDeadline: getBusinessDaysUntil(phase.deadline, updatedProject!.region)
+    }));
+
+    res.json({ ...updatedProject, phases: phasesWithDays });
+  } catch (error) {
+    console.error('Update project error:', error);
+    res.status(500).json({ error: 'Failed to update project' });
+  }
+});
+
+app.delete('/api/projects/:id', authenticate, requireRole('superadmin'), async (req: AuthRequest, res) => {
+  try {
+    const project = await prisma.project.delete({ where: { id: req.params.id } });
+    await audit(req.user!, {
+      action: 'delete', entityType: 'project', entityId: project.id, projectId: project.id,
+      summary: `Deleted project ${project.orderNumber}`,
+      before: { orderNumber: project.orderNumber, customerName: project.customerName, pnr: project.pnr }
+    });
+    await queueWebhookEvent('project.deleted', { project: toWebhookProject(project), deletedBy: { id: req.user!.id, name: req.user!.name } });
+    res.json({ message: 'Project deleted' });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to delete project' });
+  }
+});
+
+// Phases routes
+app.post('/api/phases/:id/complete', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const existing = await prisma.projectPhase.findUnique({ where: { id: req.params.id }, include: { project: true } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Phase not found' });
+    }
+
+    // Handle mirror phases (both directions)
+    const template = await getTemplatePhases(existing.project.templateId);
+    const definition = template?.phases.find(p => p.key === existing.phaseName);
+    const source = definition?.mirrorOf || existing.phaseName;
+    const mirrorNames = (template?.phases || [])
+      .filter(p => p.key === source || p.mirrorOf === source)
+      .map(p => p.key)
+      .filter(name => name !== existing.phaseName);
+
+    const completedAt = new Date();
+    // Only one request can complete the phase, so racing clicks don't both record it
+    const completed = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.projectPhase.updateMany({
+        where: { id: existing.id, isComplete: false },
+        data: { isComplete: true, completedBy: req.user!.id, completedAt }
+      });
+      if (count === 0) return false;
+      if (mirrorNames.length > 0) {
+        await tx.projectPhase.updateMany({
+          where: { projectId: existing.projectId, phaseName: { in: mirrorNames } },
+          data: { isComplete: true, completedBy: req.user!.id, completedAt }
+        });
+      }
+      await audit(req.user!, {
+        action: 'complete', entityType: 'phase', entityId: existing.id, projectId: existing.projectId,
+        summary: `Completed ${existing.phaseName} on project ${existing.project.orderNumber}`,
+        before: { isComplete: false, completedBy: null, completedAt: null },
+        after: { isComplete: true, completedBy: req.user!.name, completedAt: completedAt.toISOString() }
+      }, tx);
+      return true;
+    });
+    if (!completed) {
+      return res.status(409).json({ error: 'Phase is already complete' });
+    }
+    await queueWebhookEvent('phase.completed', {
+      phase: {
+        id: existing.id, key: existing.phaseName, name: definition?.displayName || existing.phaseName,
+        completedAt: completedAt.toISOString(), completedBy: { id: req.user!.id, name: req.user!.name }
+      },
+      mirroredPhases: mirrorNames,
+      project: toWebhookProject(existing.project)
+    });
+
+    res.json(await prisma.projectPhase.findUnique({ where: { id: existing.id } }));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to complete phase' });
+  }
+});
+
+app.post('/api/phases/:id/uncomplete', authenticate, requireRole('admin', 'superadmin'), async (req: AuthRequest, res) => {
+  try {
+    const existing = await prisma.projectPhase.findUnique({
+      where: { id: req.params.id },
+      include: { project: true, completedByUser: { select: { name: true } } }
+    });
+    if (!existing) {
+      return res.status(404).json({ error: 'Phase not found' });
+    }
+    const reopened = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.projectPhase.updateMany({
+        where: { id: existing.id, isComplete: true },
+        data: { isComplete: false, completedBy: null, completedAt: null }
+      });
+      if (count === 0) return false;
+      await audit(req.user!, {
+        action: 'uncomplete', entityType: 'phase', entityId: existing.id, projectId: existing.projectId,
+        summary: `Reopened ${existing.phaseName} on project ${existing.project.orderNumber}`,
+        before: { isComplete: true, completedBy: existing.completedByUser?.name ?? null, completedAt: existing.completedAt?.toISOString() ?? null },
+        after: { isComplete: false, completedBy: null, completedAt: null }
+      }, tx);
+      return true;
+    });
+    if (!reopened) {
+      return res.status(409).json({ error: 'Phase is not complete' });
+    }
+    const template = await getTemplatePhases(existing.project.templateId);
+    await queueWebhookEvent('phase.reopened', {
+      phase: {
+        id: existing.id, key: existing.phaseName,
+        name: template?.phases.find(p => p.key === existing.phaseName)?.displayName || existing.phaseName,
+        reopenedBy: { id: req.user!.id, name: req.user!.name }
+      },
+      mirroredPhases: [],
+      project: toWebhookProject(existing.project)
+    });
+    res.json(await prisma.projectPhase.findUnique({ where: { id: existing.id } }));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to uncomplete phase' });
+  }
+});
+
+app.patch('/api/projects/:id/owner', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const project = await prisma.project.findUnique({ where: { id: req.params.id }, include: { owner: { select: { name: true } } } });
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+    if (!canManageProject(req.user!, project)) {
+      return res.status(403).json({ error: 'Only admins or the project owner can change the owner' });
+    }
+
+    const owner = req.body.ownerId ? await prisma.user.findUnique({ where: { id: req.body.ownerId }, select: { id: true, name: true } }) : null;
+    if (req.body.ownerId && !owner) {
+      return res.status(400).json({ error: 'User not found' });
+    }
+
+    const updated = await prisma.project.update({
+      where: { id: project.id },
+      data: { ownerId: owner?.id ?? null },
+      include: { owner: { select: { id: true, name: true } } }
+    });
+    await audit(req.user!, {
+      action: 'update', entityType: 'project', entityId: project.id, projectId: project.id,
+      summary: owner ? `Made ${owner.name} owner of project ${project.orderNumber}` : `Removed the owner of project ${project.orderNumber}`,
+      before: { owner: project.owner?.name ?? null },
+      after: { owner: owner?.name ?? null }
+    });
+    res.json({ project: updated });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to update project owner' });
+  }
+});
+
+app.post('/api/projects/:id/watch', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const watcher = await prisma.projectWatcher.upsert({
+      where: { projectId_userId: { projectId: req.params.id, userId: req.user!.id } },
+      create: { projectId: req.params.id, userId: req.user!.id },
+      update: {},
+      include: { user: { select: { id: true, name: true } } }
+    });
+    res.json({ watcher });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to watch project' });
+  }
+});
+
+app.delete('/api/projects/:id/watch', authenticate, async (req: AuthRequest, res) => {
+  try {
+    await prisma.projectWatcher.deleteMany({ where: { projectId: req.params.id, userId: req.user!.id } });
+    res.json({ message: 'Stopped watching project' });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to stop watching project' });
+  }
+});
+
+app.patch('/api/phases/:id/assignee', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const phase = await prisma.projectPhase.findUnique({
+      where: { id: req.params.id },
+      include: { project: true, assignee: { select: { name: true } } }
+    });
+    if (!phase) {
+      return res.status(404).json({ error: 'Phase not found' });
+    }
+    if (!canManageProject(req.user!, phase.project)) {
+      return res.status(403).json({ error: 'Only admins or the project owner can assign phases' });
+    }
+
+    const assignee = req.body.assigneeId ? await prisma.user.findUnique({ where: { id: req.body.assigneeId }, select: { id: true, name: true } }) : null;
+    if (req.body.assigneeId && !assignee) {
+      return res.status(400).json({ error: 'User not found' });
+    }
+
+    const updated = await prisma.projectPhase.update({
+      where: { id: phase.id },
+      data: { assigneeId: assignee?.id ?? null },
+      include: { assignee: { select: { id: true, name: true } } }
+    });
+    await audit(req.user!, {
+      action: 'update', entityType: 'phase', entityId: phase.id, projectId: phase.projectId,
+      summary: assignee
+        ? `Assigned ${phase.phaseName} on project ${phase.project.orderNumber} to ${assignee.name}`
+        : `Unassigned ${phase.phaseName} on project ${phase.project.orderNumber}`,
+      before: { assignee: phase.assignee?.name ?? null },
+      after: { assignee: assignee?.name ?? null }
+    });
+    res.json({ phase: updated });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to update phase assignee' });
+  }
+});
+
+app.get('/api/projects/:id/history', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const entries = await prisma.auditLog.findMany({
+      where: { projectId: req.params.id },
+      orderBy: { createdAt: 'desc' }
+    });
+    res.json({ entries });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch project history' });
+  }
+});
+
+// Audit log routes
+app.get('/api/audit', authenticate, requireRole('admin', 'superadmin'), async (req: AuthRequest, res) => {
+  try {
+    const { q, entityType, action, from, to, cursor } = req.query as Record<string, string | undefined>;
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    const entries = await prisma.auditLog.findMany({
+      where: {
+        entityType: entityType || undefined,
+        action: action || undefined,
+        createdAt: from || to ? {
+          gte: from ? new Date(from) : undefined,
+          lte: to ? new Date(`${to}T23:59:59.999`) : undefined
+        } : undefined,
+        OR: q ? [
+          { summary: { contains: q, mode: 'insensitive' } },
+          { actorName: { contains: q, mode: 'insensitive' } },
+          { entityId: q }
+        ] : undefined
+      },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {})
+    });
+    const page = entries.slice(0, limit);
+    res.json({ entries: page, nextCursor: entries.length > limit ? page[page.length - 1].id : null });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch audit log' });
+  }
+});
+
+// Users routes
+app.get('/api/users', authenticate, requireRole('admin', 'superadmin'), async (req: AuthRequest, res) => {
+  try {
+    const users = await prisma.user.findMany({
+      select: { id: true, name: true, email: true, role: true, createdAt: true, totpEnabledAt: true, failedLoginCount: true, lockedUntil: true }
+    });
+    res.json(users.map(({ totpEnabledAt, lockedUntil, ...user }) => ({
+      ...user, twoFactorEnabled: Boolean(totpEnabledAt), lockedUntil: lockedUntil && lockedUntil > new Date() ? lockedUntil : null
+    })));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch users' });
+  }
+});
+
+app.get('/api/users/directory', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const users = await prisma.user.findMany({ select: { id: true, name: true }, orderBy: { name: 'asc' } });
+    res.json({ users });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch users' });
+  }
+});
+
+// Recent failed sign-ins for security review; ?q= matches the email entered or IP address
+app.get('/api/users/failed-logins', authenticate, requireRole('admin', 'superadmin'), async (req: AuthRequest, res) => {
+  try {
+    const q = String(req.query.q || '').trim();
+    const attempts = await prisma.failedLogin.findMany({
+      where: {
+        userId: (req.query.userId as string) || undefined,
+        ...(q ? { OR: [{ email: { contains: q, mode: 'insensitive' as const } }, { ipAddress: { startsWith: q } }] } : {})
+      },
+      include: { user: { select: { id: true, name: true } } },
+      orderBy: { createdAt: 'desc' },
+      take: Math.min(parseInt(req.query.limit as string) || 50, 200)
+    });
+    res.json({ attempts });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to get failed sign-in attempts' });
+  }
+});
+
+app.patch('/api/users/:id/role', authenticate, requireRole('admin', 'superadmin'), async (req: AuthRequest, res) => {
+  try {
+    const { role } = req.body;
+    const existing = await prisma.user.findUnique({ where: { id: req.params.id } });
+    const user = await prisma.user.update({
+      where: { id: req.params.id },
+      data: { role },
+      select: { id: true, name: true, email: true, role: true }
+    });
+    if (existing && existing.role !== role) {
+      await audit(req.user!, {
+        action: 'update', entityType: 'user', entityId: user.id,
+        summary: `Changed ${user.name}'s role from ${existing.role} to ${role}`,
+        before: { role: existing.role }, after: { role }
+      });
+    }
+    res.json(user);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to update user role' });
+  }
+});
+
+app.delete('/api/users/:id', authenticate, requireRole('admin', 'superadmin'), async (req: AuthRequest, res) => {
+  try {
+    const user = await prisma.user.delete({ where: { id: req.params.id } });
+    await audit(req.user!, {
+      action: 'delete', entityType: 'user', entityId: user.id, summary: `Deleted user ${user.name}`,
+      before: { name: user.name, email: user.email, role: user.role }
+    });
+    res.json({ message: 'User deleted' });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to delete user' });
+  }
+});
+
+// Admins manage staff sessions; Super Admins manage anyone's
+app.get('/api/users/:id/sessions', authenticate, requireRole('admin', 'superadmin'), async (req: AuthRequest, res) => {
+  try {
+    const user = await prisma.user.findUnique({ where: { id: req.params.id } });
+    if (!user) return res.status(404).json({ error: 'User not found' });
+    if (req.user!.role !== 'superadmin' && user.role !== 'staff' && user.id !== req.user!.id) {
+      return res.status(403).json({ error: "Insufficient permissions to view this user's sessions" });
+    }
+    res.json({ sessions: await activeSessions(user.id, req.sessionId) });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to get sessions' });
+  }
+});
+
+app.delete(['/api/users/:id/sessions', '/api/users/:id/sessions/:sessionId'], authenticate, requireRole('admin', 'superadmin'), async (req: AuthRequest, res) => {
+  try {
+    const user = await prisma.user.findUnique({ where: { id: req.params.id } });
+    if (!user) return res.status(404).json({ error: 'User not found' });
+    if (req.user!.role !== 'superadmin' && user.role !== 'staff' && user.id !== req.user!.id) {
+      return res.status(403).json({ error: 'Insufficient permissions to sign this user out' });
+    }
+    const { sessionId } = req.params;
+    const { count } = await revokeSessions({ userId: user.id, ...(sessionId ? { id: sessionId } : {}) });
+    if (sessionId && count === 0) return res.status(404).json({ error: 'Session not found' });
+    if (count > 0) {
+      await audit(req.user!, {
+        action: 'update', entityType: 'user', entityId: user.id,
+        summary: sessionId ? `Signed ${user.name} out of a session` : `Signed ${user.name} out everywhere`
+      });
+    }
+    res.json({ message: count === 1 ? 'Signed out 1 session' : `Signed out ${count} sessions` });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to sign out sessions' });
+  }
+});
+
+app.post('/api/users/:id/unlock', authenticate, requireRole('admin', 'superadmin'), async (req: AuthRequest, res) => {
+  try {
+    const user = await prisma.user.findUnique({ where: { id: req.params.id } });
+    if (!user) return res.status(404).json({ error: 'User not found' });
+    if (req.user!.role !== 'superadmin' && user.role !== 'staff' && user.id !== req.user!.id) {
+      return res.status(403).json({ error: 'Insufficient permissions to unlock this user' });
+    }
+    if (!user.lockedUntil || user.lockedUntil <= new Date()) {
+      return res.status(400).json({ error: 'This account is not locked' });
+    }
+    await clearFailedLogins(user.id);
+    await audit(req.user!, { action: 'update', entityType: 'user', entityId: user.id, summary: `Unlocked ${user.name}'s account` });
+    res.json({ message: 'Account unlocked' });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to unlock user' });
+  }
+});
+
+// For someone who has lost their authenticator app and recovery codes
+app.delete('/api/users/:id/2fa', authenticate, requireRole('admin', 'superadmin'), async (req: AuthRequest, res) => {
+  try {
+    const user = await prisma.user.findUnique({ where: { id: req.params.id } });
+    if (!user) return res.status(404).json({ error: 'User not found' });
+    if (user.id === req.user!.id) {
+      return res.status(400).json({ error: 'Turn off your own two-factor authentication from your profile' });
+    }
+    if (req.user!.role !== 'superadmin' && user.role !== 'staff') {
+      return res.status(403).json({ error: "Insufficient permissions to reset this user's two-factor authentication" });
+    }
+    if (!user.totpSecret) {
+      return res.status(400).json({ error: 'This user has not set up two-factor authentication' });
+    }
+    await prisma.user.update({ where: { id: user.id }, data: { totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null } });
+    await prisma.recoveryCode.deleteMany({ where: { userId: user.id } });
+    await audit(req.user!, { action: 'update', entityType: 'user', entityId: user.id, summary: `Reset ${user.name}'s two-factor authentication` });
+    res.json({ message: 'Two-factor authentication reset' });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to reset two-factor authentication' });
+  }
+});
+
+// Holiday calendar routes
+app.get('/api/holidays', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const year = parseInt(req.query.year as string) || new Date().getFullYear();
+    const overrides = await prisma.holiday.findMany({
+      where: { date: { gte: new Date(year, 0, 1), lt: new Date(year + 1, 0, 1) } },
+      include: { createdByUser: { select: { id: true, name: true } } },
+      orderBy: { date: 'asc' }
+    });
+
+    const computed = getSouthAfricanPublicHolidays(year).map(holiday => {
+      const removal = overrides.find(o => o.type === 'removed' && dateKey(o.date) === dateKey(holiday.date));
+      return { date: holiday.date, name: holiday.name, source: 'computed', isRemoved: !!removal, override: removal || null };
+    });
+    const adhoc = overrides
+      .filter(o => o.type === 'adhoc')
+      .map(o => ({ date: o.date, name: o.name, source: 'adhoc', isRemoved: false, override: o }));
+
+    res.json({ year, holidays: [...computed, ...adhoc].sort((a, b) => a.date.getTime() - b.date.getTime()) });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to get holidays' });
+  }
+});
+
+// Effective holidays (computed plus ad-hoc, less removed) between two dates, for timelines
+app.get('/api/holidays/range', authenticate, loadBusinessCalendar, (req: AuthRequest, res) => {
+  const from = new Date(req.query.from as string);
+  const to = new Date(req.query.to as string);
+  if (isNaN(from.getTime()) || isNaN(to.getTime()) || from > to || to.getFullYear() - from.getFullYear() >= 10) {
+    return res.status(400).json({ error: 'Validation failed' });
+  }
+  from.setHours(0, 0, 0, 0);
+  to.setHours(0, 0, 0, 0);
+
+  const holidays: { date: Date; name: string }[] = [];
+  for (let year = from.getFullYear(); year <= to.getFullYear(); year++) {
+    holidays.push(...getPublicHolidays(year).filter(holiday => holiday.date >= from && holiday.date <= to));
+  }
+  res.json({ holidays });
+});
+
+// Add an ad-hoc holiday or remove a computed one
+app.post('/api/holidays', authenticate, requireRole('superadmin'), loadBusinessCalendar, async (req: AuthRequest, res) => {
+  try {
+    const date = new Date(req.body.date);
+    const { name, type } = req.body;
+    if (isNaN(date.getTime()) || !name || !['adhoc', 'removed'].includes(type)) {
+      return res.status(400).json({ error: 'Validation failed' });
+    }
+    if (await prisma.holiday.findUnique({ where: { date } })) {
+      return res.status(400).json({ error: 'The holiday calendar already has an entry for this date' });
+    }
+    const isComputed = getSouthAfricanPublicHolidays(date.getFullYear()).some(holiday => dateKey(holiday.date) === dateKey(date));
+    if (type === 'removed' && !isComputed) {
+      return res.status(400).json({ error: 'Only standard public holidays can be removed' });
+    }
+    if (type === 'adhoc' && isPublicHoliday(date)) {
+      return res.status(400).json({ error: 'Date is already a public holiday' });
+    }
+
+    const holiday = await prisma.holiday.create({
+      data: { date, name, type, createdBy: req.user!.id },
+      include: { createdByUser: { select: { id: true, name: true } } }
+    });
+    await audit(req.user!, {
+      action: 'create', entityType: 'holiday', entityId: holiday.id,
+      summary: type === 'removed' ? `Removed public holiday ${name}` : `Added holiday ${name}`,
+      after: { date: holiday.date.toISOString(), name, type }
+    });
+    res.status(201).json({ holiday });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to create holiday' });
+  }
+});
+
+app.patch('/api/holidays/:id', authenticate, requireRole('superadmin'), loadBusinessCalendar, async (req: AuthRequest, res) => {
+  try {
+    const holiday = await prisma.holiday.findUnique({ where: { id: req.params.id } });
+    if (!holiday) {
+      return res.status(404).json({ error: 'Holiday not found' });
+    }
+    const date = req.body.date ? new Date(req.body.date) : undefined;
+    if ((date && isNaN(date.getTime())) || (req.body.name !== undefined && !req.body.name)) {
+      return res.status(400).json({ error: 'Validation failed' });
+    }
+    if (date && holiday.type === 'removed') {
+      return res.status(400).json({ error: 'Cannot move a removed public holiday' });
+    }
+    if (date && dateKey(date) !== dateKey(holiday.date) && await prisma.holiday.findUnique({ where: { date } })) {
+      return res.status(400).json({ error: 'The holiday calendar already has an entry for this date' });
+    }
+    if (date && dateKey(date) !== dateKey(holiday.date) && isPublicHoliday(date)) {
+      return res.status(400).json({ error: 'Date is already a public holiday' });
+    }
+
+    const updated = await prisma.holiday.update({
+      where: { id: holiday.id },
+      data: { date, name: req.body.name },
+      include: { createdByUser: { select: { id: true, name: true } } }
+    });
+    if (updated.name !== holiday.name || updated.date.getTime() !== holiday.date.getTime()) {
+      await audit(req.user!, {
+        action: 'update', entityType: 'holiday', entityId: holiday.id, summary: `Updated holiday ${updated.name}`,
+        before: { date: holiday.date.toISOString(), name: holiday.name },
+        after: { date: updated.date.toISOString(), name: updated.name }
+      });
+    }
+    res.json({ holiday: updated });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to update holiday' });
+  }
+});
+
+// Deleting a removed holiday restores the standard public holiday
+app.delete('/api/holidays/:id', authenticate, requireRole('superadmin'), async (req: AuthRequest, res) => {
+  try {
+    const holiday = await prisma.holiday.findUnique({ where: { id: req.params.id } });
+    if (!holiday) {
+      return res.status(404).json({ error: 'Holiday not found' });
+    }
+    await prisma.holiday.delete({ where: { id: holiday.id } });
+    await audit(req.user!, {
+      action: 'delete', entityType: 'holiday', entityId: holiday.id,
+      summary: holiday.type === 'removed' ? `Restored public holiday ${holiday.name}` : `Deleted holiday ${holiday.name}`,
+      before: { date: holiday.date.toISOString(), name: holiday.name, type: holiday.type }
+    });
+    res.json({ message: 'Holiday deleted successfully' });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to delete holiday' });
+  }
+});
+
+// Blackout (shutdown) period routes
+const parseBlackoutRange = (body: { startDate?: string | Date; endDate?: string | Date; region?: string | null }) => {
+  const startDate = new Date(body.startDate ?? '');
+  const endDate = new Date(body.endDate ?? '');
+  if (isNaN(startDate.getTime()) || isNaN(endDate.getTime()) || endDate < startDate) return null;
+  return { startDate, endDate, region: body.region || null };
+};
+
+// Open phase deadlines of active projects that would move if the period were added to the calendar
+async function previewBlackoutImpact(candidate: { startDate: Date; endDate: Date; region: string | null }) {
+  await refreshBusinessCalendar();
+  const projects = await prisma.project.findMany({
+    where: { phases: { some: { isComplete: false } }, region: candidate.region || undefined },
+    include: { phases: true },
+    orderBy: { createdAt: 'desc' }
+  });
+
+  const affected = [];
+  for (const project of projects) {
+    const template = await getTemplatePhases(project.templateId);
+    if (!template) continue;
+    const after = shiftPhaseDeadlines(project, template.phases, [...blackoutPeriods, candidate]);
+    const phases = project.phases
+      .filter(phase => !phase.isComplete && after[phase.phaseName] && dateKey(after[phase.phaseName]) !== dateKey(phase.deadline))
+      .map(phase => ({
+        phaseId: phase.id,
+        phaseName: phase.phaseName,
+        displayName: template.phases.find(p => p.key === phase.phaseName)?.displayName || phase.phaseName,
+        currentDeadline: phase.deadline,
+        newDeadline: after[phase.phaseName]
+      }));
+    if (phases.length > 0) {
+      affected.push({ id: project.id, orderNumber: project.orderNumber, customerName: project.customerName, region: project.region, phases });
+    }
+  }
+  return affected;
+}
+
+app.get('/api/blackouts', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const blackouts = await prisma.blackoutPeriod.findMany({
+      include: { createdByUser: { select: { id: true, name: true } } },
+      orderBy: { startDate: 'desc' }
+    });
+    res.json({ blackouts });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to get blackout periods' });
+  }
+});
+
+app.post('/api/blackouts/preview', authenticate, requireRole('superadmin'), async (req: AuthRequest, res) => {
+  try {
+    const range = parseBlackoutRange(req.body);
+    if (!range) {
+      return res.status(400).json({ error: 'Validation failed' });
+    }
+    const projects = await previewBlackoutImpact(range);
+    res.json({ projects, totalPhases: projects.reduce((sum, project) => sum + project.phases.length, 0) });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to preview blackout period' });
+  }
+});
+
+// Add a shutdown period, optionally shifting the affected deadlines
+app.post('/api/blackouts', authenticate, requireRole('superadmin'), async (req: AuthRequest, res) => {
+  try {
+    const range = parseBlackoutRange(req.body);
+    const { name, applyToProjects } = req.body;
+    if (!range || !name) {
+      return res.status(400).json({ error: 'Validation failed' });
+    }
+
+    const affected = applyToProjects ? await previewBlackoutImpact(range) : [];
+    const blackout = await prisma.$transaction(async (tx) => {
+      const created = await tx.blackoutPeriod.create({
+        data: { name, ...range, createdBy: req.user!.id },
+        include: { createdByUser: { select: { id: true, name: true } } }
+      });
+      for (const project of affected) {
+        for (const phase of project.phases) {
+          await tx.projectPhase.update({ where: { id: phase.phaseId }, data: { deadline: phase.newDeadline } });
+        }
+      }
+      return created;
+    });
+
+    await audit(req.user!, {
+      action: 'create', entityType: 'blackout', entityId: blackout.id, summary: `Added shutdown period ${name}`,
+      after: { name, startDate: range.startDate.toISOString(), endDate: range.endDate.toISOString(), region: range.region }
+    });
+    for (const project of affected) {
+      await audit(req.user!, {
+        action: 'update', entityType: 'project', entityId: project.id, projectId: project.id,
+        summary: `Shifted deadlines on project ${project.orderNumber} for shutdown period ${name}`,
+        before: Object.fromEntries(project.phases.map(phase => [`${phase.phaseName}.deadline`, phase.currentDeadline.toISOString()])),
+        after: Object.fromEntries(project.phases.map(phase => [`${phase.phaseName}.deadline`, phase.newDeadline.toISOString()]))
+      });
+    }
+
+    res.status(201).json({ blackout, shiftedPhases: affected.reduce((sum, project) => sum + project.phases.length, 0) });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to create blackout period' });
+  }
+});
+
+app.patch('/api/blackouts/:id', authenticate, requireRole('superadmin'), async (req: AuthRequest, res) => {
+  try {
+    const blackout = await prisma.blackoutPeriod.findUnique({ where: { id: req.params.id } });
+    if (!blackout) {
+      return res.status(404).json({ error: 'Blackout period not found' });
+    }
+    const range = parseBlackoutRange({
+      startDate: req.body.startDate ?? blackout.startDate,
+      endDate: req.body.endDate ?? blackout.endDate,
+      region: req.body.region !== undefined ? req.body.region : blackout.region
+    });
+    if (!range || (req.body.name !== undefined && !req.body.name)) {
+      return res.status(400).json({ error: 'Validation failed' });
+    }
+
+    const updated = await prisma.blackoutPeriod.update({
+      where: { id: blackout.id },
+      data: { name: req.body.name, ...range },
+      include: { createdByUser: { select: { id: true, name: true } } }
+    });
+    await audit(req.user!, {
+      action: 'update', entityType: 'blackout', entityId: blackout.id, summary: `Updated shutdown period ${updated.name}`,
+      before: { name: blackout.name, startDate: blackout.startDate.toISOString(), endDate: blackout.endDate.toISOString(), region: blackout.region },
+      after: { name: updated.name, startDate: updated.startDate.toISOString(), endDate: updated.endDate.toISOString(), region: updated.region }
+    });
+    res.json({ blackout: updated });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to update blackout period' });
+  }
+});
+
+app.delete('/api/blackouts/:id', authenticate, requireRole('superadmin'), async (req: AuthRequest, res) => {
+  try {
+    const blackout = await prisma.blackoutPeriod.findUnique({ where: { id: req.params.id } });
+    if (!blackout) {
+      return res.status(404).json({ error: 'Blackout period not found' });
+    }
+    await prisma.blackoutPeriod.delete({ where: { id: blackout.id } });
+    await audit(req.user!, {
+      action: 'delete', entityType: 'blackout', entityId: blackout.id, summary: `Deleted shutdown period ${blackout.name}`,
+      before: { name: blackout.name, startDate: blackout.startDate.toISOString(), endDate: blackout.endDate.toISOString(), region: blackout.region }
+    });
+    res.json({ message: 'Blackout period deleted successfully' });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to delete blackout period' });
+  }
+});
+
+// Settings routes
+app.get('/api/settings', authenticate, async (req: AuthRequest, res) => {
+  try {
+    let settings = await prisma.globalSettings.findFirst();
+    if (!settings) {
+      settings = await prisma.globalSettings.create({ data: {} });
+    }
+    res.json(settings);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch settings' });
+  }
+});
+
+app.patch('/api/settings', authenticate, requireRole('superadmin'), async (req: AuthRequest, res) => {
+  try {
+    if (Array.isArray(req.body.allowedEmailDomains)) {
+      req.body.allowedEmailDomains = [...new Set<string>(
+        req.body.allowedEmailDomains.map((d: string) => String(d).trim().replace(/^@/, '').toLowerCase()).filter(Boolean)
+      )];
+    }
+    if (Array.isArray(req.body.twoFactorRequiredRoles)) {
+      req.body.twoFactorRequiredRoles = [...new Set<string>(req.body.twoFactorRequiredRoles)]
+        .filter((role) => ['staff', 'admin', 'superadmin'].includes(role));
+    }
+    if (req.body.registrationMode === 'domain' && !req.body.allowedEmailDomains?.length) {
+      return res.status(400).json({ error: 'Add at least one email domain to limit registration to' });
+    }
+
+    let settings = await prisma.globalSettings.findFirst();
+    if (!settings) {
+      settings = await prisma.globalSettings.create({ data: { ...req.body, updatedBy: req.user!.id } });
+    } else {
+      const before = settings;
+      settings = await prisma.globalSettings.update({
+        where: { id: settings.id },
+        data: { ...req.body, updatedBy: req.user!.id }
+      });
+      if (before.defaultTemplateId !== settings.defaultTemplateId) {
+        await audit(req.user!, {
+          action: 'update', entityType: 'settings', entityId: settings.id, summary: 'Changed default template',
+          before: { defaultTemplateId: before.defaultTemplateId }, after: { defaultTemplateId: settings.defaultTemplateId }
+        });
+      }
+      if (before.registrationMode !== settings.registrationMode ||
+          before.allowedEmailDomains.join(',') !== settings.allowedEmailDomains.join(',')) {
+        await audit(req.user!, {
+          action: 'update', entityType: 'settings', entityId: settings.id, summary: 'Changed registration settings',
+          before: { registrationMode: before.registrationMode, allowedEmailDomains: before.allowedEmailDomains },
+          after: { registrationMode: settings.registrationMode, allowedEmailDomains: settings.allowedEmailDomains }
+        });
+      }
+      if (before.twoFactorRequiredRoles.join(',') !== settings.twoFactorRequiredRoles.join(',')) {
+        await audit(req.user!, {
+          action: 'update', entityType: 'settings', entityId: settings.id, summary: 'Changed which roles must use two-factor authentication',
+          before: { twoFactorRequiredRoles: before.twoFactorRequiredRoles }, after: { twoFactorRequiredRoles: settings.twoFactorRequiredRoles }
+        });
+      }
+    }
+    res.json(settings);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to update settings' });
+  }
+});
+
+// Phase template routes
+const templateInclude = {
+  createdByUser: { select: { id: true, name: true } },
+  phases: { include: { predecessors: true }, orderBy: { sortOrder: 'asc' as const } },
+  _count: { select: { projects: true } }
+};
+
+const templatePhasesSchema = z.array(z.object({
+  key: z.string().regex(/^[a-z0-9_-]+$/),
+  displayName: z.string().min(1),
+  defaultDays: z.number().int().min(0).max(365),
+  mirrorOf: z.string().nullable().optional(),
+  skippable: z.boolean().optional(),
+  predecessors: z.array(z.object({ key: z.string().min(1), lagDays: z.number().int().min(0).max(365).optional() })).optional()
+})).min(1).superRefine((phases, ctx) => {
+  // Mirrors and predecessors must point at earlier, non-mirror phases, which keeps the graph acyclic
+  const seen = new Map<string, (typeof phases)[number]>();
+  for (const phase of phases) {
+    const mirrored = phase.mirrorOf ? seen.get(phase.mirrorOf) : null;
+    const predecessorKeys = (phase.predecessors || []).map(p => p.key);
+    const message = seen.has(phase.key) ? `Duplicate phase key: ${phase.key}`
+      : phase.mirrorOf && (!mirrored || mirrored.mirrorOf || phase.skippable || predecessorKeys.length > 0) ? `${phase.displayName} is not a valid mirror phase`
+      : predecessorKeys.some(key => !seen.has(key) || seen.get(key)!.mirrorOf) || new Set(predecessorKeys).size !== predecessorKeys.length
+        ? `${phase.displayName} can only depend on earlier, non-mirror phases, once each`
+        : null;
+    if (message) return ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+    seen.set(phase.key, phase);
+  }
+});
+type TemplatePhaseInput = z.infer<typeof templatePhasesSchema>[number];
+
+const toTemplatePhaseData = (phase: TemplatePhaseInput, index: number) => ({
+  key: phase.key, displayName: phase.displayName, sortOrder: index,
+  defaultDays: phase.mirrorOf ? 0 : phase.defaultDays, mirrorOf: phase.mirrorOf || null, skippable: phase.skippable || false,
+  predecessors: { create: (phase.predecessors || []).map(p => ({ predecessorKey: p.key, lagDays: p.lagDays || 0 })) }
+});
+
+// Template and its phases flattened (e.g. "build.defaultDays") for the audit log
+const toTemplateSnapshot = (template: { name: string; description: string | null; phases: { key: string; displayName: string; defaultDays: number; mirrorOf: string | null; skippable: boolean; predecessors: { predecessorKey: string; lagDays: number }[] }[] }) => ({
+  name: template.name, description: template.description, phases: template.phases.map(phase => phase.key).join(', '),
+  ...Object.fromEntries(template.phases.flatMap(phase => [
+    [`${phase.key}.displayName`, phase.displayName], [`${phase.key}.defaultDays`, phase.defaultDays],
+    [`${phase.key}.mirrorOf`, phase.mirrorOf], [`${phase.key}.skippable`, phase.skippable],
+    [`${phase.key}.predecessors`, phase.predecessors.map(d => d.lagDays > 0 ? `${d.predecessorKey} + ${d.lagDays}` : d.predecessorKey).join(', ')]
+  ]))
+});
+
+app.get('/api/templates', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const defaultTemplateId = (await getTemplatePhases())?.templateId;
+    const templates = await prisma.phaseTemplate.findMany({ include: templateInclude, orderBy: { name: 'asc' } });
+    res.json({
+      templates: templates.map(({ _count, ...template }) => ({
+        ...template,
+        projectCount: _count.projects,
+        isDefault: template.id === defaultTemplateId
+      }))
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch phase templates' });
+  }
+});
+
+app.get('/api/templates/:id', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const template = await prisma.phaseTemplate.findUnique({ where: { id: req.params.id }, include: templateInclude });
+    if (!template) {
+      return res.status(404).json({ error: 'Phase template not found' });
+    }
+    const { _count, ...rest } = template;
+    res.json({ template: { ...rest, projectCount: _count.projects, isDefault: template.id === (await getTemplatePhases())?.templateId } });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch phase template' });
+  }
+});
+
+app.post('/api/templates', authenticate, requireRole('superadmin'), async (req: AuthRequest, res) => {
+  try {
+    const validation = z.object({ name: z.string().min(1), description: z.string().nullable().optional(), phases: templatePhasesSchema }).safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: 'Validation failed', details: validation.error.errors });
+    }
+    const { name, description, phases } = validation.data;
+    if (await prisma.phaseTemplate.findUnique({ where: { name } })) {
+      return res.status(400).json({ error: 'A template with this name already exists' });
+    }
+
+    const template = await prisma.phaseTemplate.create({
+      data: { name, description: description || null, createdBy: req.user!.id, phases: { create: phases.map(toTemplatePhaseData) } },
+      include: templateInclude
+    });
+    await audit(req.user!, {
+      action: 'create', entityType: 'template', entityId: template.id,
+      summary: `Created phase template ${template.name}`, after: toTemplateSnapshot(template)
+    });
+    const { _count, ...rest } = template;
+    res.status(201).json({ template: { ...rest, projectCount: _count.projects, isDefault: false } });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to create phase template' });
+  }
+});
+
+// Once projects use a template its phase keys, order and mirrors are locked
+app.patch('/api/templates/:id', authenticate, requireRole('superadmin'), async (req: AuthRequest, res) => {
+  try {
+    const validation = z.object({ name: z.string().min(1).optional(), description: z.string().nullable().optional(), phases: templatePhasesSchema.optional() }).safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: 'Validation failed', details: validation.error.errors });
+    }
+    const { name, description, phases } = validation.data;
+    const id = req.params.id;
+    const template = await prisma.phaseTemplate.findUnique({ where: { id }, include: templateInclude });
+    if (!template) {
+      return res.status(404).json({ error: 'Phase template not found' });
+    }
+    if (name && name !== template.name && await prisma.phaseTemplate.findUnique({ where: { name } })) {
+      return res.status(400).json({ error: 'A template with this name already exists' });
+    }
+    const isInUse = template._count.projects > 0;
+    if (phases && isInUse && (phases.length !== template.phases.length ||
+        phases.some((phase, index) => phase.key !== template.phases[index].key || (phase.mirrorOf || null) !== template.phases[index].mirrorOf))) {
+      return res.status(400).json({ error: 'Phases cannot be added, removed, reordered or re-mirrored while projects use this template' });
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      await tx.phaseTemplate.update({ where: { id }, data: { name, description } });
+      if (phases && isInUse) {
+        for (const phase of phases) {
+          const { predecessors, key, mirrorOf, sortOrder, ...data } = toTemplatePhaseData(phase, 0);
+          const updatedPhase = await tx.phaseTemplatePhase.update({ where: { templateId_key: { templateId: id, key } }, data });
+          await tx.phaseTemplateDependency.deleteMany({ where: { phaseId: updatedPhase.id } });
+          await tx.phaseTemplateDependency.createMany({ data: predecessors.create.map(dependency => ({ ...dependency, phaseId: updatedPhase.id })) });
+        }
+      } else if (phases) {
+        await tx.phaseTemplatePhase.deleteMany({ where: { templateId: id } });
+        for (const [index, phase] of phases.entries()) {
+          await tx.phaseTemplatePhase.create({ data: { ...toTemplatePhaseData(phase, index), templateId: id } });
+        }
+      }
+      return tx.phaseTemplate.findUniqueOrThrow({ where: { id }, include: templateInclude });
+    });
+
+    await audit(req.user!, {
+      action: 'update', entityType: 'template', entityId: id, summary: `Updated phase template ${updated.name}`,
+      before: toTemplateSnapshot(template), after: toTemplateSnapshot(updated)
+    });
+    const { _count, ...rest } = updated;
+    res.json({ template: { ...rest, projectCount: _count.projects, isDefault: id === (await getTemplatePhases())?.templateId } });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to update phase template' });
+  }
+});
+
+app.delete('/api/templates/:id', authenticate, requireRole('superadmin'), async (req: AuthRequest, res) => {
+  try {
+    const template = await prisma.phaseTemplate.findUnique({ where: { id: req.params.id }, include: { _count: { select: { projects: true } } } });
+    if (!template) {
+      return res.status(404).json({ error: 'Phase template not found' });
+    }
+    if (template.id === (await getTemplatePhases())?.templateId) {
+      return res.status(400).json({ error: 'Cannot delete the default template' });
+    }
+    if (template._count.projects > 0) {
+      return res.status(400).json({ error: 'Cannot delete a template that projects are using' });
+    }
+    await prisma.phaseTemplate.delete({ where: { id: template.id } });
+    await audit(req.user!, {
+      action: 'delete', entityType: 'template', entityId: template.id,
+      summary: `Deleted phase template ${template.name}`, before: { name: template.name, description: template.description }
+    });
+    res.json({ message: 'Phase template deleted successfully' });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to delete phase template' });
+  }
+});
+
+// Notifications routes
+app.get('/api/notifications', authenticate, async (req: AuthRequest, res) => {
+  try {
+    // Generated by the scheduled notifications function, so this is a plain read
+    const preferences = await getPreferences(req.user!.id);
+    if (!preferences.inAppEnabled) {
+      return res.json([]);
+    }
+
+    const userNotifications = await prisma.notification.findMany({
+      where: { userId: req.user!.id },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    res.json(userNotifications);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch notifications' });
+  }
+});
+
+app.get('/api/notifications/preferences', authenticate, async (req: AuthRequest, res) => {
+  try {
+    res.json({ preferences: await getPreferences(req.user!.id) });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to get notification preferences' });
+  }
+});
+
+const preferencesSchema = z.object({
+  inAppEnabled: z.boolean(), emailAlertsEnabled: z.boolean(), emailDigestEnabled: z.boolean(),
+  notifyWarning: z.boolean(), notifyUrgent: z.boolean(), notifyOverdue: z.boolean(),
+  warningDays: z.number().int().min(0).max(30), urgentDays: z.number().int().min(0).max(30),
+  phaseWarningDays: z.record(z.string().min(1), z.number().int().min(0).max(30)),
+  projectScope: z.enum(['all', 'involved', 'created']),
+  quietHoursStart: z.number().int().min(0).max(23).nullable(),
+  quietHoursEnd: z.number().int().min(0).max(23).nullable()
+}).partial();
+
+app.patch('/api/notifications/preferences', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const validation = preferencesSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: 'Validation failed', details: validation.error.errors });
+    }
+
+    const preferences = { ...(await getPreferences(req.user!.id)), ...validation.data };
+    if (preferences.urgentDays > preferences.warningDays) {
+      return res.status(400).json({ error: 'Urgent lead time cannot be longer than the warning lead time' });
+    }
+    if ((preferences.quietHoursStart === null) !== (preferences.quietHoursEnd === null)) {
+      return res.status(400).json({ error: 'Quiet hours need both a start and an end' });
+    }
+
+    await prisma.notificationPreference.upsert({
+      where: { userId: req.user!.id },
+      create: { ...preferences, userId: req.user!.id },
+      update: preferences
+    });
+    res.json({ preferences });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to update notification preferences' });
+  }
+});
+
+app.patch('/api/notifications/:id/read', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const notification = await prisma.notification.update({
+      where: { id: req.params.id },
+      data: { isRead: true }
+    });
+    res.json(notification);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to mark notification as read' });
+  }
+});
+
+app.post('/api/notifications/read-all', authenticate, async (req: AuthRequest, res) => {
+  try {
+    await prisma.notification.updateMany({
+      where: { userId: req.user!.id },
+      data: { isRead: true }
+    });
+    res.json({ message: 'All notifications marked as read' });
   } catch (error) {
     res.status(500).json({ error: 'Failed to mark all notifications as read' });
   }
 });
 
+// Analytics routes (defaults to the last twelve months; createdBy accepts "me")
+function parseAnalyticsQuery(req: AuthRequest) {
+  const today = new Date();
+  const from = req.query.from ? new Date(req.query.from as string) : new Date(today.getFullYear(), today.getMonth() - 11, 1);
+  const to = req.query.to ? new Date(req.query.to as string) : new Date(today);
+  if (isNaN(from.getTime()) || isNaN(to.getTime()) || from > to || to.getTime() - from.getTime() > 5 * 366 * 86400000) return null;
+  from.setHours(0, 0, 0, 0);
+  to.setHours(23, 59, 59, 999);
+  const createdBy = req.query.createdBy === 'me' ? req.user!.id : req.query.createdBy as string | undefined;
+  return { from, to, createdBy: createdBy || undefined };
+}
+
+// Business days past the deadline, at completion or so far (mirror and skipped phases have no allowed days and are left out)
+const phaseDaysLate = (phase: { deadline: Date; completedAt: Date | null }, region: string | null) =>
+  -getBusinessDaysUntil(phase.deadline, region, phase.completedAt || new Date());
+const percent = (count: number, total: number) => total > 0 ? Math.round((count / total) * 100) : null;
+const mean = (values: number[]) => values.length > 0 ? Math.round(values.reduce((sum, v) => sum + v, 0) / values.length * 10) / 10 : null;
+
+app.get('/api/analytics/summary', authenticate, loadBusinessCalendar, async (req: AuthRequest, res) => {
+  try {
+    const query = parseAnalyticsQuery(req);
+    if (!query) return res.status(400).json({ error: 'Validation failed' });
+
+    const projects = await prisma.project.findMany({
+      where: { createdAt: { gte: query.from, lte: query.to }, createdBy: query.createdBy },
+      include: { phases: true }
+    });
+
+    const statusCounts: Record<string, number> = { 'on-track': 0, 'at-risk': 0, overdue: 0, complete: 0 };
+    const overdueAgeing = [
+      { label: '1-5 days', minDays: 1, maxDays: 5 as number | null, count: 0 },
+      { label: '6-10 days', minDays: 6, maxDays: 10, count: 0 },
+      { label: '11-20 days', minDays: 11, maxDays: 20, count: 0 },
+      { label: '21+ days', minDays: 21, maxDays: null, count: 0 }
+    ];
+    for (const project of projects) {
+      const counted = project.phases.filter(phase => phase.allowedDays > 0);
+      const open = counted.filter(phase => !phase.isComplete).map(phase => -phaseDaysLate(phase, project.region));
+      statusCounts[counted.length > 0 && open.length === 0 ? 'complete'
+        : open.some(days => days < 0) ? 'overdue' : open.some(days => days <= 3) ? 'at-risk' : 'on-track']++;
+      for (const days of open) {
+        const bucket = overdueAgeing.find(b => -days >= b.minDays && (b.maxDays === null || -days <= b.maxDays));
+        if (bucket) bucket.count++;
+      }
+    }
+
+    res.json({ totalProjects: projects.length, statusCounts, overdueAgeing });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to get analytics summary' });
+  }
+});
+
+app.get('/api/analytics/phases', authenticate, loadBusinessCalendar, async (req: AuthRequest, res) => {
+  try {
+    const query = parseAnalyticsQuery(req);
+    if (!query) return res.status(400).json({ error: 'Validation failed' });
+
+    const phases = await prisma.projectPhase.findMany({
+      where: {
+        isComplete: true, allowedDays: { gt: 0 }, completedAt: { gte: query.from, lte: query.to },
+        project: query.createdBy ? { createdBy: query.createdBy } : undefined
+      },
+      include: { project: { select: { region: true } } }
+    });
+    const template = await getTemplatePhases();
+    const keys = [...new Set([...(template?.phases.map(phase => phase.key) || []), ...phases.map(phase => phase.phaseName)])];
+
+    res.json({
+      phases: keys.flatMap(phaseName => {
+        const completed = phases.filter(phase => phase.phaseName === phaseName);
+        if (completed.length === 0) return [];
+        const late = completed.map(phase => phaseDaysLate(phase, phase.project.region));
+        const onTime = late.filter(days => days <= 0).length;
+        return [{
+          phaseName,
+          displayName: template?.phases.find(phase => phase.key === phaseName)?.displayName || phaseName,
+          completed: completed.length,
+          onTime,
+          onTimeRate: percent(onTime, completed.length),
+          averageAllowedDays: mean(completed.map(phase => phase.allowedDays)),
+          averageActualDays: mean(completed.map((phase, i) => Math.max(phase.allowedDays + late[i], 0)))
+        }];
+      })
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to get phase analytics' });
+  }
+});
+
+app.get('/api/analytics/trends', authenticate, loadBusinessCalendar, async (req: AuthRequest, res) => {
+  try {
+    const query = parseAnalyticsQuery(req);
+    if (!query) return res.status(400).json({ error: 'Validation failed' });
+    const { from, to, createdBy } = query;
+
+    // Weekly buckets (from Monday) for ranges up to 13 weeks, otherwise monthly
+    const interval = to.getTime() - from.getTime() < 13 * 7 * 86400000 ? 'week' : 'month';
+    const periodStart = (date: Date) => {
+      const start = new Date(date);
+      start.setHours(0, 0, 0, 0);
+      if (interval === 'week') start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+      else start.setDate(1);
+      return start;
+    };
+    const keyOf = (date: Date) => {
+      const start = periodStart(date);
+      return `${start.getFullYear()}-${String(start.getMonth() + 1).padStart(2, '0')}-${String(start.getDate()).padStart(2, '0')}`;
+    };
+
+    const periods = new Map<string, { period: string; projectsCreated: number; phasesCompleted: number; phasesOnTime: number; onTimeRate: number | null; deadlinesMissed: number }>();
+    for (let date = periodStart(from); date <= to; interval === 'week' ? date.setDate(date.getDate() + 7) : date.setMonth(date.getMonth() + 1)) {
+      periods.set(keyOf(date), { period: keyOf(date), projectsCreated: 0, phasesCompleted: 0, phasesOnTime: 0, onTimeRate: null, deadlinesMissed: 0 });
+    }
+
+    const inRange = { gte: from, lte: to };
+    const [projects, phases] = await Promise.all([
+      prisma.project.findMany({ where: { createdAt: inRange, createdBy }, select: { createdAt: true } }),
+      prisma.projectPhase.findMany({
+        where: { allowedDays: { gt: 0 }, OR: [{ completedAt: inRange }, { deadline: inRange }], project: createdBy ? { createdBy } : undefined },
+        include: { project: { select: { region: true } } }
+      })
+    ]);
+
+    for (const project of projects) periods.get(keyOf(project.createdAt))!.projectsCreated++;
+    for (const phase of phases) {
+      const late = phaseDaysLate(phase, phase.project.region);
+      if (phase.completedAt && phase.completedAt >= from && phase.completedAt <= to) {
+        const period = periods.get(keyOf(phase.completedAt))!;
+        period.phasesCompleted++;
+        if (late <= 0) period.phasesOnTime++;
+      }
+      if (phase.deadline >= from && phase.deadline <= to && late > 0) periods.get(keyOf(phase.deadline))!.deadlinesMissed++;
+    }
+
+    res.json({
+      interval,
+      trends: [...periods.values()].map(period => ({ ...period, onTimeRate: percent(period.phasesOnTime, period.phasesCompleted) }))
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to get analytics trends' });
+  }
+});
+
+// Calendar routes
+// Open deadlines of counted phases (mirrors and skipped phases have no allowed days)
+async function findOpenDeadlines(where: Prisma.ProjectPhaseWhereInput) {
+  return prisma.projectPhase.findMany({
+    where: { ...where, isComplete: false, allowedDays: { gt: 0 } },
+    include: {
+      project: { select: { id: true, orderNumber: true, customerName: true, templateId: true, region: true } },
+      assignee: { select: { id: true, name: true } }
+    },
+    orderBy: [{ deadline: 'asc' }, { phaseName: 'asc' }]
+  });
+}
+
+async function getDisplayNames(phases: { phaseName: string; project: { templateId: string | null } }[]) {
+  const names = new Map<string, string>();
+  for (const templateId of new Set(phases.map(phase => phase.project.templateId))) {
+    for (const phase of (await getTemplatePhases(templateId))?.phases || []) names.set(`${templateId}:${phase.key}`, phase.displayName);
+  }
+  return (phase: { phaseName: string; project: { templateId: string | null } }) =>
+    names.get(`${phase.project.templateId}:${phase.phaseName}`) || phase.phaseName;
+}
+
+const appUrl = () => (process.env.APP_URL || 'http://localhost:5173').replace(/\/$/, '');
+const feedUrl = (token: string) => `${appUrl()}/api/calendar/${token}.ics`;
+
+app.get('/api/calendar/deadlines', authenticate, loadBusinessCalendar, async (req: AuthRequest, res) => {
+  try {
+    const from = new Date(req.query.from as string);
+    const to = new Date(req.query.to as string);
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || from > to || to.getTime() - from.getTime() >= 100 * 86400000) {
+      return res.status(400).json({ error: 'Validation failed' });
+    }
+    from.setHours(0, 0, 0, 0);
+    to.setHours(23, 59, 59, 999);
+
+    const userId = req.user!.id;
+    const phases = await findOpenDeadlines({
+      deadline: { gte: from, lte: to },
+      ...(req.query.scope === 'involved' ? {
+        OR: [{ assigneeId: userId }, { project: { ownerId: userId } }, { project: { watchers: { some: { userId } } } }]
+      } : {})
+    });
+    const displayName = await getDisplayNames(phases);
+    const preferences = await getPreferences(userId);
+
+    res.json({
+      deadlines: phases.map(phase => {
+        const daysUntilDeadline = getBusinessDaysUntil(phase.deadline, phase.project.region);
+        return {
+          phaseId: phase.id,
+          phaseName: phase.phaseName,
+          displayName: displayName(phase),
+          deadline: phase.deadline,
+          daysUntilDeadline,
+          deadlineStatus: getDeadlineBand(daysUntilDeadline, phase.phaseName, preferences) || 'on-track',
+          assignee: phase.assignee,
+          project: { id: phase.project.id, orderNumber: phase.project.orderNumber, customerName: phase.project.customerName }
+        };
+      })
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to get deadlines' });
+  }
+});
+
+app.get('/api/calendar/feed', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const user = await prisma.user.findUnique({ where: { id: req.user!.id }, select: { calendarToken: true } });
+    let token = user?.calendarToken;
+    if (!token) {
+      token = randomBytes(24).toString('hex');
+      await prisma.user.update({ where: { id: req.user!.id }, data: { calendarToken: token } });
+    }
+    res.json({ url: feedUrl(token) });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to get calendar feed' });
+  }
+});
+
+app.post('/api/calendar/feed/reset', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const token = randomBytes(24).toString('hex');
+    await prisma.user.update({ where: { id: req.user!.id }, data: { calendarToken: token } });
+    res.json({ url: feedUrl(token) });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to reset calendar feed' });
+  }
+});
+
+// iCalendar feed (the token in the URL is the credential, as calendar apps can't log in)
+const icsText = (value: string) => value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+const icsDate = (date: Date) => `${date.getFullYear()}${String(date.getMonth() + 1).padStart(2, '0')}${String(date.getDate()).padStart(2, '0')}`;
+
+app.get('/api/calendar/:token.ics', loadBusinessCalendar, async (req, res) => {
+  try {
+    const user = await prisma.user.findUnique({ where: { calendarToken: req.params.token }, select: { id: true } });
+    if (!user) {
+      return res.status(404).json({ error: 'Calendar not found' });
+    }
+
+    const phases = await findOpenDeadlines({
+      project: { OR: [{ ownerId: user.id }, { watchers: { some: { userId: user.id } } }] }
+    });
+    const displayName = await getDisplayNames(phases);
+    const stamp = `${new Date().toISOString().replace(/[-:]/g, '').slice(0, 15)}Z`;
+
+    const lines = [
+      'BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//OpenServe//Milestone Tracker//EN', 'CALSCALE:GREGORIAN', 'METHOD:PUBLISH',
+      'X-WR-CALNAME:OpenServe deadlines', 'REFRESH-INTERVAL;VALUE=DURATION:PT1H', 'X-PUBLISHED-TTL:PT1H'
+    ];
+    for (const phase of phases) {
+      const end = new Date(phase.deadline);
+      end.setDate(end.getDate() + 1);
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:${phase.id}@openserve-tracker`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART;VALUE=DATE:${icsDate(phase.deadline)}`,
+        `DTEND;VALUE=DATE:${icsDate(end)}`,
+        `SUMMARY:${icsText(`${displayName(phase)} due - ${phase.project.orderNumber}`)}`,
+        `DESCRIPTION:${icsText(`Project: ${phase.project.orderNumber} (${phase.project.customerName})\nPhase: ${displayName(phase)}\nAssignee: ${phase.assignee?.name || 'Unassigned'}`)}`,
+        `URL:${appUrl()}/projects/${phase.project.id}`,
+        'TRANSP:TRANSPARENT',
+        'END:VEVENT'
+      );
+    }
+    lines.push('END:VCALENDAR');
+
+    // Fold long lines at 75 characters
+    const folded = lines.map(line => line.match(/.{1,74}/gu)!.join('\r\n '));
+    res.set({ 'Content-Type': 'text/calendar; charset=utf-8', 'Cache-Control': 'no-cache' });
+    res.send(`${folded.join('\r\n')}\r\n`);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to get calendar feed' });
+  }
+});
+
+// Email goes out through SMTP when SMTP_HOST is set (from server/src/utils/mailer.ts); without it messages
+// are written to the function log
+const mailTransport = process.env.SMTP_HOST
+  ? nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: parseInt(process.env.SMTP_PORT || '587', 10),
+    secure: process.env.SMTP_SECURE === 'true',
+    auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined
+  })
+  : null;
+
+type RenderedEmail = { subject: string; text: string; html: string };
+
+async function sendMail(message: RenderedEmail & { to: string }) {
+  if (!mailTransport) {
+    console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`);
+    return;
+  }
+  await mailTransport.sendMail({ from: process.env.MAIL_FROM || 'OpenServe Tracker <no-reply@openserve.co.za>', ...message });
+}
+
+// Email templates (from server/src/utils/emailTemplates.ts)
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+function renderEmailLayout(heading: string, intro: string, content: string, footer = 'You are receiving this because you have an account on the OpenServe Milestone Tracker.') {
+  return `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f3f4f6;font-family:Arial,Helvetica,sans-serif;color:#1f2937;">
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:600px;margin:0 auto;background:#ffffff;border-radius:12px;border:1px solid #e5e7eb;">
+      <tr>
+        <td style="padding:20px 24px;background:#00A651;border-radius:12px 12px 0 0;color:#ffffff;font-size:18px;font-weight:bold;">
+          OpenServe Milestone Tracker
+        </td>
+      </tr>
+      <tr>
+        <td style="padding:24px;">
+          <h1 style="margin:0 0 8px;font-size:20px;">${escapeHtml(heading)}</h1>
+          <p style="margin:0 0 16px;color:#6b7280;">${escapeHtml(intro)}</p>
+          ${content}
+        </td>
+      </tr>
+      <tr>
+        <td style="padding:16px 24px;border-top:1px solid #e5e7eb;color:#9ca3af;font-size:12px;">
+          ${escapeHtml(footer)}
+        </td>
+      </tr>
+    </table>
+  </body>
+</html>`;
+}
+
+type EmailItem = { projectId: string; orderNumber: string; type: string; message: string };
+const EMAIL_SECTIONS: Record<string, { title: string; color: string }> = {
+  overdue: { title: 'Overdue', color: '#dc2626' },
+  urgent: { title: 'Due today or tomorrow', color: '#ea580c' },
+  warning: { title: 'Due in the next 3 business days', color: '#ca8a04' }
+};
+
+const renderHtmlSection = (type: string, items: EmailItem[]) => `<h2 style="margin:16px 0 8px;font-size:16px;color:${EMAIL_SECTIONS[type].color};">${EMAIL_SECTIONS[type].title} (${items.length})</h2>
+          <ul style="margin:0;padding-left:20px;">
+          ${items.map(item => `<li style="margin:0 0 8px;">
+            <a href="${escapeHtml(`${appUrl()}/projects/${item.projectId}`)}" style="color:#00A651;font-weight:bold;text-decoration:none;">${escapeHtml(item.orderNumber)}</a>
+            <span style="color:#374151;"> &ndash; ${escapeHtml(item.message)}</span>
+          </li>`).join('\n          ')}
+          </ul>`;
+
+const renderTextSection = (type: string, items: EmailItem[]) =>
+  `${EMAIL_SECTIONS[type].title} (${items.length})\n${items.map(item => `- ${item.orderNumber}: ${item.message}\n  ${appUrl()}/projects/${item.projectId}`).join('\n')}`;
+
+function renderOverdueAlertEmail(userName: string, items: EmailItem[]): RenderedEmail {
+  const intro = `Hi ${userName}, the following phases have passed their deadline.`;
+  return {
+    subject: items.length === 1 ? `Overdue: ${items[0].orderNumber} - ${items[0].message}` : `${items.length} project phases are now overdue`,
+    text: `${intro}\n\n${renderTextSection('overdue', items)}\n`,
+    html: renderEmailLayout('Phases now overdue', intro, renderHtmlSection('overdue', items))
+  };
+}
+
+function renderDigestEmail(userName: string, items: EmailItem[]): RenderedEmail {
+  const sections = ['overdue', 'urgent', 'warning']
+    .map(type => ({ type, items: items.filter(item => item.type === type) }))
+    .filter(section => section.items.length > 0);
+  const overdueCount = items.filter(item => item.type === 'overdue').length;
+  const intro = `Hi ${userName}, here is today's summary of project deadlines that need attention.`;
+  return {
+    subject: overdueCount > 0
+      ? `Daily digest: ${overdueCount} overdue, ${items.length - overdueCount} due soon`
+      : `Daily digest: ${items.length} phase${items.length !== 1 ? 's' : ''} due soon`,
+    text: `${intro}\n\n${sections.map(section => renderTextSection(section.type, section.items)).join('\n\n')}\n`,
+    html: renderEmailLayout('Your daily deadline digest', intro, sections.map(section => renderHtmlSection(section.type, section.items)).join('\n          '))
+  };
+}
+
+function renderPasswordResetEmail(userName: string, resetUrl: string, expiresInHours: number): RenderedEmail {
+  const intro = `Hi ${userName}, we received a request to reset your password.`;
+  const expiry = `The link expires in ${expiresInHours} hour${expiresInHours !== 1 ? 's' : ''} and can be used once. If you didn't ask for this, you can ignore this email.`;
+  return {
+    subject: 'Reset your OpenServe Tracker password',
+    text: `${intro}\n\nChoose a new password here:\n${resetUrl}\n\n${expiry}\n`,
+    html: renderEmailLayout('Reset your password', intro, `<p style="margin:0 0 16px;">
+            <a href="${escapeHtml(resetUrl)}" style="display:inline-block;padding:10px 20px;background:#00A651;color:#ffffff;border-radius:8px;font-weight:bold;text-decoration:none;">Choose a new password</a>
+          </p>
+          <p style="margin:0;color:#6b7280;font-size:14px;">${escapeHtml(expiry)}</p>`)
+  };
+}
+
+const isInQuietHours = ({ quietHoursStart: start, quietHoursEnd: end }: Preferences, date = new Date()) => {
+  if (start === null || end === null || start === end) return false;
+  const hour = date.getHours();
+  return start < end ? hour >= start && hour < end : hour >= start || hour < end;
+};
+
+const emailNotificationInclude = { user: { select: { id: true, name: true, email: true } }, project: { select: { id: true, orderNumber: true } } };
+type EmailNotification = { id: string; type: string; message: string; user: { id: string; name: string; email: string }; project: { id: string; orderNumber: string } };
+
+function groupByUser(notifications: EmailNotification[]) {
+  const groups = new Map<string, { user: EmailNotification['user']; notifications: EmailNotification[] }>();
+  for (const notification of notifications) {
+    const group = groups.get(notification.user.id);
+    if (group) group.notifications.push(notification);
+    else groups.set(notification.user.id, { user: notification.user, notifications: [notification] });
+  }
+  return Array.from(groups.values());
+}
+
+const toEmailItem = (n: EmailNotification): EmailItem => ({ projectId: n.project.id, orderNumber: n.project.orderNumber, type: n.type, message: n.message });
+
+// Email each user once about phases that became overdue since the last run, holding them during quiet hours
+export async function sendOverdueAlerts() {
+  const [notifications, records] = await Promise.all([
+    prisma.notification.findMany({ where: { type: 'overdue', overdueAlertSentAt: null }, include: emailNotificationInclude, orderBy: { createdAt: 'asc' } }),
+    prisma.notificationPreference.findMany()
+  ]);
+  const preferencesByUser = new Map(records.map(record => [record.userId, toPreferences(record)]));
+
+  let sent = 0;
+  for (const { user, notifications: pending } of groupByUser(notifications)) {
+    const preferences = preferencesByUser.get(user.id) || DEFAULT_PREFERENCES;
+    const ids = pending.map(n => n.id);
+    if (!preferences.emailAlertsEnabled) {
+      // Mark them handled so turning alerts back on doesn't send a backlog
+      await prisma.notification.updateMany({ where: { id: { in: ids } }, data: { overdueAlertSentAt: new Date() } });
+      continue;
+    }
+    if (isInQuietHours(preferences)) continue;
+    try {
+      await sendMail({ to: user.email, ...renderOverdueAlertEmail(user.name, pending.map(toEmailItem)) });
+      await prisma.notification.updateMany({ where: { id: { in: ids } }, data: { overdueAlertSentAt: new Date() } });
+      sent++;
+    } catch (error) {
+      // Left unsent so the next run retries them
+      console.error(`Overdue alert email error (${user.email}):`, error);
+    }
+  }
+  return sent;
+}
+
+// Once a day from DIGEST_HOUR (default 7, in the function's time zone, UTC on Netlify), a summary of each
+// user's warning, urgent and overdue phases
+export async function sendDailyDigests() {
+  const now = new Date();
+  const digestHour = parseInt(process.env.DIGEST_HOUR || '', 10);
+  if (now.getHours() < (Number.isNaN(digestHour) ? 7 : digestHour)) return 0;
+
+  const today = new Date(now);
+  today.setHours(0, 0, 0, 0);
+  const [candidates, records] = await Promise.all([
+    prisma.user.findMany({ where: { OR: [{ lastDigestSentAt: null }, { lastDigestSentAt: { lt: today } }] }, select: { id: true } }),
+    prisma.notificationPreference.findMany()
+  ]);
+  const preferencesByUser = new Map(records.map(record => [record.userId, toPreferences(record)]));
+  const users = candidates.filter(user => {
+    const preferences = preferencesByUser.get(user.id) || DEFAULT_PREFERENCES;
+    return preferences.emailDigestEnabled && !isInQuietHours(preferences, now);
+  });
+  if (users.length === 0) return 0;
+
+  const notifications = await prisma.notification.findMany({
+    where: { userId: { in: users.map(user => user.id) } }, include: emailNotificationInclude, orderBy: { createdAt: 'asc' }
+  });
+  let sent = 0;
+  for (const { user, notifications: items } of groupByUser(notifications)) {
+    try {
+      await sendMail({ to: user.email, ...renderDigestEmail(user.name, items.map(toEmailItem)) });
+      sent++;
+    } catch (error) {
+      console.error(`Digest email error (${user.email}):`, error);
+      continue;
+    }
+    await prisma.user.update({ where: { id: user.id }, data: { lastDigestSentAt: now } });
+  }
+
+  // Users with nothing due are marked too so they are not checked again today
+  const notified = new Set(notifications.map(n => n.user.id));
+  await prisma.user.updateMany({ where: { id: { in: users.filter(user => !notified.has(user.id)).map(user => user.id) } }, data: { lastDigestSentAt: now } });
+  return sent;
+}
+
+// Bring every user's notifications in line with current deadlines and their preferences (run on a schedule)
+export async function generateNotifications() {
+  await refreshBusinessCalendar();
+  const [projects, templates, settings] = await Promise.all([
+    prisma.project.findMany({ include: { phases: { where: { isComplete: false } }, watchers: true } }),
+    prisma.phaseTemplate.findMany({ include: { phases: true }, orderBy: { createdAt: 'asc' } }),
+    prisma.globalSettings.findFirst()
+  ]);
+  const templatePhases = (templateId: string | null) =>
+    (templates.find(t => t.id === (templateId || settings?.defaultTemplateId)) || templates[0])?.phases || [];
+
+  // Days until each deadline are computed once per run, not once per user
+  const phases = projects.flatMap(project => {
+    const definitions = templatePhases(project.templateId);
+    return project.phases.flatMap(phase => {
+      const definition = definitions.find(d => d.key === phase.phaseName);
+      // Skip optional phases that are disabled for this project
+      if (isPhaseSkipped(definition, phase.allowedDays)) return [];
+      return [{
+        projectId: project.id,
+        phaseName: phase.phaseName,
+        label: `${project.customerName} - ${definition?.displayName || phase.phaseName}`,
+        createdBy: project.createdBy,
+        // Creator, owner, watchers and the phase's assignee
+        involved: [project.createdBy, project.ownerId, phase.assigneeId, ...project.watchers.map(w => w.userId)],
+        daysUntil: getBusinessDaysUntil(phase.deadline, project.region)
+      }];
+    });
+  });
+
+  // Everyone's preferences in one query rather than one per user
+  const [users, records] = await Promise.all([
+    prisma.user.findMany({ select: { id: true } }),
+    prisma.notificationPreference.findMany()
+  ]);
+  const preferencesByUser = new Map(records.map(record => [record.userId, toPreferences(record)]));
+  const states = new Map<string, { userId: string; projectId: string; phaseName: string; type: string; message: string }>();
+  for (const user of users) {
+    const preferences = preferencesByUser.get(user.id) || DEFAULT_PREFERENCES;
+    if (!preferences.inAppEnabled && !preferences.emailAlertsEnabled && !preferences.emailDigestEnabled) continue;
+
+    for (const phase of phases) {
+      if (preferences.projectScope === 'created' && phase.createdBy !== user.id) continue;
+      if (preferences.projectScope === 'involved' && !phase.involved.includes(user.id)) continue;
+
+      const type = getDeadlineBand(phase.daysUntil, phase.phaseName, preferences);
+      const enabled = { overdue: preferences.notifyOverdue, urgent: preferences.notifyUrgent, warning: preferences.notifyWarning };
+      if (!type || !enabled[type as keyof typeof enabled]) continue;
+
+      const overdue = Math.abs(phase.daysUntil);
+      const message = phase.daysUntil < 0
+        ? `${phase.label} is ${overdue} business day${overdue !== 1 ? 's' : ''} overdue`
+        : phase.daysUntil === 0 ? `${phase.label} deadline is today`
+          : phase.daysUntil === 1 ? `${phase.label} deadline is tomorrow`
+            : `${phase.label} deadline in ${phase.daysUntil} business days`;
+      states.set(`${user.id}:${phase.projectId}:${phase.phaseName}`, { userId: user.id, projectId: phase.projectId, phaseName: phase.phaseName, type, message });
+    }
+  }
+
+  const existing = await prisma.notification.findMany({
+    select: { id: true, userId: true, projectId: true, phaseName: true, type: true, message: true }
+  });
+  const existingKeys = new Set(existing.map(n => `${n.userId}:${n.projectId}:${n.phaseName}`));
+
+  // Remove notifications for phases that are complete, no longer due soon or filtered out by preferences
+  const stale = existing.filter(n => !states.has(`${n.userId}:${n.projectId}:${n.phaseName}`)).map(n => n.id);
+  await prisma.notification.deleteMany({ where: { id: { in: stale } } });
+
+  // Changed notifications grouped by their new state, so each group is one update
+  const changed = new Map<string, { type: string; message: string; ids: string[] }>();
+  for (const notification of existing) {
+    const state = states.get(`${notification.userId}:${notification.projectId}:${notification.phaseName}`);
+    if (state && (state.type !== notification.type || state.message !== notification.message)) {
+      const key = `${state.type}:${state.message}`;
+      const group = changed.get(key);
+      if (group) group.ids.push(notification.id);
+      else changed.set(key, { type: state.type, message: state.message, ids: [notification.id] });
+    }
+  }
+  let updated = 0;
+  for (const { type, message, ids } of changed.values()) {
+    const result = await prisma.notification.updateMany({
+      where: { id: { in: ids } },
+      // A phase that is no longer overdue should alert again if it slips back
+      data: { type, message, overdueAlertSentAt: type === 'overdue' ? undefined : null }
+    });
+    updated += result.count;
+  }
+
+  const missing = Array.from(states.entries()).filter(([key]) => !existingKeys.has(key)).map(([, state]) => state);
+  const created = await prisma.notification.createMany({ data: missing, skipDuplicates: true });
+
+  return { created: created.count, updated, deleted: stale.length };
+}
+
+// Functions can't hold a response open, so there is no event stream here.
+// The client sees the stream refused and falls back to polling
+app.get('/api/events', authenticate, (req: AuthRequest, res) => {
+  res.status(501).json({ error: 'Live updates are not available on this deployment' });
+});
+
+// Webhooks (from server/src/utils/webhooks.ts). Events are queued here and sent by
+// webhooks-scheduled.mts every minute, since a function can't keep working after it responds
+const WEBHOOK_EVENTS = ['project.created', 'project.updated', 'project.deleted', 'phase.completed', 'phase.reopened', 'phase.overdue'] as const;
+type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+// Give up after this many attempts; retries back off 30s, 1m, 2m, 4m, 8m
+const WEBHOOK_MAX_ATTEMPTS = 6;
+const WEBHOOK_RETRY_DELAY_MS = 30 * 1000;
+const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+
+const signWebhookPayload = (secret: string, timestamp: string, body: string) =>
+  `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+
+const toWebhookProject = (project: { id: string; orderNumber: string; customerName: string; pnr: string; region: string | null; siteSurveyDate: Date }) => ({
+  id: project.id, orderNumber: project.orderNumber, customerName: project.customerName,
+  pnr: project.pnr, region: project.region, siteSurveyDate: project.siteSurveyDate.toISOString()
+});
+
+// Queue an event for every active webhook subscribed to it
+async function queueWebhookEvent(event: WebhookEvent, data: Prisma.InputJsonObject) {
+  try {
+    const webhooks = await prisma.webhook.findMany({ where: { isActive: true, events: { has: event } }, select: { id: true } });
+    if (webhooks.length === 0) return;
+    const now = new Date();
+    await prisma.webhookDelivery.createMany({
+      data: webhooks.map(webhook => ({ webhookId: webhook.id, event, payload: { event, createdAt: now.toISOString(), data }, nextAttemptAt: now }))
+    });
+  } catch (error) {
+    // A webhook problem must never fail the request that triggered it
+    console.error('Queue webhook event error:', error);
+  }
+}
+
+// Make one delivery attempt and record the outcome; failures are rescheduled unless retry is false
+async function attemptDelivery(delivery: WebhookDelivery & { webhook: { url: string; secret: string } }, retry = true) {
+  const body = JSON.stringify({ id: delivery.id, ...(delivery.payload as Prisma.JsonObject) });
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const attempts = delivery.attempts + 1;
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+
+  try {
+    const response = await fetch(delivery.webhook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'OpenServe-Tracker-Webhooks',
+        'X-Webhook-Id': delivery.id,
+        'X-Webhook-Event': delivery.event,
+        'X-Webhook-Timestamp': timestamp,
+        'X-Webhook-Signature': signWebhookPayload(delivery.webhook.secret, timestamp, body)
+      },
+      body,
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+    });
+    responseStatus = response.status;
+    responseBody = (await response.text()).slice(0, 2000);
+    if (!response.ok) error = `Receiver responded with ${response.status}`;
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  const succeeded = error === null;
+  const gaveUp = !succeeded && (!retry || attempts >= WEBHOOK_MAX_ATTEMPTS);
+  return prisma.webhookDelivery.update({
+    where: { id: delivery.id },
+    data: {
+      attempts, responseStatus, responseBody, error,
+      status: succeeded ? 'success' : gaveUp ? 'failed' : 'pending',
+      deliveredAt: succeeded ? new Date() : null,
+      nextAttemptAt: succeeded || gaveUp ? null : new Date(Date.now() + WEBHOOK_RETRY_DELAY_MS * 2 ** (attempts - 1))
+    }
+  });
+}
+
+// Send every pending delivery that is due. They go out together, as each
+// waits up to 10 seconds and a scheduled function only gets 30
+export async function processWebhookDeliveries() {
+  const due = await prisma.webhookDelivery.findMany({
+    where: { status: 'pending', nextAttemptAt: { lte: new Date() } },
+    include: { webhook: { select: { url: true, secret: true } } },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: 50
+  });
+  await Promise.all(due.map(delivery => attemptDelivery(delivery)));
+  return due.length;
+}
+
+// Queue phase.overdue once for each phase that has become overdue, and re-arm
+// phases that are no longer overdue so they fire again
+export async function queueOverdueWebhookEvents() {
+  const phases = await prisma.projectPhase.findMany({
+    where: {
+      OR: [
+        { isComplete: false, deadline: { lt: new Date() }, overdueWebhookSentAt: null },
+        { overdueWebhookSentAt: { not: null } }
+      ]
+    },
+    include: {
+      project: { select: { id: true, orderNumber: true, customerName: true, pnr: true, region: true, siteSurveyDate: true, templateId: true } },
+      assignee: { select: { id: true, name: true } }
+    }
+  });
+  if (phases.length === 0) return;
+
+  await refreshBusinessCalendar();
+  const [templates, settings] = await Promise.all([
+    prisma.phaseTemplate.findMany({ include: { phases: true }, orderBy: { createdAt: 'asc' } }),
+    prisma.globalSettings.findFirst()
+  ]);
+
+  for (const phase of phases) {
+    const template = templates.find(t => t.id === (phase.project.templateId || settings?.defaultTemplateId)) || templates[0];
+    const definition = template?.phases.find(p => p.key === phase.phaseName);
+    const daysUntil = getBusinessDaysUntil(phase.deadline, phase.project.region);
+    const isOverdue = !phase.isComplete && !isPhaseSkipped(definition, phase.allowedDays) && daysUntil < 0;
+
+    if (isOverdue && !phase.overdueWebhookSentAt) {
+      await prisma.projectPhase.update({ where: { id: phase.id }, data: { overdueWebhookSentAt: new Date() } });
+      await queueWebhookEvent('phase.overdue', {
+        phase: {
+          id: phase.id, key: phase.phaseName, name: definition?.displayName || phase.phaseName,
+          deadline: phase.deadline.toISOString(), businessDaysOverdue: Math.abs(daysUntil), assignee: phase.assignee
+        },
+        project: toWebhookProject(phase.project)
+      });
+    } else if (!isOverdue && phase.overdueWebhookSentAt) {
+      await prisma.projectPhase.update({ where: { id: phase.id }, data: { overdueWebhookSentAt: null } });
+    }
+  }
+}
+
+// The secret is left out so it never ends up in the audit log
+const webhookAuditFields = (webhook: { name: string; url: string; events: string[]; isActive: boolean }) =>
+  ({ name: webhook.name, url: webhook.url, events: webhook.events, isActive: webhook.isActive });
+const webhookUrl = z.string().url('Must be a valid URL').refine(url => /^https?:\/\//i.test(url), 'Must be an http or https URL');
+const webhookSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  url: webhookUrl,
+  secret: z.string().min(16, 'Secret must be at least 16 characters').optional(),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1, 'Select at least one event'),
+  isActive: z.boolean().optional()
+});
+const webhookInclude = { createdByUser: { select: { id: true, name: true } } };
+
+app.get('/api/webhooks', authenticate, requireRole('admin', 'superadmin'), async (req: AuthRequest, res) => {
+  try {
+    const webhooks = await prisma.webhook.findMany({ include: webhookInclude, orderBy: { createdAt: 'asc' } });
+    res.json({ webhooks, events: WEBHOOK_EVENTS });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to get webhooks' });
+  }
+});
+
+app.post('/api/webhooks', authenticate, requireRole('admin', 'superadmin'), async (req: AuthRequest, res) => {
+  try {
+    const validation = webhookSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: 'Validation failed', details: validation.error.errors });
+    }
+    const data = validation.data;
+    const webhook = await prisma.webhook.create({
+      data: {
+        name: data.name, url: data.url, secret: data.secret || `whsec_${randomBytes(24).toString('hex')}`,
+        events: data.events, isActive: data.isActive ?? true, createdBy: req.user!.id
+      },
+      include: webhookInclude
+    });
+    await audit(req.user!, { action: 'create', entityType: 'webhook', entityId: webhook.id, summary: `Added webhook ${webhook.name}`, after: webhookAuditFields(webhook) });
+    res.status(201).json({ webhook });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to create webhook' });
+  }
+});
+
+app.patch('/api/webhooks/:id', authenticate, requireRole('admin', 'superadmin'), async (req: AuthRequest, res) => {
+  try {
+    const validation = webhookSchema.partial().safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: 'Validation failed', details: validation.error.errors });
+    }
+    const webhook = await prisma.webhook.findUnique({ where: { id: req.params.id } });
+    if (!webhook) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+    const updated = await prisma.webhook.update({ where: { id: webhook.id }, data: validation.data, include: webhookInclude });
+
+    // Record only the fields that changed
+    const before: Record<string, Prisma.InputJsonValue> = {};
+    const after: Record<string, Prisma.InputJsonValue> = {};
+    const oldFields = webhookAuditFields(webhook);
+    for (const [field, value] of Object.entries(webhookAuditFields(updated))) {
+      const old = oldFields[field as keyof typeof oldFields];
+      if (JSON.stringify(old) !== JSON.stringify(value)) {
+        before[field] = old;
+        after[field] = value;
+      }
+    }
+    if (Object.keys(after).length > 0 || validation.data.secret) {
+      await audit(req.user!, {
+        action: 'update', entityType: 'webhook', entityId: webhook.id,
+        summary: validation.data.secret ? `Updated webhook ${updated.name} and changed its secret` : `Updated webhook ${updated.name}`,
+        ...(Object.keys(after).length > 0 ? { before, after } : {})
+      });
+    }
+    res.json({ webhook: updated });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to update webhook' });
+  }
+});
+
+app.delete('/api/webhooks/:id', authenticate, requireRole('admin', 'superadmin'), async (req: AuthRequest, res) => {
+  try {
+    const webhook = await prisma.webhook.findUnique({ where: { id: req.params.id } });
+    if (!webhook) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+    await prisma.webhook.delete({ where: { id: webhook.id } });
+    await audit(req.user!, { action: 'delete', entityType: 'webhook', entityId: webhook.id, summary: `Deleted webhook ${webhook.name}`, before: webhookAuditFields(webhook) });
+    res.json({ message: 'Webhook deleted successfully' });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to delete webhook' });
+  }
+});
+
+// Test events are tried once, straight away, so the result can be shown
+app.post('/api/webhooks/:id/test', authenticate, requireRole('admin', 'superadmin'), async (req: AuthRequest, res) => {
+  try {
+    const webhook = await prisma.webhook.findUnique({ where: { id: req.params.id } });
+    if (!webhook) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+    const now = new Date();
+    const delivery = await prisma.webhookDelivery.create({
+      data: {
+        webhookId: webhook.id, event: 'webhook.test',
+        payload: { event: 'webhook.test', createdAt: now.toISOString(), data: { message: 'Test event from the OpenServe Milestone Tracker' } }
+      },
+      include: { webhook: { select: { url: true, secret: true } } }
+    });
+    res.json({ delivery: await attemptDelivery(delivery, false) });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to send test event' });
+  }
+});
+
+app.get('/api/webhooks/:id/deliveries', authenticate, requireRole('admin', 'superadmin'), async (req: AuthRequest, res) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string, 10) || 50, 200);
+    const deliveries = await prisma.webhookDelivery.findMany({ where: { webhookId: req.params.id }, orderBy: { createdAt: 'desc' }, take: limit });
+    res.json({ deliveries });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to get webhook deliveries' });
+  }
+});
+
+// Project PDF report (from server/src/utils/projectReport.ts). pdfkit reads its font metrics
+// from disk, so netlify.toml keeps it out of the bundle and ships its data directory
+type ReportStatus = 'complete' | 'skipped' | 'overdue' | 'at-risk' | 'on-track';
+interface ReportPhase {
+  name: string; allowedDays: number; startDate: Date; deadline: Date; daysUntilDeadline: number;
+  status: ReportStatus; completedAt: Date | null; completedBy: string | null; mirrorOf: string | null;
+}
+interface ProjectReportData {
+  orderNumber: string; customerName: string; pnr: string; timelineProvidedBy: string; timelineDateProvided: Date;
+  siteSurveyDate: Date; region: string | null; templateName: string | null; ownerName: string | null; createdByName: string;
+  status: Exclude<ReportStatus, 'skipped'>; completedPhases: number; totalPhases: number; projectedCompletion: Date | null;
+  phases: ReportPhase[]; generatedBy: string; generatedAt: Date;
+}
+
+// A4 portrait, in points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 40;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+// Matches the client's Tailwind palette
+const REPORT_COLORS = {
+  brand: '#00A651', text: '#1F2937', muted: '#6B7280', border: '#E5E7EB', headerFill: '#F9FAFB',
+  overdue: '#B91C1C', overdueFill: '#FEE2E2', atRisk: '#B45309', atRiskFill: '#FEF3C7', complete: '#15803D', onTrack: '#00A651', skipped: '#9CA3AF'
+};
+const STATUS_COLORS: Record<ReportStatus, string> = {
+  complete: REPORT_COLORS.complete, skipped: REPORT_COLORS.skipped, overdue: REPORT_COLORS.overdue, 'at-risk': REPORT_COLORS.atRisk, 'on-track': REPORT_COLORS.onTrack
+};
+const REPORT_STATUS_LABELS = { complete: 'Complete', overdue: 'Overdue', 'at-risk': 'At risk', 'on-track': 'On track' };
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const formatReportDate = (date: Date) => `${String(date.getDate()).padStart(2, '0')} ${MONTHS[date.getMonth()]} ${date.getFullYear()}`;
+const calendarDaysBetween = (from: Date, to: Date) =>
+  Math.round((Date.UTC(to.getFullYear(), to.getMonth(), to.getDate()) - Date.UTC(from.getFullYear(), from.getMonth(), from.getDate())) / 86400000);
+const plural = (count: number, word: string) => `${count} ${word}${count !== 1 ? 's' : ''}`;
+
+function describeReportPhase(phase: ReportPhase) {
+  if (phase.status === 'complete') return 'Complete';
+  if (phase.status === 'skipped') return 'Skipped';
+  if (phase.daysUntilDeadline < 0) return `Overdue by ${plural(-phase.daysUntilDeadline, 'day')}`;
+  if (phase.daysUntilDeadline === 0) return 'Due today';
+  return `Due in ${plural(phase.daysUntilDeadline, 'day')}`;
+}
+
+function drawReportHeader(doc: PDFKit.PDFDocument, data: ProjectReportData) {
+  doc.rect(0, 0, PAGE_WIDTH, 56).fill(REPORT_COLORS.brand);
+  doc.fillColor('#FFFFFF').font('Helvetica-Bold').fontSize(18).text('Project Report', MARGIN, 19, { lineBreak: false });
+  doc.font('Helvetica').fontSize(11).text(data.orderNumber, MARGIN, 23, { width: CONTENT_WIDTH, align: 'right', lineBreak: false });
+  doc.fillColor(REPORT_COLORS.text).font('Helvetica-Bold').fontSize(16).text(data.customerName, MARGIN, 74, { width: CONTENT_WIDTH, height: 20, ellipsis: true });
+  doc.font('Helvetica').fontSize(10)
+    .fillColor(STATUS_COLORS[data.status])
+    .text(REPORT_STATUS_LABELS[data.status], MARGIN, 96, { continued: true })
+    .fillColor(REPORT_COLORS.muted)
+    .text(`  ·  ${data.completedPhases} of ${plural(data.totalPhases, 'phase')} complete` +
+      (data.projectedCompletion ? `  ·  Projected completion ${formatReportDate(data.projectedCompletion)}` : ''));
+  return 120;
+}
+
+// Label/value pairs from the project page, four to a row
+function drawReportFields(doc: PDFKit.PDFDocument, data: ProjectReportData, top: number) {
+  const fields: [string, string][] = [
+    ['PNR', data.pnr],
+    ['Timeline Provided By', data.timelineProvidedBy],
+    ['Timeline Date Provided', formatReportDate(data.timelineDateProvided)],
+    ['Site Survey Date', formatReportDate(data.siteSurveyDate)],
+    ['Job Type', data.templateName || '—'],
+    ['Region', data.region || 'Not specified'],
+    ['Owner', data.ownerName || 'No owner'],
+    ['Created By', data.createdByName]
+  ];
+  const columnWidth = CONTENT_WIDTH / 4;
+  const rowHeight = 32;
+
+  doc.rect(MARGIN, top, CONTENT_WIDTH, rowHeight * 2 + 12).fillAndStroke(REPORT_COLORS.headerFill, REPORT_COLORS.border);
+  fields.forEach(([label, value], index) => {
+    const x = MARGIN + 8 + (index % 4) * columnWidth;
+    const y = top + 8 + Math.floor(index / 4) * rowHeight;
+    doc.font('Helvetica').fontSize(8).fillColor(REPORT_COLORS.muted).text(label, x, y, { lineBreak: false });
+    doc.font('Helvetica-Bold').fontSize(10).fillColor(REPORT_COLORS.text).text(value, x, y + 11, { width: columnWidth - 16, height: 12, ellipsis: true });
+  });
+  return top + rowHeight * 2 + 12;
+}
+
+function drawReportPhaseTable(doc: PDFKit.PDFDocument, phases: ReportPhase[], top: number) {
+  const columns = [
+    { label: 'Phase', width: 118 }, { label: 'Days', width: 36 }, { label: 'Deadline', width: 72 },
+    { label: 'Status', width: 105 }, { label: 'Completed', width: 72 }, { label: 'Completed By', width: CONTENT_WIDTH - 403 }
+  ];
+  // Tighter rows for long templates, leaving room for the timeline below
+  const rowHeight = Math.max(Math.min(18, (PAGE_HEIGHT - top - 340) / (phases.length + 1)), 13);
+
+  doc.font('Helvetica-Bold').fontSize(12).fillColor(REPORT_COLORS.text).text('Phases', MARGIN, top);
+  let y = top + 20;
+
+  const drawRow = (values: string[], options: { fill?: string; color?: string; bold?: boolean }) => {
+    if (options.fill) doc.rect(MARGIN, y, CONTENT_WIDTH, rowHeight).fill(options.fill);
+    doc.font(options.bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(9);
+    let x = MARGIN;
+    values.forEach((value, index) => {
+      doc.fillColor(index === 3 && options.color ? options.color : REPORT_COLORS.text)
+        .text(value, x + 5, y + (rowHeight - 8) / 2, { width: columns[index].width - 10, height: 10, ellipsis: true });
+      x += columns[index].width;
+    });
+    doc.moveTo(MARGIN, y + rowHeight).lineTo(MARGIN + CONTENT_WIDTH, y + rowHeight).lineWidth(0.5).strokeColor(REPORT_COLORS.border).stroke();
+    y += rowHeight;
+  };
+
+  drawRow(columns.map(column => column.label), { fill: REPORT_COLORS.headerFill, bold: true });
+  for (const phase of phases) {
+    drawRow([
+      phase.mirrorOf ? `${phase.name} (with ${phase.mirrorOf})` : phase.name,
+      phase.status === 'skipped' ? '—' : String(phase.allowedDays),
+      phase.status === 'skipped' ? '—' : formatReportDate(phase.deadline),
+      describeReportPhase(phase),
+      phase.completedAt ? formatReportDate(phase.completedAt) : '—',
+      phase.completedBy || '—'
+    ], {
+      // Overdue rows stand out in print as well as on screen
+      fill: phase.status === 'overdue' ? REPORT_COLORS.overdueFill : phase.status === 'at-risk' ? REPORT_COLORS.atRiskFill : undefined,
+      color: STATUS_COLORS[phase.status]
+    });
+  }
+  return y;
+}
+
+// One bar per scheduled phase, from its start to its deadline, with a marker for today
+function drawReportTimeline(doc: PDFKit.PDFDocument, data: ProjectReportData, top: number) {
+  const phases = data.phases.filter(phase => !phase.mirrorOf && phase.status !== 'skipped');
+  if (phases.length === 0) return top;
+
+  const labelWidth = 110;
+  const chartLeft = MARGIN + labelWidth;
+  const chartWidth = CONTENT_WIDTH - labelWidth;
+  // Long templates squeeze the bars so the report stays on one page
+  const rowHeight = Math.max(Math.min(13, (PAGE_HEIGHT - top - 90) / phases.length), 6);
+
+  const start = new Date(Math.min(data.siteSurveyDate.getTime(), ...phases.map(phase => phase.startDate.getTime())));
+  const end = new Date(Math.max(...phases.map(phase => phase.deadline.getTime())));
+  const totalDays = Math.max(calendarDaysBetween(start, end), 1);
+  const xFor = (date: Date) => chartLeft + (calendarDaysBetween(start, date) / totalDays) * chartWidth;
+
+  doc.font('Helvetica-Bold').fontSize(12).fillColor(REPORT_COLORS.text).text('Timeline', MARGIN, top);
+  let y = top + 22;
+  const chartTop = y;
+  for (const phase of phases) {
+    doc.font('Helvetica').fontSize(8).fillColor(REPORT_COLORS.text).text(phase.name, MARGIN, y + 2, { width: labelWidth - 8, height: 9, ellipsis: true });
+    const x = xFor(phase.startDate);
+    doc.rect(x, y + 2, Math.max(xFor(phase.deadline) - x, 2), rowHeight - 5).fill(STATUS_COLORS[phase.status]);
+    y += rowHeight;
+  }
+
+  // Axis with start and end dates
+  doc.moveTo(chartLeft, y + 2).lineTo(chartLeft + chartWidth, y + 2).lineWidth(0.5).strokeColor(REPORT_COLORS.muted).stroke();
+  doc.font('Helvetica').fontSize(7).fillColor(REPORT_COLORS.muted);
+  doc.text(formatReportDate(start), chartLeft, y + 5, { lineBreak: false });
+  doc.text(formatReportDate(end), chartLeft, y + 5, { width: chartWidth, align: 'right', lineBreak: false });
+
+  const today = data.generatedAt;
+  if (today >= start && today <= end) {
+    const x = xFor(today);
+    doc.moveTo(x, chartTop - 2).lineTo(x, y + 2).lineWidth(1).dash(2, { space: 2 }).strokeColor(REPORT_COLORS.overdue).stroke().undash();
+    doc.fillColor(REPORT_COLORS.overdue).text('Today', x - 20, chartTop - 11, { width: 40, align: 'center', lineBreak: false });
+  }
+  return y + 16;
+}
+
+function drawReportLegend(doc: PDFKit.PDFDocument, top: number) {
+  const items: [string, string][] = [
+    ['Complete', REPORT_COLORS.complete], ['On track', REPORT_COLORS.onTrack],
+    ['Due within 3 business days', REPORT_COLORS.atRisk], ['Overdue', REPORT_COLORS.overdue]
+  ];
+  let x = MARGIN;
+  doc.font('Helvetica').fontSize(7);
+  for (const [label, color] of items) {
+    doc.rect(x, top + 1, 8, 6).fill(color);
+    doc.fillColor(REPORT_COLORS.muted).text(label, x + 11, top, { lineBreak: false });
+    x += doc.widthOfString(label) + 26;
+  }
+}
+
+// A one-page A4 report for customer and contractor meetings
+function renderProjectReport(data: ProjectReportData): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    // Everything is positioned explicitly so nothing spills onto a second page
+    const doc = new PDFDocument({ size: 'A4', margin: 0, info: { Title: `Project Report - ${data.orderNumber}`, Author: 'OpenServe Milestone Tracker' } });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    let y = drawReportHeader(doc, data);
+    y = drawReportFields(doc, data, y);
+    y = drawReportPhaseTable(doc, data.phases, y + 20);
+    y = drawReportTimeline(doc, data, y + 20);
+    drawReportLegend(doc, y);
+
+    const generatedAt = data.generatedAt;
+    const time = `${String(generatedAt.getHours()).padStart(2, '0')}:${String(generatedAt.getMinutes()).padStart(2, '0')}`;
+    doc.font('Helvetica').fontSize(8).fillColor(REPORT_COLORS.muted).text(
+      `Generated ${formatReportDate(generatedAt)} ${time} by ${data.generatedBy} · OpenServe Milestone Tracker`,
+      MARGIN, PAGE_HEIGHT - 28, { width: CONTENT_WIDTH, align: 'center', lineBreak: false }
+    );
+    doc.end();
+  });
+}
+
+app.get('/api/projects/:id/report.pdf', authenticate, loadBusinessCalendar, async (req: AuthRequest, res) => {
+  try {
+    const project = await prisma.project.findUnique({
+      where: { id: req.params.id },
+      include: {
+        createdByUser: { select: { name: true } },
+        owner: { select: { name: true } },
+        template: { select: { name: true } },
+        phases: { include: { completedByUser: { select: { name: true } } } }
+      }
+    });
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    const templatePhases = (await getTemplatePhases(project.templateId))?.phases || [];
+    const definitionFor = (phaseName: string) => templatePhases.find(p => p.key === phaseName);
+    const allowedDays = Object.fromEntries(project.phases.map(phase => [phase.phaseName, phase.allowedDays]));
+    const completedAt = Object.fromEntries(project.phases.map(phase => [phase.phaseName, phase.completedAt]));
+    const forecasts = Object.values(calculateForecastDeadlines(project.siteSurveyDate, templatePhases, allowedDays, completedAt, project.region));
+    const starts = getProjectPhaseStarts(project, templatePhases);
+    const order = (key: string) => {
+      const index = templatePhases.findIndex(p => p.key === key);
+      return index === -1 ? templatePhases.length : index;
+    };
+
+    // Fixed status bands, so the printed report reads the same whoever downloads it
+    const phases = [...project.phases].sort((a, b) => order(a.phaseName) - order(b.phaseName)).map((phase): ReportPhase => {
+      const definition = definitionFor(phase.phaseName);
+      const daysUntilDeadline = getBusinessDaysUntil(phase.deadline, project.region);
+      return {
+        name: definition?.displayName || phase.phaseName,
+        allowedDays: phase.allowedDays,
+        startDate: starts[phase.phaseName] || project.siteSurveyDate,
+        deadline: phase.deadline,
+        daysUntilDeadline,
+        status: phase.isComplete ? 'complete'
+          : isPhaseSkipped(definition, phase.allowedDays) ? 'skipped'
+          : daysUntilDeadline < 0 ? 'overdue' : daysUntilDeadline <= 3 ? 'at-risk' : 'on-track',
+        completedAt: phase.isComplete ? phase.completedAt : null,
+        completedBy: phase.isComplete ? phase.completedByUser?.name ?? null : null,
+        mirrorOf: definition?.mirrorOf ? definitionFor(definition.mirrorOf)?.displayName || definition.mirrorOf : null
+      };
+    });
+
+    // Skipped phases and mirror phases are not counted separately
+    const counted = phases.filter(phase => !phase.mirrorOf && phase.status !== 'skipped');
+    const completedPhases = counted.filter(phase => phase.status === 'complete').length;
+    const open = phases.filter(phase => phase.status !== 'complete' && phase.status !== 'skipped');
+    const status = counted.length > 0 && completedPhases === counted.length ? 'complete'
+      : open.some(phase => phase.status === 'overdue') ? 'overdue'
+      : open.some(phase => phase.status === 'at-risk') ? 'at-risk' : 'on-track';
+
+    const report = await renderProjectReport({
+      orderNumber: project.orderNumber,
+      customerName: project.customerName,
+      pnr: project.pnr,
+      timelineProvidedBy: project.timelineProvidedBy,
+      timelineDateProvided: project.timelineDateProvided,
+      siteSurveyDate: project.siteSurveyDate,
+      region: project.region,
+      templateName: project.template?.name ?? null,
+      ownerName: project.owner?.name ?? null,
+      createdByName: project.createdByUser.name,
+      status,
+      completedPhases,
+      totalPhases: counted.length,
+      projectedCompletion: forecasts.length > 0 ? new Date(Math.max(...forecasts.map(date => date.getTime()))) : null,
+      phases,
+      generatedBy: req.user!.name,
+      generatedAt: new Date()
+    });
+
+    // Inline so the browser opens its PDF viewer, ready to print
+    res.set({
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `inline; filename="${project.orderNumber.replace(/[^\w.-]/g, '_')}-report.pdf"`
+    });
+    res.send(report);
+  } catch (error) {
+    console.error('Project report error:', error);
+    res.status(500).json({ error: 'Failed to generate project report' });
+  }
+});
+
 // Health check
 app.get('/api/health', (req, res) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
@@ -0,0 +1,24 @@
+import type { Config } from "@netlify/functions";
+import { generateNotifications, queueOverdueWebhookEvents, sendDailyDigests, sendOverdueAlerts } from './api.mts';
+
+// Regenerates deadline notifications on a schedule, sends the emails due and queues overdue webhooks
+export default async () => {
+  try {
+    const result = await generateNotifications();
+    console.log(`Notifications generated: ${result.created} created, ${result.updated} updated, ${result.deleted} removed`);
+
+    const alerts = await sendOverdueAlerts();
+    const digests = await sendDailyDigests();
+    if (alerts > 0 || digests > 0) {
+      console.log(`Notification emails sent: ${alerts} overdue alerts, ${digests} digests`);
+    }
+
+    await queueOverdueWebhookEvents();
+  } catch (error) {
+    console.error('Generate notifications error:', error);
+  }
+};
+
+export const config: Config = {
+  schedule: "*/15 * * * *"
+};
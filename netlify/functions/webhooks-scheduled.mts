@@ -0,0 +1,18 @@
+import type { Config } from "@netlify/functions";
+import { processWebhookDeliveries } from './api.mts';
+
+// Sends queued webhook deliveries and retries failed ones once their backoff is up
+export default async () => {
+  try {
+    const sent = await processWebhookDeliveries();
+    if (sent > 0) {
+      console.log(`Webhook deliveries attempted: ${sent}`);
+    }
+  } catch (error) {
+    console.error('Process webhook deliveries error:', error);
+  }
+};
+
+export const config: Config = {
+  schedule: "* * * * *"
+};
@@ -0,0 +1,105 @@
+-- The init migration was written for SQLite. On PostgreSQL it is marked as applied
+-- with `prisma migrate resolve` instead (see the README), and this creates its tables
+
+-- CreateTable
+CREATE TABLE "User" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "password" TEXT NOT NULL,
+    "role" TEXT NOT NULL DEFAULT 'staff',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "User_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "GlobalSettings" (
+    "id" TEXT NOT NULL,
+    "defaultPlanningDays" INTEGER NOT NULL DEFAULT 10,
+    "defaultFundingDays" INTEGER NOT NULL DEFAULT 2,
+    "defaultWayleaveDays" INTEGER NOT NULL DEFAULT 20,
+    "defaultMaterialsDays" INTEGER NOT NULL DEFAULT 15,
+    "defaultAnnouncementDays" INTEGER NOT NULL DEFAULT 1,
+    "defaultKickOffDays" INTEGER NOT NULL DEFAULT 2,
+    "defaultBuildDays" INTEGER NOT NULL DEFAULT 20,
+    "defaultEccDays" INTEGER NOT NULL DEFAULT 1,
+    "defaultIntegrationDays" INTEGER NOT NULL DEFAULT 2,
+    "defaultRfaDays" INTEGER NOT NULL DEFAULT 1,
+    "updatedBy" TEXT,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "GlobalSettings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Project" (
+    "id" TEXT NOT NULL,
+    "orderNumber" TEXT NOT NULL,
+    "customerName" TEXT NOT NULL,
+    "pnr" TEXT NOT NULL,
+    "aopProvidedBy" TEXT NOT NULL,
+    "dateProvided" TIMESTAMP(3) NOT NULL,
+    "siteSurveyDate" TIMESTAMP(3) NOT NULL,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Project_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ProjectPhase" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "phaseName" TEXT NOT NULL,
+    "allowedDays" INTEGER NOT NULL,
+    "deadline" TIMESTAMP(3) NOT NULL,
+    "isComplete" BOOLEAN NOT NULL DEFAULT false,
+    "completedBy" TEXT,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ProjectPhase_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Notification" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "phaseName" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "isRead" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Notification_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_email_key" ON "User"("email");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProjectPhase_projectId_phaseName_key" ON "ProjectPhase"("projectId", "phaseName");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Notification_userId_projectId_phaseName_key" ON "Notification"("userId", "projectId", "phaseName");
+
+-- AddForeignKey
+ALTER TABLE "GlobalSettings" ADD CONSTRAINT "GlobalSettings_updatedBy_fkey" FOREIGN KEY ("updatedBy") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Project" ADD CONSTRAINT "Project_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProjectPhase" ADD CONSTRAINT "ProjectPhase_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProjectPhase" ADD CONSTRAINT "ProjectPhase_completedBy_fkey" FOREIGN KEY ("completedBy") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Notification" ADD CONSTRAINT "Notification_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Notification" ADD CONSTRAINT "Notification_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
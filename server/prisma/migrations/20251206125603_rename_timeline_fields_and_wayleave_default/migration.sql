@@ -0,0 +1,7 @@
+-- The init migration predates these schema changes
+-- AlterTable
+ALTER TABLE "Project" RENAME COLUMN "aopProvidedBy" TO "timelineProvidedBy";
+ALTER TABLE "Project" RENAME COLUMN "dateProvided" TO "timelineDateProvided";
+
+-- AlterTable
+ALTER TABLE "GlobalSettings" ALTER COLUMN "defaultWayleaveDays" SET DEFAULT 0;
@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN     "region" TEXT;
+
+-- CreateTable
+CREATE TABLE "BlackoutPeriod" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "region" TEXT,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BlackoutPeriod_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "BlackoutPeriod" ADD CONSTRAINT "BlackoutPeriod_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,110 @@
+/*
+  Warnings:
+
+  - You are about to drop the column `defaultAnnouncementDays` on the `GlobalSettings` table. All the data in the column will be lost.
+  - You are about to drop the column `defaultBuildDays` on the `GlobalSettings` table. All the data in the column will be lost.
+  - You are about to drop the column `defaultEccDays` on the `GlobalSettings` table. All the data in the column will be lost.
+  - You are about to drop the column `defaultFundingDays` on the `GlobalSettings` table. All the data in the column will be lost.
+  - You are about to drop the column `defaultIntegrationDays` on the `GlobalSettings` table. All the data in the column will be lost.
+  - You are about to drop the column `defaultKickOffDays` on the `GlobalSettings` table. All the data in the column will be lost.
+  - You are about to drop the column `defaultMaterialsDays` on the `GlobalSettings` table. All the data in the column will be lost.
+  - You are about to drop the column `defaultPlanningDays` on the `GlobalSettings` table. All the data in the column will be lost.
+  - You are about to drop the column `defaultRfaDays` on the `GlobalSettings` table. All the data in the column will be lost.
+  - You are about to drop the column `defaultWayleaveDays` on the `GlobalSettings` table. All the data in the column will be lost.
+
+  The default phase days are copied into the standard "Fibre Build" template below before the columns are dropped.
+
+*/
+-- AlterTable
+ALTER TABLE "GlobalSettings" ADD COLUMN     "defaultTemplateId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN     "templateId" TEXT;
+
+-- CreateTable
+CREATE TABLE "PhaseTemplate" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PhaseTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PhaseTemplatePhase" (
+    "id" TEXT NOT NULL,
+    "templateId" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "displayName" TEXT NOT NULL,
+    "sortOrder" INTEGER NOT NULL,
+    "defaultDays" INTEGER NOT NULL DEFAULT 0,
+    "mirrorOf" TEXT,
+    "skippable" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "PhaseTemplatePhase_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PhaseTemplate_name_key" ON "PhaseTemplate"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PhaseTemplatePhase_templateId_key_key" ON "PhaseTemplatePhase"("templateId", "key");
+
+-- AddForeignKey
+ALTER TABLE "GlobalSettings" ADD CONSTRAINT "GlobalSettings_defaultTemplateId_fkey" FOREIGN KEY ("defaultTemplateId") REFERENCES "PhaseTemplate"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PhaseTemplate" ADD CONSTRAINT "PhaseTemplate_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PhaseTemplatePhase" ADD CONSTRAINT "PhaseTemplatePhase_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "PhaseTemplate"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Project" ADD CONSTRAINT "Project_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "PhaseTemplate"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Seed the standard template from the existing default phase days
+WITH "settings" AS (
+    SELECT * FROM "GlobalSettings" ORDER BY "updatedAt" DESC LIMIT 1
+), "template" AS (
+    INSERT INTO "PhaseTemplate" ("id", "name", "description", "updatedAt")
+    SELECT gen_random_uuid()::text, 'Fibre Build', 'Standard fibre build from Planning to COM', CURRENT_TIMESTAMP
+    FROM "settings"
+    RETURNING "id"
+)
+INSERT INTO "PhaseTemplatePhase" ("id", "templateId", "key", "displayName", "sortOrder", "defaultDays", "mirrorOf", "skippable")
+SELECT gen_random_uuid()::text, "template"."id", "phase"."key", "phase"."displayName", "phase"."sortOrder", "phase"."defaultDays", "phase"."mirrorOf", "phase"."skippable"
+FROM "template"
+CROSS JOIN "settings"
+CROSS JOIN LATERAL (VALUES
+    ('planning', 'Planning', 0, "settings"."defaultPlanningDays", NULL, false),
+    ('funding', 'Funding', 1, "settings"."defaultFundingDays", NULL, false),
+    ('wayleave', 'Wayleave', 2, "settings"."defaultWayleaveDays", NULL, true),
+    ('materials', 'Materials', 3, "settings"."defaultMaterialsDays", NULL, false),
+    ('announcement', 'Announcement', 4, "settings"."defaultAnnouncementDays", NULL, false),
+    ('kickoff', 'Kick-Off', 5, "settings"."defaultKickOffDays", NULL, false),
+    ('build', 'Build', 6, "settings"."defaultBuildDays", NULL, false),
+    ('fqa', 'FQA', 7, 0, 'build', false),
+    ('ecc', 'ECC', 8, "settings"."defaultEccDays", NULL, false),
+    ('integration', 'Integration', 9, "settings"."defaultIntegrationDays", NULL, false),
+    ('rfa', 'RFA', 10, "settings"."defaultRfaDays", NULL, false),
+    ('com', 'COM', 11, 0, 'rfa', false)
+) AS "phase" ("key", "displayName", "sortOrder", "defaultDays", "mirrorOf", "skippable");
+
+UPDATE "GlobalSettings" SET "defaultTemplateId" = (SELECT "id" FROM "PhaseTemplate" WHERE "name" = 'Fibre Build');
+
+UPDATE "Project" SET "templateId" = (SELECT "id" FROM "PhaseTemplate" WHERE "name" = 'Fibre Build') WHERE "templateId" IS NULL;
+
+-- AlterTable
+ALTER TABLE "GlobalSettings" DROP COLUMN "defaultAnnouncementDays",
+DROP COLUMN "defaultBuildDays",
+DROP COLUMN "defaultEccDays",
+DROP COLUMN "defaultFundingDays",
+DROP COLUMN "defaultIntegrationDays",
+DROP COLUMN "defaultKickOffDays",
+DROP COLUMN "defaultMaterialsDays",
+DROP COLUMN "defaultPlanningDays",
+DROP COLUMN "defaultRfaDays",
+DROP COLUMN "defaultWayleaveDays";
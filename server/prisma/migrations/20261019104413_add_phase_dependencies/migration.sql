@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "PhaseTemplateDependency" (
+    "id" TEXT NOT NULL,
+    "phaseId" TEXT NOT NULL,
+    "predecessorKey" TEXT NOT NULL,
+    "lagDays" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "PhaseTemplateDependency_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PhaseTemplateDependency_phaseId_predecessorKey_key" ON "PhaseTemplateDependency"("phaseId", "predecessorKey");
+
+-- AddForeignKey
+ALTER TABLE "PhaseTemplateDependency" ADD CONSTRAINT "PhaseTemplateDependency_phaseId_fkey" FOREIGN KEY ("phaseId") REFERENCES "PhaseTemplatePhase"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- The standard template runs Wayleave and Materials in parallel after Funding
+INSERT INTO "PhaseTemplateDependency" ("id", "phaseId", "predecessorKey")
+SELECT gen_random_uuid()::text, "PhaseTemplatePhase"."id", "dependency"."predecessorKey"
+FROM "PhaseTemplatePhase"
+JOIN "PhaseTemplate" ON "PhaseTemplate"."id" = "PhaseTemplatePhase"."templateId"
+JOIN (VALUES
+    ('wayleave', 'funding'),
+    ('materials', 'funding'),
+    ('announcement', 'wayleave'),
+    ('announcement', 'materials')
+) AS "dependency" ("key", "predecessorKey") ON "dependency"."key" = "PhaseTemplatePhase"."key"
+WHERE "PhaseTemplate"."name" = 'Fibre Build';
@@ -0,0 +1,11 @@
+-- CreateIndex
+CREATE INDEX "Project_createdAt_idx" ON "Project"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "Project_siteSurveyDate_idx" ON "Project"("siteSurveyDate");
+
+-- CreateIndex
+CREATE INDEX "Project_createdBy_idx" ON "Project"("createdBy");
+
+-- CreateIndex
+CREATE INDEX "ProjectPhase_isComplete_deadline_idx" ON "ProjectPhase"("isComplete", "deadline");
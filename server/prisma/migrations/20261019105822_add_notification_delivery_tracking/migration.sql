@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "lastDigestSentAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Notification" ADD COLUMN     "overdueAlertSentAt" TIMESTAMP(3);
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "NotificationPreference" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "inAppEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "emailAlertsEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "emailDigestEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "notifyWarning" BOOLEAN NOT NULL DEFAULT true,
+    "notifyUrgent" BOOLEAN NOT NULL DEFAULT true,
+    "notifyOverdue" BOOLEAN NOT NULL DEFAULT true,
+    "warningDays" INTEGER NOT NULL DEFAULT 3,
+    "urgentDays" INTEGER NOT NULL DEFAULT 1,
+    "phaseWarningDays" JSONB,
+    "projectScope" TEXT NOT NULL DEFAULT 'all',
+    "quietHoursStart" INTEGER,
+    "quietHoursEnd" INTEGER,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "NotificationPreference_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "NotificationPreference_userId_key" ON "NotificationPreference"("userId");
+
+-- AddForeignKey
+ALTER TABLE "NotificationPreference" ADD CONSTRAINT "NotificationPreference_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,42 @@
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN     "ownerId" TEXT;
+
+-- AlterTable
+ALTER TABLE "ProjectPhase" ADD COLUMN     "assigneeId" TEXT;
+
+-- AlterTable
+ALTER TABLE "NotificationPreference" ALTER COLUMN "projectScope" SET DEFAULT 'involved';
+
+-- CreateTable
+CREATE TABLE "ProjectWatcher" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProjectWatcher_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ProjectWatcher_userId_idx" ON "ProjectWatcher"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProjectWatcher_projectId_userId_key" ON "ProjectWatcher"("projectId", "userId");
+
+-- CreateIndex
+CREATE INDEX "Project_ownerId_idx" ON "Project"("ownerId");
+
+-- CreateIndex
+CREATE INDEX "ProjectPhase_assigneeId_idx" ON "ProjectPhase"("assigneeId");
+
+-- AddForeignKey
+ALTER TABLE "Project" ADD CONSTRAINT "Project_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProjectWatcher" ADD CONSTRAINT "ProjectWatcher_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProjectWatcher" ADD CONSTRAINT "ProjectWatcher_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProjectPhase" ADD CONSTRAINT "ProjectPhase_assigneeId_fkey" FOREIGN KEY ("assigneeId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "GlobalSettings" ADD COLUMN     "allowedEmailDomains" TEXT[],
+ADD COLUMN     "registrationMode" TEXT NOT NULL DEFAULT 'open';
+
+-- CreateTable
+CREATE TABLE "UserInvite" (
+    "id" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "name" TEXT,
+    "role" TEXT NOT NULL DEFAULT 'staff',
+    "tokenHash" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "invitedBy" TEXT,
+    "acceptedAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "UserInvite_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UserInvite_tokenHash_key" ON "UserInvite"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "UserInvite_email_idx" ON "UserInvite"("email");
+
+-- CreateIndex
+CREATE INDEX "UserInvite_createdAt_idx" ON "UserInvite"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "UserInvite" ADD CONSTRAINT "UserInvite_invitedBy_fkey" FOREIGN KEY ("invitedBy") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
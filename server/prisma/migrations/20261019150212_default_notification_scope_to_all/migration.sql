@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "NotificationPreference" ALTER COLUMN "projectScope" SET DEFAULT 'all';
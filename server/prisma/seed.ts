@@ -1,5 +1,6 @@
 import { PrismaClient } from '@prisma/client';
 import bcrypt from 'bcryptjs';
+import { ensureDefaultTemplate, STANDARD_TEMPLATE_NAME } from '../src/utils/phaseTemplates';
 
 const prisma = new PrismaClient();
 
@@ -31,28 +32,14 @@ async function main() {
     console.log('Super admin account already exists');
   }
 
-  // Create default global settings if they don't exist
-  const existingSettings = await prisma.globalSettings.findFirst();
+  // Create default global settings and the standard phase template if they don't exist
+  const existingTemplates = await prisma.phaseTemplate.count();
+  await ensureDefaultTemplate();
 
-  if (!existingSettings) {
-    await prisma.globalSettings.create({
-      data: {
-        defaultPlanningDays: 10,
-        defaultFundingDays: 2,
-        defaultWayleaveDays: 0, // Disabled by default - can be enabled per project
-        defaultMaterialsDays: 15,
-        defaultAnnouncementDays: 1,
-        defaultKickOffDays: 2,
-        defaultBuildDays: 20,
-        defaultEccDays: 1,
-        defaultIntegrationDays: 2,
-        defaultRfaDays: 1,
-      },
-    });
-
-    console.log('Created default global settings');
+  if (existingTemplates === 0) {
+    console.log(`Created default phase template: ${STANDARD_TEMPLATE_NAME}`);
   } else {
-    console.log('Global settings already exist');
+    console.log('Phase templates already exist');
   }
 
   console.log('Seed completed!');
@@ -4,16 +4,38 @@ import cookieParser from 'cookie-parser';
 import { PrismaClient } from '@prisma/client';
 
 import authRoutes from './routes/auth';
+import twoFactorRoutes from './routes/twoFactor';
 import usersRoutes from './routes/users';
 import projectsRoutes from './routes/projects';
 import phasesRoutes from './routes/phases';
 import settingsRoutes from './routes/settings';
 import notificationsRoutes from './routes/notifications';
+import holidaysRoutes from './routes/holidays';
+import blackoutsRoutes from './routes/blackouts';
+import templatesRoutes from './routes/templates';
+import auditRoutes from './routes/audit';
+import eventsRoutes from './routes/events';
+import webhooksRoutes from './routes/webhooks';
+import calendarRoutes from './routes/calendar';
+import analyticsRoutes from './routes/analytics';
+import invitesRoutes from './routes/invites';
+import { startNotificationScheduler } from './utils/notificationJob';
+import { startWebhookWorker } from './utils/webhooks';
 
 const app = express();
 const prisma = new PrismaClient();
 const PORT = process.env.PORT || 3001;
 
+// Proxies in front of the server whose X-Forwarded-For can be believed, so req.ip is the
+// client's address for sign-in throttling and session records: a hop count, "true", or
+// addresses and subnets as Express accepts them
+function getTrustProxy(value = process.env.TRUST_PROXY || 'loopback'): boolean | number | string {
+  if (value === 'true' || value === 'false') return value === 'true';
+  return /^\d+$/.test(value) ? Number(value) : value;
+}
+
+app.set('trust proxy', getTrustProxy());
+
 // Middleware
 app.use(
   cors({
@@ -26,11 +48,21 @@ app.use(cookieParser());
 
 // Routes
 app.use('/api/auth', authRoutes);
+app.use('/api/auth/2fa', twoFactorRoutes);
 app.use('/api/users', usersRoutes);
 app.use('/api/projects', projectsRoutes);
 app.use('/api/phases', phasesRoutes);
 app.use('/api/settings', settingsRoutes);
 app.use('/api/notifications', notificationsRoutes);
+app.use('/api/holidays', holidaysRoutes);
+app.use('/api/blackouts', blackoutsRoutes);
+app.use('/api/templates', templatesRoutes);
+app.use('/api/audit', auditRoutes);
+app.use('/api/events', eventsRoutes);
+app.use('/api/webhooks', webhooksRoutes);
+app.use('/api/calendar', calendarRoutes);
+app.use('/api/analytics', analyticsRoutes);
+app.use('/api/invites', invitesRoutes);
 
 // Health check
 app.get('/api/health', (req, res) => {
@@ -53,6 +85,12 @@ async function main() {
     app.listen(PORT, () => {
       console.log(`Server running on http://localhost:${PORT}`);
     });
+
+    // Deadline notifications are generated in the background rather than per request
+    startNotificationScheduler();
+
+    // Failed webhook deliveries are retried with backoff
+    startWebhookWorker();
   } catch (error) {
     console.error('Failed to start server:', error);
     process.exit(1);
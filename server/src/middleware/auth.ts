@@ -1,30 +1,64 @@
 import { Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
-import { AuthRequest, AuthUser, UserRole } from '../utils/types';
+import { PrismaClient } from '@prisma/client';
+import { AuthRequest, UserRole } from '../utils/types';
+import { ACCESS_TOKEN_TTL_MINUTES, isSessionActive } from '../utils/sessions';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'fallback-secret-change-me';
 
-export function generateToken(user: AuthUser): string {
-  return jwt.sign(
-    { id: user.id, email: user.email, name: user.name, role: user.role },
-    JWT_SECRET,
-    { expiresIn: '7d' }
-  );
+const prisma = new PrismaClient();
+
+// Access tokens only name the session; the user and their role are read fresh on every request
+interface TokenPayload {
+  sessionId: string;
+  userId: string;
+}
+
+export function generateToken(sessionId: string, userId: string): string {
+  return jwt.sign({ sessionId, userId }, JWT_SECRET, {
+    expiresIn: `${ACCESS_TOKEN_TTL_MINUTES}m`,
+  });
+}
+
+export function verifyToken(token: string): TokenPayload | null {
+  try {
+    return jwt.verify(token, JWT_SECRET) as TokenPayload;
+  } catch {
+    return null;
+  }
+}
+
+// Between the password and the second step of signing in. It can't be used as an access
+// token (it names no session), only to finish signing in within a few minutes
+const CHALLENGE_TOKEN_TTL_MINUTES = 5;
+
+export type ChallengePurpose = 'verify' | 'setup';
+
+interface ChallengePayload {
+  userId: string;
+  purpose: ChallengePurpose;
+}
+
+export function generateChallengeToken(userId: string, purpose: ChallengePurpose): string {
+  return jwt.sign({ userId, purpose }, JWT_SECRET, {
+    expiresIn: `${CHALLENGE_TOKEN_TTL_MINUTES}m`,
+  });
 }
 
-export function verifyToken(token: string): AuthUser | null {
+export function verifyChallengeToken(token: string, purpose: ChallengePurpose): string | null {
   try {
-    return jwt.verify(token, JWT_SECRET) as AuthUser;
+    const payload = jwt.verify(token, JWT_SECRET) as ChallengePayload;
+    return payload.purpose === purpose && payload.userId ? payload.userId : null;
   } catch {
     return null;
   }
 }
 
-export function authenticate(
+export async function authenticate(
   req: AuthRequest,
   res: Response,
   next: NextFunction
-): void {
+): Promise<void> {
   const token = req.cookies?.token;
 
   if (!token) {
@@ -32,14 +66,37 @@ export function authenticate(
     return;
   }
 
-  const user = verifyToken(token);
+  const payload = verifyToken(token);
 
-  if (!user) {
+  if (!payload?.sessionId) {
     res.status(401).json({ error: 'Invalid or expired token' });
     return;
   }
 
-  req.user = user;
+  try {
+    const session = await prisma.session.findUnique({
+      where: { id: payload.sessionId },
+      include: {
+        user: {
+          select: { id: true, email: true, name: true, role: true },
+        },
+      },
+    });
+
+    // Signed out, expired, or the user has been deleted
+    if (!session || session.userId !== payload.userId || !isSessionActive(session)) {
+      res.status(401).json({ error: 'Session has ended, please sign in again' });
+      return;
+    }
+
+    req.user = { ...session.user, role: session.user.role as UserRole };
+    req.sessionId = session.id;
+  } catch (error) {
+    console.error('Authenticate error:', error);
+    res.status(500).json({ error: 'Authentication failed' });
+    return;
+  }
+
   next();
 }
 
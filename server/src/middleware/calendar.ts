@@ -0,0 +1,18 @@
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from '../utils/types';
+import { refreshBusinessCalendar } from '../utils/businessCalendar';
+
+// Refresh the holiday calendar and blackout periods before handlers that compute deadlines
+export async function loadBusinessCalendar(
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    await refreshBusinessCalendar();
+    next();
+  } catch (error) {
+    console.error('Load business calendar error:', error);
+    res.status(500).json({ error: 'Failed to load business calendar' });
+  }
+}
@@ -0,0 +1,313 @@
+import { Router, Response } from 'express';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import {
+  addMonths,
+  addWeeks,
+  differenceInCalendarMonths,
+  differenceInCalendarWeeks,
+  endOfDay,
+  format,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+  subMonths,
+} from 'date-fns';
+import { AuthRequest } from '../utils/types';
+import { authenticate } from '../middleware/auth';
+import { loadBusinessCalendar } from '../middleware/calendar';
+import { getBusinessDaysBetween, getBusinessDaysUntil } from '../utils/businessDays';
+import {
+  getPhaseDefinitions,
+  isPhaseCounted,
+  loadPhaseTemplateCatalog,
+  PhaseTemplateCatalog,
+} from '../utils/phaseTemplates';
+import { getProjectProgress, ProjectStatus } from '../utils/projectProgress';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+// Longest range the trends chart is drawn over
+const MAX_RANGE_MONTHS = 60;
+
+// Ranges up to this many weeks are bucketed by week rather than month
+const MAX_WEEKLY_TREND_WEEKS = 13;
+
+// Open phases by how far past their deadline they are, in business days
+const AGEING_BUCKETS = [
+  { label: '1-5 days', minDays: 1, maxDays: 5 },
+  { label: '6-10 days', minDays: 6, maxDays: 10 },
+  { label: '11-20 days', minDays: 11, maxDays: 20 },
+  { label: '21+ days', minDays: 21, maxDays: null },
+];
+
+// Defaults to the last twelve months, including this one
+const analyticsQuerySchema = z
+  .object({
+    from: z
+      .string()
+      .optional()
+      .transform((str) => startOfDay(str ? new Date(str) : subMonths(startOfMonth(new Date()), 11))),
+    to: z
+      .string()
+      .optional()
+      .transform((str) => endOfDay(str ? new Date(str) : new Date())),
+    createdBy: z.string().optional(),
+  })
+  .refine((query) => !isNaN(query.from.getTime()) && !isNaN(query.to.getTime()), {
+    message: 'Invalid date',
+  })
+  .refine(
+    (query) =>
+      query.from <= query.to && differenceInCalendarMonths(query.to, query.from) < MAX_RANGE_MONTHS,
+    { message: `Range must run forwards and span at most ${MAX_RANGE_MONTHS} months`, path: ['to'] }
+  );
+
+type AnalyticsQuery = z.infer<typeof analyticsQuerySchema>;
+
+function parseQuery(req: AuthRequest, res: Response): AnalyticsQuery | null {
+  const validation = analyticsQuerySchema.safeParse(req.query);
+
+  if (!validation.success) {
+    res.status(400).json({
+      error: 'Validation failed',
+      details: validation.error.errors,
+    });
+    return null;
+  }
+
+  // The creator filter accepts "me" for the current user, as on the project list
+  const query = validation.data;
+  if (query.createdBy === 'me') {
+    query.createdBy = req.user!.id;
+  }
+  return query;
+}
+
+const rate = (count: number, total: number) =>
+  total > 0 ? Math.round((count / total) * 100) : null;
+
+const average = (values: number[]) =>
+  values.length > 0
+    ? Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10
+    : null;
+
+// Phases that count towards progress (not skipped, not mirrors), with their project
+async function findCountedPhases(catalog: PhaseTemplateCatalog, where: Prisma.ProjectPhaseWhereInput) {
+  const phases = await prisma.projectPhase.findMany({
+    where,
+    include: {
+      project: {
+        select: { region: true, templateId: true },
+      },
+    },
+  });
+
+  return phases.filter((phase) => {
+    const definition = getPhaseDefinitions(catalog, phase.project.templateId).find(
+      (d) => d.key === phase.phaseName
+    );
+    return isPhaseCounted(definition, phase.allowedDays);
+  });
+}
+
+// Business days a completed phase finished past its deadline (negative when early)
+const getDaysLate = (phase: { deadline: Date; completedAt: Date | null }, region: string | null) =>
+  getBusinessDaysBetween(phase.deadline, phase.completedAt!, region);
+
+// Project counts by status and open overdue phases by age, for projects created in the range
+router.get('/summary', authenticate, loadBusinessCalendar, async (req: AuthRequest, res: Response) => {
+  try {
+    const query = parseQuery(req, res);
+    if (!query) return;
+
+    const [projects, catalog] = await Promise.all([
+      prisma.project.findMany({
+        where: {
+          createdAt: { gte: query.from, lte: query.to },
+          ...(query.createdBy ? { createdBy: query.createdBy } : {}),
+        },
+        include: { phases: true },
+      }),
+      loadPhaseTemplateCatalog(),
+    ]);
+
+    const statusCounts: Record<ProjectStatus, number> = {
+      'on-track': 0,
+      'at-risk': 0,
+      overdue: 0,
+      complete: 0,
+    };
+    const ageing = AGEING_BUCKETS.map((bucket) => ({ ...bucket, count: 0 }));
+
+    for (const project of projects) {
+      const definitions = getPhaseDefinitions(catalog, project.templateId);
+      statusCounts[getProjectProgress(project, definitions).status]++;
+
+      for (const phase of project.phases) {
+        if (phase.isComplete) continue;
+        const definition = definitions.find((d) => d.key === phase.phaseName);
+        if (!isPhaseCounted(definition, phase.allowedDays)) continue;
+
+        const daysOverdue = -getBusinessDaysUntil(phase.deadline, project.region);
+        const bucket = ageing.find(
+          (b) => daysOverdue >= b.minDays && (b.maxDays === null || daysOverdue <= b.maxDays)
+        );
+        if (bucket) bucket.count++;
+      }
+    }
+
+    res.json({
+      totalProjects: projects.length,
+      statusCounts,
+      overdueAgeing: ageing,
+    });
+  } catch (error) {
+    console.error('Get analytics summary error:', error);
+    res.status(500).json({ error: 'Failed to get analytics summary' });
+  }
+});
+
+// On-time rate and average allowed vs actual business days per phase, for phases completed in the range
+// Actual days are the allowed days plus however many business days the phase finished late (or early)
+router.get('/phases', authenticate, loadBusinessCalendar, async (req: AuthRequest, res: Response) => {
+  try {
+    const query = parseQuery(req, res);
+    if (!query) return;
+
+    const catalog = await loadPhaseTemplateCatalog();
+    const phases = await findCountedPhases(catalog, {
+      isComplete: true,
+      completedAt: { gte: query.from, lte: query.to },
+      ...(query.createdBy ? { project: { createdBy: query.createdBy } } : {}),
+    });
+
+    // One row per phase key, in template order with the default template first
+    const names = new Map<string, string>();
+    for (const templateId of [catalog.defaultTemplateId, ...catalog.templates.keys()]) {
+      for (const definition of getPhaseDefinitions(catalog, templateId)) {
+        if (!names.has(definition.key) && !definition.mirrorOf) {
+          names.set(definition.key, definition.displayName);
+        }
+      }
+    }
+
+    const rows = [...names.entries()].flatMap(([phaseName, displayName]) => {
+      const completed = phases.filter((phase) => phase.phaseName === phaseName);
+      if (completed.length === 0) return [];
+
+      const daysLate = completed.map((phase) => getDaysLate(phase, phase.project.region));
+      const onTime = daysLate.filter((days) => days <= 0).length;
+
+      return [
+        {
+          phaseName,
+          displayName,
+          completed: completed.length,
+          onTime,
+          onTimeRate: rate(onTime, completed.length),
+          averageAllowedDays: average(completed.map((phase) => phase.allowedDays)),
+          averageActualDays: average(
+            completed.map((phase, index) => Math.max(phase.allowedDays + daysLate[index], 0))
+          ),
+        },
+      ];
+    });
+
+    res.json({ phases: rows });
+  } catch (error) {
+    console.error('Get phase analytics error:', error);
+    res.status(500).json({ error: 'Failed to get phase analytics' });
+  }
+});
+
+// Projects created, phases completed (and how many on time) and deadlines missed, per week or month
+router.get('/trends', authenticate, loadBusinessCalendar, async (req: AuthRequest, res: Response) => {
+  try {
+    const query = parseQuery(req, res);
+    if (!query) return;
+
+    const { from, to, createdBy } = query;
+    const interval =
+      differenceInCalendarWeeks(to, from, { weekStartsOn: 1 }) < MAX_WEEKLY_TREND_WEEKS
+        ? 'week'
+        : 'month';
+    const periodStart = (date: Date) =>
+      interval === 'week' ? startOfWeek(date, { weekStartsOn: 1 }) : startOfMonth(date);
+    const nextPeriod = (date: Date) => (interval === 'week' ? addWeeks(date, 1) : addMonths(date, 1));
+    const periodKey = (date: Date) => format(periodStart(date), 'yyyy-MM-dd');
+
+    const catalog = await loadPhaseTemplateCatalog();
+    const inRange = { gte: from, lte: to };
+    const [projects, phases] = await Promise.all([
+      prisma.project.findMany({
+        where: { createdAt: inRange, ...(createdBy ? { createdBy } : {}) },
+        select: { createdAt: true },
+      }),
+      findCountedPhases(catalog, {
+        OR: [{ completedAt: inRange }, { deadline: inRange }],
+        ...(createdBy ? { project: { createdBy } } : {}),
+      }),
+    ]);
+
+    const periods = new Map<
+      string,
+      {
+        period: string;
+        projectsCreated: number;
+        phasesCompleted: number;
+        phasesOnTime: number;
+        onTimeRate: number | null;
+        deadlinesMissed: number;
+      }
+    >();
+    for (let date = periodStart(from); date <= to; date = nextPeriod(date)) {
+      const key = format(date, 'yyyy-MM-dd');
+      periods.set(key, {
+        period: key,
+        projectsCreated: 0,
+        phasesCompleted: 0,
+        phasesOnTime: 0,
+        onTimeRate: null,
+        deadlinesMissed: 0,
+      });
+    }
+
+    for (const project of projects) {
+      periods.get(periodKey(project.createdAt))!.projectsCreated++;
+    }
+
+    for (const phase of phases) {
+      const region = phase.project.region;
+      const daysLate = phase.completedAt
+        ? getDaysLate(phase, region)
+        : -getBusinessDaysUntil(phase.deadline, region);
+
+      const completedIn = phase.completedAt && periods.get(periodKey(phase.completedAt));
+      if (completedIn && phase.completedAt! >= from && phase.completedAt! <= to) {
+        completedIn.phasesCompleted++;
+        if (daysLate <= 0) completedIn.phasesOnTime++;
+      }
+
+      // Missed deadlines count in the period the deadline fell in, whether the phase
+      // was finished late or is still open
+      const dueIn = periods.get(periodKey(phase.deadline));
+      if (dueIn && phase.deadline >= from && phase.deadline <= to && daysLate > 0) {
+        dueIn.deadlinesMissed++;
+      }
+    }
+
+    const trends = [...periods.values()].map((period) => ({
+      ...period,
+      onTimeRate: rate(period.phasesOnTime, period.phasesCompleted),
+    }));
+
+    res.json({ interval, trends });
+  } catch (error) {
+    console.error('Get analytics trends error:', error);
+    res.status(500).json({ error: 'Failed to get analytics trends' });
+  }
+});
+
+export default router;
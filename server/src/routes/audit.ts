@@ -0,0 +1,82 @@
+import { Router, Response } from 'express';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import { endOfDay } from 'date-fns';
+import { AuthRequest } from '../utils/types';
+import { authenticate, requireAdmin } from '../middleware/auth';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+const auditQuerySchema = z.object({
+  q: z.string().optional(),
+  entityType: z.string().optional(),
+  action: z.string().optional(),
+  actorId: z.string().optional(),
+  projectId: z.string().optional(),
+  from: z
+    .string()
+    .transform((str) => new Date(str))
+    .optional(),
+  to: z
+    .string()
+    .transform((str) => endOfDay(new Date(str)))
+    .optional(),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+// Search the audit log, newest first (Admin+)
+// Pages with ?cursor=<id of the last entry returned>
+router.get('/', authenticate, requireAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const validation = auditQuerySchema.safeParse(req.query);
+
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const { q, entityType, action, actorId, projectId, from, to, cursor, limit } = validation.data;
+
+    const where: Prisma.AuditLogWhereInput = {
+      entityType,
+      action,
+      actorId,
+      projectId,
+      createdAt: from || to ? { gte: from, lte: to } : undefined,
+    };
+
+    if (q) {
+      where.OR = [
+        { summary: { contains: q, mode: 'insensitive' } },
+        { actorName: { contains: q, mode: 'insensitive' } },
+        { entityId: q },
+      ];
+    }
+
+    // Fetch one extra entry to know whether there is another page
+    const entries = await prisma.auditLog.findMany({
+      where,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+
+    const hasMore = entries.length > limit;
+    const page = hasMore ? entries.slice(0, limit) : entries;
+
+    res.json({
+      entries: page,
+      nextCursor: hasMore ? page[page.length - 1].id : null,
+    });
+  } catch (error) {
+    console.error('Get audit log error:', error);
+    res.status(500).json({ error: 'Failed to get audit log' });
+  }
+});
+
+export default router;
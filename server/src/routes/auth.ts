@@ -1,9 +1,43 @@
 import { Router, Response } from 'express';
 import bcrypt from 'bcryptjs';
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, Session } from '@prisma/client';
 import { z } from 'zod';
-import { AuthRequest } from '../utils/types';
-import { generateToken, authenticate } from '../middleware/auth';
+import { AuthRequest, UserRole } from '../utils/types';
+import {
+  generateToken,
+  verifyToken,
+  authenticate,
+  generateChallengeToken,
+  verifyChallengeToken,
+} from '../middleware/auth';
+import { recordAudit, toAuditSnapshot } from '../utils/audit';
+import { closeEventClients } from '../utils/events';
+import { getAppUrl, sendMail } from '../utils/mailer';
+import { renderPasswordResetEmail } from '../utils/emailTemplates';
+import { createPasswordResetToken, RESET_TOKEN_TTL_HOURS } from '../utils/passwordReset';
+import { hashSecretToken } from '../utils/secureTokens';
+import { getRegistrationError, loadRegistrationPolicy } from '../utils/registration';
+import {
+  clearFailedLogins,
+  failLoginAttempt,
+  LoginThrottle,
+  releaseLoginAttempt,
+  startLoginAttempt,
+} from '../utils/loginThrottle';
+import {
+  ACCESS_TOKEN_TTL_MINUTES,
+  createSession,
+  listActiveSessions,
+  markSessionsRevoked,
+  revokeSessions,
+  rotateSession,
+} from '../utils/sessions';
+import {
+  confirmTotpEnrolment,
+  isTwoFactorRequired,
+  startTotpEnrolment,
+  verifySecondFactor,
+} from '../utils/twoFactor';
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -19,6 +53,117 @@ const loginSchema = z.object({
   password: z.string().min(1, 'Password is required'),
 });
 
+const challengeSchema = z.object({
+  challengeToken: z.string().min(1, 'Sign-in challenge is required'),
+});
+
+const challengeCodeSchema = challengeSchema.extend({
+  code: z.string().trim().min(1, 'Code is required'),
+});
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email('Invalid email address'),
+});
+
+const acceptInviteSchema = z.object({
+  token: z.string().min(1, 'Invite token is required'),
+  name: z.string().min(2, 'Name must be at least 2 characters'),
+  password: z.string().min(8, 'Password must be at least 8 characters'),
+});
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1, 'Reset token is required'),
+  password: z.string().min(8, 'Password must be at least 8 characters'),
+});
+
+// The refresh token is only sent to the auth routes, where it's exchanged
+const REFRESH_COOKIE = 'refreshToken';
+const REFRESH_COOKIE_PATH = '/api/auth';
+
+// Set the access token for a session, and its refresh token when it has a new one
+function setSessionCookies(res: Response, session: Session, refreshToken: string | null): void {
+  const secure = process.env.NODE_ENV === 'production';
+
+  res.cookie('token', generateToken(session.id, session.userId), {
+    httpOnly: true,
+    secure,
+    sameSite: 'lax',
+    maxAge: ACCESS_TOKEN_TTL_MINUTES * 60 * 1000,
+  });
+
+  if (refreshToken) {
+    res.cookie(REFRESH_COOKIE, refreshToken, {
+      httpOnly: true,
+      secure,
+      sameSite: 'lax',
+      path: REFRESH_COOKIE_PATH,
+      expires: session.expiresAt,
+    });
+  }
+}
+
+function clearSessionCookies(res: Response): void {
+  res.clearCookie('token');
+  res.clearCookie(REFRESH_COOKIE, { path: REFRESH_COOKIE_PATH });
+}
+
+// Refuse a throttled sign-in attempt, telling the browser how long to wait
+function rejectThrottled(res: Response, throttle: Exclude<LoginThrottle, { allowed: true }>): void {
+  res.set('Retry-After', String(throttle.retryAfterSeconds));
+  res.status(429).json({ error: throttle.error, retryAfter: throttle.retryAfterSeconds });
+}
+
+// Start a session on this browser and respond with the signed-in user
+async function signIn(
+  req: AuthRequest,
+  res: Response,
+  user: { id: string; name: string; email: string; role: string },
+  extra: Record<string, unknown> = {}
+): Promise<void> {
+  await clearFailedLogins(user.id);
+
+  const { session, refreshToken } = await createSession(user.id, req);
+  setSessionCookies(res, session, refreshToken);
+
+  res.json({
+    message: 'Login successful',
+    user: {
+      id: user.id,
+      name: user.name,
+      email: user.email,
+      role: user.role,
+    },
+    ...extra,
+  });
+}
+
+// The user named by a sign-in challenge, or null (responding 401) if it has expired
+async function findChallengeUser(
+  res: Response,
+  challengeToken: string,
+  purpose: 'verify' | 'setup'
+) {
+  const userId = verifyChallengeToken(challengeToken, purpose);
+  const user = userId ? await prisma.user.findUnique({ where: { id: userId } }) : null;
+
+  if (!user) {
+    res.status(401).json({ error: 'Sign-in has timed out, please enter your password again' });
+    return null;
+  }
+  return user;
+}
+
+// Who may register, so the sign-in and register pages can say so (public)
+router.get('/registration', async (req: AuthRequest, res: Response) => {
+  try {
+    const policy = await loadRegistrationPolicy();
+    res.json(policy);
+  } catch (error) {
+    console.error('Get registration policy error:', error);
+    res.status(500).json({ error: 'Failed to get registration policy' });
+  }
+});
+
 // Register new user
 router.post('/register', async (req: AuthRequest, res: Response) => {
   try {
@@ -34,6 +179,13 @@ router.post('/register', async (req: AuthRequest, res: Response) => {
 
     const { name, email, password } = validation.data;
 
+    // Registration may be closed or limited to some email domains
+    const registrationError = getRegistrationError(await loadRegistrationPolicy(), email);
+    if (registrationError) {
+      res.status(403).json({ error: registrationError });
+      return;
+    }
+
     // Check if email already exists
     const existingUser = await prisma.user.findUnique({
       where: { email },
@@ -64,6 +216,15 @@ router.post('/register', async (req: AuthRequest, res: Response) => {
       },
     });
 
+    // Self-registration, so the new user is recorded as the actor
+    await recordAudit({ ...user, role: 'staff' }, {
+      action: 'create',
+      entityType: 'user',
+      entityId: user.id,
+      summary: `${user.name} registered`,
+      after: toAuditSnapshot(user, ['name', 'email', 'role']),
+    });
+
     res.status(201).json({
       message: 'Registration successful',
       user,
@@ -94,6 +255,13 @@ router.post('/login', async (req: AuthRequest, res: Response) => {
       where: { email },
     });
 
+    const throttle = await startLoginAttempt(req, email, user ? 'wrong_password' : 'unknown_email', user);
+
+    if (!throttle.allowed) {
+      rejectThrottled(res, throttle);
+      return;
+    }
+
     if (!user) {
       res.status(401).json({ error: 'Invalid email or password' });
       return;
@@ -103,28 +271,257 @@ router.post('/login', async (req: AuthRequest, res: Response) => {
     const isValidPassword = await bcrypt.compare(password, user.password);
 
     if (!isValidPassword) {
+      await failLoginAttempt(throttle.attempt, user);
       res.status(401).json({ error: 'Invalid email or password' });
       return;
     }
 
-    // Generate token
-    const token = generateToken({
-      id: user.id,
-      email: user.email,
-      name: user.name,
-      role: user.role as 'staff' | 'admin' | 'superadmin',
+    await releaseLoginAttempt(throttle.attempt);
+
+    // The password is right; with two-factor sign-in, a code from the app comes next.
+    // Roles that require it must set it up before they get a session
+    if (user.totpEnabledAt) {
+      res.json({ twoFactor: 'verify', challengeToken: generateChallengeToken(user.id, 'verify') });
+      return;
+    }
+
+    if (await isTwoFactorRequired(user.role)) {
+      res.json({ twoFactor: 'setup', challengeToken: generateChallengeToken(user.id, 'setup') });
+      return;
+    }
+
+    await signIn(req, res, user);
+  } catch (error) {
+    console.error('Login error:', error);
+    res.status(500).json({ error: 'Login failed' });
+  }
+});
+
+// Second step of signing in: a code from the authenticator app, or a recovery code
+router.post('/login/verify', async (req: AuthRequest, res: Response) => {
+  try {
+    const validation = challengeCodeSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const { challengeToken, code } = validation.data;
+    const user = await findChallengeUser(res, challengeToken, 'verify');
+    if (!user) return;
+
+    // Codes are throttled along with passwords, so the challenge can't be used to guess them
+    const throttle = await startLoginAttempt(req, user.email, 'invalid_code', user);
+
+    if (!throttle.allowed) {
+      rejectThrottled(res, throttle);
+      return;
+    }
+
+    const isValidCode = user.totpEnabledAt && (await verifySecondFactor(user, code));
+
+    if (!isValidCode) {
+      await failLoginAttempt(throttle.attempt, user);
+      res.status(401).json({ error: 'Invalid code' });
+      return;
+    }
+
+    await releaseLoginAttempt(throttle.attempt);
+
+    await signIn(req, res, user);
+  } catch (error) {
+    console.error('Verify login error:', error);
+    res.status(500).json({ error: 'Login failed' });
+  }
+});
+
+// Set up two-factor sign-in during login, for roles that require it
+router.post('/login/setup', async (req: AuthRequest, res: Response) => {
+  try {
+    const validation = challengeSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const user = await findChallengeUser(res, validation.data.challengeToken, 'setup');
+    if (!user) return;
+
+    if (user.totpEnabledAt) {
+      res.status(400).json({ error: 'Two-factor authentication is already set up' });
+      return;
+    }
+
+    res.json(await startTotpEnrolment(user));
+  } catch (error) {
+    console.error('Start login two-factor setup error:', error);
+    res.status(500).json({ error: 'Failed to start two-factor setup' });
+  }
+});
+
+// Confirm the app with its first code, then sign in; the recovery codes are shown once
+router.post('/login/setup/confirm', async (req: AuthRequest, res: Response) => {
+  try {
+    const validation = challengeCodeSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const { challengeToken, code } = validation.data;
+    const user = await findChallengeUser(res, challengeToken, 'setup');
+    if (!user) return;
+
+    const recoveryCodes = await confirmTotpEnrolment(user, code);
+
+    if (!recoveryCodes) {
+      res.status(400).json({ error: 'Invalid code, check the time on your device and try again' });
+      return;
+    }
+
+    await signIn(req, res, user, { recoveryCodes });
+  } catch (error) {
+    console.error('Confirm login two-factor setup error:', error);
+    res.status(500).json({ error: 'Failed to set up two-factor authentication' });
+  }
+});
+
+// Look up an invitation from its emailed link, for the accept page (public)
+router.get('/invite', async (req: AuthRequest, res: Response) => {
+  try {
+    const token = typeof req.query.token === 'string' ? req.query.token : '';
+    const invite = token
+      ? await prisma.userInvite.findUnique({
+          where: { tokenHash: hashSecretToken(token) },
+          include: { invitedByUser: { select: { name: true } } },
+        })
+      : null;
+
+    if (!invite || invite.acceptedAt || invite.revokedAt || invite.expiresAt < new Date()) {
+      res.status(404).json({ error: 'This invitation is invalid or has expired' });
+      return;
+    }
+
+    res.json({
+      invite: {
+        email: invite.email,
+        name: invite.name,
+        role: invite.role,
+        invitedBy: invite.invitedByUser?.name ?? null,
+        expiresAt: invite.expiresAt,
+      },
     });
+  } catch (error) {
+    console.error('Get invite error:', error);
+    res.status(500).json({ error: 'Failed to get invite' });
+  }
+});
 
-    // Set cookie
-    res.cookie('token', token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
+// Accept an invitation: create the account with the invited role and sign in
+// Works whatever the registration setting, as an admin chose to let this person in
+router.post('/accept-invite', async (req: AuthRequest, res: Response) => {
+  try {
+    const validation = acceptInviteSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const { token, name, password } = validation.data;
+    const hashedPassword = await bcrypt.hash(password, 12);
+    const now = new Date();
+
+    const result = await prisma.$transaction(async (tx) => {
+      const invite = await tx.userInvite.findUnique({
+        where: { tokenHash: hashSecretToken(token) },
+        include: { invitedByUser: { select: { name: true } } },
+      });
+
+      if (!invite || invite.acceptedAt || invite.revokedAt || invite.expiresAt < now) {
+        return { error: 'This invitation is invalid or has expired' };
+      }
+
+      const existingUser = await tx.user.findFirst({
+        where: { email: { equals: invite.email, mode: 'insensitive' } },
+      });
+      if (existingUser) {
+        return { error: 'An account with this email already exists. Sign in instead.' };
+      }
+
+      // Claim the invite, so two requests racing with the same link can't both use it
+      const claimed = await tx.userInvite.updateMany({
+        where: { id: invite.id, acceptedAt: null, revokedAt: null },
+        data: { acceptedAt: now },
+      });
+      if (claimed.count === 0) {
+        return { error: 'This invitation is invalid or has expired' };
+      }
+
+      const user = await tx.user.create({
+        data: {
+          name,
+          email: invite.email,
+          password: hashedPassword,
+          role: invite.role,
+        },
+      });
+
+      const actor = { ...user, role: user.role as UserRole };
+      await recordAudit(
+        actor,
+        {
+          action: 'create',
+          entityType: 'user',
+          entityId: user.id,
+          summary: `${user.name} joined from ${
+            invite.invitedByUser ? `${invite.invitedByUser.name}'s` : 'an'
+          } invitation`,
+          after: toAuditSnapshot(user, ['name', 'email', 'role']),
+        },
+        tx
+      );
+
+      return { user };
     });
 
-    res.json({
-      message: 'Login successful',
+    if (!result.user) {
+      res.status(400).json({ error: result.error });
+      return;
+    }
+
+    const { user } = result;
+
+    // Roles that require two-factor sign-in set it up before getting a session
+    if (await isTwoFactorRequired(user.role)) {
+      res.status(201).json({
+        message: 'Invitation accepted',
+        twoFactor: 'setup',
+        challengeToken: generateChallengeToken(user.id, 'setup'),
+      });
+      return;
+    }
+
+    const { session, refreshToken } = await createSession(user.id, req);
+    setSessionCookies(res, session, refreshToken);
+
+    res.status(201).json({
+      message: 'Invitation accepted',
       user: {
         id: user.id,
         name: user.name,
@@ -133,17 +530,241 @@ router.post('/login', async (req: AuthRequest, res: Response) => {
       },
     });
   } catch (error) {
-    console.error('Login error:', error);
-    res.status(500).json({ error: 'Login failed' });
+    console.error('Accept invite error:', error);
+    res.status(500).json({ error: 'Failed to accept invite' });
   }
 });
 
-// Logout
-router.post('/logout', (req: AuthRequest, res: Response) => {
-  res.clearCookie('token');
+// Renew the access token, swapping the refresh token for a new one
+router.post('/refresh', async (req: AuthRequest, res: Response) => {
+  try {
+    const refreshToken = req.cookies?.[REFRESH_COOKIE];
+
+    if (!refreshToken) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const result = await rotateSession(refreshToken);
+
+    if (!result.session) {
+      clearSessionCookies(res);
+      res.status(401).json({ error: result.error });
+      return;
+    }
+
+    setSessionCookies(res, result.session, result.refreshToken);
+    res.json({ message: 'Session refreshed' });
+  } catch (error) {
+    console.error('Refresh session error:', error);
+    res.status(500).json({ error: 'Failed to refresh session' });
+  }
+});
+
+// Logout, ending this browser's session (the access token may already have expired)
+router.post('/logout', async (req: AuthRequest, res: Response) => {
+  try {
+    const refreshToken = req.cookies?.[REFRESH_COOKIE];
+    const payload = req.cookies?.token ? verifyToken(req.cookies.token) : null;
+    const sessions = [
+      ...(refreshToken ? [{ refreshTokenHash: hashSecretToken(refreshToken) }] : []),
+      ...(payload?.sessionId ? [{ id: payload.sessionId }] : []),
+    ];
+
+    if (sessions.length > 0) {
+      await revokeSessions({ OR: sessions });
+    }
+  } catch (error) {
+    // The cookies are cleared regardless
+    console.error('Logout error:', error);
+  }
+
+  clearSessionCookies(res);
   res.json({ message: 'Logged out successfully' });
 });
 
+// Sign out of every session, including this one
+router.post('/logout-all', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const currentUser = req.user!;
+    await revokeSessions({ userId: currentUser.id });
+
+    await recordAudit(currentUser, {
+      action: 'update',
+      entityType: 'user',
+      entityId: currentUser.id,
+      summary: `${currentUser.name} signed out everywhere`,
+    });
+
+    clearSessionCookies(res);
+    res.json({ message: 'Signed out everywhere' });
+  } catch (error) {
+    console.error('Logout everywhere error:', error);
+    res.status(500).json({ error: 'Failed to sign out everywhere' });
+  }
+});
+
+// The current user's signed-in sessions
+router.get('/sessions', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const sessions = await listActiveSessions(req.user!.id);
+
+    res.json({
+      sessions: sessions.map((session) => ({ ...session, current: session.id === req.sessionId })),
+    });
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    res.status(500).json({ error: 'Failed to get sessions' });
+  }
+});
+
+// Sign one of the current user's sessions out
+router.delete('/sessions/:id', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const count = await revokeSessions({ id: req.params.id, userId: req.user!.id });
+
+    if (count === 0) {
+      res.status(404).json({ error: 'Session not found' });
+      return;
+    }
+
+    if (req.params.id === req.sessionId) {
+      clearSessionCookies(res);
+    }
+
+    res.json({ message: 'Session signed out' });
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({ error: 'Failed to sign out session' });
+  }
+});
+
+// Email a password reset link
+// Responds the same whether or not the email is registered, so it can't be used to find accounts
+router.post('/forgot-password', async (req: AuthRequest, res: Response) => {
+  try {
+    const validation = forgotPasswordSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: validation.data.email },
+      select: { id: true, name: true, email: true },
+    });
+
+    if (user) {
+      const token = await createPasswordResetToken(user.id);
+      const email = renderPasswordResetEmail(
+        user.name,
+        `${getAppUrl()}/reset-password?token=${token}`,
+        RESET_TOKEN_TTL_HOURS
+      );
+
+      try {
+        await sendMail({ to: user.email, ...email });
+      } catch (error) {
+        console.error(`Password reset email to ${user.email} failed:`, error);
+      }
+    }
+
+    res.json({ message: 'If an account exists for that email, a reset link is on its way' });
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    res.status(500).json({ error: 'Failed to send reset link' });
+  }
+});
+
+// Set a new password with an emailed reset token, signing the user out everywhere
+router.post('/reset-password', async (req: AuthRequest, res: Response) => {
+  try {
+    const validation = resetPasswordSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const { token, password } = validation.data;
+    const hashedPassword = await bcrypt.hash(password, 12);
+    const now = new Date();
+
+    const reset = await prisma.$transaction(async (tx) => {
+      const resetToken = await tx.passwordResetToken.findUnique({
+        where: { tokenHash: hashSecretToken(token) },
+        include: { user: true },
+      });
+
+      if (!resetToken || resetToken.usedAt || resetToken.expiresAt < now) {
+        return null;
+      }
+
+      // Claim the token, so two requests racing with the same link can't both use it
+      const claimed = await tx.passwordResetToken.updateMany({
+        where: { id: resetToken.id, usedAt: null },
+        data: { usedAt: now },
+      });
+      if (claimed.count === 0) {
+        return null;
+      }
+
+      await tx.passwordResetToken.updateMany({
+        where: { userId: resetToken.userId, usedAt: null },
+        data: { usedAt: now },
+      });
+
+      const updated = await tx.user.update({
+        where: { id: resetToken.userId },
+        // Proving access to the mailbox also lifts a lockout
+        data: { password: hashedPassword, failedLoginCount: 0, lastFailedLoginAt: null, lockedUntil: null },
+      });
+      const sessionIds = await markSessionsRevoked({ userId: updated.id }, tx);
+
+      const actor = {
+        id: updated.id,
+        email: updated.email,
+        name: updated.name,
+        role: updated.role as 'staff' | 'admin' | 'superadmin',
+      };
+      await recordAudit(
+        actor,
+        {
+          action: 'update',
+          entityType: 'user',
+          entityId: updated.id,
+          summary: `${updated.name} reset their password`,
+        },
+        tx
+      );
+
+      return { sessionIds };
+    });
+
+    if (!reset) {
+      res.status(400).json({ error: 'This reset link is invalid or has expired' });
+      return;
+    }
+
+    // Only now the sessions are revoked for certain
+    closeEventClients(reset.sessionIds);
+
+    // Any session in this browser has ended too
+    clearSessionCookies(res);
+    res.json({ message: 'Password reset, please sign in with your new password' });
+  } catch (error) {
+    console.error('Reset password error:', error);
+    res.status(500).json({ error: 'Failed to reset password' });
+  }
+});
+
 // Get current user
 router.get('/me', authenticate, async (req: AuthRequest, res: Response) => {
   try {
@@ -155,6 +776,7 @@ router.get('/me', authenticate, async (req: AuthRequest, res: Response) => {
         email: true,
         role: true,
         createdAt: true,
+        totpEnabledAt: true,
       },
     });
 
@@ -163,7 +785,8 @@ router.get('/me', authenticate, async (req: AuthRequest, res: Response) => {
       return;
     }
 
-    res.json({ user });
+    const { totpEnabledAt, ...rest } = user;
+    res.json({ user: { ...rest, twoFactorEnabled: Boolean(totpEnabledAt) } });
   } catch (error) {
     console.error('Get user error:', error);
     res.status(500).json({ error: 'Failed to get user' });
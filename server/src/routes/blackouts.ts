@@ -0,0 +1,422 @@
+import { Router, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import { isSameDay } from 'date-fns';
+import { AuthRequest, REGIONS } from '../utils/types';
+import { authenticate, requireSuperAdmin } from '../middleware/auth';
+import {
+  BlackoutPeriod,
+  getBlackoutPeriods,
+  getPhaseSpans,
+  setBlackoutPeriods,
+  shiftPhaseDeadlines,
+} from '../utils/businessDays';
+import { refreshBusinessCalendar } from '../utils/businessCalendar';
+import { AuditSnapshot, diffAuditSnapshots, recordAudit, toAuditSnapshot } from '../utils/audit';
+import { publishEvent } from '../utils/events';
+import {
+  getPhaseDefinitions,
+  isPhaseSkipped,
+  loadPhaseTemplateCatalog,
+} from '../utils/phaseTemplates';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+const blackoutRangeObject = z.object({
+  startDate: z.string().transform((str) => new Date(str)),
+  endDate: z.string().transform((str) => new Date(str)),
+  region: z.enum(REGIONS).nullable().optional(),
+});
+
+const endAfterStart = {
+  check: (data: { startDate: Date; endDate: Date }) => data.endDate >= data.startDate,
+  message: { message: 'End date must be on or after start date', path: ['endDate'] },
+};
+
+const blackoutRangeSchema = blackoutRangeObject.refine(
+  endAfterStart.check,
+  endAfterStart.message
+);
+
+const createBlackoutSchema = blackoutRangeObject
+  .extend({
+    name: z.string().min(1, 'Name is required'),
+    applyToProjects: z.boolean().optional(),
+  })
+  .refine(endAfterStart.check, endAfterStart.message);
+
+const updateBlackoutSchema = z.object({
+  name: z.string().min(1, 'Name is required').optional(),
+  startDate: z
+    .string()
+    .transform((str) => new Date(str))
+    .optional(),
+  endDate: z
+    .string()
+    .transform((str) => new Date(str))
+    .optional(),
+  region: z.enum(REGIONS).nullable().optional(),
+});
+
+interface ShiftedPhase {
+  phaseId: string;
+  phaseName: string;
+  displayName: string;
+  currentDeadline: Date;
+  newDeadline: Date;
+}
+
+interface AffectedProject {
+  id: string;
+  orderNumber: string;
+  customerName: string;
+  region: string | null;
+  phases: ShiftedPhase[];
+}
+
+// Work out which incomplete phase deadlines of active projects would move if
+// the candidate blackout period were added to the business calendar. Shifts are
+// measured from the stored deadlines, so manual edits are kept and carried downstream
+async function previewBlackoutImpact(candidate: BlackoutPeriod): Promise<AffectedProject[]> {
+  await refreshBusinessCalendar();
+
+  const projects = await prisma.project.findMany({
+    where: {
+      phases: { some: { isComplete: false } },
+    },
+    include: { phases: true },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  const catalog = await loadPhaseTemplateCatalog();
+  const currentPeriods = getBlackoutPeriods();
+  const affected: AffectedProject[] = [];
+
+  for (const project of projects) {
+    // Region-scoped blackouts only affect projects in that region
+    if (candidate.region && project.region !== candidate.region) {
+      continue;
+    }
+
+    const definitions = getPhaseDefinitions(catalog, project.templateId);
+    const allowedDays: Record<string, number> = {};
+    const deadlines: Record<string, Date> = {};
+    const completed = new Set<string>();
+    for (const phase of project.phases) {
+      allowedDays[phase.phaseName] = phase.allowedDays;
+      deadlines[phase.phaseName] = phase.deadline;
+      if (phase.isComplete) completed.add(phase.phaseName);
+    }
+
+    const spans = getPhaseSpans(
+      project.siteSurveyDate,
+      definitions,
+      allowedDays,
+      deadlines,
+      project.region
+    );
+
+    let after: Record<string, Date>;
+    setBlackoutPeriods([...currentPeriods, candidate]);
+    try {
+      after = shiftPhaseDeadlines(
+        project.siteSurveyDate,
+        definitions,
+        allowedDays,
+        deadlines,
+        spans,
+        completed,
+        project.region
+      );
+    } finally {
+      setBlackoutPeriods(currentPeriods);
+    }
+
+    const phases: ShiftedPhase[] = [];
+    for (const phase of project.phases) {
+      const definition = definitions.find((d) => d.key === phase.phaseName);
+
+      if (phase.isComplete) continue;
+      if (isPhaseSkipped(definition, phase.allowedDays)) continue;
+
+      const afterDeadline = after[phase.phaseName];
+
+      if (afterDeadline && !isSameDay(phase.deadline, afterDeadline)) {
+        phases.push({
+          phaseId: phase.id,
+          phaseName: phase.phaseName,
+          displayName: definition?.displayName || phase.phaseName,
+          currentDeadline: phase.deadline,
+          newDeadline: afterDeadline,
+        });
+      }
+    }
+
+    if (phases.length > 0) {
+      affected.push({
+        id: project.id,
+        orderNumber: project.orderNumber,
+        customerName: project.customerName,
+        region: project.region,
+        phases,
+      });
+    }
+  }
+
+  return affected;
+}
+
+// Get all blackout periods
+router.get('/', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const blackouts = await prisma.blackoutPeriod.findMany({
+      include: {
+        createdByUser: {
+          select: { id: true, name: true },
+        },
+      },
+      orderBy: { startDate: 'desc' },
+    });
+
+    res.json({ blackouts });
+  } catch (error) {
+    console.error('Get blackouts error:', error);
+    res.status(500).json({ error: 'Failed to get blackout periods' });
+  }
+});
+
+// Preview which active project deadlines would shift (Super Admin only)
+router.post('/preview', authenticate, requireSuperAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const validation = blackoutRangeSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const data = validation.data;
+
+    const projects = await previewBlackoutImpact({
+      startDate: data.startDate,
+      endDate: data.endDate,
+      region: data.region || null,
+    });
+
+    res.json({
+      projects,
+      totalPhases: projects.reduce((sum, project) => sum + project.phases.length, 0),
+    });
+  } catch (error) {
+    console.error('Preview blackout error:', error);
+    res.status(500).json({ error: 'Failed to preview blackout period' });
+  }
+});
+
+// Create blackout period, optionally shifting affected deadlines (Super Admin only)
+router.post('/', authenticate, requireSuperAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const validation = createBlackoutSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const data = validation.data;
+
+    // Work out the impact before the period becomes part of the calendar
+    const affected = data.applyToProjects
+      ? await previewBlackoutImpact({
+          startDate: data.startDate,
+          endDate: data.endDate,
+          region: data.region || null,
+        })
+      : [];
+
+    const blackout = await prisma.$transaction(async (tx) => {
+      const created = await tx.blackoutPeriod.create({
+        data: {
+          name: data.name,
+          startDate: data.startDate,
+          endDate: data.endDate,
+          region: data.region || null,
+          createdBy: req.user!.id,
+        },
+        include: {
+          createdByUser: {
+            select: { id: true, name: true },
+          },
+        },
+      });
+
+      await recordAudit(
+        req.user!,
+        {
+          action: 'create',
+          entityType: 'blackout',
+          entityId: created.id,
+          summary: `Added shutdown period ${created.name}`,
+          after: toAuditSnapshot(created, ['name', 'startDate', 'endDate', 'region']),
+        },
+        tx
+      );
+
+      for (const project of affected) {
+        const before: AuditSnapshot = {};
+        const after: AuditSnapshot = {};
+
+        for (const phase of project.phases) {
+          await tx.projectPhase.update({
+            where: { id: phase.phaseId },
+            data: { deadline: phase.newDeadline },
+          });
+
+          before[`${phase.phaseName}.deadline`] = phase.currentDeadline.toISOString();
+          after[`${phase.phaseName}.deadline`] = phase.newDeadline.toISOString();
+        }
+
+        await recordAudit(
+          req.user!,
+          {
+            action: 'update',
+            entityType: 'project',
+            entityId: project.id,
+            projectId: project.id,
+            summary: `Shifted deadlines on project ${project.orderNumber} for shutdown period ${created.name}`,
+            before,
+            after,
+          },
+          tx
+        );
+      }
+
+      return created;
+    });
+
+    await refreshBusinessCalendar();
+
+    if (affected.length > 0) {
+      publishEvent({ type: 'project', action: 'updated' });
+    }
+
+    res.status(201).json({
+      blackout,
+      shiftedPhases: affected.reduce((sum, project) => sum + project.phases.length, 0),
+    });
+  } catch (error) {
+    console.error('Create blackout error:', error);
+    res.status(500).json({ error: 'Failed to create blackout period' });
+  }
+});
+
+// Update blackout period (Super Admin only)
+router.patch('/:id', authenticate, requireSuperAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const validation = updateBlackoutSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const data = validation.data;
+
+    const blackout = await prisma.blackoutPeriod.findUnique({
+      where: { id },
+    });
+
+    if (!blackout) {
+      res.status(404).json({ error: 'Blackout period not found' });
+      return;
+    }
+
+    const startDate = data.startDate || blackout.startDate;
+    const endDate = data.endDate || blackout.endDate;
+
+    if (endDate < startDate) {
+      res.status(400).json({ error: 'End date must be on or after start date' });
+      return;
+    }
+
+    const updated = await prisma.blackoutPeriod.update({
+      where: { id },
+      data,
+      include: {
+        createdByUser: {
+          select: { id: true, name: true },
+        },
+      },
+    });
+
+    await refreshBusinessCalendar();
+
+    const changes = diffAuditSnapshots(
+      toAuditSnapshot(blackout, ['name', 'startDate', 'endDate', 'region']),
+      toAuditSnapshot(updated, ['name', 'startDate', 'endDate', 'region'])
+    );
+
+    if (changes) {
+      await recordAudit(req.user!, {
+        action: 'update',
+        entityType: 'blackout',
+        entityId: id,
+        summary: `Updated shutdown period ${updated.name}`,
+        ...changes,
+      });
+    }
+
+    res.json({ blackout: updated });
+  } catch (error) {
+    console.error('Update blackout error:', error);
+    res.status(500).json({ error: 'Failed to update blackout period' });
+  }
+});
+
+// Delete blackout period (Super Admin only)
+router.delete('/:id', authenticate, requireSuperAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const blackout = await prisma.blackoutPeriod.findUnique({
+      where: { id },
+    });
+
+    if (!blackout) {
+      res.status(404).json({ error: 'Blackout period not found' });
+      return;
+    }
+
+    await prisma.blackoutPeriod.delete({
+      where: { id },
+    });
+
+    await refreshBusinessCalendar();
+
+    await recordAudit(req.user!, {
+      action: 'delete',
+      entityType: 'blackout',
+      entityId: id,
+      summary: `Deleted shutdown period ${blackout.name}`,
+      before: toAuditSnapshot(blackout, ['name', 'startDate', 'endDate', 'region']),
+    });
+
+    res.json({ message: 'Blackout period deleted successfully' });
+  } catch (error) {
+    console.error('Delete blackout error:', error);
+    res.status(500).json({ error: 'Failed to delete blackout period' });
+  }
+});
+
+export default router;
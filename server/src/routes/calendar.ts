@@ -0,0 +1,212 @@
+import { Router, Response } from 'express';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import { differenceInCalendarDays, endOfDay, startOfDay } from 'date-fns';
+import { AuthRequest } from '../utils/types';
+import { authenticate } from '../middleware/auth';
+import { loadBusinessCalendar } from '../middleware/calendar';
+import { getBusinessDaysUntil } from '../utils/businessDays';
+import { getPhaseDefinitions, isPhaseCounted, loadPhaseTemplateCatalog } from '../utils/phaseTemplates';
+import { getDeadlineBand, loadNotificationPreferences } from '../utils/notificationPreferences';
+import { generateCalendarToken, renderICalendar } from '../utils/iCalendar';
+import { getAppUrl } from '../utils/mailer';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+// Longest range the calendar page asks for is a six-week month grid
+const MAX_RANGE_DAYS = 100;
+
+const deadlinesQuerySchema = z
+  .object({
+    from: z.string().transform((str) => startOfDay(new Date(str))),
+    to: z.string().transform((str) => endOfDay(new Date(str))),
+    scope: z.enum(['all', 'involved']).default('all'),
+  })
+  .refine((query) => !isNaN(query.from.getTime()) && !isNaN(query.to.getTime()), {
+    message: 'Invalid date',
+  })
+  .refine(
+    (query) =>
+      query.from <= query.to && differenceInCalendarDays(query.to, query.from) < MAX_RANGE_DAYS,
+    { message: `Range must run forwards and span at most ${MAX_RANGE_DAYS} days`, path: ['to'] }
+  );
+
+// Incomplete deadlines of the phases that count towards progress (not skipped, not mirrors)
+async function findOpenDeadlines(where: Prisma.ProjectPhaseWhereInput) {
+  const [phases, catalog] = await Promise.all([
+    prisma.projectPhase.findMany({
+      where: { ...where, isComplete: false },
+      include: {
+        project: {
+          select: { id: true, orderNumber: true, customerName: true, region: true, templateId: true },
+        },
+        assignee: {
+          select: { id: true, name: true },
+        },
+      },
+      orderBy: [{ deadline: 'asc' }, { phaseName: 'asc' }],
+    }),
+    loadPhaseTemplateCatalog(),
+  ]);
+
+  return phases.flatMap((phase) => {
+    const definition = getPhaseDefinitions(catalog, phase.project.templateId).find(
+      (d) => d.key === phase.phaseName
+    );
+    if (!isPhaseCounted(definition, phase.allowedDays)) return [];
+
+    return [{ ...phase, displayName: definition?.displayName || phase.phaseName }];
+  });
+}
+
+const feedUrl = (token: string) => `${getAppUrl()}/api/calendar/${token}.ics`;
+
+// Incomplete phase deadlines between two dates, for the calendar page
+// ?scope=involved limits them to projects the user owns or watches, or phases assigned to them
+router.get('/deadlines', authenticate, loadBusinessCalendar, async (req: AuthRequest, res: Response) => {
+  try {
+    const validation = deadlinesQuerySchema.safeParse(req.query);
+
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const { from, to, scope } = validation.data;
+    const userId = req.user!.id;
+
+    const phases = await findOpenDeadlines({
+      deadline: { gte: from, lte: to },
+      ...(scope === 'involved'
+        ? {
+            OR: [
+              { assigneeId: userId },
+              { project: { ownerId: userId } },
+              { project: { watchers: { some: { userId } } } },
+            ],
+          }
+        : {}),
+    });
+
+    // Colour deadlines by the viewer's lead times, as on the project page
+    const preferences = await loadNotificationPreferences(userId);
+
+    const deadlines = phases.map((phase) => {
+      const daysUntilDeadline = getBusinessDaysUntil(phase.deadline, phase.project.region);
+
+      return {
+        phaseId: phase.id,
+        phaseName: phase.phaseName,
+        displayName: phase.displayName,
+        deadline: phase.deadline,
+        daysUntilDeadline,
+        deadlineStatus: getDeadlineBand(daysUntilDeadline, phase.phaseName, preferences) || 'on-track',
+        assignee: phase.assignee,
+        project: {
+          id: phase.project.id,
+          orderNumber: phase.project.orderNumber,
+          customerName: phase.project.customerName,
+        },
+      };
+    });
+
+    res.json({ deadlines });
+  } catch (error) {
+    console.error('Get calendar deadlines error:', error);
+    res.status(500).json({ error: 'Failed to get deadlines' });
+  }
+});
+
+// Get the current user's calendar feed URL, creating it on first use
+router.get('/feed', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id },
+      select: { calendarToken: true },
+    });
+
+    let token = user?.calendarToken;
+    if (!token) {
+      token = generateCalendarToken();
+      await prisma.user.update({
+        where: { id: req.user!.id },
+        data: { calendarToken: token },
+      });
+    }
+
+    res.json({ url: feedUrl(token) });
+  } catch (error) {
+    console.error('Get calendar feed error:', error);
+    res.status(500).json({ error: 'Failed to get calendar feed' });
+  }
+});
+
+// Replace the feed URL, so anyone holding the old one loses access
+router.post('/feed/reset', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const token = generateCalendarToken();
+    await prisma.user.update({
+      where: { id: req.user!.id },
+      data: { calendarToken: token },
+    });
+
+    res.json({ url: feedUrl(token) });
+  } catch (error) {
+    console.error('Reset calendar feed error:', error);
+    res.status(500).json({ error: 'Failed to reset calendar feed' });
+  }
+});
+
+// iCalendar feed of open deadlines on projects the token's owner owns or watches
+// Calendar apps can't log in, so the token in the URL is the credential
+router.get('/:token.ics', async (req, res: Response) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { calendarToken: req.params.token },
+      select: { id: true },
+    });
+
+    if (!user) {
+      res.status(404).json({ error: 'Calendar not found' });
+      return;
+    }
+
+    const phases = await findOpenDeadlines({
+      project: {
+        OR: [{ ownerId: user.id }, { watchers: { some: { userId: user.id } } }],
+      },
+    });
+
+    const appUrl = getAppUrl();
+    const calendar = renderICalendar(
+      'OpenServe deadlines',
+      phases.map((phase) => ({
+        uid: `${phase.id}@openserve-tracker`,
+        date: phase.deadline,
+        summary: `${phase.displayName} due - ${phase.project.orderNumber}`,
+        description: [
+          `Project: ${phase.project.orderNumber} (${phase.project.customerName})`,
+          `Phase: ${phase.displayName}`,
+          `Assignee: ${phase.assignee?.name || 'Unassigned'}`,
+        ].join('\n'),
+        url: `${appUrl}/projects/${phase.project.id}`,
+      }))
+    );
+
+    res.set({
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="openserve-deadlines.ics"',
+      'Cache-Control': 'no-cache',
+    });
+    res.send(calendar);
+  } catch (error) {
+    console.error('Calendar feed error:', error);
+    res.status(500).json({ error: 'Failed to get calendar feed' });
+  }
+});
+
+export default router;
@@ -0,0 +1,33 @@
+import { Router, Response } from 'express';
+import { AuthRequest } from '../utils/types';
+import { authenticate } from '../middleware/auth';
+import { addEventClient } from '../utils/events';
+
+const router = Router();
+
+// Comment lines keep proxies from closing an idle stream
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+// Server-Sent Events stream of project, phase and notification changes
+router.get('/', authenticate, (req: AuthRequest, res: Response) => {
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+
+  // Ask the browser to wait 5 seconds before reconnecting after a drop
+  res.write('retry: 5000\n\n');
+
+  const removeClient = addEventClient(req.user!.id, req.sessionId!, res);
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_INTERVAL_MS);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    removeClient();
+  });
+});
+
+export default router;
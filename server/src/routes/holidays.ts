@@ -0,0 +1,330 @@
+import { Router, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import { getYear, isSameDay, startOfDay } from 'date-fns';
+import { AuthRequest } from '../utils/types';
+import { authenticate, requireSuperAdmin } from '../middleware/auth';
+import { loadBusinessCalendar } from '../middleware/calendar';
+import { diffAuditSnapshots, recordAudit, toAuditSnapshot } from '../utils/audit';
+import {
+  getPublicHolidays,
+  getSAPublicHolidaysWithNames,
+  isPublicHoliday,
+  PublicHoliday,
+} from '../utils/businessDays';
+import { refreshBusinessCalendar } from '../utils/businessCalendar';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+const createHolidaySchema = z.object({
+  date: z
+    .string()
+    .transform((str) => new Date(str))
+    .refine((date) => !isNaN(date.getTime()), { message: 'Invalid date' }),
+  name: z.string().min(1, 'Holiday name is required'),
+  type: z.enum(['adhoc', 'removed']),
+});
+
+// At most ten years, so a typo can't ask for centuries of holidays
+const holidayRangeSchema = z
+  .object({
+    from: z.string().transform((str) => startOfDay(new Date(str))),
+    to: z.string().transform((str) => startOfDay(new Date(str))),
+  })
+  .refine((range) => !isNaN(range.from.getTime()) && !isNaN(range.to.getTime()), {
+    message: 'Invalid date',
+  })
+  .refine((range) => range.from <= range.to && getYear(range.to) - getYear(range.from) < 10, {
+    message: 'Range must run forwards and span at most ten years',
+    path: ['to'],
+  });
+
+const updateHolidaySchema = z.object({
+  date: z
+    .string()
+    .transform((str) => new Date(str))
+    .refine((date) => !isNaN(date.getTime()), { message: 'Invalid date' })
+    .optional(),
+  name: z.string().min(1, 'Holiday name is required').optional(),
+});
+
+// Get the holiday calendar for a year (computed holidays plus overrides)
+router.get('/', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const year = parseInt(req.query.year as string) || getYear(new Date());
+
+    const overrides = await prisma.holiday.findMany({
+      where: {
+        date: {
+          gte: new Date(year, 0, 1),
+          lt: new Date(year + 1, 0, 1),
+        },
+      },
+      include: {
+        createdByUser: {
+          select: { id: true, name: true },
+        },
+      },
+      orderBy: { date: 'asc' },
+    });
+
+    const computed = getSAPublicHolidaysWithNames(year).map((holiday) => {
+      const removal = overrides.find(
+        (override) => override.type === 'removed' && isSameDay(override.date, holiday.date)
+      );
+
+      return {
+        date: holiday.date,
+        name: holiday.name,
+        source: 'computed' as const,
+        isRemoved: !!removal,
+        override: removal || null,
+      };
+    });
+
+    const adhoc = overrides
+      .filter((override) => override.type === 'adhoc')
+      .map((override) => ({
+        date: override.date,
+        name: override.name,
+        source: 'adhoc' as const,
+        isRemoved: false,
+        override,
+      }));
+
+    const holidays = [...computed, ...adhoc].sort(
+      (a, b) => a.date.getTime() - b.date.getTime()
+    );
+
+    res.json({ year, holidays });
+  } catch (error) {
+    console.error('Get holidays error:', error);
+    res.status(500).json({ error: 'Failed to get holidays' });
+  }
+});
+
+// Effective holidays (computed plus ad-hoc, less removed) between two dates, for timelines
+router.get('/range', authenticate, loadBusinessCalendar, async (req: AuthRequest, res: Response) => {
+  try {
+    const validation = holidayRangeSchema.safeParse(req.query);
+
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const { from, to } = validation.data;
+    const holidays: PublicHoliday[] = [];
+    for (let year = getYear(from); year <= getYear(to); year++) {
+      holidays.push(
+        ...getPublicHolidays(year).filter((holiday) => holiday.date >= from && holiday.date <= to)
+      );
+    }
+
+    res.json({ holidays });
+  } catch (error) {
+    console.error('Get holiday range error:', error);
+    res.status(500).json({ error: 'Failed to get holidays' });
+  }
+});
+
+// Add an ad-hoc holiday or remove a computed one (Super Admin only)
+router.post('/', authenticate, requireSuperAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const validation = createHolidaySchema.safeParse(req.body);
+
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const data = validation.data;
+
+    const existing = await prisma.holiday.findUnique({
+      where: { date: data.date },
+    });
+
+    if (existing) {
+      res.status(400).json({ error: 'The holiday calendar already has an entry for this date' });
+      return;
+    }
+
+    const isComputedHoliday = getSAPublicHolidaysWithNames(getYear(data.date)).some(
+      (holiday) => isSameDay(holiday.date, data.date)
+    );
+
+    if (data.type === 'removed' && !isComputedHoliday) {
+      res.status(400).json({ error: 'Only standard public holidays can be removed' });
+      return;
+    }
+
+    await refreshBusinessCalendar();
+
+    if (data.type === 'adhoc' && isPublicHoliday(data.date)) {
+      res.status(400).json({ error: 'Date is already a public holiday' });
+      return;
+    }
+
+    const holiday = await prisma.holiday.create({
+      data: {
+        date: data.date,
+        name: data.name,
+        type: data.type,
+        createdBy: req.user!.id,
+      },
+      include: {
+        createdByUser: {
+          select: { id: true, name: true },
+        },
+      },
+    });
+
+    await refreshBusinessCalendar();
+
+    await recordAudit(req.user!, {
+      action: 'create',
+      entityType: 'holiday',
+      entityId: holiday.id,
+      summary:
+        holiday.type === 'removed'
+          ? `Removed public holiday ${holiday.name}`
+          : `Added holiday ${holiday.name}`,
+      after: toAuditSnapshot(holiday, ['date', 'name', 'type']),
+    });
+
+    res.status(201).json({ holiday });
+  } catch (error) {
+    console.error('Create holiday error:', error);
+    res.status(500).json({ error: 'Failed to create holiday' });
+  }
+});
+
+// Update an ad-hoc holiday (Super Admin only)
+router.patch('/:id', authenticate, requireSuperAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const validation = updateHolidaySchema.safeParse(req.body);
+
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const data = validation.data;
+
+    const holiday = await prisma.holiday.findUnique({
+      where: { id },
+    });
+
+    if (!holiday) {
+      res.status(404).json({ error: 'Holiday not found' });
+      return;
+    }
+
+    if (data.date && holiday.type === 'removed') {
+      res.status(400).json({ error: 'Cannot move a removed public holiday' });
+      return;
+    }
+
+    if (data.date && !isSameDay(data.date, holiday.date)) {
+      const existing = await prisma.holiday.findUnique({
+        where: { date: data.date },
+      });
+
+      if (existing) {
+        res.status(400).json({ error: 'The holiday calendar already has an entry for this date' });
+        return;
+      }
+
+      await refreshBusinessCalendar();
+
+      if (isPublicHoliday(data.date)) {
+        res.status(400).json({ error: 'Date is already a public holiday' });
+        return;
+      }
+    }
+
+    const updated = await prisma.holiday.update({
+      where: { id },
+      data,
+      include: {
+        createdByUser: {
+          select: { id: true, name: true },
+        },
+      },
+    });
+
+    await refreshBusinessCalendar();
+
+    const changes = diffAuditSnapshots(
+      toAuditSnapshot(holiday, ['date', 'name']),
+      toAuditSnapshot(updated, ['date', 'name'])
+    );
+
+    if (changes) {
+      await recordAudit(req.user!, {
+        action: 'update',
+        entityType: 'holiday',
+        entityId: id,
+        summary: `Updated holiday ${updated.name}`,
+        ...changes,
+      });
+    }
+
+    res.json({ holiday: updated });
+  } catch (error) {
+    console.error('Update holiday error:', error);
+    res.status(500).json({ error: 'Failed to update holiday' });
+  }
+});
+
+// Delete a holiday override (Super Admin only)
+// Deleting a removed holiday restores the standard public holiday
+router.delete('/:id', authenticate, requireSuperAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const holiday = await prisma.holiday.findUnique({
+      where: { id },
+    });
+
+    if (!holiday) {
+      res.status(404).json({ error: 'Holiday not found' });
+      return;
+    }
+
+    await prisma.holiday.delete({
+      where: { id },
+    });
+
+    await refreshBusinessCalendar();
+
+    await recordAudit(req.user!, {
+      action: 'delete',
+      entityType: 'holiday',
+      entityId: id,
+      summary:
+        holiday.type === 'removed'
+          ? `Restored public holiday ${holiday.name}`
+          : `Deleted holiday ${holiday.name}`,
+      before: toAuditSnapshot(holiday, ['date', 'name', 'type']),
+    });
+
+    res.json({ message: 'Holiday deleted successfully' });
+  } catch (error) {
+    console.error('Delete holiday error:', error);
+    res.status(500).json({ error: 'Failed to delete holiday' });
+  }
+});
+
+export default router;
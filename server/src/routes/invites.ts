@@ -0,0 +1,241 @@
+import { Router, Response } from 'express';
+import { PrismaClient, UserInvite } from '@prisma/client';
+import { z } from 'zod';
+import { addDays } from 'date-fns';
+import { AuthRequest, AuthUser, UserRole } from '../utils/types';
+import { authenticate, requireAdmin } from '../middleware/auth';
+import { recordAudit } from '../utils/audit';
+import { getAppUrl, sendMail } from '../utils/mailer';
+import { renderInviteEmail } from '../utils/emailTemplates';
+import { generateSecretToken, hashSecretToken } from '../utils/secureTokens';
+import { INVITE_TTL_DAYS } from '../utils/registration';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+const createInviteSchema = z.object({
+  email: z.string().trim().email('Invalid email address'),
+  name: z.string().trim().optional(),
+  role: z.enum(['staff', 'admin', 'superadmin']).default('staff'),
+});
+
+const inviteInclude = {
+  invitedByUser: {
+    select: { id: true, name: true },
+  },
+};
+
+type InviteStatus = 'pending' | 'accepted' | 'revoked' | 'expired';
+
+function getInviteStatus(invite: UserInvite): InviteStatus {
+  if (invite.acceptedAt) return 'accepted';
+  if (invite.revokedAt) return 'revoked';
+  if (invite.expiresAt < new Date()) return 'expired';
+  return 'pending';
+}
+
+// The token hash stays on the server
+function toInviteResponse(invite: UserInvite & { invitedByUser: { id: string; name: string } | null }) {
+  const { tokenHash, ...rest } = invite;
+  return { ...rest, status: getInviteStatus(invite) };
+}
+
+// Same rules as changing a user's role: admins invite staff, Super Admins invite anyone
+function canInviteAs(user: AuthUser, role: UserRole): boolean {
+  return user.role === 'superadmin' || role === 'staff';
+}
+
+// Email the invitation link; a failed send is logged so the invite can be resent
+async function sendInviteEmail(invite: UserInvite, token: string, inviterName: string) {
+  const email = renderInviteEmail(
+    inviterName,
+    invite.role,
+    `${getAppUrl()}/accept-invite?token=${token}`,
+    INVITE_TTL_DAYS
+  );
+
+  try {
+    await sendMail({ to: invite.email, ...email });
+  } catch (error) {
+    console.error(`Invite email to ${invite.email} failed:`, error);
+  }
+}
+
+// List invitations, newest first (Admin+)
+router.get('/', authenticate, requireAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const invites = await prisma.userInvite.findMany({
+      include: inviteInclude,
+      orderBy: { createdAt: 'desc' },
+      take: 100,
+    });
+
+    res.json({ invites: invites.map(toInviteResponse) });
+  } catch (error) {
+    console.error('Get invites error:', error);
+    res.status(500).json({ error: 'Failed to get invites' });
+  }
+});
+
+// Invite someone by email with a role (Admin+)
+// Replaces any pending invitation to the same address
+router.post('/', authenticate, requireAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const validation = createInviteSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const { email, name, role } = validation.data;
+    const currentUser = req.user!;
+
+    if (!canInviteAs(currentUser, role)) {
+      res.status(403).json({ error: 'Only Super Admin can invite Admins or Super Admins' });
+      return;
+    }
+
+    const existingUser = await prisma.user.findFirst({
+      where: { email: { equals: email, mode: 'insensitive' } },
+    });
+
+    if (existingUser) {
+      res.status(400).json({ error: 'A user with this email already exists' });
+      return;
+    }
+
+    const token = generateSecretToken();
+    const now = new Date();
+
+    const invite = await prisma.$transaction(async (tx) => {
+      await tx.userInvite.updateMany({
+        where: {
+          email: { equals: email, mode: 'insensitive' },
+          acceptedAt: null,
+          revokedAt: null,
+        },
+        data: { revokedAt: now },
+      });
+
+      const created = await tx.userInvite.create({
+        data: {
+          email,
+          name: name || null,
+          role,
+          tokenHash: hashSecretToken(token),
+          expiresAt: addDays(now, INVITE_TTL_DAYS),
+          invitedBy: currentUser.id,
+        },
+        include: inviteInclude,
+      });
+
+      await recordAudit(
+        currentUser,
+        {
+          action: 'create',
+          entityType: 'invite',
+          entityId: created.id,
+          summary: `Invited ${email} as ${role}`,
+          after: { email, name: name || null, role },
+        },
+        tx
+      );
+
+      return created;
+    });
+
+    await sendInviteEmail(invite, token, currentUser.name);
+
+    res.status(201).json({ invite: toInviteResponse(invite) });
+  } catch (error) {
+    console.error('Create invite error:', error);
+    res.status(500).json({ error: 'Failed to create invite' });
+  }
+});
+
+// Send a fresh link for a pending or expired invitation, restarting its expiry (Admin+)
+router.post('/:id/resend', authenticate, requireAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const existing = await prisma.userInvite.findUnique({
+      where: { id: req.params.id },
+    });
+
+    if (!existing) {
+      res.status(404).json({ error: 'Invite not found' });
+      return;
+    }
+
+    if (existing.acceptedAt || existing.revokedAt) {
+      res.status(400).json({ error: 'Only pending or expired invites can be resent' });
+      return;
+    }
+
+    if (!canInviteAs(req.user!, existing.role as UserRole)) {
+      res.status(403).json({ error: 'Only Super Admin can invite Admins or Super Admins' });
+      return;
+    }
+
+    // A new token, so the link in the earlier email stops working
+    const token = generateSecretToken();
+    const invite = await prisma.userInvite.update({
+      where: { id: existing.id },
+      data: {
+        tokenHash: hashSecretToken(token),
+        expiresAt: addDays(new Date(), INVITE_TTL_DAYS),
+      },
+      include: inviteInclude,
+    });
+
+    await sendInviteEmail(invite, token, req.user!.name);
+
+    res.json({ invite: toInviteResponse(invite) });
+  } catch (error) {
+    console.error('Resend invite error:', error);
+    res.status(500).json({ error: 'Failed to resend invite' });
+  }
+});
+
+// Revoke an invitation so its link no longer works (Admin+)
+router.delete('/:id', authenticate, requireAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const existing = await prisma.userInvite.findUnique({
+      where: { id: req.params.id },
+    });
+
+    if (!existing) {
+      res.status(404).json({ error: 'Invite not found' });
+      return;
+    }
+
+    if (existing.acceptedAt) {
+      res.status(400).json({ error: 'This invite has already been accepted' });
+      return;
+    }
+
+    if (!existing.revokedAt) {
+      await prisma.userInvite.update({
+        where: { id: existing.id },
+        data: { revokedAt: new Date() },
+      });
+
+      await recordAudit(req.user!, {
+        action: 'delete',
+        entityType: 'invite',
+        entityId: existing.id,
+        summary: `Revoked the invite for ${existing.email}`,
+        before: { email: existing.email, role: existing.role },
+      });
+    }
+
+    res.json({ message: 'Invite revoked' });
+  } catch (error) {
+    console.error('Revoke invite error:', error);
+    res.status(500).json({ error: 'Failed to revoke invite' });
+  }
+});
+
+export default router;
@@ -1,106 +1,44 @@
 import { Router, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
-import { AuthRequest, NotificationType } from '../utils/types';
+import { z } from 'zod';
+import { AuthRequest } from '../utils/types';
 import { authenticate } from '../middleware/auth';
-import { getBusinessDaysUntil, PHASE_ORDER, PhaseName, PHASE_DISPLAY_NAMES } from '../utils/businessDays';
+import { generateNotifications } from '../utils/notificationJob';
+import { PROJECT_SCOPES, loadNotificationPreferences } from '../utils/notificationPreferences';
 
 const router = Router();
 const prisma = new PrismaClient();
 
-// Generate/update notifications for a user
-async function generateNotificationsForUser(userId: string): Promise<void> {
-  // Get all projects with incomplete phases
-  const projects = await prisma.project.findMany({
-    include: {
-      phases: true,
-    },
-  });
-
-  for (const project of projects) {
-    for (const phase of project.phases) {
-      // Skip completed phases
-      if (phase.isComplete) {
-        // Delete any existing notification for completed phase
-        await prisma.notification.deleteMany({
-          where: {
-            userId,
-            projectId: project.id,
-            phaseName: phase.phaseName,
-          },
-        });
-        continue;
-      }
-
-      // Skip wayleave if disabled
-      if (phase.phaseName === 'wayleave' && phase.allowedDays === 0) {
-        continue;
-      }
-
-      const daysUntil = getBusinessDaysUntil(phase.deadline);
-      let type: NotificationType | null = null;
-      let message = '';
-
-      const phaseName = PHASE_DISPLAY_NAMES[phase.phaseName as PhaseName] || phase.phaseName;
-
-      if (daysUntil < 0) {
-        type = 'overdue';
-        message = `${project.customerName} - ${phaseName} is ${Math.abs(daysUntil)} business day${Math.abs(daysUntil) !== 1 ? 's' : ''} overdue`;
-      } else if (daysUntil === 0) {
-        type = 'urgent';
-        message = `${project.customerName} - ${phaseName} deadline is today`;
-      } else if (daysUntil === 1) {
-        type = 'urgent';
-        message = `${project.customerName} - ${phaseName} deadline is tomorrow`;
-      } else if (daysUntil <= 3) {
-        type = 'warning';
-        message = `${project.customerName} - ${phaseName} deadline in ${daysUntil} business days`;
-      }
-
-      if (type) {
-        // Upsert notification
-        await prisma.notification.upsert({
-          where: {
-            userId_projectId_phaseName: {
-              userId,
-              projectId: project.id,
-              phaseName: phase.phaseName,
-            },
-          },
-          create: {
-            userId,
-            projectId: project.id,
-            phaseName: phase.phaseName,
-            type,
-            message,
-            isRead: false,
-          },
-          update: {
-            type,
-            message,
-            // Don't reset isRead if notification already existed
-          },
-        });
-      } else {
-        // Remove notification if deadline is not approaching
-        await prisma.notification.deleteMany({
-          where: {
-            userId,
-            projectId: project.id,
-            phaseName: phase.phaseName,
-          },
-        });
-      }
-    }
-  }
-}
+const leadTimeSchema = z.number().int().min(0).max(30);
+const hourSchema = z.number().int().min(0).max(23).nullable();
+
+const updatePreferencesSchema = z.object({
+  inAppEnabled: z.boolean().optional(),
+  emailAlertsEnabled: z.boolean().optional(),
+  emailDigestEnabled: z.boolean().optional(),
+  notifyWarning: z.boolean().optional(),
+  notifyUrgent: z.boolean().optional(),
+  notifyOverdue: z.boolean().optional(),
+  warningDays: leadTimeSchema.optional(),
+  urgentDays: leadTimeSchema.optional(),
+  phaseWarningDays: z.record(z.string().min(1), leadTimeSchema).optional(),
+  projectScope: z.enum(PROJECT_SCOPES as [string, ...string[]]).optional(),
+  quietHoursStart: hourSchema.optional(),
+  quietHoursEnd: hourSchema.optional(),
+});
 
 // Get notifications for current user
+// Notifications are generated by the background job, so this is a plain read
 router.get('/', authenticate, async (req: AuthRequest, res: Response) => {
   try {
     const userId = req.user!.id;
 
-    // Generate/update notifications
-    await generateNotificationsForUser(userId);
+    // Users who switched off in-app notifications only get them by email
+    const preferences = await loadNotificationPreferences(userId);
+    if (!preferences.inAppEnabled) {
+      res.json({ notifications: [], unreadCount: 0 });
+      return;
+    }
 
     // Fetch notifications
     const notifications = await prisma.notification.findMany({
@@ -129,6 +67,61 @@ router.get('/', authenticate, async (req: AuthRequest, res: Response) => {
   }
 });
 
+// Get the current user's notification preferences (defaults if never saved)
+router.get('/preferences', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const preferences = await loadNotificationPreferences(req.user!.id);
+    res.json({ preferences });
+  } catch (error) {
+    console.error('Get notification preferences error:', error);
+    res.status(500).json({ error: 'Failed to get notification preferences' });
+  }
+});
+
+// Update the current user's notification preferences
+router.patch('/preferences', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const validation = updatePreferencesSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const userId = req.user!.id;
+    const current = await loadNotificationPreferences(userId);
+    const merged = { ...current, ...validation.data };
+
+    if (merged.urgentDays > merged.warningDays) {
+      res.status(400).json({ error: 'Urgent lead time cannot be longer than the warning lead time' });
+      return;
+    }
+
+    if ((merged.quietHoursStart === null) !== (merged.quietHoursEnd === null)) {
+      res.status(400).json({ error: 'Quiet hours need both a start and an end' });
+      return;
+    }
+
+    await prisma.notificationPreference.upsert({
+      where: { userId },
+      create: { ...merged, userId },
+      update: merged,
+    });
+
+    // Apply the new thresholds straight away rather than on the next scheduled run
+    await generateNotifications(userId);
+
+    const preferences = await loadNotificationPreferences(userId);
+    res.json({ preferences });
+  } catch (error) {
+    console.error('Update notification preferences error:', error);
+    res.status(500).json({ error: 'Failed to update notification preferences' });
+  }
+});
+
 // Mark notification as read
 router.patch('/:id/read', authenticate, async (req: AuthRequest, res: Response) => {
   try {
@@ -1,12 +1,22 @@
 import { Router, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
+import { z } from 'zod';
 import { AuthRequest } from '../utils/types';
 import { authenticate, requireAdmin } from '../middleware/auth';
-import { MIRROR_PHASES, PhaseName } from '../utils/businessDays';
+import { getPhaseDisplayName, loadTemplatePhaseDefinitions } from '../utils/phaseTemplates';
+import { diffAuditSnapshots, recordAudit, toAuditValue } from '../utils/audit';
+import { canManageProject } from '../utils/projectAccess';
+import { generateNotifications } from '../utils/notificationJob';
+import { publishEvent } from '../utils/events';
+import { queueWebhookEvent, toWebhookProject } from '../utils/webhooks';
 
 const router = Router();
 const prisma = new PrismaClient();
 
+const updateAssigneeSchema = z.object({
+  assigneeId: z.string().nullable(),
+});
+
 // Mark phase as complete
 router.post('/:id/complete', authenticate, async (req: AuthRequest, res: Response) => {
   try {
@@ -14,6 +24,22 @@ router.post('/:id/complete', authenticate, async (req: AuthRequest, res: Respons
 
     const phase = await prisma.projectPhase.findUnique({
       where: { id },
+      include: {
+        project: {
+          select: {
+            id: true,
+            templateId: true,
+            orderNumber: true,
+            customerName: true,
+            pnr: true,
+            region: true,
+            siteSurveyDate: true,
+          },
+        },
+        completedByUser: {
+          select: { name: true },
+        },
+      },
     });
 
     if (!phase) {
@@ -29,39 +55,68 @@ router.post('/:id/complete', authenticate, async (req: AuthRequest, res: Respons
     const now = new Date();
     const userId = req.user!.id;
 
-    // Update the phase
-    await prisma.projectPhase.update({
-      where: { id },
-      data: {
-        isComplete: true,
-        completedBy: userId,
-        completedAt: now,
-      },
-    });
+    // Phases that mirror this one in the project's template are completed with it
+    // e.g. Build -> FQA, RFA -> COM
+    const definitions = await loadTemplatePhaseDefinitions(phase.project.templateId);
+    const mirrorPhaseNames = definitions
+      .filter((definition) => definition.mirrorOf === phase.phaseName)
+      .map((definition) => definition.key);
+    const mirrorNames = mirrorPhaseNames.map((key) => getPhaseDisplayName(definitions, key));
 
-    // Check if this phase has a mirror phase that should also be completed
-    // Build -> FQA, RFA -> COM
-    let mirrorPhaseName: string | null = null;
-    if (phase.phaseName === 'build') {
-      mirrorPhaseName = 'fqa';
-    } else if (phase.phaseName === 'rfa') {
-      mirrorPhaseName = 'com';
-    }
-
-    if (mirrorPhaseName) {
-      await prisma.projectPhase.update({
-        where: {
-          projectId_phaseName: {
-            projectId: phase.projectId,
-            phaseName: mirrorPhaseName,
-          },
-        },
+    const completed = await prisma.$transaction(async (tx) => {
+      // Only one request can complete the phase, so two racing clicks don't both record it
+      const claimed = await tx.projectPhase.updateMany({
+        where: { id, isComplete: false },
         data: {
           isComplete: true,
           completedBy: userId,
           completedAt: now,
         },
       });
+      if (claimed.count === 0) {
+        return false;
+      }
+
+      if (mirrorPhaseNames.length > 0) {
+        await tx.projectPhase.updateMany({
+          where: {
+            projectId: phase.projectId,
+            phaseName: { in: mirrorPhaseNames },
+          },
+          data: {
+            isComplete: true,
+            completedBy: userId,
+            completedAt: now,
+          },
+        });
+      }
+
+      await recordAudit(
+        req.user!,
+        {
+          action: 'complete',
+          entityType: 'phase',
+          entityId: phase.id,
+          projectId: phase.projectId,
+          summary:
+            `Completed ${getPhaseDisplayName(definitions, phase.phaseName)} on project ${phase.project.orderNumber}` +
+            (mirrorNames.length > 0 ? ` (with ${mirrorNames.join(', ')})` : ''),
+          before: {
+            isComplete: phase.isComplete,
+            completedBy: phase.completedByUser?.name ?? null,
+            completedAt: toAuditValue(phase.completedAt),
+          },
+          after: { isComplete: true, completedBy: req.user!.name, completedAt: now.toISOString() },
+        },
+        tx
+      );
+
+      return true;
+    });
+
+    if (!completed) {
+      res.status(409).json({ error: 'Phase is already complete' });
+      return;
     }
 
     // Clear notifications for this phase
@@ -73,11 +128,11 @@ router.post('/:id/complete', authenticate, async (req: AuthRequest, res: Respons
     });
 
     // Also clear mirror phase notifications
-    if (mirrorPhaseName) {
+    if (mirrorPhaseNames.length > 0) {
       await prisma.notification.deleteMany({
         where: {
           projectId: phase.projectId,
-          phaseName: mirrorPhaseName,
+          phaseName: { in: mirrorPhaseNames },
         },
       });
     }
@@ -92,6 +147,20 @@ router.post('/:id/complete', authenticate, async (req: AuthRequest, res: Respons
       },
     });
 
+    publishEvent({ type: 'phase', action: 'completed', projectId: phase.projectId, phaseId: phase.id });
+    publishEvent({ type: 'notifications' });
+    await queueWebhookEvent('phase.completed', {
+      phase: {
+        id: phase.id,
+        key: phase.phaseName,
+        name: getPhaseDisplayName(definitions, phase.phaseName),
+        completedAt: now.toISOString(),
+        completedBy: { id: userId, name: req.user!.name },
+      },
+      mirroredPhases: mirrorPhaseNames,
+      project: toWebhookProject(phase.project),
+    });
+
     res.json({ phase: updatedPhase });
   } catch (error) {
     console.error('Complete phase error:', error);
@@ -106,6 +175,22 @@ router.post('/:id/uncomplete', authenticate, requireAdmin, async (req: AuthReque
 
     const phase = await prisma.projectPhase.findUnique({
       where: { id },
+      include: {
+        project: {
+          select: {
+            id: true,
+            templateId: true,
+            orderNumber: true,
+            customerName: true,
+            pnr: true,
+            region: true,
+            siteSurveyDate: true,
+          },
+        },
+        completedByUser: {
+          select: { name: true },
+        },
+      },
     });
 
     if (!phase) {
@@ -118,38 +203,68 @@ router.post('/:id/uncomplete', authenticate, requireAdmin, async (req: AuthReque
       return;
     }
 
-    // Update the phase
-    await prisma.projectPhase.update({
-      where: { id },
-      data: {
-        isComplete: false,
-        completedBy: null,
-        completedAt: null,
-      },
-    });
-
-    // Check if this phase has a mirror phase that should also be uncompleted
-    let mirrorPhaseName: string | null = null;
-    if (phase.phaseName === 'build') {
-      mirrorPhaseName = 'fqa';
-    } else if (phase.phaseName === 'rfa') {
-      mirrorPhaseName = 'com';
-    }
+    // Check if this phase has mirror phases that should also be uncompleted
+    const definitions = await loadTemplatePhaseDefinitions(phase.project.templateId);
+    const mirrorPhaseNames = definitions
+      .filter((definition) => definition.mirrorOf === phase.phaseName)
+      .map((definition) => definition.key);
+    const mirrorNames = mirrorPhaseNames.map((key) => getPhaseDisplayName(definitions, key));
 
-    if (mirrorPhaseName) {
-      await prisma.projectPhase.update({
-        where: {
-          projectId_phaseName: {
-            projectId: phase.projectId,
-            phaseName: mirrorPhaseName,
-          },
-        },
+    const reopened = await prisma.$transaction(async (tx) => {
+      // Only one request can reopen the phase, so two racing clicks don't both record it
+      const claimed = await tx.projectPhase.updateMany({
+        where: { id, isComplete: true },
         data: {
           isComplete: false,
           completedBy: null,
           completedAt: null,
         },
       });
+      if (claimed.count === 0) {
+        return false;
+      }
+
+      if (mirrorPhaseNames.length > 0) {
+        await tx.projectPhase.updateMany({
+          where: {
+            projectId: phase.projectId,
+            phaseName: { in: mirrorPhaseNames },
+          },
+          data: {
+            isComplete: false,
+            completedBy: null,
+            completedAt: null,
+          },
+        });
+      }
+
+      // Keep who completed the phase and when, since the phase itself no longer does
+      await recordAudit(
+        req.user!,
+        {
+          action: 'uncomplete',
+          entityType: 'phase',
+          entityId: phase.id,
+          projectId: phase.projectId,
+          summary:
+            `Reopened ${getPhaseDisplayName(definitions, phase.phaseName)} on project ${phase.project.orderNumber}` +
+            (mirrorNames.length > 0 ? ` (with ${mirrorNames.join(', ')})` : ''),
+          before: {
+            isComplete: phase.isComplete,
+            completedBy: phase.completedByUser?.name ?? null,
+            completedAt: toAuditValue(phase.completedAt),
+          },
+          after: { isComplete: false, completedBy: null, completedAt: null },
+        },
+        tx
+      );
+
+      return true;
+    });
+
+    if (!reopened) {
+      res.status(409).json({ error: 'Phase is not complete' });
+      return;
     }
 
     // Fetch updated phase
@@ -162,6 +277,18 @@ router.post('/:id/uncomplete', authenticate, requireAdmin, async (req: AuthReque
       },
     });
 
+    publishEvent({ type: 'phase', action: 'reopened', projectId: phase.projectId, phaseId: phase.id });
+    await queueWebhookEvent('phase.reopened', {
+      phase: {
+        id: phase.id,
+        key: phase.phaseName,
+        name: getPhaseDisplayName(definitions, phase.phaseName),
+        reopenedBy: { id: req.user!.id, name: req.user!.name },
+      },
+      mirroredPhases: mirrorPhaseNames,
+      project: toWebhookProject(phase.project),
+    });
+
     res.json({ phase: updatedPhase });
   } catch (error) {
     console.error('Uncomplete phase error:', error);
@@ -169,4 +296,99 @@ router.post('/:id/uncomplete', authenticate, requireAdmin, async (req: AuthReque
   }
 });
 
+// Assign a phase to someone (Admin+ or the project owner)
+router.patch('/:id/assignee', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const validation = updateAssigneeSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const { assigneeId } = validation.data;
+
+    const phase = await prisma.projectPhase.findUnique({
+      where: { id },
+      include: {
+        project: {
+          select: { templateId: true, orderNumber: true, ownerId: true, createdBy: true },
+        },
+        assignee: {
+          select: { name: true },
+        },
+      },
+    });
+
+    if (!phase) {
+      res.status(404).json({ error: 'Phase not found' });
+      return;
+    }
+
+    if (!canManageProject(req.user!, phase.project)) {
+      res.status(403).json({ error: 'Only admins or the project owner can assign phases' });
+      return;
+    }
+
+    const assignee = assigneeId
+      ? await prisma.user.findUnique({ where: { id: assigneeId }, select: { id: true, name: true } })
+      : null;
+
+    if (assigneeId && !assignee) {
+      res.status(400).json({ error: 'User not found' });
+      return;
+    }
+
+    const updatedPhase = await prisma.projectPhase.update({
+      where: { id },
+      data: { assigneeId: assignee?.id ?? null },
+      include: {
+        completedByUser: {
+          select: { id: true, name: true },
+        },
+        assignee: {
+          select: { id: true, name: true },
+        },
+      },
+    });
+
+    const changes = diffAuditSnapshots(
+      { assignee: phase.assignee?.name ?? null },
+      { assignee: assignee?.name ?? null }
+    );
+
+    if (changes) {
+      const definitions = await loadTemplatePhaseDefinitions(phase.project.templateId);
+      const phaseName = getPhaseDisplayName(definitions, phase.phaseName);
+
+      await recordAudit(req.user!, {
+        action: 'update',
+        entityType: 'phase',
+        entityId: phase.id,
+        projectId: phase.projectId,
+        summary: assignee
+          ? `Assigned ${phaseName} on project ${phase.project.orderNumber} to ${assignee.name}`
+          : `Unassigned ${phaseName} on project ${phase.project.orderNumber}`,
+        ...changes,
+      });
+    }
+
+    // The previous and new assignee's notifications follow the change straight away
+    for (const userId of new Set([phase.assigneeId, assignee?.id])) {
+      if (userId) await generateNotifications(userId);
+    }
+
+    publishEvent({ type: 'phase', action: 'assigned', projectId: phase.projectId, phaseId: phase.id });
+
+    res.json({ phase: updatedPhase });
+  } catch (error) {
+    console.error('Update phase assignee error:', error);
+    res.status(500).json({ error: 'Failed to update phase assignee' });
+  }
+});
+
 export default router;
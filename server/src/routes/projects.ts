@@ -1,15 +1,44 @@
-import { Router, Response } from 'express';
-import { PrismaClient } from '@prisma/client';
+import express, { Router, Response } from 'express';
+import { PrismaClient, Project, ProjectPhase } from '@prisma/client';
 import { z } from 'zod';
-import { AuthRequest } from '../utils/types';
+import { endOfDay, format } from 'date-fns';
+import { AuthRequest, PhaseDefinition, REGIONS } from '../utils/types';
 import { authenticate, requireAdmin, requireSuperAdmin } from '../middleware/auth';
+import { loadBusinessCalendar } from '../middleware/calendar';
 import {
   calculatePhaseDeadlines,
   calculatePhaseDeadlinesFromDeadline,
-  PHASE_ORDER,
-  PhaseName,
+  analyzeCriticalPath,
+  calculateForecastDeadlines,
+  getPhasePredecessors,
   getBusinessDaysUntil,
+  getBusinessDaysBetween,
+  calculatePhaseStarts,
 } from '../utils/businessDays';
+import {
+  getPhaseDefinitions,
+  getPhaseDisplayName,
+  isPhaseSkipped,
+  loadPhaseTemplateCatalog,
+  loadTemplatePhaseDefinitions,
+  sortPhasesByTemplate,
+} from '../utils/phaseTemplates';
+import { AuditSnapshot, diffAuditSnapshots, recordAudit, toAuditSnapshot } from '../utils/audit';
+import { buildProjectListWhere } from '../utils/projectQuery';
+import { getDeadlineBand, loadNotificationPreferences } from '../utils/notificationPreferences';
+import { canManageProject } from '../utils/projectAccess';
+import { getProjectProgress, ProjectStatus } from '../utils/projectProgress';
+import { generateNotifications } from '../utils/notificationJob';
+import { publishEvent } from '../utils/events';
+import { queueWebhookEvent, toWebhookProject } from '../utils/webhooks';
+import { ImportRow, parseProjectSpreadsheet } from '../utils/projectImport';
+import {
+  EXPORT_CONTENT_TYPES,
+  EXPORT_FORMATS,
+  ExportValue,
+  renderSpreadsheet,
+} from '../utils/spreadsheetExport';
+import { renderProjectReport, ReportPhase, ReportPhaseStatus } from '../utils/projectReport';
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -21,13 +50,28 @@ const createProjectSchema = z.object({
   timelineProvidedBy: z.string().min(1, 'Timeline Provided By is required'),
   timelineDateProvided: z.string().transform((str) => new Date(str)),
   siteSurveyDate: z.string().transform((str) => new Date(str)),
+  region: z.enum(REGIONS).nullable().optional(),
+  templateId: z.string().optional(),
 });
 
+// Spreadsheet rows follow the create rules; the template is chosen for the whole file
+const importProjectSchema = createProjectSchema
+  .omit({ templateId: true })
+  .refine((row) => !isNaN(row.timelineDateProvided.getTime()), {
+    message: 'Invalid date',
+    path: ['timelineDateProvided'],
+  })
+  .refine((row) => !isNaN(row.siteSurveyDate.getTime()), {
+    message: 'Invalid date',
+    path: ['siteSurveyDate'],
+  });
+
 const updateProjectSchema = z.object({
   siteSurveyDate: z
     .string()
     .transform((str) => new Date(str))
     .optional(),
+  region: z.enum(REGIONS).nullable().optional(),
   phases: z
     .array(
       z.object({
@@ -39,72 +83,406 @@ const updateProjectSchema = z.object({
     .optional(),
 });
 
-// Get all projects
-router.get('/', authenticate, async (req: AuthRequest, res: Response) => {
-  try {
-    const projects = await prisma.project.findMany({
+const listProjectsSchema = z.object({
+  q: z.string().trim().optional(),
+  status: z.enum(['on-track', 'at-risk', 'overdue', 'complete']).optional(),
+  createdBy: z.string().optional(),
+  owner: z.string().optional(),
+  assignee: z.string().optional(),
+  involved: z.string().optional(),
+  surveyFrom: z
+    .string()
+    .transform((str) => new Date(str))
+    .refine((date) => !isNaN(date.getTime()), { message: 'Invalid date' })
+    .optional(),
+  surveyTo: z
+    .string()
+    .transform((str) => endOfDay(new Date(str)))
+    .refine((date) => !isNaN(date.getTime()), { message: 'Invalid date' })
+    .optional(),
+  overduePhase: z.string().optional(),
+  sortBy: z
+    .enum(['createdAt', 'updatedAt', 'orderNumber', 'customerName', 'siteSurveyDate'])
+    .default('createdAt'),
+  sortOrder: z.enum(['asc', 'desc']).default('desc'),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+});
+
+// The list filters and sorting, without paging
+const exportProjectsSchema = listProjectsSchema.omit({ cursor: true, limit: true }).extend({
+  format: z.enum(EXPORT_FORMATS).default('csv'),
+});
+
+const updateOwnerSchema = z.object({
+  ownerId: z.string().nullable(),
+});
+
+// People filters accept "me" for the current user
+const USER_FILTER_KEYS = ['createdBy', 'owner', 'assignee', 'involved'] as const;
+
+const PROJECT_AUDIT_FIELDS: (keyof Project)[] = [
+  'orderNumber',
+  'customerName',
+  'pnr',
+  'timelineProvidedBy',
+  'timelineDateProvided',
+  'siteSurveyDate',
+  'region',
+  'templateId',
+];
+
+// Flatten a project's schedule (e.g. "build.deadline") so updates can be diffed per field
+function toScheduleSnapshot(
+  siteSurveyDate: Date,
+  region: string | null,
+  phases: { phaseName: string; allowedDays: number; deadline: Date }[]
+): AuditSnapshot {
+  const snapshot: AuditSnapshot = {
+    siteSurveyDate: siteSurveyDate.toISOString(),
+    region,
+  };
+
+  for (const phase of phases) {
+    snapshot[`${phase.phaseName}.allowedDays`] = phase.allowedDays;
+    snapshot[`${phase.phaseName}.deadline`] = phase.deadline.toISOString();
+  }
+
+  return snapshot;
+}
+
+// A phase's status using the project list's fixed bands rather than a viewer's lead times
+function getPhaseStatus(
+  phase: ProjectPhase,
+  definition: PhaseDefinition | undefined,
+  region: string | null
+): ReportPhaseStatus {
+  if (phase.isComplete) return 'complete';
+  if (isPhaseSkipped(definition, phase.allowedDays)) return 'skipped';
+
+  const daysUntil = getBusinessDaysUntil(phase.deadline, region);
+  if (daysUntil < 0) return 'overdue';
+  if (daysUntil <= 3) return 'at-risk';
+  return 'on-track';
+}
+
+// Start dates of a project's phases, from its stored deadlines
+function getProjectPhaseStarts(
+  project: { siteSurveyDate: Date; region: string | null; phases: ProjectPhase[] },
+  definitions: PhaseDefinition[]
+): Record<string, Date> {
+  const allowedDays: Record<string, number> = {};
+  const deadlines: Record<string, Date> = {};
+  for (const phase of project.phases) {
+    allowedDays[phase.phaseName] = phase.allowedDays;
+    deadlines[phase.phaseName] = phase.deadline;
+  }
+
+  return calculatePhaseStarts(project.siteSurveyDate, definitions, allowedDays, deadlines, project.region);
+}
+
+// Resolve "me" in the people filters to the current user
+function resolveUserFilters<T extends Partial<Record<(typeof USER_FILTER_KEYS)[number], string>>>(
+  filters: T,
+  userId: string
+): T {
+  for (const key of USER_FILTER_KEYS) {
+    if (filters[key] === 'me') {
+      filters[key] = userId as T[typeof key];
+    }
+  }
+  return filters;
+}
+
+// One page of the filtered project list, with the number of matching projects
+// Returns null when the cursor doesn't name a project
+async function findProjectPage(query: z.infer<typeof listProjectsSchema>, userId: string) {
+  const { sortBy, sortOrder, cursor, limit, ...filters } = query;
+
+  if (cursor && !(await prisma.project.findUnique({ where: { id: cursor }, select: { id: true } }))) {
+    return null;
+  }
+
+  resolveUserFilters(filters, userId);
+  const catalog = await loadPhaseTemplateCatalog();
+  const where = buildProjectListWhere(filters, catalog);
+
+  // Fetch one extra project to know whether there is another page
+  const [page, totalCount] = await Promise.all([
+    prisma.project.findMany({
+      where,
+      orderBy: [{ [sortBy]: sortOrder }, { id: sortOrder }],
+      take: limit + 1,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
       include: {
         createdByUser: {
           select: { id: true, name: true },
         },
+        owner: {
+          select: { id: true, name: true },
+        },
+        template: {
+          select: { id: true, name: true },
+        },
         phases: {
           orderBy: { phaseName: 'asc' },
         },
       },
-      orderBy: { createdAt: 'desc' },
-    });
+    }),
+    prisma.project.count({ where }),
+  ]);
+
+  const hasMore = page.length > limit;
+  const projects = hasMore ? page.slice(0, limit) : page;
+
+  return {
+    catalog,
+    projects,
+    nextCursor: hasMore ? projects[projects.length - 1].id : null,
+    totalCount,
+  };
+}
+
+// List projects with filters, sorting and cursor pagination
+// Pages with ?cursor=<id of the last project returned>
+router.get('/', authenticate, loadBusinessCalendar, async (req: AuthRequest, res: Response) => {
+  try {
+    const validation = listProjectsSchema.safeParse(req.query);
+
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const page = await findProjectPage(validation.data, req.user!.id);
+
+    if (!page) {
+      res.status(400).json({ error: 'Invalid cursor' });
+      return;
+    }
+
+    const { catalog, projects, nextCursor, totalCount } = page;
 
     // Calculate status for each project
-    const projectsWithStatus = projects.map((project) => {
-      const phases = project.phases;
-      const completedCount = phases.filter((p) => p.isComplete).length;
-      const totalPhases = phases.filter((p) => {
-        // Don't count wayleave if it's disabled (0 days)
-        if (p.phaseName === 'wayleave' && p.allowedDays === 0) return false;
-        // Don't count mirror phases separately
-        if (p.phaseName === 'fqa' || p.phaseName === 'com') return false;
-        return true;
-      }).length;
-
-      let status: 'complete' | 'overdue' | 'at-risk' | 'on-track' = 'on-track';
-
-      if (completedCount === totalPhases && totalPhases > 0) {
-        status = 'complete';
-      } else {
-        for (const phase of phases) {
-          if (phase.isComplete) continue;
-          if (phase.phaseName === 'wayleave' && phase.allowedDays === 0) continue;
-
-          const daysUntil = getBusinessDaysUntil(phase.deadline);
-
-          if (daysUntil < 0) {
-            status = 'overdue';
-            break;
-          } else if (daysUntil <= 3) {
-            if (status === 'on-track') {
-              status = 'at-risk';
-            }
-          }
-        }
-      }
+    const projectsWithStatus = projects.map((project) => ({
+      ...project,
+      ...getProjectProgress(project, getPhaseDefinitions(catalog, project.templateId)),
+    }));
+
+    res.json({
+      projects: projectsWithStatus,
+      nextCursor,
+      totalCount,
+    });
+  } catch (error) {
+    console.error('Get projects error:', error);
+    res.status(500).json({ error: 'Failed to get projects' });
+  }
+});
+
+// Phase schedules for the portfolio timeline, one page of the filtered list at a time
+// Takes the list's filters, sorting and paging
+router.get('/timeline', authenticate, loadBusinessCalendar, async (req: AuthRequest, res: Response) => {
+  try {
+    const validation = listProjectsSchema.safeParse(req.query);
+
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const page = await findProjectPage(validation.data, req.user!.id);
+
+    if (!page) {
+      res.status(400).json({ error: 'Invalid cursor' });
+      return;
+    }
+
+    const { catalog, projects, nextCursor, totalCount } = page;
+
+    const timelines = projects.map((project) => {
+      const definitions = getPhaseDefinitions(catalog, project.templateId);
+      const starts = getProjectPhaseStarts(project, definitions);
 
       return {
-        ...project,
-        status,
-        completedPhases: completedCount,
-        totalPhases,
+        id: project.id,
+        orderNumber: project.orderNumber,
+        customerName: project.customerName,
+        region: project.region,
+        siteSurveyDate: project.siteSurveyDate,
+        ...getProjectProgress(project, definitions),
+        phases: sortPhasesByTemplate(project.phases, definitions).map((phase) => {
+          const definition = definitions.find((d) => d.key === phase.phaseName);
+
+          return {
+            phaseName: phase.phaseName,
+            displayName: definition?.displayName || phase.phaseName,
+            mirrorOf: definition?.mirrorOf || null,
+            startDate: starts[phase.phaseName] || project.siteSurveyDate,
+            deadline: phase.deadline,
+            isComplete: phase.isComplete,
+            completedAt: phase.completedAt,
+            status: getPhaseStatus(phase, definition, project.region),
+          };
+        }),
       };
     });
 
-    res.json({ projects: projectsWithStatus });
+    res.json({ projects: timelines, nextCursor, totalCount });
   } catch (error) {
-    console.error('Get projects error:', error);
-    res.status(500).json({ error: 'Failed to get projects' });
+    console.error('Get project timeline error:', error);
+    res.status(500).json({ error: 'Failed to get project timeline' });
+  }
+});
+
+const STATUS_LABELS: Record<ProjectStatus, string> = {
+  complete: 'Complete',
+  overdue: 'Overdue',
+  'at-risk': 'At risk',
+  'on-track': 'On track',
+};
+
+// Export the filtered project list as CSV or XLSX, one row per project with
+// every phase's deadline, completion and business days late
+// Takes the list's filters and sorting, plus ?format=csv|xlsx
+router.get('/export', authenticate, loadBusinessCalendar, async (req: AuthRequest, res: Response) => {
+  try {
+    const validation = exportProjectsSchema.safeParse(req.query);
+
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const { sortBy, sortOrder, format: fileFormat, ...filters } = validation.data;
+    resolveUserFilters(filters, req.user!.id);
+    const catalog = await loadPhaseTemplateCatalog();
+
+    const projects = await prisma.project.findMany({
+      where: buildProjectListWhere(filters, catalog),
+      orderBy: [{ [sortBy]: sortOrder }, { id: sortOrder }],
+      include: {
+        createdByUser: {
+          select: { name: true },
+        },
+        owner: {
+          select: { name: true },
+        },
+        phases: {
+          include: {
+            completedByUser: {
+              select: { name: true },
+            },
+          },
+        },
+      },
+    });
+
+    // One set of phase columns per phase key of the templates in the export,
+    // in template order with the default template first
+    const usedTemplateIds = new Set(
+      projects.map((project) => project.templateId || catalog.defaultTemplateId)
+    );
+    const templateIds = [catalog.defaultTemplateId, ...usedTemplateIds].filter(
+      (templateId) => usedTemplateIds.size === 0 || usedTemplateIds.has(templateId)
+    );
+    const phaseColumns = new Map<string, string>();
+    for (const templateId of templateIds) {
+      for (const definition of getPhaseDefinitions(catalog, templateId)) {
+        if (!phaseColumns.has(definition.key)) {
+          phaseColumns.set(definition.key, definition.displayName);
+        }
+      }
+    }
+
+    const headers = [
+      'Order Number',
+      'Customer',
+      'PNR',
+      'Region',
+      'Job Type',
+      'Owner',
+      'Created By',
+      'Timeline Provided By',
+      'Timeline Date',
+      'Site Survey Date',
+      'Status',
+      'Progress',
+      'Progress %',
+      ...[...phaseColumns.values()].flatMap((name) => [
+        `${name} Deadline`,
+        `${name} Completed`,
+        `${name} Completed By`,
+        `${name} Days Late`,
+      ]),
+    ];
+
+    const rows = projects.map((project) => {
+      const definitions = getPhaseDefinitions(catalog, project.templateId);
+      const { status, completedPhases, totalPhases } = getProjectProgress(project, definitions);
+
+      const phaseValues = [...phaseColumns.keys()].flatMap((phaseName): ExportValue[] => {
+        const phase = project.phases.find((p) => p.phaseName === phaseName);
+        if (!phase) return [null, null, null, null];
+
+        const definition = definitions.find((d) => d.key === phaseName);
+        if (isPhaseSkipped(definition, phase.allowedDays)) return [null, 'Skipped', null, null];
+
+        // Late completions count business days past the deadline; open phases count days overdue so far
+        const daysLate = phase.completedAt
+          ? getBusinessDaysBetween(phase.deadline, phase.completedAt, project.region)
+          : -getBusinessDaysUntil(phase.deadline, project.region);
+
+        return [
+          phase.deadline,
+          phase.isComplete ? phase.completedAt : null,
+          phase.isComplete ? phase.completedByUser?.name ?? null : null,
+          Math.max(daysLate, 0),
+        ];
+      });
+
+      return [
+        project.orderNumber,
+        project.customerName,
+        project.pnr,
+        project.region,
+        catalog.templates.get(project.templateId || catalog.defaultTemplateId)?.name ?? null,
+        project.owner?.name ?? null,
+        project.createdByUser.name,
+        project.timelineProvidedBy,
+        project.timelineDateProvided,
+        project.siteSurveyDate,
+        STATUS_LABELS[status],
+        `${completedPhases}/${totalPhases}`,
+        totalPhases > 0 ? Math.round((completedPhases / totalPhases) * 100) : 0,
+        ...phaseValues,
+      ];
+    });
+
+    const file = await renderSpreadsheet(fileFormat, 'Projects', headers, rows);
+
+    res.set({
+      'Content-Type': EXPORT_CONTENT_TYPES[fileFormat],
+      'Content-Disposition': `attachment; filename="projects-${format(new Date(), 'yyyy-MM-dd')}.${fileFormat}"`,
+    });
+    res.send(file);
+  } catch (error) {
+    console.error('Export projects error:', error);
+    res.status(500).json({ error: 'Failed to export projects' });
   }
 });
 
 // Get single project with phases
-router.get('/:id', authenticate, async (req: AuthRequest, res: Response) => {
+router.get('/:id', authenticate, loadBusinessCalendar, async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params;
 
@@ -114,11 +492,26 @@ router.get('/:id', authenticate, async (req: AuthRequest, res: Response) => {
         createdByUser: {
           select: { id: true, name: true },
         },
+        owner: {
+          select: { id: true, name: true },
+        },
+        watchers: {
+          include: {
+            user: { select: { id: true, name: true } },
+          },
+          orderBy: { createdAt: 'asc' },
+        },
+        template: {
+          select: { id: true, name: true },
+        },
         phases: {
           include: {
             completedByUser: {
               select: { id: true, name: true },
             },
+            assignee: {
+              select: { id: true, name: true },
+            },
           },
         },
       },
@@ -129,24 +522,99 @@ router.get('/:id', authenticate, async (req: AuthRequest, res: Response) => {
       return;
     }
 
-    // Sort phases by PHASE_ORDER
-    const sortedPhases = [...project.phases].sort((a, b) => {
-      return (
-        PHASE_ORDER.indexOf(a.phaseName as PhaseName) -
-        PHASE_ORDER.indexOf(b.phaseName as PhaseName)
-      );
+    const definitions = await loadTemplatePhaseDefinitions(project.templateId);
+    // Deadline bands follow the viewer's notification lead times
+    const preferences = await loadNotificationPreferences(req.user!.id);
+
+    // Sort phases into the order defined by the project's template
+    const sortedPhases = sortPhasesByTemplate(project.phases, definitions);
+
+    // Work out which phases drive the final deadline
+    const allowedDays: Record<string, number> = {};
+    const deadlines: Record<string, Date> = {};
+    const completedAt: Record<string, Date | null> = {};
+    for (const phase of project.phases) {
+      allowedDays[phase.phaseName] = phase.allowedDays;
+      deadlines[phase.phaseName] = phase.deadline;
+      completedAt[phase.phaseName] = phase.completedAt;
+    }
+
+    const predecessors = getPhasePredecessors(definitions);
+    const starts = calculatePhaseStarts(
+      project.siteSurveyDate,
+      definitions,
+      allowedDays,
+      deadlines,
+      project.region
+    );
+    const schedule = analyzeCriticalPath(
+      project.siteSurveyDate,
+      definitions,
+      allowedDays,
+      deadlines,
+      project.region
+    );
+
+    // Committed deadlines are the baseline; the forecast re-chains from actual completions
+    const forecasts = calculateForecastDeadlines(
+      project.siteSurveyDate,
+      definitions,
+      allowedDays,
+      completedAt,
+      project.region
+    );
+
+    // Add template rules, schedule float, forecast and days until deadline for each phase
+    const phasesWithDays = sortedPhases.map((phase) => {
+      const definition = definitions.find((d) => d.key === phase.phaseName);
+      const forecastDeadline = forecasts[phase.phaseName] || null;
+      const daysUntilDeadline = getBusinessDaysUntil(phase.deadline, project.region);
+
+      return {
+        ...phase,
+        displayName: definition?.displayName || phase.phaseName,
+        mirrorOf: definition?.mirrorOf || null,
+        isSkipped: isPhaseSkipped(definition, phase.allowedDays),
+        predecessors: predecessors[phase.phaseName] || [],
+        startDate: starts[phase.phaseName] || null,
+        totalFloat: schedule.phases[phase.phaseName]?.totalFloat ?? null,
+        isCritical: schedule.phases[phase.phaseName]?.isCritical || false,
+        baselineDeadline: phase.deadline,
+        forecastDeadline,
+        varianceDays: forecastDeadline
+          ? getBusinessDaysBetween(phase.deadline, forecastDeadline, project.region)
+          : null,
+        daysUntilDeadline,
+        deadlineStatus: getDeadlineBand(daysUntilDeadline, phase.phaseName, preferences) || 'on-track',
+      };
     });
 
-    // Add days until deadline for each phase
-    const phasesWithDays = sortedPhases.map((phase) => ({
-      ...phase,
-      daysUntilDeadline: getBusinessDaysUntil(phase.deadline),
-    }));
+    // The projected completion is the last forecast finish across all phases
+    const scheduledPhases = phasesWithDays.filter((phase) => phase.forecastDeadline);
+    let forecast = null;
+
+    if (scheduledPhases.length > 0) {
+      const baselineCompletion = new Date(
+        Math.max(...scheduledPhases.map((phase) => phase.baselineDeadline.getTime()))
+      );
+      const projectedCompletion = new Date(
+        Math.max(...scheduledPhases.map((phase) => phase.forecastDeadline!.getTime()))
+      );
+
+      forecast = {
+        baselineCompletion,
+        projectedCompletion,
+        varianceDays: getBusinessDaysBetween(baselineCompletion, projectedCompletion, project.region),
+      };
+    }
 
     res.json({
       project: {
         ...project,
         phases: phasesWithDays,
+        criticalPath: schedule.criticalPath,
+        forecast,
+        canManage: canManageProject(req.user!, project),
       },
     });
   } catch (error) {
@@ -155,8 +623,280 @@ router.get('/:id', authenticate, async (req: AuthRequest, res: Response) => {
   }
 });
 
+// Get a project's change history, newest first
+router.get('/:id/history', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const entries = await prisma.auditLog.findMany({
+      where: { projectId: id },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    res.json({ entries });
+  } catch (error) {
+    console.error('Get project history error:', error);
+    res.status(500).json({ error: 'Failed to get project history' });
+  }
+});
+
+// Download a one-page PDF report of a project's details and phases
+router.get('/:id/report.pdf', authenticate, loadBusinessCalendar, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const project = await prisma.project.findUnique({
+      where: { id },
+      include: {
+        createdByUser: {
+          select: { name: true },
+        },
+        owner: {
+          select: { name: true },
+        },
+        template: {
+          select: { name: true },
+        },
+        phases: {
+          include: {
+            completedByUser: {
+              select: { name: true },
+            },
+          },
+        },
+      },
+    });
+
+    if (!project) {
+      res.status(404).json({ error: 'Project not found' });
+      return;
+    }
+
+    const definitions = await loadTemplatePhaseDefinitions(project.templateId);
+    const { status, completedPhases, totalPhases } = getProjectProgress(project, definitions);
+
+    const allowedDays: Record<string, number> = {};
+    const completedAt: Record<string, Date | null> = {};
+    for (const phase of project.phases) {
+      allowedDays[phase.phaseName] = phase.allowedDays;
+      completedAt[phase.phaseName] = phase.completedAt;
+    }
+    const forecasts = Object.values(
+      calculateForecastDeadlines(
+        project.siteSurveyDate,
+        definitions,
+        allowedDays,
+        completedAt,
+        project.region
+      )
+    );
+
+    // Fixed status bands, so the printed report reads the same whoever downloads it
+    const starts = getProjectPhaseStarts(project, definitions);
+    const phases = sortPhasesByTemplate(project.phases, definitions).map((phase): ReportPhase => {
+      const definition = definitions.find((d) => d.key === phase.phaseName);
+
+      return {
+        name: definition?.displayName || phase.phaseName,
+        allowedDays: phase.allowedDays,
+        startDate: starts[phase.phaseName] || project.siteSurveyDate,
+        deadline: phase.deadline,
+        daysUntilDeadline: getBusinessDaysUntil(phase.deadline, project.region),
+        status: getPhaseStatus(phase, definition, project.region),
+        completedAt: phase.isComplete ? phase.completedAt : null,
+        completedBy: phase.isComplete ? phase.completedByUser?.name ?? null : null,
+        mirrorOf: definition?.mirrorOf ? getPhaseDisplayName(definitions, definition.mirrorOf) : null,
+      };
+    });
+
+    const report = await renderProjectReport({
+      orderNumber: project.orderNumber,
+      customerName: project.customerName,
+      pnr: project.pnr,
+      timelineProvidedBy: project.timelineProvidedBy,
+      timelineDateProvided: project.timelineDateProvided,
+      siteSurveyDate: project.siteSurveyDate,
+      region: project.region,
+      templateName: project.template?.name ?? null,
+      ownerName: project.owner?.name ?? null,
+      createdByName: project.createdByUser.name,
+      status,
+      completedPhases,
+      totalPhases,
+      projectedCompletion:
+        forecasts.length > 0 ? new Date(Math.max(...forecasts.map((date) => date.getTime()))) : null,
+      phases,
+      generatedBy: req.user!.name,
+      generatedAt: new Date(),
+    });
+
+    // Inline so the browser opens its PDF viewer, ready to print
+    res.set({
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `inline; filename="${project.orderNumber.replace(/[^\w.-]/g, '_')}-report.pdf"`,
+    });
+    res.send(report);
+  } catch (error) {
+    console.error('Project report error:', error);
+    res.status(500).json({ error: 'Failed to generate project report' });
+  }
+});
+
+// Change a project's owner (Admin+ or the current owner)
+router.patch('/:id/owner', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const validation = updateOwnerSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const { ownerId } = validation.data;
+
+    const project = await prisma.project.findUnique({
+      where: { id },
+      include: { owner: { select: { name: true } } },
+    });
+
+    if (!project) {
+      res.status(404).json({ error: 'Project not found' });
+      return;
+    }
+
+    if (!canManageProject(req.user!, project)) {
+      res.status(403).json({ error: 'Only admins or the project owner can change the owner' });
+      return;
+    }
+
+    const owner = ownerId
+      ? await prisma.user.findUnique({ where: { id: ownerId }, select: { id: true, name: true } })
+      : null;
+
+    if (ownerId && !owner) {
+      res.status(400).json({ error: 'User not found' });
+      return;
+    }
+
+    const updated = await prisma.project.update({
+      where: { id },
+      data: { ownerId: owner?.id ?? null },
+      include: { owner: { select: { id: true, name: true } } },
+    });
+
+    const changes = diffAuditSnapshots(
+      { owner: project.owner?.name ?? null },
+      { owner: owner?.name ?? null }
+    );
+
+    if (changes) {
+      await recordAudit(req.user!, {
+        action: 'update',
+        entityType: 'project',
+        entityId: id,
+        projectId: id,
+        summary: owner
+          ? `Made ${owner.name} owner of project ${project.orderNumber}`
+          : `Removed the owner of project ${project.orderNumber}`,
+        ...changes,
+      });
+    }
+
+    // The previous and new owner's notifications follow the change straight away
+    for (const userId of new Set([project.ownerId, owner?.id])) {
+      if (userId) await generateNotifications(userId);
+    }
+
+    publishEvent({ type: 'project', action: 'updated', projectId: id });
+
+    res.json({ project: updated });
+  } catch (error) {
+    console.error('Update project owner error:', error);
+    res.status(500).json({ error: 'Failed to update project owner' });
+  }
+});
+
+// Watch a project to be notified about it
+router.post('/:id/watch', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    const project = await prisma.project.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+
+    if (!project) {
+      res.status(404).json({ error: 'Project not found' });
+      return;
+    }
+
+    const watcher = await prisma.projectWatcher.upsert({
+      where: { projectId_userId: { projectId: id, userId } },
+      create: { projectId: id, userId },
+      update: {},
+      include: { user: { select: { id: true, name: true } } },
+    });
+
+    await generateNotifications(userId);
+    publishEvent({ type: 'project', action: 'updated', projectId: id });
+
+    res.json({ watcher });
+  } catch (error) {
+    console.error('Watch project error:', error);
+    res.status(500).json({ error: 'Failed to watch project' });
+  }
+});
+
+// Stop watching a project
+router.delete('/:id/watch', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    await prisma.projectWatcher.deleteMany({
+      where: { projectId: id, userId: req.user!.id },
+    });
+
+    await generateNotifications(req.user!.id);
+    publishEvent({ type: 'project', action: 'updated', projectId: id });
+
+    res.json({ message: 'Stopped watching project' });
+  } catch (error) {
+    console.error('Unwatch project error:', error);
+    res.status(500).json({ error: 'Failed to stop watching project' });
+  }
+});
+
+// Phases for a new project, using the template's default days
+function buildNewProjectPhases(
+  definitions: PhaseDefinition[],
+  siteSurveyDate: Date,
+  region?: string | null
+) {
+  // Build allowed days map from the template's default days
+  const allowedDaysMap: Record<string, number> = {};
+  for (const definition of definitions) {
+    allowedDaysMap[definition.key] = definition.mirrorOf ? 0 : definition.defaultDays;
+  }
+
+  // Calculate deadlines
+  const deadlines = calculatePhaseDeadlines(siteSurveyDate, definitions, allowedDaysMap, region);
+
+  return definitions.map((definition) => ({
+    phaseName: definition.key,
+    allowedDays: allowedDaysMap[definition.key],
+    deadline: deadlines[definition.key] || siteSurveyDate,
+    isComplete: false,
+  }));
+}
+
 // Create project
-router.post('/', authenticate, async (req: AuthRequest, res: Response) => {
+router.post('/', authenticate, loadBusinessCalendar, async (req: AuthRequest, res: Response) => {
   try {
     const validation = createProjectSchema.safeParse(req.body);
 
@@ -170,33 +910,16 @@ router.post('/', authenticate, async (req: AuthRequest, res: Response) => {
 
     const data = validation.data;
 
-    // Get global settings for default allowed days
-    let settings = await prisma.globalSettings.findFirst();
+    // Use the selected template, falling back to the default template
+    const catalog = await loadPhaseTemplateCatalog();
+    const templateId = data.templateId || catalog.defaultTemplateId;
 
-    if (!settings) {
-      settings = await prisma.globalSettings.create({
-        data: {},
-      });
+    if (!catalog.templates.has(templateId)) {
+      res.status(400).json({ error: 'Phase template not found' });
+      return;
     }
 
-    // Build allowed days map from settings (wayleave defaults to 0 - disabled)
-    const allowedDaysMap: Record<PhaseName, number> = {
-      planning: settings.defaultPlanningDays,
-      funding: settings.defaultFundingDays,
-      wayleave: settings.defaultWayleaveDays, // Defaults to 0 (disabled)
-      materials: settings.defaultMaterialsDays,
-      announcement: settings.defaultAnnouncementDays,
-      kickoff: settings.defaultKickOffDays,
-      build: settings.defaultBuildDays,
-      fqa: 0, // Mirror phase
-      ecc: settings.defaultEccDays,
-      integration: settings.defaultIntegrationDays,
-      rfa: settings.defaultRfaDays,
-      com: 0, // Mirror phase
-    };
-
-    // Calculate deadlines
-    const deadlines = calculatePhaseDeadlines(data.siteSurveyDate, allowedDaysMap);
+    const definitions = getPhaseDefinitions(catalog, templateId);
 
     // Create project with phases
     const project = await prisma.project.create({
@@ -207,24 +930,40 @@ router.post('/', authenticate, async (req: AuthRequest, res: Response) => {
         timelineProvidedBy: data.timelineProvidedBy,
         timelineDateProvided: data.timelineDateProvided,
         siteSurveyDate: data.siteSurveyDate,
+        region: data.region || null,
+        templateId,
         createdBy: req.user!.id,
+        ownerId: req.user!.id,
         phases: {
-          create: PHASE_ORDER.map((phaseName) => ({
-            phaseName,
-            allowedDays: allowedDaysMap[phaseName],
-            deadline: deadlines[phaseName] || data.siteSurveyDate,
-            isComplete: false,
-          })),
+          create: buildNewProjectPhases(definitions, data.siteSurveyDate, data.region),
         },
       },
       include: {
         createdByUser: {
           select: { id: true, name: true },
         },
+        template: {
+          select: { id: true, name: true },
+        },
         phases: true,
       },
     });
 
+    await recordAudit(req.user!, {
+      action: 'create',
+      entityType: 'project',
+      entityId: project.id,
+      projectId: project.id,
+      summary: `Created project ${project.orderNumber}`,
+      after: toAuditSnapshot(project, PROJECT_AUDIT_FIELDS),
+    });
+
+    publishEvent({ type: 'project', action: 'created', projectId: project.id });
+    await queueWebhookEvent('project.created', {
+      project: toWebhookProject(project),
+      createdBy: { id: req.user!.id, name: req.user!.name },
+    });
+
     res.status(201).json({ project });
   } catch (error) {
     console.error('Create project error:', error);
@@ -232,8 +971,349 @@ router.post('/', authenticate, async (req: AuthRequest, res: Response) => {
   }
 });
 
-// Update project (Admin+ for allowed days, Super Admin for deadline dates)
-router.patch('/:id', authenticate, requireAdmin, async (req: AuthRequest, res: Response) => {
+// Import uploads arrive as the raw CSV or XLSX file
+const spreadsheetUpload = express.raw({ type: () => true, limit: '5mb' });
+
+// Interactive transactions time out after 5 seconds by default
+const IMPORT_TRANSACTION_TIMEOUT_MS = 60 * 1000;
+
+interface ImportIssue {
+  field: string;
+  message: string;
+}
+
+interface ImportRowResult extends ImportRow {
+  status: 'valid' | 'invalid' | 'duplicate';
+  issues: ImportIssue[];
+}
+
+interface ImportAnalysis {
+  rows: ImportRowResult[];
+  valid: z.infer<typeof importProjectSchema>[];
+}
+
+// Validate each spreadsheet row and flag order numbers and PNRs that already
+// exist, or that appear earlier in the same file
+async function analyzeImportRows(rows: ImportRow[]): Promise<ImportAnalysis> {
+  const existing = await prisma.project.findMany({
+    where: {
+      OR: [
+        { orderNumber: { in: rows.flatMap((row) => row.values.orderNumber || []) } },
+        { pnr: { in: rows.flatMap((row) => row.values.pnr || []) } },
+      ],
+    },
+    select: { orderNumber: true, pnr: true },
+  });
+
+  const existingOrderNumbers = new Set(existing.map((project) => project.orderNumber));
+  const existingPnrs = new Set(existing.map((project) => project.pnr));
+  const seenOrderNumbers = new Map<string, number>();
+  const seenPnrs = new Map<string, number>();
+
+  const analysis: ImportAnalysis = { rows: [], valid: [] };
+
+  for (const row of rows) {
+    const { orderNumber, pnr } = row.values;
+    const validation = importProjectSchema.safeParse({
+      ...row.values,
+      region: row.values.region || null,
+    });
+
+    const issues: ImportIssue[] = validation.success
+      ? []
+      : validation.error.errors.map((issue) => ({
+          field: String(issue.path[0] ?? ''),
+          message: issue.message,
+        }));
+    const duplicates: ImportIssue[] = [];
+
+    if (orderNumber) {
+      if (existingOrderNumbers.has(orderNumber)) {
+        duplicates.push({ field: 'orderNumber', message: `Order number ${orderNumber} already exists` });
+      } else if (seenOrderNumbers.has(orderNumber)) {
+        duplicates.push({
+          field: 'orderNumber',
+          message: `Order number ${orderNumber} is repeated from row ${seenOrderNumbers.get(orderNumber)}`,
+        });
+      } else {
+        seenOrderNumbers.set(orderNumber, row.row);
+      }
+    }
+
+    if (pnr) {
+      if (existingPnrs.has(pnr)) {
+        duplicates.push({ field: 'pnr', message: `PNR ${pnr} already exists` });
+      } else if (seenPnrs.has(pnr)) {
+        duplicates.push({ field: 'pnr', message: `PNR ${pnr} is repeated from row ${seenPnrs.get(pnr)}` });
+      } else {
+        seenPnrs.set(pnr, row.row);
+      }
+    }
+
+    analysis.rows.push({
+      ...row,
+      status: issues.length > 0 ? 'invalid' : duplicates.length > 0 ? 'duplicate' : 'valid',
+      issues: [...issues, ...duplicates],
+    });
+
+    if (validation.success && duplicates.length === 0) {
+      analysis.valid.push(validation.data);
+    }
+  }
+
+  return analysis;
+}
+
+const summarizeImport = (rows: ImportRowResult[]) => ({
+  total: rows.length,
+  valid: rows.filter((row) => row.status === 'valid').length,
+  invalid: rows.filter((row) => row.status === 'invalid').length,
+  duplicate: rows.filter((row) => row.status === 'duplicate').length,
+});
+
+// Check a CSV or XLSX file of projects row by row without importing it
+router.post('/import/preview', authenticate, spreadsheetUpload, async (req: AuthRequest, res: Response) => {
+  try {
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      res.status(400).json({ error: 'No file uploaded' });
+      return;
+    }
+
+    const parsed = await parseProjectSpreadsheet(req.body);
+
+    if (parsed.error !== null) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+
+    const { rows } = await analyzeImportRows(parsed.rows);
+
+    res.json({ rows, summary: summarizeImport(rows) });
+  } catch (error) {
+    console.error('Preview project import error:', error);
+    res.status(500).json({ error: 'Failed to preview import' });
+  }
+});
+
+// Create the valid rows of a CSV or XLSX file in one transaction, skipping
+// invalid and duplicate rows (?templateId= picks the phase template)
+router.post(
+  '/import',
+  authenticate,
+  spreadsheetUpload,
+  loadBusinessCalendar,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        res.status(400).json({ error: 'No file uploaded' });
+        return;
+      }
+
+      const parsed = await parseProjectSpreadsheet(req.body);
+
+      if (parsed.error !== null) {
+        res.status(400).json({ error: parsed.error });
+        return;
+      }
+
+      const catalog = await loadPhaseTemplateCatalog();
+      const templateId = (req.query.templateId as string) || catalog.defaultTemplateId;
+
+      if (!catalog.templates.has(templateId)) {
+        res.status(400).json({ error: 'Phase template not found' });
+        return;
+      }
+
+      const { rows, valid } = await analyzeImportRows(parsed.rows);
+
+      if (valid.length === 0) {
+        res.status(400).json({ error: 'No valid rows to import', rows, summary: summarizeImport(rows) });
+        return;
+      }
+
+      const definitions = getPhaseDefinitions(catalog, templateId);
+
+      const projects = await prisma.$transaction(
+        async (tx) => {
+          const created: Project[] = [];
+
+          for (const data of valid) {
+            const project = await tx.project.create({
+              data: {
+                ...data,
+                region: data.region || null,
+                templateId,
+                createdBy: req.user!.id,
+                ownerId: req.user!.id,
+                phases: {
+                  create: buildNewProjectPhases(definitions, data.siteSurveyDate, data.region),
+                },
+              },
+            });
+
+            await recordAudit(
+              req.user!,
+              {
+                action: 'create',
+                entityType: 'project',
+                entityId: project.id,
+                projectId: project.id,
+                summary: `Imported project ${project.orderNumber}`,
+                after: toAuditSnapshot(project, PROJECT_AUDIT_FIELDS),
+              },
+              tx
+            );
+
+            created.push(project);
+          }
+
+          return created;
+        },
+        { timeout: IMPORT_TRANSACTION_TIMEOUT_MS }
+      );
+
+      publishEvent({ type: 'project', action: 'created' });
+      for (const project of projects) {
+        await queueWebhookEvent('project.created', {
+          project: toWebhookProject(project),
+          createdBy: { id: req.user!.id, name: req.user!.name },
+        });
+      }
+
+      res.status(201).json({
+        imported: projects.length,
+        skipped: rows.length - projects.length,
+        projects: projects.map(({ id, orderNumber, customerName }) => ({ id, orderNumber, customerName })),
+      });
+    } catch (error) {
+      console.error('Import projects error:', error);
+      res.status(500).json({ error: 'Failed to import projects' });
+    }
+  }
+);
+
+type ProjectUpdate = z.infer<typeof updateProjectSchema>;
+type ProjectWithPhaseRows = Project & { phases: ProjectPhase[] };
+
+interface ProjectUpdatePlan {
+  siteSurveyDate: Date;
+  region: string | null;
+  regionChanged: boolean;
+  allowedDays: Record<string, number>;
+  deadlines: Record<string, Date>;
+}
+
+// Work out the allowed days and deadlines a project update would produce
+// Shared by PATCH (which commits the result) and the dry-run preview
+function planProjectUpdate(
+  existingProject: ProjectWithPhaseRows,
+  definitions: PhaseDefinition[],
+  data: ProjectUpdate,
+  isSuperAdmin: boolean
+): ProjectUpdatePlan {
+  // Build current allowed days and deadlines map
+  const currentAllowedDays: Record<string, number> = {};
+  const currentDeadlines: Record<string, Date> = {};
+
+  for (const phase of existingProject.phases) {
+    currentAllowedDays[phase.phaseName] = phase.allowedDays;
+    currentDeadlines[phase.phaseName] = phase.deadline;
+  }
+
+  const phaseIndexOf = (phaseName: string) =>
+    definitions.findIndex((definition) => definition.key === phaseName);
+
+  let needsFullRecalculation = false;
+  let recalculateFromPhase: string | null = null;
+  let recalculateFromDeadline: Date | null = null;
+
+  // Apply phase updates if provided
+  if (data.phases) {
+    for (const phaseUpdate of data.phases) {
+      if (phaseIndexOf(phaseUpdate.phaseName) !== -1) {
+        const phaseName = phaseUpdate.phaseName;
+
+        // Update allowed days if provided
+        if (phaseUpdate.allowedDays !== undefined) {
+          currentAllowedDays[phaseName] = phaseUpdate.allowedDays;
+          // Only mark for full recalculation if no specific deadline was changed
+          if (!recalculateFromPhase) {
+            needsFullRecalculation = true;
+          }
+        }
+
+        // Update deadline directly if provided (Super Admin only)
+        if (phaseUpdate.deadline && isSuperAdmin) {
+          currentDeadlines[phaseName] = phaseUpdate.deadline;
+
+          // Find the earliest phase that was changed to start recalculating from there
+          const phaseIndex = phaseIndexOf(phaseName);
+          if (recalculateFromPhase === null || phaseIndexOf(recalculateFromPhase) > phaseIndex) {
+            recalculateFromPhase = phaseName;
+            recalculateFromDeadline = phaseUpdate.deadline;
+          }
+        }
+      }
+    }
+  }
+
+  // Determine site survey date and region
+  const siteSurveyDate = data.siteSurveyDate || existingProject.siteSurveyDate;
+  const regionChanged =
+    data.region !== undefined && data.region !== existingProject.region;
+  const region = data.region !== undefined ? data.region : existingProject.region;
+
+  // If site survey date or region changed, recalculate all from beginning
+  // (a different region may be subject to different blackout periods)
+  if (data.siteSurveyDate || regionChanged) {
+    needsFullRecalculation = true;
+    // Only reset recalculateFromPhase if no deadline was directly changed
+    // Direct deadline changes should take precedence
+    if (!recalculateFromPhase) {
+      recalculateFromPhase = null;
+    }
+  }
+
+  let finalDeadlines: Record<string, Date>;
+
+  // Recalculate deadlines based on what changed
+  // Priority: Direct deadline change > Site survey change > Allowed days change
+  if (recalculateFromPhase && recalculateFromDeadline) {
+    // Super Admin changed a specific deadline - recalculate downstream phases
+    finalDeadlines = calculatePhaseDeadlinesFromDeadline(
+      recalculateFromPhase,
+      recalculateFromDeadline,
+      siteSurveyDate,
+      definitions,
+      currentAllowedDays,
+      currentDeadlines,
+      region
+    );
+  } else if (needsFullRecalculation) {
+    // Recalculate all deadlines from site survey date
+    finalDeadlines = calculatePhaseDeadlines(
+      siteSurveyDate,
+      definitions,
+      currentAllowedDays,
+      region
+    );
+  } else {
+    // No changes, keep current deadlines
+    finalDeadlines = currentDeadlines;
+  }
+
+  return {
+    siteSurveyDate,
+    region,
+    regionChanged,
+    allowedDays: currentAllowedDays,
+    deadlines: finalDeadlines,
+  };
+}
+
+// Preview the effect of a project update without saving it (Admin+)
+// Accepts the same body as PATCH /:id and returns before/after deadlines per phase
+router.post('/:id/preview', authenticate, requireAdmin, loadBusinessCalendar, async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params;
     const validation = updateProjectSchema.safeParse(req.body);
@@ -247,9 +1327,6 @@ router.patch('/:id', authenticate, requireAdmin, async (req: AuthRequest, res: R
       return;
     }
 
-    const data = validation.data;
-
-    // Get existing project with phases
     const existingProject = await prisma.project.findUnique({
       where: { id },
       include: { phases: true },
@@ -260,94 +1337,119 @@ router.patch('/:id', authenticate, requireAdmin, async (req: AuthRequest, res: R
       return;
     }
 
-    // Build current allowed days and deadlines map
-    const currentAllowedDays: Record<PhaseName, number> = {} as Record<PhaseName, number>;
-    const currentDeadlines: Record<PhaseName, Date> = {} as Record<PhaseName, Date>;
-
-    for (const phase of existingProject.phases) {
-      currentAllowedDays[phase.phaseName as PhaseName] = phase.allowedDays;
-      currentDeadlines[phase.phaseName as PhaseName] = phase.deadline;
-    }
+    const definitions = await loadTemplatePhaseDefinitions(existingProject.templateId);
+    const plan = planProjectUpdate(existingProject, definitions, validation.data, isSuperAdmin);
 
-    let needsFullRecalculation = false;
-    let recalculateFromPhase: PhaseName | null = null;
-    let recalculateFromDeadline: Date | null = null;
+    const phases = definitions.map(({ key: phaseName }) => {
+      const existingPhase = existingProject.phases.find((p) => p.phaseName === phaseName);
+      const currentDeadline = existingPhase?.deadline || existingProject.siteSurveyDate;
+      const newDeadline = plan.deadlines[phaseName] || plan.siteSurveyDate;
 
-    // Apply phase updates if provided
-    if (data.phases) {
-      for (const phaseUpdate of data.phases) {
-        if (PHASE_ORDER.includes(phaseUpdate.phaseName as PhaseName)) {
-          const phaseName = phaseUpdate.phaseName as PhaseName;
+      return {
+        phaseName,
+        displayName: getPhaseDisplayName(definitions, phaseName),
+        isComplete: existingPhase?.isComplete || false,
+        currentAllowedDays: existingPhase?.allowedDays ?? 0,
+        newAllowedDays: plan.allowedDays[phaseName],
+        currentDeadline,
+        newDeadline,
+        // Positive when the deadline moves later, negative when it moves earlier
+        shiftDays: getBusinessDaysBetween(currentDeadline, newDeadline, plan.region),
+      };
+    });
 
-          // Update allowed days if provided
-          if (phaseUpdate.allowedDays !== undefined) {
-            currentAllowedDays[phaseName] = phaseUpdate.allowedDays;
-            // Only mark for full recalculation if no specific deadline was changed
-            if (!recalculateFromPhase) {
-              needsFullRecalculation = true;
-            }
-          }
+    res.json({
+      preview: {
+        currentSiteSurveyDate: existingProject.siteSurveyDate,
+        newSiteSurveyDate: plan.siteSurveyDate,
+        phases,
+        changedPhases: phases.filter((phase) => phase.shiftDays !== 0).length,
+      },
+    });
+  } catch (error) {
+    console.error('Preview project update error:', error);
+    res.status(500).json({ error: 'Failed to preview project update' });
+  }
+});
 
-          // Update deadline directly if provided (Super Admin only)
-          if (phaseUpdate.deadline && isSuperAdmin) {
-            currentDeadlines[phaseName] = phaseUpdate.deadline;
+// Update project (Admin+ for allowed days, Super Admin for deadline dates)
+router.patch('/:id', authenticate, requireAdmin, loadBusinessCalendar, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const validation = updateProjectSchema.safeParse(req.body);
+    const isSuperAdmin = req.user!.role === 'superadmin';
 
-            // Find the earliest phase that was changed to start recalculating from there
-            const phaseIndex = PHASE_ORDER.indexOf(phaseName);
-            if (recalculateFromPhase === null || PHASE_ORDER.indexOf(recalculateFromPhase) > phaseIndex) {
-              recalculateFromPhase = phaseName;
-              recalculateFromDeadline = phaseUpdate.deadline;
-            }
-          }
-        }
-      }
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
     }
 
-    // Determine site survey date
-    const siteSurveyDate = data.siteSurveyDate || existingProject.siteSurveyDate;
+    const data = validation.data;
+
+    // Get existing project with phases
+    const existingProject = await prisma.project.findUnique({
+      where: { id },
+      include: { phases: true },
+    });
 
-    // If site survey date changed, recalculate all from beginning
-    if (data.siteSurveyDate) {
-      needsFullRecalculation = true;
-      // Only reset recalculateFromPhase if no deadline was directly changed
-      // Direct deadline changes should take precedence
-      if (!recalculateFromPhase) {
-        recalculateFromPhase = null;
-      }
+    if (!existingProject) {
+      res.status(404).json({ error: 'Project not found' });
+      return;
     }
 
-    let finalDeadlines: Record<PhaseName, Date>;
+    const definitions = await loadTemplatePhaseDefinitions(existingProject.templateId);
+    const plan = planProjectUpdate(existingProject, definitions, data, isSuperAdmin);
 
-    // Recalculate deadlines based on what changed
-    // Priority: Direct deadline change > Site survey change > Allowed days change
-    if (recalculateFromPhase && recalculateFromDeadline) {
-      // Super Admin changed a specific deadline - recalculate downstream phases
-      finalDeadlines = calculatePhaseDeadlinesFromDeadline(
-        recalculateFromPhase,
-        recalculateFromDeadline,
-        currentAllowedDays,
-        currentDeadlines
+    // Update project and phases in transaction, recording what changed
+    const updatedProject = await prisma.$transaction(async (tx) => {
+      const changes = diffAuditSnapshots(
+        toScheduleSnapshot(
+          existingProject.siteSurveyDate,
+          existingProject.region,
+          existingProject.phases
+        ),
+        toScheduleSnapshot(
+          plan.siteSurveyDate,
+          plan.region,
+          definitions.map(({ key: phaseName }) => ({
+            phaseName,
+            allowedDays: plan.allowedDays[phaseName],
+            deadline: plan.deadlines[phaseName] || plan.siteSurveyDate,
+          }))
+        )
       );
-    } else if (needsFullRecalculation) {
-      // Recalculate all deadlines from site survey date
-      finalDeadlines = calculatePhaseDeadlines(siteSurveyDate, currentAllowedDays);
-    } else {
-      // No changes, keep current deadlines
-      finalDeadlines = currentDeadlines;
-    }
 
-    // Update project and phases in transaction
-    const updatedProject = await prisma.$transaction(async (tx) => {
-      // Update project if siteSurveyDate changed
-      if (data.siteSurveyDate) {
+      if (changes) {
+        await recordAudit(
+          req.user!,
+          {
+            action: 'update',
+            entityType: 'project',
+            entityId: id,
+            projectId: id,
+            summary: `Updated schedule for project ${existingProject.orderNumber}`,
+            ...changes,
+          },
+          tx
+        );
+      }
+
+      // Update project if siteSurveyDate or region changed
+      if (data.siteSurveyDate || plan.regionChanged) {
         await tx.project.update({
           where: { id },
-          data: { siteSurveyDate: data.siteSurveyDate },
+          data: {
+            siteSurveyDate: data.siteSurveyDate,
+            region: plan.region,
+          },
         });
       }
 
       // Update each phase
-      for (const phaseName of PHASE_ORDER) {
+      for (const { key: phaseName } of definitions) {
         await tx.projectPhase.update({
           where: {
             projectId_phaseName: {
@@ -356,8 +1458,8 @@ router.patch('/:id', authenticate, requireAdmin, async (req: AuthRequest, res: R
             },
           },
           data: {
-            allowedDays: currentAllowedDays[phaseName],
-            deadline: finalDeadlines[phaseName] || siteSurveyDate,
+            allowedDays: plan.allowedDays[phaseName],
+            deadline: plan.deadlines[phaseName] || plan.siteSurveyDate,
           },
         });
       }
@@ -369,6 +1471,9 @@ router.patch('/:id', authenticate, requireAdmin, async (req: AuthRequest, res: R
           createdByUser: {
             select: { id: true, name: true },
           },
+          template: {
+            select: { id: true, name: true },
+          },
           phases: {
             include: {
               completedByUser: {
@@ -380,6 +1485,20 @@ router.patch('/:id', authenticate, requireAdmin, async (req: AuthRequest, res: R
       });
     });
 
+    publishEvent({ type: 'project', action: 'updated', projectId: id });
+    if (updatedProject) {
+      await queueWebhookEvent('project.updated', {
+        project: toWebhookProject(updatedProject),
+        phases: updatedProject.phases.map((phase) => ({
+          key: phase.phaseName,
+          allowedDays: phase.allowedDays,
+          deadline: phase.deadline.toISOString(),
+          isComplete: phase.isComplete,
+        })),
+        updatedBy: { id: req.user!.id, name: req.user!.name },
+      });
+    }
+
     res.json({ project: updatedProject });
   } catch (error) {
     console.error('Update project error:', error);
@@ -405,6 +1524,22 @@ router.delete('/:id', authenticate, requireSuperAdmin, async (req: AuthRequest,
       where: { id },
     });
 
+    // History stays queryable by project id after the project is gone
+    await recordAudit(req.user!, {
+      action: 'delete',
+      entityType: 'project',
+      entityId: id,
+      projectId: id,
+      summary: `Deleted project ${project.orderNumber}`,
+      before: toAuditSnapshot(project, PROJECT_AUDIT_FIELDS),
+    });
+
+    publishEvent({ type: 'project', action: 'deleted', projectId: id });
+    await queueWebhookEvent('project.deleted', {
+      project: toWebhookProject(project),
+      deletedBy: { id: req.user!.id, name: req.user!.name },
+    });
+
     res.json({ message: 'Project deleted successfully' });
   } catch (error) {
     console.error('Delete project error:', error);
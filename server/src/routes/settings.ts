@@ -3,34 +3,48 @@ import { PrismaClient } from '@prisma/client';
 import { z } from 'zod';
 import { AuthRequest } from '../utils/types';
 import { authenticate, requireSuperAdmin } from '../middleware/auth';
+import { ensureDefaultTemplate } from '../utils/phaseTemplates';
+import { diffAuditSnapshots, recordAudit } from '../utils/audit';
+import { normalizeEmailDomain, REGISTRATION_MODES } from '../utils/registration';
 
 const router = Router();
 const prisma = new PrismaClient();
 
 const updateSettingsSchema = z.object({
-  defaultPlanningDays: z.number().min(0).max(365).optional(),
-  defaultFundingDays: z.number().min(0).max(365).optional(),
-  defaultWayleaveDays: z.number().min(0).max(365).optional(),
-  defaultMaterialsDays: z.number().min(0).max(365).optional(),
-  defaultAnnouncementDays: z.number().min(0).max(365).optional(),
-  defaultKickOffDays: z.number().min(0).max(365).optional(),
-  defaultBuildDays: z.number().min(0).max(365).optional(),
-  defaultEccDays: z.number().min(0).max(365).optional(),
-  defaultIntegrationDays: z.number().min(0).max(365).optional(),
-  defaultRfaDays: z.number().min(0).max(365).optional(),
+  defaultTemplateId: z.string().optional(),
+  registrationMode: z.enum(REGISTRATION_MODES).optional(),
+  allowedEmailDomains: z
+    .array(
+      z
+        .string()
+        .transform(normalizeEmailDomain)
+        .refine((domain) => /^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(domain), {
+          message: 'Invalid email domain',
+        })
+    )
+    .transform((domains) => [...new Set(domains)])
+    .optional(),
+  twoFactorRequiredRoles: z
+    .array(z.enum(['staff', 'admin', 'superadmin']))
+    .transform((roles) => [...new Set(roles)])
+    .optional(),
 });
 
+const defaultTemplateInclude = {
+  defaultTemplate: {
+    select: { id: true, name: true },
+  },
+};
+
 // Get global settings
 router.get('/', authenticate, async (req: AuthRequest, res: Response) => {
   try {
-    let settings = await prisma.globalSettings.findFirst();
+    // Create default settings and template if none exist
+    await ensureDefaultTemplate();
 
-    // Create default settings if none exist
-    if (!settings) {
-      settings = await prisma.globalSettings.create({
-        data: {},
-      });
-    }
+    const settings = await prisma.globalSettings.findFirstOrThrow({
+      include: defaultTemplateInclude,
+    });
 
     // Get the user who last updated settings
     let updatedByUser = null;
@@ -68,25 +82,69 @@ router.patch('/', authenticate, requireSuperAdmin, async (req: AuthRequest, res:
 
     const data = validation.data;
 
-    // Find existing settings
-    let settings = await prisma.globalSettings.findFirst();
-
-    if (!settings) {
-      // Create with the provided data
-      settings = await prisma.globalSettings.create({
-        data: {
-          ...data,
-          updatedBy: req.user!.id,
-        },
+    if (data.defaultTemplateId) {
+      const template = await prisma.phaseTemplate.findUnique({
+        where: { id: data.defaultTemplateId },
       });
-    } else {
-      // Update existing settings
-      settings = await prisma.globalSettings.update({
-        where: { id: settings.id },
-        data: {
-          ...data,
-          updatedBy: req.user!.id,
-        },
+
+      if (!template) {
+        res.status(400).json({ error: 'Phase template not found' });
+        return;
+      }
+    }
+
+    // Make sure settings exist before updating them
+    await ensureDefaultTemplate();
+    const existing = await prisma.globalSettings.findFirstOrThrow({
+      include: defaultTemplateInclude,
+    });
+
+    // Domain-only registration needs at least one domain to let anyone in
+    const registrationMode = data.registrationMode ?? existing.registrationMode;
+    const allowedEmailDomains = data.allowedEmailDomains ?? existing.allowedEmailDomains;
+    if (registrationMode === 'domain' && allowedEmailDomains.length === 0) {
+      res.status(400).json({ error: 'Add at least one email domain to limit registration to' });
+      return;
+    }
+
+    const settings = await prisma.globalSettings.update({
+      where: { id: existing.id },
+      data: {
+        ...data,
+        updatedBy: req.user!.id,
+      },
+      include: defaultTemplateInclude,
+    });
+
+    const changes = diffAuditSnapshots(
+      {
+        defaultTemplate: existing.defaultTemplate?.name ?? null,
+        registrationMode: existing.registrationMode,
+        allowedEmailDomains: existing.allowedEmailDomains.join(', '),
+        twoFactorRequiredRoles: existing.twoFactorRequiredRoles.join(', '),
+      },
+      {
+        defaultTemplate: settings.defaultTemplate?.name ?? null,
+        registrationMode: settings.registrationMode,
+        allowedEmailDomains: settings.allowedEmailDomains.join(', '),
+        twoFactorRequiredRoles: settings.twoFactorRequiredRoles.join(', '),
+      }
+    );
+
+    if (changes) {
+      const summary =
+        existing.defaultTemplateId !== settings.defaultTemplateId
+          ? `Changed default template to ${settings.defaultTemplate?.name ?? 'none'}`
+          : 'twoFactorRequiredRoles' in changes.after
+            ? 'Changed which roles must use two-factor authentication'
+            : 'Changed registration settings';
+
+      await recordAudit(req.user!, {
+        action: 'update',
+        entityType: 'settings',
+        entityId: settings.id,
+        summary,
+        ...changes,
       });
     }
 
@@ -0,0 +1,487 @@
+import { Router, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import { AuthRequest } from '../utils/types';
+import { authenticate, requireSuperAdmin } from '../middleware/auth';
+import { ensureDefaultTemplate } from '../utils/phaseTemplates';
+import { AuditSnapshot, diffAuditSnapshots, recordAudit } from '../utils/audit';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+const templatePhaseSchema = z.object({
+  key: z
+    .string()
+    .min(1, 'Phase key is required')
+    .regex(/^[a-z0-9_-]+$/, 'Phase key may only contain lowercase letters, numbers, - and _'),
+  displayName: z.string().min(1, 'Phase name is required'),
+  defaultDays: z.number().int().min(0).max(365),
+  mirrorOf: z.string().nullable().optional(),
+  skippable: z.boolean().optional(),
+  predecessors: z
+    .array(
+      z.object({
+        key: z.string().min(1),
+        lagDays: z.number().int().min(0).max(365).optional(),
+      })
+    )
+    .optional(),
+});
+
+type TemplatePhaseInput = z.infer<typeof templatePhaseSchema>;
+
+// Check the ordering rules the deadline engine relies on
+function validateTemplatePhases(phases: TemplatePhaseInput[]): string | null {
+  const seen = new Map<string, TemplatePhaseInput>();
+
+  for (const phase of phases) {
+    if (seen.has(phase.key)) {
+      return `Duplicate phase key: ${phase.key}`;
+    }
+
+    if (phase.mirrorOf) {
+      const source = seen.get(phase.mirrorOf);
+
+      if (!source) {
+        return `${phase.displayName} must mirror a phase that comes before it`;
+      }
+
+      if (source.mirrorOf) {
+        return `${phase.displayName} cannot mirror another mirror phase`;
+      }
+
+      if (phase.skippable) {
+        return `${phase.displayName} is a mirror phase and cannot be skippable`;
+      }
+
+      if (phase.predecessors && phase.predecessors.length > 0) {
+        return `${phase.displayName} is a mirror phase and cannot have predecessors`;
+      }
+    }
+
+    // Predecessors must come earlier in the template, which keeps the graph acyclic
+    const predecessorKeys = new Set<string>();
+    for (const predecessor of phase.predecessors || []) {
+      const source = seen.get(predecessor.key);
+
+      if (!source) {
+        return `${phase.displayName} can only depend on phases that come before it`;
+      }
+
+      if (source.mirrorOf) {
+        return `${phase.displayName} cannot depend on a mirror phase`;
+      }
+
+      if (predecessorKeys.has(predecessor.key)) {
+        return `${phase.displayName} lists ${source.displayName} as a predecessor more than once`;
+      }
+
+      predecessorKeys.add(predecessor.key);
+    }
+
+    seen.set(phase.key, phase);
+  }
+
+  return null;
+}
+
+const phasesSchema = z
+  .array(templatePhaseSchema)
+  .min(1, 'A template needs at least one phase')
+  .superRefine((phases, ctx) => {
+    const message = validateTemplatePhases(phases);
+    if (message) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+    }
+  });
+
+const createTemplateSchema = z.object({
+  name: z.string().min(1, 'Template name is required'),
+  description: z.string().nullable().optional(),
+  phases: phasesSchema,
+});
+
+const updateTemplateSchema = z.object({
+  name: z.string().min(1, 'Template name is required').optional(),
+  description: z.string().nullable().optional(),
+  phases: phasesSchema.optional(),
+});
+
+function toPhaseData(phase: TemplatePhaseInput, index: number) {
+  return {
+    key: phase.key,
+    displayName: phase.displayName,
+    sortOrder: index,
+    defaultDays: phase.mirrorOf ? 0 : phase.defaultDays,
+    mirrorOf: phase.mirrorOf || null,
+    skippable: phase.skippable || false,
+  };
+}
+
+function toDependencyData(phase: TemplatePhaseInput) {
+  return (phase.predecessors || []).map((predecessor) => ({
+    predecessorKey: predecessor.key,
+    lagDays: predecessor.lagDays || 0,
+  }));
+}
+
+// Flatten a template and its phases (e.g. "build.defaultDays") for the audit log
+function toTemplateSnapshot(template: {
+  name: string;
+  description: string | null;
+  phases: {
+    key: string;
+    displayName: string;
+    defaultDays: number;
+    mirrorOf: string | null;
+    skippable: boolean;
+    predecessors: { predecessorKey: string; lagDays: number }[];
+  }[];
+}): AuditSnapshot {
+  const snapshot: AuditSnapshot = {
+    name: template.name,
+    description: template.description,
+    phases: template.phases.map((phase) => phase.key).join(', '),
+  };
+
+  for (const phase of template.phases) {
+    snapshot[`${phase.key}.displayName`] = phase.displayName;
+    snapshot[`${phase.key}.defaultDays`] = phase.defaultDays;
+    snapshot[`${phase.key}.mirrorOf`] = phase.mirrorOf;
+    snapshot[`${phase.key}.skippable`] = phase.skippable;
+    snapshot[`${phase.key}.predecessors`] = phase.predecessors
+      .map((dependency) =>
+        dependency.lagDays > 0
+          ? `${dependency.predecessorKey} + ${dependency.lagDays}`
+          : dependency.predecessorKey
+      )
+      .join(', ');
+  }
+
+  return snapshot;
+}
+
+const templateInclude = {
+  createdByUser: {
+    select: { id: true, name: true },
+  },
+  phases: {
+    include: { predecessors: true },
+    orderBy: { sortOrder: 'asc' as const },
+  },
+  _count: {
+    select: { projects: true },
+  },
+};
+
+// Get all phase templates
+router.get('/', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const defaultTemplateId = await ensureDefaultTemplate();
+
+    const templates = await prisma.phaseTemplate.findMany({
+      include: templateInclude,
+      orderBy: { name: 'asc' },
+    });
+
+    res.json({
+      templates: templates.map(({ _count, ...template }) => ({
+        ...template,
+        projectCount: _count.projects,
+        isDefault: template.id === defaultTemplateId,
+      })),
+    });
+  } catch (error) {
+    console.error('Get templates error:', error);
+    res.status(500).json({ error: 'Failed to get phase templates' });
+  }
+});
+
+// Get single phase template
+router.get('/:id', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const defaultTemplateId = await ensureDefaultTemplate();
+
+    const template = await prisma.phaseTemplate.findUnique({
+      where: { id },
+      include: templateInclude,
+    });
+
+    if (!template) {
+      res.status(404).json({ error: 'Phase template not found' });
+      return;
+    }
+
+    const { _count, ...rest } = template;
+
+    res.json({
+      template: {
+        ...rest,
+        projectCount: _count.projects,
+        isDefault: template.id === defaultTemplateId,
+      },
+    });
+  } catch (error) {
+    console.error('Get template error:', error);
+    res.status(500).json({ error: 'Failed to get phase template' });
+  }
+});
+
+// Create phase template (Super Admin only)
+router.post('/', authenticate, requireSuperAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const validation = createTemplateSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const data = validation.data;
+
+    const existing = await prisma.phaseTemplate.findUnique({
+      where: { name: data.name },
+    });
+
+    if (existing) {
+      res.status(400).json({ error: 'A template with this name already exists' });
+      return;
+    }
+
+    const template = await prisma.phaseTemplate.create({
+      data: {
+        name: data.name,
+        description: data.description || null,
+        createdBy: req.user!.id,
+        phases: {
+          create: data.phases.map((phase, index) => ({
+            ...toPhaseData(phase, index),
+            predecessors: {
+              create: toDependencyData(phase),
+            },
+          })),
+        },
+      },
+      include: templateInclude,
+    });
+
+    await recordAudit(req.user!, {
+      action: 'create',
+      entityType: 'template',
+      entityId: template.id,
+      summary: `Created phase template ${template.name}`,
+      after: toTemplateSnapshot(template),
+    });
+
+    const { _count, ...rest } = template;
+
+    res.status(201).json({
+      template: { ...rest, projectCount: _count.projects, isDefault: false },
+    });
+  } catch (error) {
+    console.error('Create template error:', error);
+    res.status(500).json({ error: 'Failed to create phase template' });
+  }
+});
+
+// Update phase template (Super Admin only)
+// Once projects use a template its phase keys, order and mirror rules are locked;
+// names, default days, skip rules and dependencies can still change
+router.patch('/:id', authenticate, requireSuperAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const validation = updateTemplateSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const data = validation.data;
+
+    const template = await prisma.phaseTemplate.findUnique({
+      where: { id },
+      include: templateInclude,
+    });
+
+    if (!template) {
+      res.status(404).json({ error: 'Phase template not found' });
+      return;
+    }
+
+    if (data.name && data.name !== template.name) {
+      const existing = await prisma.phaseTemplate.findUnique({
+        where: { name: data.name },
+      });
+
+      if (existing) {
+        res.status(400).json({ error: 'A template with this name already exists' });
+        return;
+      }
+    }
+
+    const isInUse = template._count.projects > 0;
+
+    if (data.phases && isInUse) {
+      const structureChanged =
+        data.phases.length !== template.phases.length ||
+        data.phases.some(
+          (phase, index) =>
+            phase.key !== template.phases[index].key ||
+            (phase.mirrorOf || null) !== template.phases[index].mirrorOf
+        );
+
+      if (structureChanged) {
+        res.status(400).json({
+          error: 'Phases cannot be added, removed, reordered or re-mirrored while projects use this template',
+        });
+        return;
+      }
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      await tx.phaseTemplate.update({
+        where: { id },
+        data: {
+          name: data.name,
+          description: data.description,
+        },
+      });
+
+      if (data.phases) {
+        if (isInUse) {
+          // Dependencies only change deadlines when a project is next recalculated
+          for (const phase of data.phases) {
+            const updatedPhase = await tx.phaseTemplatePhase.update({
+              where: {
+                templateId_key: { templateId: id, key: phase.key },
+              },
+              data: {
+                displayName: phase.displayName,
+                defaultDays: phase.mirrorOf ? 0 : phase.defaultDays,
+                skippable: phase.skippable || false,
+              },
+            });
+
+            await tx.phaseTemplateDependency.deleteMany({
+              where: { phaseId: updatedPhase.id },
+            });
+
+            await tx.phaseTemplateDependency.createMany({
+              data: toDependencyData(phase).map((dependency) => ({
+                ...dependency,
+                phaseId: updatedPhase.id,
+              })),
+            });
+          }
+        } else {
+          await tx.phaseTemplatePhase.deleteMany({
+            where: { templateId: id },
+          });
+
+          for (const [index, phase] of data.phases.entries()) {
+            await tx.phaseTemplatePhase.create({
+              data: {
+                ...toPhaseData(phase, index),
+                templateId: id,
+                predecessors: {
+                  create: toDependencyData(phase),
+                },
+              },
+            });
+          }
+        }
+      }
+
+      return tx.phaseTemplate.findUniqueOrThrow({
+        where: { id },
+        include: templateInclude,
+      });
+    });
+
+    const changes = diffAuditSnapshots(toTemplateSnapshot(template), toTemplateSnapshot(updated));
+
+    if (changes) {
+      await recordAudit(req.user!, {
+        action: 'update',
+        entityType: 'template',
+        entityId: id,
+        summary: `Updated phase template ${updated.name}`,
+        ...changes,
+      });
+    }
+
+    const defaultTemplateId = await ensureDefaultTemplate();
+    const { _count, ...rest } = updated;
+
+    res.json({
+      template: {
+        ...rest,
+        projectCount: _count.projects,
+        isDefault: updated.id === defaultTemplateId,
+      },
+    });
+  } catch (error) {
+    console.error('Update template error:', error);
+    res.status(500).json({ error: 'Failed to update phase template' });
+  }
+});
+
+// Delete phase template (Super Admin only)
+router.delete('/:id', authenticate, requireSuperAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const template = await prisma.phaseTemplate.findUnique({
+      where: { id },
+      include: {
+        _count: {
+          select: { projects: true },
+        },
+      },
+    });
+
+    if (!template) {
+      res.status(404).json({ error: 'Phase template not found' });
+      return;
+    }
+
+    const defaultTemplateId = await ensureDefaultTemplate();
+
+    if (template.id === defaultTemplateId) {
+      res.status(400).json({ error: 'Cannot delete the default template' });
+      return;
+    }
+
+    if (template._count.projects > 0) {
+      res.status(400).json({ error: 'Cannot delete a template that projects are using' });
+      return;
+    }
+
+    await prisma.phaseTemplate.delete({
+      where: { id },
+    });
+
+    await recordAudit(req.user!, {
+      action: 'delete',
+      entityType: 'template',
+      entityId: id,
+      summary: `Deleted phase template ${template.name}`,
+      before: { name: template.name, description: template.description },
+    });
+
+    res.json({ message: 'Phase template deleted successfully' });
+  } catch (error) {
+    console.error('Delete template error:', error);
+    res.status(500).json({ error: 'Failed to delete phase template' });
+  }
+});
+
+export default router;
@@ -0,0 +1,201 @@
+import { Router, Response } from 'express';
+import bcrypt from 'bcryptjs';
+import { PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import { AuthRequest } from '../utils/types';
+import { authenticate } from '../middleware/auth';
+import { recordAudit } from '../utils/audit';
+import {
+  confirmTotpEnrolment,
+  isTwoFactorRequired,
+  replaceRecoveryCodes,
+  startTotpEnrolment,
+  verifySecondFactor,
+} from '../utils/twoFactor';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+const codeSchema = z.object({
+  code: z.string().trim().min(1, 'Code is required'),
+});
+
+const disableSchema = codeSchema.extend({
+  password: z.string().min(1, 'Password is required'),
+});
+
+// Whether the current user has two-factor sign-in, and whether their role requires it
+router.get('/', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const [user, recoveryCodesRemaining, required] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: req.user!.id },
+        select: { totpEnabledAt: true },
+      }),
+      prisma.recoveryCode.count({
+        where: { userId: req.user!.id, usedAt: null },
+      }),
+      isTwoFactorRequired(req.user!.role),
+    ]);
+
+    res.json({
+      enabled: Boolean(user?.totpEnabledAt),
+      enabledAt: user?.totpEnabledAt ?? null,
+      required,
+      recoveryCodesRemaining,
+    });
+  } catch (error) {
+    console.error('Get two-factor status error:', error);
+    res.status(500).json({ error: 'Failed to get two-factor status' });
+  }
+});
+
+// Start setting up an authenticator app: returns the QR code and secret
+router.post('/setup', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id },
+      select: { totpEnabledAt: true },
+    });
+
+    // Turn it off first, so a stolen session can't swap in another app
+    if (user?.totpEnabledAt) {
+      res.status(400).json({ error: 'Two-factor authentication is already set up' });
+      return;
+    }
+
+    res.json(await startTotpEnrolment(req.user!));
+  } catch (error) {
+    console.error('Start two-factor setup error:', error);
+    res.status(500).json({ error: 'Failed to start two-factor setup' });
+  }
+});
+
+// Confirm the app with its first code; the recovery codes are shown once
+router.post('/enable', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const validation = codeSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const recoveryCodes = await confirmTotpEnrolment(req.user!, validation.data.code);
+
+    if (!recoveryCodes) {
+      res.status(400).json({ error: 'Invalid code, check the time on your device and try again' });
+      return;
+    }
+
+    res.json({ recoveryCodes });
+  } catch (error) {
+    console.error('Enable two-factor error:', error);
+    res.status(500).json({ error: 'Failed to turn on two-factor authentication' });
+  }
+});
+
+// Replace the recovery codes, confirming with a current code
+router.post('/recovery-codes', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const validation = codeSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: req.user!.id } });
+
+    if (!user?.totpEnabledAt) {
+      res.status(400).json({ error: 'Two-factor authentication is not turned on' });
+      return;
+    }
+
+    if (!(await verifySecondFactor(user, validation.data.code))) {
+      res.status(400).json({ error: 'Invalid code' });
+      return;
+    }
+
+    const recoveryCodes = await replaceRecoveryCodes(user.id);
+
+    await recordAudit(req.user!, {
+      action: 'update',
+      entityType: 'user',
+      entityId: user.id,
+      summary: `${user.name} replaced their two-factor recovery codes`,
+    });
+
+    res.json({ recoveryCodes });
+  } catch (error) {
+    console.error('Replace recovery codes error:', error);
+    res.status(500).json({ error: 'Failed to replace recovery codes' });
+  }
+});
+
+// Turn two-factor sign-in off, confirming with the password and a current code
+router.post('/disable', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const validation = disableSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const { code, password } = validation.data;
+    const user = await prisma.user.findUnique({ where: { id: req.user!.id } });
+
+    if (!user?.totpEnabledAt) {
+      res.status(400).json({ error: 'Two-factor authentication is not turned on' });
+      return;
+    }
+
+    if (await isTwoFactorRequired(user.role)) {
+      res.status(403).json({ error: 'Two-factor authentication is required for your role' });
+      return;
+    }
+
+    const isValidPassword = await bcrypt.compare(password, user.password);
+
+    if (!isValidPassword || !(await verifySecondFactor(user, code))) {
+      res.status(400).json({ error: 'Incorrect password or code' });
+      return;
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.user.update({
+        where: { id: user.id },
+        data: { totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null },
+      });
+      await tx.recoveryCode.deleteMany({ where: { userId: user.id } });
+
+      await recordAudit(
+        req.user!,
+        {
+          action: 'update',
+          entityType: 'user',
+          entityId: user.id,
+          summary: `${user.name} turned off two-factor authentication`,
+        },
+        tx
+      );
+    });
+
+    res.json({ message: 'Two-factor authentication turned off' });
+  } catch (error) {
+    console.error('Disable two-factor error:', error);
+    res.status(500).json({ error: 'Failed to turn off two-factor authentication' });
+  }
+});
+
+export default router;
@@ -1,8 +1,11 @@
 import { Router, Response } from 'express';
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 import { z } from 'zod';
-import { AuthRequest, UserRole } from '../utils/types';
+import { AuthRequest, AuthUser, UserRole } from '../utils/types';
 import { authenticate, requireAdmin } from '../middleware/auth';
+import { recordAudit, toAuditSnapshot } from '../utils/audit';
+import { listActiveSessions, revokeSessions } from '../utils/sessions';
+import { isLocked } from '../utils/loginThrottle';
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -11,6 +14,17 @@ const updateRoleSchema = z.object({
   role: z.enum(['staff', 'admin', 'superadmin']),
 });
 
+const failedLoginQuerySchema = z.object({
+  q: z.string().trim().optional(),
+  userId: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+// Same rule as deleting a user: admins manage staff, Super Admins manage anyone
+function canManageUser(currentUser: AuthUser, target: { id: string; role: string }): boolean {
+  return currentUser.role === 'superadmin' || target.role === 'staff' || target.id === currentUser.id;
+}
+
 // Get all users (Admin+)
 router.get('/', authenticate, requireAdmin, async (req: AuthRequest, res: Response) => {
   try {
@@ -21,19 +35,83 @@ router.get('/', authenticate, requireAdmin, async (req: AuthRequest, res: Respon
         email: true,
         role: true,
         createdAt: true,
+        totpEnabledAt: true,
+        failedLoginCount: true,
+        lockedUntil: true,
       },
       orderBy: {
         createdAt: 'desc',
       },
     });
 
-    res.json({ users });
+    res.json({
+      users: users.map(({ totpEnabledAt, lockedUntil, ...user }) => ({
+        ...user,
+        twoFactorEnabled: Boolean(totpEnabledAt),
+        lockedUntil: isLocked({ lockedUntil }) ? lockedUntil : null,
+      })),
+    });
   } catch (error) {
     console.error('Get users error:', error);
     res.status(500).json({ error: 'Failed to get users' });
   }
 });
 
+// Names of all users, for picking owners and assignees
+router.get('/directory', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const users = await prisma.user.findMany({
+      select: { id: true, name: true },
+      orderBy: { name: 'asc' },
+    });
+
+    res.json({ users });
+  } catch (error) {
+    console.error('Get user directory error:', error);
+    res.status(500).json({ error: 'Failed to get users' });
+  }
+});
+
+// Recent failed sign-in attempts, newest first, for security review (Admin+)
+// ?q= matches the email entered or the IP address
+router.get('/failed-logins', authenticate, requireAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const validation = failedLoginQuerySchema.safeParse(req.query);
+
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const { q, userId, limit } = validation.data;
+    const where: Prisma.FailedLoginWhereInput = { userId };
+
+    if (q) {
+      where.OR = [
+        { email: { contains: q, mode: 'insensitive' } },
+        { ipAddress: { startsWith: q } },
+      ];
+    }
+
+    const attempts = await prisma.failedLogin.findMany({
+      where,
+      include: {
+        user: { select: { id: true, name: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+
+    res.json({ attempts });
+  } catch (error) {
+    console.error('Get failed logins error:', error);
+    res.status(500).json({ error: 'Failed to get failed sign-in attempts' });
+  }
+});
+
 // Update user role (Admin+)
 router.patch('/:id/role', authenticate, requireAdmin, async (req: AuthRequest, res: Response) => {
   try {
@@ -97,6 +175,17 @@ router.patch('/:id/role', authenticate, requireAdmin, async (req: AuthRequest, r
       },
     });
 
+    if (targetUser.role !== role) {
+      await recordAudit(currentUser, {
+        action: 'update',
+        entityType: 'user',
+        entityId: id,
+        summary: `Changed ${targetUser.name}'s role from ${targetUser.role} to ${role}`,
+        before: { role: targetUser.role },
+        after: { role },
+      });
+    }
+
     res.json({ user: updatedUser });
   } catch (error) {
     console.error('Update role error:', error);
@@ -151,6 +240,14 @@ router.delete('/:id', authenticate, requireAdmin, async (req: AuthRequest, res:
       where: { id },
     });
 
+    await recordAudit(currentUser, {
+      action: 'delete',
+      entityType: 'user',
+      entityId: id,
+      summary: `Deleted user ${targetUser.name}`,
+      before: toAuditSnapshot(targetUser, ['name', 'email', 'role']),
+    });
+
     res.json({ message: 'User deleted successfully' });
   } catch (error) {
     console.error('Delete user error:', error);
@@ -158,4 +255,179 @@ router.delete('/:id', authenticate, requireAdmin, async (req: AuthRequest, res:
   }
 });
 
+// A user's signed-in sessions (Admin+)
+router.get('/:id/sessions', authenticate, requireAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const targetUser = await prisma.user.findUnique({
+      where: { id: req.params.id },
+    });
+
+    if (!targetUser) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    if (!canManageUser(req.user!, targetUser)) {
+      res.status(403).json({ error: "Insufficient permissions to view this user's sessions" });
+      return;
+    }
+
+    const sessions = await listActiveSessions(targetUser.id);
+
+    res.json({
+      sessions: sessions.map((session) => ({ ...session, current: session.id === req.sessionId })),
+    });
+  } catch (error) {
+    console.error('Get user sessions error:', error);
+    res.status(500).json({ error: 'Failed to get sessions' });
+  }
+});
+
+// Sign a user out of one session, or every session when no session is given (Admin+)
+router.delete(
+  ['/:id/sessions', '/:id/sessions/:sessionId'],
+  authenticate,
+  requireAdmin,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const { id, sessionId } = req.params;
+      const currentUser = req.user!;
+
+      const targetUser = await prisma.user.findUnique({
+        where: { id },
+      });
+
+      if (!targetUser) {
+        res.status(404).json({ error: 'User not found' });
+        return;
+      }
+
+      if (!canManageUser(currentUser, targetUser)) {
+        res.status(403).json({ error: 'Insufficient permissions to sign this user out' });
+        return;
+      }
+
+      const count = await revokeSessions({ userId: id, ...(sessionId ? { id: sessionId } : {}) });
+
+      if (sessionId && count === 0) {
+        res.status(404).json({ error: 'Session not found' });
+        return;
+      }
+
+      if (count > 0) {
+        await recordAudit(currentUser, {
+          action: 'update',
+          entityType: 'user',
+          entityId: id,
+          summary: sessionId
+            ? `Signed ${targetUser.name} out of a session`
+            : `Signed ${targetUser.name} out everywhere`,
+        });
+      }
+
+      res.json({ message: count === 1 ? 'Signed out 1 session' : `Signed out ${count} sessions` });
+    } catch (error) {
+      console.error('Revoke user sessions error:', error);
+      res.status(500).json({ error: 'Failed to sign out sessions' });
+    }
+  }
+);
+
+// Lift a sign-in lockout before it runs out (Admin+)
+router.post('/:id/unlock', authenticate, requireAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const currentUser = req.user!;
+
+    const targetUser = await prisma.user.findUnique({
+      where: { id },
+    });
+
+    if (!targetUser) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    if (!canManageUser(currentUser, targetUser)) {
+      res.status(403).json({ error: 'Insufficient permissions to unlock this user' });
+      return;
+    }
+
+    if (!isLocked(targetUser)) {
+      res.status(400).json({ error: 'This account is not locked' });
+      return;
+    }
+
+    await prisma.user.update({
+      where: { id },
+      data: { failedLoginCount: 0, lastFailedLoginAt: null, lockedUntil: null },
+    });
+
+    await recordAudit(currentUser, {
+      action: 'update',
+      entityType: 'user',
+      entityId: id,
+      summary: `Unlocked ${targetUser.name}'s account`,
+    });
+
+    res.json({ message: 'Account unlocked' });
+  } catch (error) {
+    console.error('Unlock user error:', error);
+    res.status(500).json({ error: 'Failed to unlock user' });
+  }
+});
+
+// Reset a user's two-factor sign-in, e.g. after losing their phone and recovery codes (Admin+)
+// They sign in with just their password next time, and set it up again if their role requires it
+router.delete('/:id/2fa', authenticate, requireAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const currentUser = req.user!;
+
+    const targetUser = await prisma.user.findUnique({
+      where: { id },
+    });
+
+    if (!targetUser) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    // Your own goes through your profile, with your password and a code
+    if (targetUser.id === currentUser.id || !canManageUser(currentUser, targetUser)) {
+      res.status(403).json({ error: "Insufficient permissions to reset this user's two-factor authentication" });
+      return;
+    }
+
+    if (!targetUser.totpSecret) {
+      res.status(400).json({ error: 'Two-factor authentication is not set up for this user' });
+      return;
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.user.update({
+        where: { id },
+        data: { totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null },
+      });
+      await tx.recoveryCode.deleteMany({ where: { userId: id } });
+
+      await recordAudit(
+        currentUser,
+        {
+          action: 'update',
+          entityType: 'user',
+          entityId: id,
+          summary: `Reset ${targetUser.name}'s two-factor authentication`,
+        },
+        tx
+      );
+    });
+
+    res.json({ message: 'Two-factor authentication reset' });
+  } catch (error) {
+    console.error('Reset two-factor error:', error);
+    res.status(500).json({ error: 'Failed to reset two-factor authentication' });
+  }
+});
+
 export default router;
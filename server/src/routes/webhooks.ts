@@ -0,0 +1,233 @@
+import { Router, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import { AuthRequest } from '../utils/types';
+import { authenticate, requireAdmin } from '../middleware/auth';
+import { diffAuditSnapshots, recordAudit, toAuditSnapshot } from '../utils/audit';
+import { WEBHOOK_EVENTS, generateWebhookSecret, sendTestWebhook } from '../utils/webhooks';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+// The secret is left out so it never ends up in the audit log
+const WEBHOOK_AUDIT_FIELDS = ['name', 'url', 'events', 'isActive'] as const;
+
+const webhookUrl = z
+  .string()
+  .url('Must be a valid URL')
+  .refine((url) => /^https?:\/\//i.test(url), 'Must be an http or https URL');
+
+const createWebhookSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  url: webhookUrl,
+  secret: z.string().min(16, 'Secret must be at least 16 characters').optional(),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1, 'Select at least one event'),
+  isActive: z.boolean().optional(),
+});
+
+const updateWebhookSchema = z.object({
+  name: z.string().min(1, 'Name is required').optional(),
+  url: webhookUrl.optional(),
+  secret: z.string().min(16, 'Secret must be at least 16 characters').optional(),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1, 'Select at least one event').optional(),
+  isActive: z.boolean().optional(),
+});
+
+// Get all webhooks (Admin+)
+router.get('/', authenticate, requireAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const webhooks = await prisma.webhook.findMany({
+      include: {
+        createdByUser: {
+          select: { id: true, name: true },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    res.json({ webhooks, events: WEBHOOK_EVENTS });
+  } catch (error) {
+    console.error('Get webhooks error:', error);
+    res.status(500).json({ error: 'Failed to get webhooks' });
+  }
+});
+
+// Create webhook, generating a signing secret if none is given (Admin+)
+router.post('/', authenticate, requireAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const validation = createWebhookSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const data = validation.data;
+
+    const webhook = await prisma.webhook.create({
+      data: {
+        name: data.name,
+        url: data.url,
+        secret: data.secret || generateWebhookSecret(),
+        events: data.events,
+        isActive: data.isActive ?? true,
+        createdBy: req.user!.id,
+      },
+      include: {
+        createdByUser: {
+          select: { id: true, name: true },
+        },
+      },
+    });
+
+    await recordAudit(req.user!, {
+      action: 'create',
+      entityType: 'webhook',
+      entityId: webhook.id,
+      summary: `Added webhook ${webhook.name}`,
+      after: toAuditSnapshot(webhook, [...WEBHOOK_AUDIT_FIELDS]),
+    });
+
+    res.status(201).json({ webhook });
+  } catch (error) {
+    console.error('Create webhook error:', error);
+    res.status(500).json({ error: 'Failed to create webhook' });
+  }
+});
+
+// Update webhook (Admin+)
+router.patch('/:id', authenticate, requireAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const validation = updateWebhookSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const webhook = await prisma.webhook.findUnique({
+      where: { id },
+    });
+
+    if (!webhook) {
+      res.status(404).json({ error: 'Webhook not found' });
+      return;
+    }
+
+    const updated = await prisma.webhook.update({
+      where: { id },
+      data: validation.data,
+      include: {
+        createdByUser: {
+          select: { id: true, name: true },
+        },
+      },
+    });
+
+    const changes = diffAuditSnapshots(
+      toAuditSnapshot(webhook, [...WEBHOOK_AUDIT_FIELDS]),
+      toAuditSnapshot(updated, [...WEBHOOK_AUDIT_FIELDS])
+    );
+
+    if (changes || validation.data.secret) {
+      await recordAudit(req.user!, {
+        action: 'update',
+        entityType: 'webhook',
+        entityId: id,
+        summary: validation.data.secret
+          ? `Updated webhook ${updated.name} and changed its secret`
+          : `Updated webhook ${updated.name}`,
+        ...changes,
+      });
+    }
+
+    res.json({ webhook: updated });
+  } catch (error) {
+    console.error('Update webhook error:', error);
+    res.status(500).json({ error: 'Failed to update webhook' });
+  }
+});
+
+// Delete webhook and its delivery log (Admin+)
+router.delete('/:id', authenticate, requireAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const webhook = await prisma.webhook.findUnique({
+      where: { id },
+    });
+
+    if (!webhook) {
+      res.status(404).json({ error: 'Webhook not found' });
+      return;
+    }
+
+    await prisma.webhook.delete({
+      where: { id },
+    });
+
+    await recordAudit(req.user!, {
+      action: 'delete',
+      entityType: 'webhook',
+      entityId: id,
+      summary: `Deleted webhook ${webhook.name}`,
+      before: toAuditSnapshot(webhook, [...WEBHOOK_AUDIT_FIELDS]),
+    });
+
+    res.json({ message: 'Webhook deleted successfully' });
+  } catch (error) {
+    console.error('Delete webhook error:', error);
+    res.status(500).json({ error: 'Failed to delete webhook' });
+  }
+});
+
+// Send a test event and wait for the receiver's response (Admin+)
+router.post('/:id/test', authenticate, requireAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const webhook = await prisma.webhook.findUnique({
+      where: { id },
+    });
+
+    if (!webhook) {
+      res.status(404).json({ error: 'Webhook not found' });
+      return;
+    }
+
+    const delivery = await sendTestWebhook(id);
+
+    res.json({ delivery });
+  } catch (error) {
+    console.error('Test webhook error:', error);
+    res.status(500).json({ error: 'Failed to send test event' });
+  }
+});
+
+// Get a webhook's most recent deliveries (Admin+)
+router.get('/:id/deliveries', authenticate, requireAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const limit = Math.min(parseInt(req.query.limit as string, 10) || 50, 200);
+
+    const deliveries = await prisma.webhookDelivery.findMany({
+      where: { webhookId: id },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+
+    res.json({ deliveries });
+  } catch (error) {
+    console.error('Get webhook deliveries error:', error);
+    res.status(500).json({ error: 'Failed to get webhook deliveries' });
+  }
+});
+
+export default router;
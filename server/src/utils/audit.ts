@@ -0,0 +1,96 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { AuthUser } from './types';
+
+const prisma = new PrismaClient();
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'complete' | 'uncomplete';
+
+export type AuditEntityType =
+  | 'project'
+  | 'phase'
+  | 'user'
+  | 'settings'
+  | 'template'
+  | 'holiday'
+  | 'blackout'
+  | 'webhook'
+  | 'invite';
+
+// Snapshots are flat so the history views can list changes field by field
+export type AuditValue = string | number | boolean | null;
+export type AuditSnapshot = Record<string, AuditValue>;
+
+export interface AuditEntry {
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  projectId?: string | null;
+  summary: string;
+  before?: AuditSnapshot | null;
+  after?: AuditSnapshot | null;
+}
+
+type AuditClient = PrismaClient | Prisma.TransactionClient;
+
+export function toAuditValue(value: unknown): AuditValue {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return value;
+  }
+  return JSON.stringify(value);
+}
+
+// Pick the given fields from a record
+export function toAuditSnapshot<T extends object>(record: T, fields: (keyof T & string)[]): AuditSnapshot {
+  const snapshot: AuditSnapshot = {};
+  for (const field of fields) {
+    snapshot[field] = toAuditValue(record[field]);
+  }
+  return snapshot;
+}
+
+// Reduce two snapshots to the fields that changed, or null if nothing did
+export function diffAuditSnapshots(
+  before: AuditSnapshot,
+  after: AuditSnapshot
+): { before: AuditSnapshot; after: AuditSnapshot } | null {
+  const changedBefore: AuditSnapshot = {};
+  const changedAfter: AuditSnapshot = {};
+
+  for (const field of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    const oldValue = before[field] ?? null;
+    const newValue = after[field] ?? null;
+
+    if (oldValue !== newValue) {
+      changedBefore[field] = oldValue;
+      changedAfter[field] = newValue;
+    }
+  }
+
+  return Object.keys(changedAfter).length > 0
+    ? { before: changedBefore, after: changedAfter }
+    : null;
+}
+
+// Append an entry to the audit log
+// Pass the transaction client when the change itself runs in a transaction
+export async function recordAudit(
+  actor: AuthUser | null,
+  entry: AuditEntry,
+  client: AuditClient = prisma
+): Promise<void> {
+  await client.auditLog.create({
+    data: {
+      actorId: actor?.id ?? null,
+      actorName: actor?.name ?? 'System',
+      action: entry.action,
+      entityType: entry.entityType,
+      entityId: entry.entityId,
+      projectId: entry.projectId ?? null,
+      summary: entry.summary,
+      before: entry.before ?? undefined,
+      after: entry.after ?? undefined,
+    },
+  });
+}
@@ -0,0 +1,31 @@
+import { PrismaClient } from '@prisma/client';
+import { setBlackoutPeriods, setHolidayOverrides } from './businessDays';
+
+const prisma = new PrismaClient();
+
+// Load the Super Admin maintained holiday calendar and blackout periods into the
+// business-day engine. Must run before any deadline or days-until calculation so
+// ad-hoc holidays, removed holidays and shutdown periods are honoured
+export async function refreshBusinessCalendar(): Promise<void> {
+  const [holidays, blackouts] = await Promise.all([
+    prisma.holiday.findMany(),
+    prisma.blackoutPeriod.findMany(),
+  ]);
+
+  setHolidayOverrides(
+    holidays
+      .filter((holiday) => holiday.type === 'adhoc')
+      .map((holiday) => ({ date: holiday.date, name: holiday.name })),
+    holidays
+      .filter((holiday) => holiday.type === 'removed')
+      .map((holiday) => holiday.date)
+  );
+
+  setBlackoutPeriods(
+    blackouts.map((blackout) => ({
+      startDate: blackout.startDate,
+      endDate: blackout.endDate,
+      region: blackout.region,
+    }))
+  );
+}
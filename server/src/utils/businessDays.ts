@@ -7,7 +7,10 @@ import {
   isAfter,
   isSameDay,
   startOfDay,
+  format,
+  parseISO,
 } from 'date-fns';
+import { PhaseDefinition, PhaseDependency, PhaseScheduleInfo, PhaseSpan } from './types';
 
 // Calculate Easter Sunday using the Anonymous Gregorian algorithm
 function getEasterSunday(year: number): Date {
@@ -41,10 +44,15 @@ function getFamilyDay(year: number): Date {
   return addDays(goodFriday, 1);
 }
 
-// Get all South African public holidays for a given year
+export interface PublicHoliday {
+  date: Date;
+  name: string;
+}
+
+// Get all South African public holidays for a given year, with their names
 // If a holiday falls on a Sunday, the following Monday is observed
-export function getSAPublicHolidays(year: number): Date[] {
-  const holidays: Date[] = [];
+export function getSAPublicHolidaysWithNames(year: number): PublicHoliday[] {
+  const holidays: PublicHoliday[] = [];
 
   // Fixed holidays
   const fixedHolidays = [
@@ -68,21 +76,80 @@ export function getSAPublicHolidays(year: number): Date[] {
       date = addDays(date, 1);
     }
 
-    holidays.push(startOfDay(date));
+    holidays.push({ date: startOfDay(date), name: holiday.name });
   }
 
   // Variable holidays (Easter-based)
   const goodFriday = getGoodFriday(year);
   const familyDay = getFamilyDay(year);
 
-  holidays.push(startOfDay(goodFriday));
-  holidays.push(startOfDay(familyDay));
+  holidays.push({ date: startOfDay(goodFriday), name: 'Good Friday' });
+  holidays.push({ date: startOfDay(familyDay), name: 'Family Day' });
 
   return holidays;
 }
 
-// Check if a date is a South African public holiday
+// Get all South African public holidays for a given year
+export function getSAPublicHolidays(year: number): Date[] {
+  return getSAPublicHolidaysWithNames(year).map((holiday) => holiday.date);
+}
+
+// Holiday calendar overrides maintained by Super Admins (see utils/businessCalendar.ts)
+// Ad-hoc holidays are added on top of the computed ones, removed holidays are
+// computed holidays that should be treated as normal business days
+interface HolidayOverrides {
+  added: Map<string, string>;
+  removed: Set<string>;
+}
+
+let holidayOverrides: HolidayOverrides = {
+  added: new Map(),
+  removed: new Set(),
+};
+
+function toDateKey(date: Date): string {
+  return format(startOfDay(date), 'yyyy-MM-dd');
+}
+
+// Replace the ad-hoc and removed holidays consulted by the business-day engine
+export function setHolidayOverrides(
+  added: PublicHoliday[],
+  removed: Date[]
+): void {
+  holidayOverrides = {
+    added: new Map(added.map((holiday) => [toDateKey(holiday.date), holiday.name])),
+    removed: new Set(removed.map(toDateKey)),
+  };
+}
+
+// Get the effective public holidays for a year (computed + ad-hoc - removed)
+export function getPublicHolidays(year: number): PublicHoliday[] {
+  const holidays = getSAPublicHolidaysWithNames(year).filter(
+    (holiday) => !holidayOverrides.removed.has(toDateKey(holiday.date))
+  );
+
+  for (const [key, name] of holidayOverrides.added) {
+    const date = parseISO(key);
+    if (getYear(date) === year) {
+      holidays.push({ date, name });
+    }
+  }
+
+  return holidays.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+// Check if a date is a public holiday, taking the holiday calendar into account
 export function isPublicHoliday(date: Date): boolean {
+  const key = toDateKey(date);
+
+  if (holidayOverrides.removed.has(key)) {
+    return false;
+  }
+
+  if (holidayOverrides.added.has(key)) {
+    return true;
+  }
+
   const year = getYear(date);
   const holidays = getSAPublicHolidays(year);
   const checkDate = startOfDay(date);
@@ -90,13 +157,52 @@ export function isPublicHoliday(date: Date): boolean {
   return holidays.some(holiday => isSameDay(holiday, checkDate));
 }
 
-// Check if a date is a business day (not weekend, not public holiday)
-export function isBusinessDay(date: Date): boolean {
-  return !isWeekend(date) && !isPublicHoliday(date);
+// Company shutdown / non-working periods (see utils/businessCalendar.ts)
+// A period without a region applies to every project
+export interface BlackoutPeriod {
+  startDate: Date;
+  endDate: Date;
+  region: string | null;
+}
+
+let blackoutPeriods: BlackoutPeriod[] = [];
+
+// Replace the blackout periods consulted by the business-day engine
+export function setBlackoutPeriods(periods: BlackoutPeriod[]): void {
+  blackoutPeriods = periods.map((period) => ({
+    startDate: startOfDay(new Date(period.startDate)),
+    endDate: startOfDay(new Date(period.endDate)),
+    region: period.region,
+  }));
+}
+
+export function getBlackoutPeriods(): BlackoutPeriod[] {
+  return [...blackoutPeriods];
+}
+
+// Check if a date falls inside a blackout period that applies to the region
+export function isBlackoutDay(date: Date, region?: string | null): boolean {
+  const checkDate = startOfDay(date);
+
+  return blackoutPeriods.some(
+    (period) =>
+      (period.region === null || period.region === region) &&
+      !isBefore(checkDate, period.startDate) &&
+      !isAfter(checkDate, period.endDate)
+  );
+}
+
+// Check if a date is a business day (not weekend, not public holiday, not blacked out)
+export function isBusinessDay(date: Date, region?: string | null): boolean {
+  return !isWeekend(date) && !isPublicHoliday(date) && !isBlackoutDay(date, region);
 }
 
 // Add business days to a date
-export function addBusinessDays(startDate: Date, businessDays: number): Date {
+export function addBusinessDays(
+  startDate: Date,
+  businessDays: number,
+  region?: string | null
+): Date {
   let currentDate = startOfDay(new Date(startDate));
   let daysAdded = 0;
 
@@ -107,7 +213,7 @@ export function addBusinessDays(startDate: Date, businessDays: number): Date {
   while (daysAdded < businessDays) {
     currentDate = addDays(currentDate, 1);
 
-    if (isBusinessDay(currentDate)) {
+    if (isBusinessDay(currentDate, region)) {
       daysAdded++;
     }
   }
@@ -116,7 +222,11 @@ export function addBusinessDays(startDate: Date, businessDays: number): Date {
 }
 
 // Calculate business days between two dates (excluding start, including end)
-export function getBusinessDaysBetween(startDate: Date, endDate: Date): number {
+export function getBusinessDaysBetween(
+  startDate: Date,
+  endDate: Date,
+  region?: string | null
+): number {
   const start = startOfDay(new Date(startDate));
   const end = startOfDay(new Date(endDate));
 
@@ -131,7 +241,7 @@ export function getBusinessDaysBetween(startDate: Date, endDate: Date): number {
   let currentDate = addDays(earlier, 1);
 
   while (!isAfter(currentDate, later)) {
-    if (isBusinessDay(currentDate)) {
+    if (isBusinessDay(currentDate, region)) {
       businessDays++;
     }
     currentDate = addDays(currentDate, 1);
@@ -142,7 +252,7 @@ export function getBusinessDaysBetween(startDate: Date, endDate: Date): number {
 
 // Get the number of business days remaining until a deadline
 // Returns negative if deadline has passed
-export function getBusinessDaysUntil(deadline: Date): number {
+export function getBusinessDaysUntil(deadline: Date, region?: string | null): number {
   const today = startOfDay(new Date());
   const deadlineDate = startOfDay(new Date(deadline));
 
@@ -152,166 +262,419 @@ export function getBusinessDaysUntil(deadline: Date): number {
 
   if (isBefore(deadlineDate, today)) {
     // Deadline has passed, return negative days
-    return -getBusinessDaysBetween(deadlineDate, today);
+    return -getBusinessDaysBetween(deadlineDate, today, region);
   }
 
-  return getBusinessDaysBetween(today, deadlineDate);
+  return getBusinessDaysBetween(today, deadlineDate, region);
 }
 
-// Phase order for calculations
-export const PHASE_ORDER = [
-  'planning',
-  'funding',
-  'wayleave',
-  'materials',
-  'announcement',
-  'kickoff',
-  'build',
-  'fqa',
-  'ecc',
-  'integration',
-  'rfa',
-  'com',
-] as const;
-
-export type PhaseName = (typeof PHASE_ORDER)[number];
-
-// Phase display names
-export const PHASE_DISPLAY_NAMES: Record<PhaseName, string> = {
-  planning: 'Planning',
-  funding: 'Funding',
-  wayleave: 'Wayleave',
-  materials: 'Materials',
-  announcement: 'Announcement',
-  kickoff: 'Kick-Off',
-  build: 'Build',
-  fqa: 'FQA',
-  ecc: 'ECC',
-  integration: 'Integration',
-  rfa: 'RFA',
-  com: 'COM',
-};
+// Subtract business days from a date (the inverse of addBusinessDays)
+export function subtractBusinessDays(
+  endDate: Date,
+  businessDays: number,
+  region?: string | null
+): Date {
+  let currentDate = startOfDay(new Date(endDate));
+  let daysSubtracted = 0;
 
-// Default allowed days for each phase
-export const DEFAULT_ALLOWED_DAYS: Record<PhaseName, number> = {
-  planning: 10,
-  funding: 2,
-  wayleave: 20,
-  materials: 15,
-  announcement: 1,
-  kickoff: 2,
-  build: 20,
-  fqa: 0, // Mirrors build
-  ecc: 1,
-  integration: 2,
-  rfa: 1,
-  com: 0, // Mirrors rfa
-};
+  while (daysSubtracted < businessDays) {
+    currentDate = addDays(currentDate, -1);
 
-// Phases that mirror other phases
-export const MIRROR_PHASES: Partial<Record<PhaseName, PhaseName>> = {
-  fqa: 'build',
-  com: 'rfa',
-};
+    if (isBusinessDay(currentDate, region)) {
+      daysSubtracted++;
+    }
+  }
+
+  return currentDate;
+}
+
+// Resolve the predecessors of each phase
+// Phases without declared dependencies follow the previous non-mirror phase,
+// and the first phase starts from the site survey date
+export function getPhasePredecessors(phases: PhaseDefinition[]): Record<string, PhaseDependency[]> {
+  const predecessors: Record<string, PhaseDependency[]> = {};
+  let previous: string | null = null;
+
+  for (const phase of phases) {
+    if (phase.mirrorOf) continue;
 
-// Calculate all phase deadlines for a project
+    if (phase.predecessors.length > 0) {
+      predecessors[phase.key] = phase.predecessors;
+    } else {
+      predecessors[phase.key] = previous ? [{ key: previous, lagDays: 0 }] : [];
+    }
+
+    previous = phase.key;
+  }
+
+  return predecessors;
+}
+
+// The earliest date a phase can start: the latest predecessor finish plus lag
+function getPhaseStart(
+  siteSurveyDate: Date,
+  predecessors: PhaseDependency[],
+  finishes: Record<string, Date>,
+  region?: string | null
+): Date {
+  let start = startOfDay(new Date(siteSurveyDate));
+
+  for (const predecessor of predecessors) {
+    const finish = finishes[predecessor.key] || start;
+    const candidate = addBusinessDays(finish, predecessor.lagDays, region);
+
+    if (isAfter(candidate, start)) {
+      start = candidate;
+    }
+  }
+
+  return start;
+}
+
+// Calculate all phase deadlines for a project from its template's phase definitions
+// Deadlines are computed over the dependency graph, so parallel phases share a start
 export function calculatePhaseDeadlines(
   siteSurveyDate: Date,
-  allowedDaysPerPhase: Record<PhaseName, number>
-): Record<PhaseName, Date> {
-  const deadlines: Partial<Record<PhaseName, Date>> = {};
-  let previousDeadline = startOfDay(new Date(siteSurveyDate));
-
-  for (const phase of PHASE_ORDER) {
-    // Check if this phase mirrors another
-    const mirrorOf = MIRROR_PHASES[phase];
-    if (mirrorOf && deadlines[mirrorOf]) {
-      deadlines[phase] = deadlines[mirrorOf];
+  phases: PhaseDefinition[],
+  allowedDaysPerPhase: Record<string, number>,
+  region?: string | null
+): Record<string, Date> {
+  const deadlines: Record<string, Date> = {};
+  // Finish dates including skipped phases, which pass their start straight through
+  const finishes: Record<string, Date> = {};
+  const predecessors = getPhasePredecessors(phases);
+
+  for (const phase of phases) {
+    // Mirror phases share the deadline of the phase they mirror
+    if (phase.mirrorOf) {
+      if (deadlines[phase.mirrorOf]) {
+        deadlines[phase.key] = deadlines[phase.mirrorOf];
+      }
       continue;
     }
 
-    const allowedDays = allowedDaysPerPhase[phase];
+    const start = getPhaseStart(siteSurveyDate, predecessors[phase.key], finishes, region);
+    const allowedDays = allowedDaysPerPhase[phase.key] ?? phase.defaultDays;
 
-    // Skip wayleave if allowedDays is 0
-    if (phase === 'wayleave' && allowedDays === 0) {
+    // Skip optional phases that have no allowed days
+    if (phase.skippable && allowedDays === 0) {
+      finishes[phase.key] = start;
       continue;
     }
 
     // Calculate deadline
-    const deadline = addBusinessDays(previousDeadline, allowedDays);
-    deadlines[phase] = deadline;
-
-    // Update previous deadline for next phase (skip wayleave if it was skipped)
-    if (phase !== 'fqa' && phase !== 'com') {
-      previousDeadline = deadline;
-    }
+    const deadline = addBusinessDays(start, allowedDays, region);
+    deadlines[phase.key] = deadline;
+    finishes[phase.key] = deadline;
   }
 
-  return deadlines as Record<PhaseName, Date>;
+  return deadlines;
 }
 
 // Calculate phase deadlines starting from a specific changed phase
 // This is used when a Super Admin manually changes a deadline date
-// All downstream phases will be recalculated based on the new deadline
+// All phases that depend on the changed phase will be recalculated based on the new deadline
 export function calculatePhaseDeadlinesFromDeadline(
-  changedPhase: PhaseName,
+  changedPhase: string,
   newDeadline: Date,
-  allowedDaysPerPhase: Record<PhaseName, number>,
-  currentDeadlines: Record<PhaseName, Date>
-): Record<PhaseName, Date> {
-  const deadlines: Record<PhaseName, Date> = { ...currentDeadlines };
-  const changedPhaseIndex = PHASE_ORDER.indexOf(changedPhase);
-
-  // Set the new deadline for the changed phase
-  deadlines[changedPhase] = startOfDay(new Date(newDeadline));
-
-  // If FQA was changed, also update Build (they mirror each other)
-  if (changedPhase === 'fqa') {
-    deadlines['build'] = deadlines['fqa'];
-  }
-  // If Build was changed, also update FQA
-  if (changedPhase === 'build') {
-    deadlines['fqa'] = deadlines['build'];
+  siteSurveyDate: Date,
+  phases: PhaseDefinition[],
+  allowedDaysPerPhase: Record<string, number>,
+  currentDeadlines: Record<string, Date>,
+  region?: string | null
+): Record<string, Date> {
+  const deadlines: Record<string, Date> = { ...currentDeadlines };
+  const finishes: Record<string, Date> = { ...currentDeadlines };
+  const predecessors = getPhasePredecessors(phases);
+  const changed = phases.find((phase) => phase.key === changedPhase);
+
+  // Keep mirror pairs in sync whichever side was changed
+  const source = changed?.mirrorOf || changedPhase;
+  deadlines[source] = startOfDay(new Date(newDeadline));
+  finishes[source] = deadlines[source];
+
+  // Phases downstream of the changed phase in the dependency graph
+  const affected = new Set<string>([source]);
+
+  for (const phase of phases) {
+    if (phase.key === source) continue;
+
+    if (phase.mirrorOf) {
+      if (affected.has(phase.mirrorOf)) {
+        deadlines[phase.key] = deadlines[phase.mirrorOf];
+      }
+      continue;
+    }
+
+    const allowedDays = allowedDaysPerPhase[phase.key] ?? phase.defaultDays;
+    const isSkipped = phase.skippable && allowedDays === 0;
+    const isAffected = predecessors[phase.key].some((p) => affected.has(p.key));
+
+    // Skipped phases have no stored deadline of their own, so always pass through
+    if (!isAffected && !isSkipped) continue;
+
+    const start = getPhaseStart(siteSurveyDate, predecessors[phase.key], finishes, region);
+
+    if (isAffected) {
+      affected.add(phase.key);
+    }
+
+    if (isSkipped) {
+      finishes[phase.key] = start;
+      continue;
+    }
+
+    // Calculate deadline based on its predecessors
+    const deadline = addBusinessDays(start, allowedDays, region);
+    deadlines[phase.key] = deadline;
+    finishes[phase.key] = deadline;
   }
-  // If RFA was changed, also update COM
-  if (changedPhase === 'rfa') {
-    deadlines['com'] = deadlines['rfa'];
+
+  return deadlines;
+}
+
+// Forecast phase deadlines by re-chaining from actual completion dates
+// Completed phases finish on their completedAt date, remaining phases follow on from
+// their predecessors' forecasts, and nothing still open is forecast to finish before today
+export function calculateForecastDeadlines(
+  siteSurveyDate: Date,
+  phases: PhaseDefinition[],
+  allowedDaysPerPhase: Record<string, number>,
+  completedAt: Record<string, Date | null>,
+  region?: string | null
+): Record<string, Date> {
+  const today = startOfDay(new Date());
+  const earliestOpenFinish = isBusinessDay(today, region) ? today : addBusinessDays(today, 1, region);
+  const forecasts: Record<string, Date> = {};
+  const finishes: Record<string, Date> = {};
+  const predecessors = getPhasePredecessors(phases);
+
+  for (const phase of phases) {
+    if (phase.mirrorOf) {
+      if (forecasts[phase.mirrorOf]) {
+        forecasts[phase.key] = forecasts[phase.mirrorOf];
+      }
+      continue;
+    }
+
+    const start = getPhaseStart(siteSurveyDate, predecessors[phase.key], finishes, region);
+    const allowedDays = allowedDaysPerPhase[phase.key] ?? phase.defaultDays;
+    const completed = completedAt[phase.key];
+
+    if (completed) {
+      forecasts[phase.key] = startOfDay(new Date(completed));
+      finishes[phase.key] = forecasts[phase.key];
+      continue;
+    }
+
+    if (phase.skippable && allowedDays === 0) {
+      finishes[phase.key] = start;
+      continue;
+    }
+
+    let forecast = addBusinessDays(start, allowedDays, region);
+    if (isBefore(forecast, earliestOpenFinish)) {
+      forecast = earliestOpenFinish;
+    }
+
+    forecasts[phase.key] = forecast;
+    finishes[phase.key] = forecast;
   }
-  // If COM was changed, also update RFA
-  if (changedPhase === 'com') {
-    deadlines['rfa'] = deadlines['com'];
+
+  return forecasts;
+}
+
+// Start date of each phase from the project's deadlines: the latest predecessor
+// deadline plus lag, or the site survey date for the first phase
+export function calculatePhaseStarts(
+  siteSurveyDate: Date,
+  phases: PhaseDefinition[],
+  allowedDaysPerPhase: Record<string, number>,
+  deadlines: Record<string, Date>,
+  region?: string | null
+): Record<string, Date> {
+  const starts: Record<string, Date> = {};
+  const finishes: Record<string, Date> = {};
+  const predecessors = getPhasePredecessors(phases);
+
+  for (const phase of phases) {
+    if (phase.mirrorOf) {
+      if (starts[phase.mirrorOf]) {
+        starts[phase.key] = starts[phase.mirrorOf];
+      }
+      continue;
+    }
+
+    const start = getPhaseStart(siteSurveyDate, predecessors[phase.key], finishes, region);
+    const allowedDays = allowedDaysPerPhase[phase.key] ?? phase.defaultDays;
+    starts[phase.key] = start;
+
+    // Skipped phases pass their start straight through
+    finishes[phase.key] =
+      phase.skippable && allowedDays === 0
+        ? start
+        : startOfDay(new Date(deadlines[phase.key] || start));
   }
 
-  // Find the previous non-mirror phase deadline to use as starting point
-  let previousDeadline = startOfDay(new Date(newDeadline));
+  return starts;
+}
+
+// Where each phase starts and how many business days it runs to its deadline,
+// measured on the current calendar so manually edited deadlines are kept
+export function getPhaseSpans(
+  siteSurveyDate: Date,
+  phases: PhaseDefinition[],
+  allowedDaysPerPhase: Record<string, number>,
+  deadlines: Record<string, Date>,
+  region?: string | null
+): Record<string, PhaseSpan> {
+  const starts = calculatePhaseStarts(siteSurveyDate, phases, allowedDaysPerPhase, deadlines, region);
+  const spans: Record<string, PhaseSpan> = {};
+
+  for (const phase of phases) {
+    if (phase.mirrorOf || !starts[phase.key] || !deadlines[phase.key]) continue;
+
+    spans[phase.key] = {
+      start: starts[phase.key],
+      businessDays: Math.max(0, getBusinessDaysBetween(starts[phase.key], deadlines[phase.key], region)),
+    };
+  }
 
-  // Recalculate all phases after the changed phase
-  for (let i = changedPhaseIndex + 1; i < PHASE_ORDER.length; i++) {
-    const phase = PHASE_ORDER[i];
+  return spans;
+}
 
-    // Check if this phase mirrors another
-    const mirrorOf = MIRROR_PHASES[phase];
-    if (mirrorOf && deadlines[mirrorOf]) {
-      deadlines[phase] = deadlines[mirrorOf];
+// Move a project's deadlines onto a changed calendar (e.g. a new blackout period)
+// Each open phase keeps its length from getPhaseSpans and starts after its predecessors'
+// moved deadlines, so a shift carries through to every dependent phase. Completed phases
+// and phases whose start and working days are unaffected keep their current deadline
+export function shiftPhaseDeadlines(
+  siteSurveyDate: Date,
+  phases: PhaseDefinition[],
+  allowedDaysPerPhase: Record<string, number>,
+  deadlines: Record<string, Date>,
+  spans: Record<string, PhaseSpan>,
+  completed: Set<string>,
+  region?: string | null
+): Record<string, Date> {
+  const shifted: Record<string, Date> = {};
+  const finishes: Record<string, Date> = {};
+  const predecessors = getPhasePredecessors(phases);
+
+  for (const phase of phases) {
+    if (phase.mirrorOf) {
+      if (shifted[phase.mirrorOf]) {
+        shifted[phase.key] = shifted[phase.mirrorOf];
+      }
       continue;
     }
 
-    const allowedDays = allowedDaysPerPhase[phase];
+    const start = getPhaseStart(siteSurveyDate, predecessors[phase.key], finishes, region);
+    const allowedDays = allowedDaysPerPhase[phase.key] ?? phase.defaultDays;
+    const current = deadlines[phase.key] ? startOfDay(new Date(deadlines[phase.key])) : null;
+    const span = spans[phase.key];
 
-    // Skip wayleave if allowedDays is 0
-    if (phase === 'wayleave' && allowedDays === 0) {
+    if (phase.skippable && allowedDays === 0) {
+      finishes[phase.key] = start;
       continue;
     }
 
-    // Calculate deadline based on previous phase
-    const deadline = addBusinessDays(previousDeadline, allowedDays);
-    deadlines[phase] = deadline;
+    if (!current || !span) continue;
 
-    // Update previous deadline for next phase (skip mirror phases)
-    if (phase !== 'fqa' && phase !== 'com') {
-      previousDeadline = deadline;
+    let deadline = current;
+    const isUnaffected =
+      isSameDay(start, span.start) &&
+      Math.max(0, getBusinessDaysBetween(start, current, region)) === span.businessDays;
+
+    if (!completed.has(phase.key) && !isUnaffected) {
+      deadline = addBusinessDays(start, span.businessDays, region);
     }
+
+    shifted[phase.key] = deadline;
+    finishes[phase.key] = deadline;
   }
 
-  return deadlines;
+  return shifted;
+}
+
+// Work out per-phase float and the critical path from the project's deadlines
+// Float is how many business days a phase can slip before it delays the final deadline
+export function analyzeCriticalPath(
+  siteSurveyDate: Date,
+  phases: PhaseDefinition[],
+  allowedDaysPerPhase: Record<string, number>,
+  deadlines: Record<string, Date>,
+  region?: string | null
+): { phases: Record<string, PhaseScheduleInfo>; criticalPath: string[] } {
+  const predecessors = getPhasePredecessors(phases);
+  const scheduled = phases.filter((phase) => !phase.mirrorOf);
+
+  const durationOf = (phase: PhaseDefinition) => {
+    const allowedDays = allowedDaysPerPhase[phase.key] ?? phase.defaultDays;
+    return phase.skippable && allowedDays === 0 ? 0 : allowedDays;
+  };
+  const isSkipped = (phase: PhaseDefinition) =>
+    phase.skippable && (allowedDaysPerPhase[phase.key] ?? phase.defaultDays) === 0;
+
+  // Forward pass: actual finish dates, with skipped phases passing through
+  const finishes: Record<string, Date> = {};
+  for (const phase of scheduled) {
+    finishes[phase.key] = isSkipped(phase)
+      ? getPhaseStart(siteSurveyDate, predecessors[phase.key], finishes, region)
+      : startOfDay(new Date(deadlines[phase.key] || siteSurveyDate));
+  }
+
+  let projectEnd = startOfDay(new Date(siteSurveyDate));
+  for (const phase of scheduled) {
+    if (isAfter(finishes[phase.key], projectEnd)) {
+      projectEnd = finishes[phase.key];
+    }
+  }
+
+  // Backward pass: latest finish that doesn't move the project end
+  const latestFinishes: Record<string, Date> = {};
+  for (const phase of [...scheduled].reverse()) {
+    let latestFinish = projectEnd;
+
+    for (const successor of scheduled) {
+      const dependency = predecessors[successor.key].find((p) => p.key === phase.key);
+      if (!dependency) continue;
+
+      const latestStart = subtractBusinessDays(
+        latestFinishes[successor.key],
+        durationOf(successor),
+        region
+      );
+      const candidate = subtractBusinessDays(latestStart, dependency.lagDays, region);
+
+      if (isBefore(candidate, latestFinish)) {
+        latestFinish = candidate;
+      }
+    }
+
+    latestFinishes[phase.key] = latestFinish;
+  }
+
+  const info: Record<string, PhaseScheduleInfo> = {};
+  for (const phase of scheduled) {
+    const totalFloat = getBusinessDaysBetween(
+      finishes[phase.key],
+      latestFinishes[phase.key],
+      region
+    );
+    info[phase.key] = { totalFloat, isCritical: !isSkipped(phase) && totalFloat <= 0 };
+  }
+
+  // Mirror phases share the schedule of the phase they mirror
+  for (const phase of phases) {
+    if (phase.mirrorOf && info[phase.mirrorOf]) {
+      info[phase.key] = { ...info[phase.mirrorOf] };
+    }
+  }
+
+  return {
+    phases: info,
+    criticalPath: scheduled
+      .filter((phase) => info[phase.key].isCritical)
+      .map((phase) => phase.key),
+  };
 }
@@ -0,0 +1,165 @@
+import { PrismaClient } from '@prisma/client';
+import { startOfDay } from 'date-fns';
+import { NotificationType } from './types';
+import { sendMail } from './mailer';
+import { EmailPhaseItem, renderDigestEmail, renderOverdueAlertEmail } from './emailTemplates';
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  isInQuietHours,
+  loadAllNotificationPreferences,
+} from './notificationPreferences';
+
+const prisma = new PrismaClient();
+
+// Hour of the day (server local time) from which the morning digest goes out
+const DEFAULT_DIGEST_HOUR = 7;
+
+interface NotificationWithRecipient {
+  id: string;
+  type: string;
+  message: string;
+  user: { id: string; name: string; email: string };
+  project: { id: string; orderNumber: string };
+}
+
+const notificationInclude = {
+  user: { select: { id: true, name: true, email: true } },
+  project: { select: { id: true, orderNumber: true } },
+};
+
+function groupByUser(notifications: NotificationWithRecipient[]) {
+  const groups = new Map<
+    string,
+    { user: NotificationWithRecipient['user']; notifications: NotificationWithRecipient[] }
+  >();
+
+  for (const notification of notifications) {
+    const group = groups.get(notification.user.id);
+    if (group) {
+      group.notifications.push(notification);
+    } else {
+      groups.set(notification.user.id, { user: notification.user, notifications: [notification] });
+    }
+  }
+
+  return Array.from(groups.values());
+}
+
+const toEmailItem = (notification: NotificationWithRecipient): EmailPhaseItem => ({
+  projectId: notification.project.id,
+  orderNumber: notification.project.orderNumber,
+  type: notification.type as NotificationType,
+  message: notification.message,
+});
+
+// Email each user once about phases that have become overdue since the last run
+// Alerts are held during a user's quiet hours and sent on the first run after them
+export async function sendOverdueAlerts(): Promise<number> {
+  const [notifications, preferences] = await Promise.all([
+    prisma.notification.findMany({
+      where: { type: 'overdue', overdueAlertSentAt: null },
+      include: notificationInclude,
+      orderBy: { createdAt: 'asc' },
+    }),
+    loadAllNotificationPreferences(),
+  ]);
+
+  let sent = 0;
+
+  for (const { user, notifications: pending } of groupByUser(notifications)) {
+    const userPreferences = preferences.get(user.id) || DEFAULT_NOTIFICATION_PREFERENCES;
+
+    if (!userPreferences.emailAlertsEnabled) {
+      // Mark them handled so turning alerts back on doesn't send a backlog
+      await prisma.notification.updateMany({
+        where: { id: { in: pending.map((n) => n.id) } },
+        data: { overdueAlertSentAt: new Date() },
+      });
+      continue;
+    }
+
+    if (isInQuietHours(userPreferences)) {
+      continue;
+    }
+
+    try {
+      const email = renderOverdueAlertEmail(user.name, pending.map(toEmailItem));
+      await sendMail({ to: user.email, ...email });
+
+      await prisma.notification.updateMany({
+        where: { id: { in: pending.map((n) => n.id) } },
+        data: { overdueAlertSentAt: new Date() },
+      });
+      sent++;
+    } catch (error) {
+      // Leave the alerts unsent so the next run retries them
+      console.error(`Overdue alert email error (${user.email}):`, error);
+    }
+  }
+
+  return sent;
+}
+
+// Send each user a summary of their warning, urgent and overdue phases once a day
+// DIGEST_HOUR overrides the default send time of 07:00; users in quiet hours get
+// theirs on the first run after them
+export async function sendDailyDigests(): Promise<number> {
+  const now = new Date();
+  const digestHour = parseInt(process.env.DIGEST_HOUR || '', 10);
+  const hour = Number.isNaN(digestHour) ? DEFAULT_DIGEST_HOUR : digestHour;
+
+  if (now.getHours() < hour) {
+    return 0;
+  }
+
+  const today = startOfDay(now);
+  const [candidates, preferences] = await Promise.all([
+    prisma.user.findMany({
+      where: { OR: [{ lastDigestSentAt: null }, { lastDigestSentAt: { lt: today } }] },
+      select: { id: true },
+    }),
+    loadAllNotificationPreferences(),
+  ]);
+
+  const users = candidates.filter((user) => {
+    const userPreferences = preferences.get(user.id) || DEFAULT_NOTIFICATION_PREFERENCES;
+    return userPreferences.emailDigestEnabled && !isInQuietHours(userPreferences, now);
+  });
+
+  if (users.length === 0) {
+    return 0;
+  }
+
+  const notifications = await prisma.notification.findMany({
+    where: { userId: { in: users.map((user) => user.id) } },
+    include: notificationInclude,
+    orderBy: { createdAt: 'asc' },
+  });
+
+  let sent = 0;
+
+  for (const { user, notifications: items } of groupByUser(notifications)) {
+    try {
+      const email = renderDigestEmail(user.name, items.map(toEmailItem));
+      await sendMail({ to: user.email, ...email });
+      sent++;
+    } catch (error) {
+      console.error(`Digest email error (${user.email}):`, error);
+      continue;
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { lastDigestSentAt: now },
+    });
+  }
+
+  // Users with nothing due are marked too so they are not checked again today
+  const notified = new Set(notifications.map((n) => n.user.id));
+  await prisma.user.updateMany({
+    where: { id: { in: users.filter((user) => !notified.has(user.id)).map((user) => user.id) } },
+    data: { lastDigestSentAt: now },
+  });
+
+  return sent;
+}
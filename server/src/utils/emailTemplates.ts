@@ -0,0 +1,191 @@
+import { NotificationType } from './types';
+import { getAppUrl } from './mailer';
+
+export interface EmailPhaseItem {
+  projectId: string;
+  orderNumber: string;
+  type: NotificationType;
+  message: string;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+const SECTION_TITLES: Record<NotificationType, string> = {
+  overdue: 'Overdue',
+  urgent: 'Due today or tomorrow',
+  warning: 'Due in the next 3 business days',
+};
+
+const SECTION_COLORS: Record<NotificationType, string> = {
+  overdue: '#dc2626',
+  urgent: '#ea580c',
+  warning: '#ca8a04',
+};
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const projectUrl = (projectId: string) => `${getAppUrl()}/projects/${projectId}`;
+
+const DEFAULT_FOOTER =
+  'You are receiving this because you have an account on the OpenServe Milestone Tracker.';
+
+function renderHtmlLayout(
+  heading: string,
+  intro: string,
+  content: string,
+  footer: string = DEFAULT_FOOTER
+): string {
+  return `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f3f4f6;font-family:Arial,Helvetica,sans-serif;color:#1f2937;">
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:600px;margin:0 auto;background:#ffffff;border-radius:12px;border:1px solid #e5e7eb;">
+      <tr>
+        <td style="padding:20px 24px;background:#00A651;border-radius:12px 12px 0 0;color:#ffffff;font-size:18px;font-weight:bold;">
+          OpenServe Milestone Tracker
+        </td>
+      </tr>
+      <tr>
+        <td style="padding:24px;">
+          <h1 style="margin:0 0 8px;font-size:20px;">${escapeHtml(heading)}</h1>
+          <p style="margin:0 0 16px;color:#6b7280;">${escapeHtml(intro)}</p>
+          ${content}
+        </td>
+      </tr>
+      <tr>
+        <td style="padding:16px 24px;border-top:1px solid #e5e7eb;color:#9ca3af;font-size:12px;">
+          ${escapeHtml(footer)}
+        </td>
+      </tr>
+    </table>
+  </body>
+</html>`;
+}
+
+function renderHtmlSection(type: NotificationType, items: EmailPhaseItem[]): string {
+  const rows = items
+    .map(
+      (item) => `<li style="margin:0 0 8px;">
+            <a href="${escapeHtml(projectUrl(item.projectId))}" style="color:#00A651;font-weight:bold;text-decoration:none;">${escapeHtml(item.orderNumber)}</a>
+            <span style="color:#374151;"> &ndash; ${escapeHtml(item.message)}</span>
+          </li>`
+    )
+    .join('\n          ');
+
+  return `<h2 style="margin:16px 0 8px;font-size:16px;color:${SECTION_COLORS[type]};">${SECTION_TITLES[type]} (${items.length})</h2>
+          <ul style="margin:0;padding-left:20px;">
+          ${rows}
+          </ul>`;
+}
+
+function renderTextSection(type: NotificationType, items: EmailPhaseItem[]): string {
+  const rows = items.map(
+    (item) => `- ${item.orderNumber}: ${item.message}\n  ${projectUrl(item.projectId)}`
+  );
+  return `${SECTION_TITLES[type]} (${items.length})\n${rows.join('\n')}`;
+}
+
+// Sent as soon as phases become overdue
+export function renderOverdueAlertEmail(userName: string, items: EmailPhaseItem[]): RenderedEmail {
+  const subject =
+    items.length === 1
+      ? `Overdue: ${items[0].orderNumber} - ${items[0].message}`
+      : `${items.length} project phases are now overdue`;
+  const intro = `Hi ${userName}, the following phases have passed their deadline.`;
+
+  return {
+    subject,
+    text: `${intro}\n\n${renderTextSection('overdue', items)}\n`,
+    html: renderHtmlLayout('Phases now overdue', intro, renderHtmlSection('overdue', items)),
+  };
+}
+
+// Morning summary of everything due soon or overdue
+export function renderDigestEmail(userName: string, items: EmailPhaseItem[]): RenderedEmail {
+  const types: NotificationType[] = ['overdue', 'urgent', 'warning'];
+  const sections = types
+    .map((type) => ({ type, items: items.filter((item) => item.type === type) }))
+    .filter((section) => section.items.length > 0);
+
+  const overdueCount = items.filter((item) => item.type === 'overdue').length;
+  const subject =
+    overdueCount > 0
+      ? `Daily digest: ${overdueCount} overdue, ${items.length - overdueCount} due soon`
+      : `Daily digest: ${items.length} phase${items.length !== 1 ? 's' : ''} due soon`;
+  const intro = `Hi ${userName}, here is today's summary of project deadlines that need attention.`;
+
+  return {
+    subject,
+    text: `${intro}\n\n${sections
+      .map((section) => renderTextSection(section.type, section.items))
+      .join('\n\n')}\n`,
+    html: renderHtmlLayout(
+      'Your daily deadline digest',
+      intro,
+      sections.map((section) => renderHtmlSection(section.type, section.items)).join('\n          ')
+    ),
+  };
+}
+
+// Link to choose a new password, from the forgot password page
+export function renderPasswordResetEmail(
+  userName: string,
+  resetUrl: string,
+  expiresInHours: number
+): RenderedEmail {
+  const intro = `Hi ${userName}, we received a request to reset your password.`;
+  const expiry = `The link expires in ${expiresInHours} hour${
+    expiresInHours !== 1 ? 's' : ''
+  } and can be used once. If you didn't ask for this, you can ignore this email.`;
+
+  return {
+    subject: 'Reset your OpenServe Tracker password',
+    text: `${intro}\n\nChoose a new password here:\n${resetUrl}\n\n${expiry}\n`,
+    html: renderHtmlLayout(
+      'Reset your password',
+      intro,
+      `<p style="margin:0 0 16px;">
+            <a href="${escapeHtml(resetUrl)}" style="display:inline-block;padding:10px 20px;background:#00A651;color:#ffffff;border-radius:8px;font-weight:bold;text-decoration:none;">Choose a new password</a>
+          </p>
+          <p style="margin:0;color:#6b7280;font-size:14px;">${escapeHtml(expiry)}</p>`
+    ),
+  };
+}
+
+// Invitation to join, from the users page
+export function renderInviteEmail(
+  inviterName: string,
+  role: string,
+  acceptUrl: string,
+  expiresInDays: number
+): RenderedEmail {
+  const roleLabel = role === 'superadmin' ? 'Super Admin' : role === 'admin' ? 'Admin' : 'Staff';
+  const intro = `${inviterName} has invited you to the OpenServe Milestone Tracker as ${roleLabel}.`;
+  const expiry = `The invitation expires in ${expiresInDays} day${
+    expiresInDays !== 1 ? 's' : ''
+  }. If you weren't expecting it, you can ignore this email.`;
+
+  return {
+    subject: `${inviterName} invited you to the OpenServe Tracker`,
+    text: `${intro}\n\nSet your password and sign in here:\n${acceptUrl}\n\n${expiry}\n`,
+    html: renderHtmlLayout(
+      "You're invited",
+      intro,
+      `<p style="margin:0 0 16px;">
+            <a href="${escapeHtml(acceptUrl)}" style="display:inline-block;padding:10px 20px;background:#00A651;color:#ffffff;border-radius:8px;font-weight:bold;text-decoration:none;">Accept invitation</a>
+          </p>
+          <p style="margin:0;color:#6b7280;font-size:14px;">${escapeHtml(expiry)}</p>`,
+      'You are receiving this because someone invited this address to the OpenServe Milestone Tracker.'
+    ),
+  };
+}
@@ -0,0 +1,50 @@
+import { Response } from 'express';
+
+// Changes pushed to connected clients over GET /api/events
+// Payloads only identify what changed; clients refetch what they are showing
+export type ServerEvent =
+  | { type: 'project'; action: 'created' | 'updated' | 'deleted'; projectId?: string } // No projectId: many projects changed
+  | { type: 'phase'; action: 'completed' | 'reopened' | 'assigned'; projectId: string; phaseId: string }
+  | { type: 'notifications' };
+
+interface EventClient {
+  userId: string;
+  sessionId: string;
+  res: Response;
+}
+
+const clients = new Set<EventClient>();
+
+// Register an open event stream; returns a function that removes it again
+export function addEventClient(userId: string, sessionId: string, res: Response): () => void {
+  const client: EventClient = { userId, sessionId, res };
+  clients.add(client);
+  return () => {
+    clients.delete(client);
+  };
+}
+
+// Send an event to every connected client, or only to the given users
+export function publishEvent(event: ServerEvent, userIds?: Iterable<string>): void {
+  const recipients = userIds ? new Set(userIds) : null;
+  const { type, ...data } = event;
+  const message = `event: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+
+  for (const client of clients) {
+    if (!recipients || recipients.has(client.userId)) {
+      client.res.write(message);
+    }
+  }
+}
+
+// End the streams opened by sessions that have been signed out
+export function closeEventClients(sessionIds: Iterable<string>): void {
+  const ended = new Set(sessionIds);
+
+  for (const client of clients) {
+    if (ended.has(client.sessionId)) {
+      client.res.end();
+      clients.delete(client);
+    }
+  }
+}
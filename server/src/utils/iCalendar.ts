@@ -0,0 +1,79 @@
+import { randomBytes } from 'crypto';
+import { addDays, format } from 'date-fns';
+
+export interface CalendarEvent {
+  uid: string; // Stable per phase, so a moved deadline updates the existing event
+  date: Date; // All-day event on this calendar day
+  summary: string;
+  description: string;
+  url: string;
+}
+
+// Subscribing clients are asked to refresh this often
+const REFRESH_INTERVAL = 'PT1H';
+
+export function generateCalendarToken(): string {
+  return randomBytes(24).toString('hex');
+}
+
+// Escape text values (RFC 5545 section 3.3.11)
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Fold lines longer than 75 octets onto continuation lines starting with a space
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(current + char, 'utf-8') > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+// Render all-day events as an iCalendar (.ics) document
+export function renderICalendar(name: string, events: CalendarEvent[]): string {
+  const stamp = `${new Date().toISOString().replace(/[-:]/g, '').slice(0, 15)}Z`;
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//OpenServe//Milestone Tracker//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:${REFRESH_INTERVAL}`,
+    `X-PUBLISHED-TTL:${REFRESH_INTERVAL}`,
+  ];
+
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${format(event.date, 'yyyyMMdd')}`,
+      `DTEND;VALUE=DATE:${format(addDays(event.date, 1), 'yyyyMMdd')}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      `DESCRIPTION:${escapeText(event.description)}`,
+      `URL:${event.url}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    );
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+}
@@ -0,0 +1,224 @@
+import { Request } from 'express';
+import { addMinutes, addSeconds, differenceInSeconds, subDays, subMinutes } from 'date-fns';
+import { PrismaClient, User } from '@prisma/client';
+import { recordAudit } from './audit';
+
+const prisma = new PrismaClient();
+
+// Per account: a few free tries, then a doubling wait between attempts, then a lockout
+export const ACCOUNT_FREE_ATTEMPTS = 3;
+export const ACCOUNT_LOCKOUT_ATTEMPTS = 10;
+export const ACCOUNT_LOCKOUT_MINUTES = 15;
+
+// Per IP address, counted over a sliding window so one address can't work through many accounts
+const IP_WINDOW_MINUTES = 15;
+const IP_FREE_ATTEMPTS = 10;
+const IP_BLOCK_ATTEMPTS = 50;
+
+const MAX_DELAY_SECONDS = 60;
+
+// Failed attempts are kept this long for security review
+const FAILED_LOGIN_RETENTION_DAYS = 90;
+
+export type FailedLoginReason = 'unknown_email' | 'wrong_password' | 'invalid_code';
+
+// A sign-in attempt that got past the throttle. It counts as failed from the start,
+// so attempts made in parallel see each other, and is released if the password or code is right
+export interface LoginAttempt {
+  id: string;
+  userId: string | null;
+  failedLoginCount: number;
+  lastFailedLoginAt: Date | null;
+  startedAt: Date;
+}
+
+export type LoginThrottle =
+  | { allowed: true; attempt: LoginAttempt }
+  | { allowed: false; retryAfterSeconds: number; error: string };
+
+type ThrottledUser = Pick<User, 'id' | 'failedLoginCount' | 'lastFailedLoginAt' | 'lockedUntil'>;
+
+// 2, 4, 8... seconds once the free attempts are used up
+function getDelaySeconds(failures: number, freeAttempts: number): number {
+  if (failures < freeAttempts) return 0;
+  return Math.min(2 ** (failures - freeAttempts + 1), MAX_DELAY_SECONDS);
+}
+
+function formatWait(seconds: number): string {
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
+
+function rejectAttempt(waitUntil: Date, now: Date): LoginThrottle {
+  const retryAfterSeconds = differenceInSeconds(waitUntil, now) + 1;
+  return {
+    allowed: false,
+    retryAfterSeconds,
+    error: `Too many failed sign-in attempts. Wait ${formatWait(retryAfterSeconds)} and try again`,
+  };
+}
+
+// Start a sign-in attempt, checked and recorded before the password so a locked account
+// gives nothing away about whether the guess was right. The attempt is written first and
+// the account's count claimed atomically, so parallel guesses can't all slip through
+// before any of them has failed
+export async function startLoginAttempt(
+  req: Request,
+  email: string,
+  reason: FailedLoginReason,
+  user: ThrottledUser | null
+): Promise<LoginThrottle> {
+  const now = new Date();
+  const ipAddress = req.ip || null;
+
+  if (user?.lockedUntil && user.lockedUntil > now) {
+    const retryAfterSeconds = differenceInSeconds(user.lockedUntil, now) + 1;
+    return {
+      allowed: false,
+      retryAfterSeconds,
+      error: `Too many failed sign-in attempts. This account is locked for ${formatWait(
+        retryAfterSeconds
+      )}, or an admin can unlock it`,
+    };
+  }
+
+  // A lockout that has run out starts the count again
+  const lockExpired = Boolean(user?.lockedUntil);
+  const failedLoginCount = lockExpired ? 0 : user?.failedLoginCount ?? 0;
+
+  if (user?.lastFailedLoginAt && !lockExpired) {
+    const waitUntil = addSeconds(user.lastFailedLoginAt, getDelaySeconds(failedLoginCount, ACCOUNT_FREE_ATTEMPTS));
+    if (waitUntil > now) return rejectAttempt(waitUntil, now);
+  }
+
+  // Old attempts aren't reviewed or counted, so clear them out as new ones arrive
+  await prisma.failedLogin.deleteMany({
+    where: { createdAt: { lt: subDays(now, FAILED_LOGIN_RETENTION_DAYS) } },
+  });
+
+  const { id } = await prisma.failedLogin.create({
+    data: {
+      email,
+      userId: user?.id ?? null,
+      ipAddress,
+      userAgent: req.get('user-agent')?.slice(0, 255) || null,
+      reason,
+    },
+    select: { id: true },
+  });
+
+  if (ipAddress) {
+    // Counted after writing this attempt, so attempts in flight from the same address are included
+    const recent = await prisma.failedLogin.findMany({
+      where: { ipAddress, createdAt: { gte: subMinutes(now, IP_WINDOW_MINUTES) }, id: { not: id } },
+      select: { createdAt: true },
+      orderBy: { createdAt: 'desc' },
+      take: IP_BLOCK_ATTEMPTS,
+    });
+
+    if (recent.length >= IP_BLOCK_ATTEMPTS) {
+      await prisma.failedLogin.delete({ where: { id } });
+
+      // Blocked until the oldest of these falls out of the window
+      const retryAfterSeconds =
+        differenceInSeconds(addMinutes(recent[recent.length - 1].createdAt, IP_WINDOW_MINUTES), now) + 1;
+      return {
+        allowed: false,
+        retryAfterSeconds,
+        error: `Too many failed sign-in attempts from your network. Try again in ${formatWait(
+          retryAfterSeconds
+        )}`,
+      };
+    }
+
+    if (recent.length > 0) {
+      const waitUntil = addSeconds(recent[0].createdAt, getDelaySeconds(recent.length, IP_FREE_ATTEMPTS));
+      if (waitUntil > now) {
+        await prisma.failedLogin.delete({ where: { id } });
+        return rejectAttempt(waitUntil, now);
+      }
+    }
+  }
+
+  if (user) {
+    // Only one attempt can move the count on from what was read, so each waits its turn
+    const claimed = await prisma.user.updateMany({
+      where: { id: user.id, failedLoginCount: user.failedLoginCount, lockedUntil: user.lockedUntil },
+      data: { failedLoginCount: failedLoginCount + 1, lastFailedLoginAt: now, lockedUntil: null },
+    });
+
+    if (claimed.count === 0) {
+      await prisma.failedLogin.delete({ where: { id } });
+      return rejectAttempt(addSeconds(now, 1), now);
+    }
+  }
+
+  return {
+    allowed: true,
+    attempt: {
+      id,
+      userId: user?.id ?? null,
+      failedLoginCount,
+      lastFailedLoginAt: lockExpired ? null : user?.lastFailedLoginAt ?? null,
+      startedAt: now,
+    },
+  };
+}
+
+// The password or code was wrong: the attempt stays counted, and the account locks once
+// it has had too many
+export async function failLoginAttempt(
+  attempt: LoginAttempt,
+  user: Pick<User, 'id' | 'name'> | null
+): Promise<void> {
+  if (!user) return;
+
+  const failedLoginCount = attempt.failedLoginCount + 1;
+  if (failedLoginCount < ACCOUNT_LOCKOUT_ATTEMPTS) return;
+
+  // Only the attempt that crosses the limit locks the account and records it
+  const locked = await prisma.user.updateMany({
+    where: { id: user.id, lockedUntil: null },
+    data: { lockedUntil: addMinutes(attempt.startedAt, ACCOUNT_LOCKOUT_MINUTES) },
+  });
+
+  if (locked.count === 1) {
+    await recordAudit(null, {
+      action: 'update',
+      entityType: 'user',
+      entityId: user.id,
+      summary: `Locked ${user.name}'s account after ${failedLoginCount} failed sign-in attempts`,
+    });
+  }
+}
+
+// The password or code was right, so the attempt comes off the record and the account's
+// count goes back to what it was, unless another attempt has moved it on since
+export async function releaseLoginAttempt(attempt: LoginAttempt): Promise<void> {
+  await prisma.failedLogin.deleteMany({ where: { id: attempt.id } });
+
+  if (!attempt.userId) return;
+
+  await prisma.user.updateMany({
+    where: {
+      id: attempt.userId,
+      failedLoginCount: attempt.failedLoginCount + 1,
+      lastFailedLoginAt: attempt.startedAt,
+    },
+    data: { failedLoginCount: attempt.failedLoginCount, lastFailedLoginAt: attempt.lastFailedLoginAt },
+  });
+}
+
+// A successful sign-in clears the count
+export async function clearFailedLogins(userId: string): Promise<void> {
+  await prisma.user.updateMany({
+    where: { id: userId, OR: [{ failedLoginCount: { gt: 0 } }, { lockedUntil: { not: null } }] },
+    data: { failedLoginCount: 0, lastFailedLoginAt: null, lockedUntil: null },
+  });
+}
+
+// Still locked, for showing on the users page
+export function isLocked(user: Pick<User, 'lockedUntil'>): boolean {
+  return Boolean(user.lockedUntil && user.lockedUntil > new Date());
+}
@@ -0,0 +1,68 @@
+import nodemailer, { Transporter } from 'nodemailer';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+// Anything that can deliver a message; swap in another with setMailTransport
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+const DEFAULT_FROM = 'OpenServe Tracker <no-reply@openserve.co.za>';
+
+// Delivers through an SMTP server configured with the SMTP_* environment variables
+// For local testing point SMTP_HOST/SMTP_PORT at a catch-all server such as MailHog (localhost:1025)
+export class SmtpTransport implements MailTransport {
+  private transporter: Transporter;
+
+  constructor() {
+    this.transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port: parseInt(process.env.SMTP_PORT || '587', 10),
+      secure: process.env.SMTP_SECURE === 'true',
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+        : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({
+      from: process.env.MAIL_FROM || DEFAULT_FROM,
+      ...message,
+    });
+  }
+}
+
+// Development fallback when no SMTP server is configured: log instead of sending
+export class ConsoleTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`);
+  }
+}
+
+let transport: MailTransport | null = null;
+
+export function setMailTransport(mailTransport: MailTransport): void {
+  transport = mailTransport;
+}
+
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    transport = process.env.SMTP_HOST ? new SmtpTransport() : new ConsoleTransport();
+  }
+  return transport;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  await getMailTransport().send(message);
+}
+
+// Base URL of the web app, used for links in emails
+export function getAppUrl(): string {
+  return (process.env.APP_URL || 'http://localhost:5173').replace(/\/$/, '');
+}
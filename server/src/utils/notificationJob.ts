@@ -0,0 +1,280 @@
+import { PrismaClient } from '@prisma/client';
+import { NotificationType } from './types';
+import { getBusinessDaysUntil } from './businessDays';
+import { refreshBusinessCalendar } from './businessCalendar';
+import { getPhaseDefinitions, isPhaseSkipped, loadPhaseTemplateCatalog } from './phaseTemplates';
+import { sendDailyDigests, sendOverdueAlerts } from './emailNotifications';
+import { publishEvent } from './events';
+import { queueOverdueWebhookEvents } from './webhooks';
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  NotificationPreferences,
+  getDeadlineBand,
+  isNotificationTypeEnabled,
+  loadAllNotificationPreferences,
+} from './notificationPreferences';
+
+const prisma = new PrismaClient();
+
+// How often the in-process scheduler regenerates notifications
+const DEFAULT_INTERVAL_MINUTES = 15;
+
+// An incomplete phase and how many business days remain until its deadline
+interface PhaseDeadline {
+  projectId: string;
+  phaseName: string;
+  label: string;
+  createdBy: string;
+  involvedUserIds: Set<string>; // Creator, owner, watchers and the phase's assignee
+  daysUntil: number;
+}
+
+interface DeadlineState {
+  userId: string;
+  projectId: string;
+  phaseName: string;
+  type: NotificationType;
+  message: string;
+}
+
+export interface NotificationRunResult {
+  created: number;
+  updated: number;
+  deleted: number;
+}
+
+const stateKey = (userId: string, projectId: string, phaseName: string) =>
+  `${userId}:${projectId}:${phaseName}`;
+
+// Work out business days until every incomplete phase's deadline, once for all users
+async function getPhaseDeadlines(): Promise<PhaseDeadline[]> {
+  const catalog = await loadPhaseTemplateCatalog();
+
+  const projects = await prisma.project.findMany({
+    select: {
+      id: true,
+      customerName: true,
+      region: true,
+      templateId: true,
+      createdBy: true,
+      ownerId: true,
+      watchers: { select: { userId: true } },
+      phases: {
+        where: { isComplete: false },
+        select: { phaseName: true, allowedDays: true, deadline: true, assigneeId: true },
+      },
+    },
+  });
+
+  const deadlines: PhaseDeadline[] = [];
+
+  for (const project of projects) {
+    const definitions = getPhaseDefinitions(catalog, project.templateId);
+    const projectUserIds = [
+      project.createdBy,
+      ...(project.ownerId ? [project.ownerId] : []),
+      ...project.watchers.map((watcher) => watcher.userId),
+    ];
+
+    for (const phase of project.phases) {
+      const definition = definitions.find((d) => d.key === phase.phaseName);
+
+      // Skip optional phases that are disabled for this project
+      if (isPhaseSkipped(definition, phase.allowedDays)) {
+        continue;
+      }
+
+      deadlines.push({
+        projectId: project.id,
+        phaseName: phase.phaseName,
+        label: `${project.customerName} - ${definition?.displayName || phase.phaseName}`,
+        createdBy: project.createdBy,
+        involvedUserIds: new Set(
+          phase.assigneeId ? [...projectUserIds, phase.assigneeId] : projectUserIds
+        ),
+        daysUntil: getBusinessDaysUntil(phase.deadline, project.region),
+      });
+    }
+  }
+
+  return deadlines;
+}
+
+function describeDeadline(phase: PhaseDeadline): string {
+  const { label, daysUntil } = phase;
+
+  if (daysUntil < 0) {
+    const overdue = Math.abs(daysUntil);
+    return `${label} is ${overdue} business day${overdue !== 1 ? 's' : ''} overdue`;
+  }
+  if (daysUntil === 0) return `${label} deadline is today`;
+  if (daysUntil === 1) return `${label} deadline is tomorrow`;
+  return `${label} deadline in ${daysUntil} business days`;
+}
+
+// The notifications a user should have, given their preferences
+function getUserDeadlineStates(
+  userId: string,
+  phases: PhaseDeadline[],
+  preferences: NotificationPreferences
+): DeadlineState[] {
+  // Nothing to deliver if every channel is switched off
+  if (!preferences.inAppEnabled && !preferences.emailAlertsEnabled && !preferences.emailDigestEnabled) {
+    return [];
+  }
+
+  const states: DeadlineState[] = [];
+
+  for (const phase of phases) {
+    if (preferences.projectScope === 'created' && phase.createdBy !== userId) {
+      continue;
+    }
+    if (preferences.projectScope === 'involved' && !phase.involvedUserIds.has(userId)) {
+      continue;
+    }
+
+    const type = getDeadlineBand(phase.daysUntil, phase.phaseName, preferences);
+    if (!type || !isNotificationTypeEnabled(type, preferences)) {
+      continue;
+    }
+
+    states.push({
+      userId,
+      projectId: phase.projectId,
+      phaseName: phase.phaseName,
+      type,
+      message: describeDeadline(phase),
+    });
+  }
+
+  return states;
+}
+
+// Bring every user's notifications in line with the current deadlines and their preferences
+// Existing notifications keep their read state; ones whose phase is no longer
+// due soon (or has been completed, or is filtered out by preferences) are removed
+// Pass a user ID to refresh just that user, e.g. after they change their preferences
+export async function generateNotifications(userId?: string): Promise<NotificationRunResult> {
+  await refreshBusinessCalendar();
+
+  const [phases, users, preferences, existing] = await Promise.all([
+    getPhaseDeadlines(),
+    prisma.user.findMany({ where: { id: userId }, select: { id: true } }),
+    loadAllNotificationPreferences(),
+    prisma.notification.findMany({
+      where: { userId },
+      select: { id: true, userId: true, projectId: true, phaseName: true, type: true, message: true },
+    }),
+  ]);
+
+  const states = new Map<string, DeadlineState>();
+  for (const user of users) {
+    const userPreferences = preferences.get(user.id) || DEFAULT_NOTIFICATION_PREFERENCES;
+    for (const state of getUserDeadlineStates(user.id, phases, userPreferences)) {
+      states.set(stateKey(state.userId, state.projectId, state.phaseName), state);
+    }
+  }
+
+  const staleIds: string[] = [];
+  // Users whose notifications change in this run, told to refetch afterwards
+  const affectedUserIds = new Set<string>();
+  // Changed notifications grouped by their new state so each group is one update
+  const changed = new Map<string, { state: DeadlineState; ids: string[] }>();
+  const existingKeys = new Set<string>();
+
+  for (const notification of existing) {
+    const key = stateKey(notification.userId, notification.projectId, notification.phaseName);
+    const state = states.get(key);
+
+    if (!state) {
+      staleIds.push(notification.id);
+      affectedUserIds.add(notification.userId);
+      continue;
+    }
+
+    existingKeys.add(key);
+
+    if (notification.type !== state.type || notification.message !== state.message) {
+      affectedUserIds.add(notification.userId);
+      const groupKey = `${state.projectId}:${state.phaseName}:${state.type}:${state.message}`;
+      const group = changed.get(groupKey);
+      if (group) {
+        group.ids.push(notification.id);
+      } else {
+        changed.set(groupKey, { state, ids: [notification.id] });
+      }
+    }
+  }
+
+  const missing = Array.from(states.entries())
+    .filter(([key]) => !existingKeys.has(key))
+    .map(([, state]) => state);
+
+  const deleted = await prisma.notification.deleteMany({
+    where: { id: { in: staleIds } },
+  });
+
+  let updated = 0;
+  for (const { state, ids } of changed.values()) {
+    const result = await prisma.notification.updateMany({
+      where: { id: { in: ids } },
+      data: {
+        type: state.type,
+        message: state.message,
+        // A phase that is no longer overdue should alert again if it slips back
+        overdueAlertSentAt: state.type === 'overdue' ? undefined : null,
+      },
+    });
+    updated += result.count;
+  }
+
+  const created = await prisma.notification.createMany({
+    data: missing,
+    skipDuplicates: true,
+  });
+
+  for (const state of missing) {
+    affectedUserIds.add(state.userId);
+  }
+  if (affectedUserIds.size > 0) {
+    publishEvent({ type: 'notifications' }, affectedUserIds);
+  }
+
+  return { created: created.count, updated, deleted: deleted.count };
+}
+
+// Run the generator and email sends on start-up and then on a fixed interval
+// NOTIFICATION_INTERVAL_MINUTES overrides the default of 15 minutes
+export function startNotificationScheduler(): void {
+  const minutes =
+    parseInt(process.env.NOTIFICATION_INTERVAL_MINUTES || '', 10) || DEFAULT_INTERVAL_MINUTES;
+  let isRunning = false;
+
+  const run = async () => {
+    // Skip a tick rather than overlap a slow run
+    if (isRunning) return;
+    isRunning = true;
+
+    try {
+      const result = await generateNotifications();
+      console.log(
+        `Notifications generated: ${result.created} created, ${result.updated} updated, ${result.deleted} removed`
+      );
+
+      const alerts = await sendOverdueAlerts();
+      const digests = await sendDailyDigests();
+      if (alerts > 0 || digests > 0) {
+        console.log(`Notification emails sent: ${alerts} overdue alerts, ${digests} digests`);
+      }
+
+      await queueOverdueWebhookEvents();
+    } catch (error) {
+      console.error('Generate notifications error:', error);
+    } finally {
+      isRunning = false;
+    }
+  };
+
+  run();
+  setInterval(run, minutes * 60 * 1000);
+}
@@ -0,0 +1,117 @@
+import { NotificationPreference, PrismaClient } from '@prisma/client';
+import { NotificationType } from './types';
+
+const prisma = new PrismaClient();
+
+// involved: projects the user created, owns or watches, and phases assigned to them
+export type ProjectScope = 'all' | 'involved' | 'created';
+
+export const PROJECT_SCOPES: ProjectScope[] = ['all', 'involved', 'created'];
+
+export interface NotificationPreferences {
+  inAppEnabled: boolean;
+  emailAlertsEnabled: boolean;
+  emailDigestEnabled: boolean;
+  notifyWarning: boolean;
+  notifyUrgent: boolean;
+  notifyOverdue: boolean;
+  warningDays: number;
+  urgentDays: number;
+  phaseWarningDays: Record<string, number>; // Overrides warningDays for individual phases
+  projectScope: ProjectScope;
+  quietHoursStart: number | null;
+  quietHoursEnd: number | null;
+}
+
+// Same bands as before preferences existed, limited to the user's own work
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  inAppEnabled: true,
+  emailAlertsEnabled: true,
+  emailDigestEnabled: true,
+  notifyWarning: true,
+  notifyUrgent: true,
+  notifyOverdue: true,
+  warningDays: 3,
+  urgentDays: 1,
+  phaseWarningDays: {},
+  projectScope: 'all',
+  quietHoursStart: null,
+  quietHoursEnd: null,
+};
+
+export function toNotificationPreferences(
+  record: NotificationPreference | null
+): NotificationPreferences {
+  if (!record) {
+    return { ...DEFAULT_NOTIFICATION_PREFERENCES };
+  }
+
+  return {
+    inAppEnabled: record.inAppEnabled,
+    emailAlertsEnabled: record.emailAlertsEnabled,
+    emailDigestEnabled: record.emailDigestEnabled,
+    notifyWarning: record.notifyWarning,
+    notifyUrgent: record.notifyUrgent,
+    notifyOverdue: record.notifyOverdue,
+    warningDays: record.warningDays,
+    urgentDays: record.urgentDays,
+    phaseWarningDays: (record.phaseWarningDays as Record<string, number> | null) || {},
+    projectScope: PROJECT_SCOPES.includes(record.projectScope as ProjectScope)
+      ? (record.projectScope as ProjectScope)
+      : 'all',
+    quietHoursStart: record.quietHoursStart,
+    quietHoursEnd: record.quietHoursEnd,
+  };
+}
+
+export async function loadNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+  const record = await prisma.notificationPreference.findUnique({ where: { userId } });
+  return toNotificationPreferences(record);
+}
+
+// Preferences for every user that has saved some, keyed by user ID
+export async function loadAllNotificationPreferences(): Promise<Map<string, NotificationPreferences>> {
+  const records = await prisma.notificationPreference.findMany();
+  return new Map(records.map((record) => [record.userId, toNotificationPreferences(record)]));
+}
+
+// Which band a deadline falls in for these thresholds, before type filtering
+// null means the deadline is far enough away not to need attention
+export function getDeadlineBand(
+  daysUntil: number,
+  phaseName: string,
+  preferences: NotificationPreferences
+): NotificationType | null {
+  const warningDays = preferences.phaseWarningDays[phaseName] ?? preferences.warningDays;
+
+  if (daysUntil < 0) return 'overdue';
+  if (daysUntil <= preferences.urgentDays) return 'urgent';
+  if (daysUntil <= warningDays) return 'warning';
+  return null;
+}
+
+export function isNotificationTypeEnabled(
+  type: NotificationType,
+  preferences: NotificationPreferences
+): boolean {
+  switch (type) {
+    case 'overdue':
+      return preferences.notifyOverdue;
+    case 'urgent':
+      return preferences.notifyUrgent;
+    case 'warning':
+      return preferences.notifyWarning;
+  }
+}
+
+// Quiet hours may wrap past midnight, e.g. 22 to 6
+export function isInQuietHours(preferences: NotificationPreferences, date: Date = new Date()): boolean {
+  const { quietHoursStart: start, quietHoursEnd: end } = preferences;
+
+  if (start === null || end === null || start === end) {
+    return false;
+  }
+
+  const hour = date.getHours();
+  return start < end ? hour >= start && hour < end : hour >= start || hour < end;
+}
@@ -0,0 +1,30 @@
+import { addHours } from 'date-fns';
+import { PrismaClient } from '@prisma/client';
+import { generateSecretToken, hashSecretToken } from './secureTokens';
+
+const prisma = new PrismaClient();
+
+// How long an emailed reset link stays valid
+export const RESET_TOKEN_TTL_HOURS = 1;
+
+// Issue a reset token for a user, superseding any earlier ones; returns the token for the link
+export async function createPasswordResetToken(userId: string): Promise<string> {
+  const token = generateSecretToken();
+  const now = new Date();
+
+  await prisma.$transaction([
+    prisma.passwordResetToken.updateMany({
+      where: { userId, usedAt: null },
+      data: { usedAt: now },
+    }),
+    prisma.passwordResetToken.create({
+      data: {
+        userId,
+        tokenHash: hashSecretToken(token),
+        expiresAt: addHours(now, RESET_TOKEN_TTL_HOURS),
+      },
+    }),
+  ]);
+
+  return token;
+}
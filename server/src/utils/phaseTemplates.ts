@@ -0,0 +1,212 @@
+import { Prisma, PrismaClient, PhaseTemplateDependency, PhaseTemplatePhase } from '@prisma/client';
+import { PhaseDefinition } from './types';
+
+const prisma = new PrismaClient();
+
+// The original Planning → COM fibre build pipeline, used for the default template
+export const STANDARD_TEMPLATE_NAME = 'Fibre Build';
+
+// Wayleave and Materials run in parallel after Funding
+export const STANDARD_TEMPLATE_PHASES: PhaseDefinition[] = [
+  { key: 'planning', displayName: 'Planning', defaultDays: 10, mirrorOf: null, skippable: false, predecessors: [] },
+  { key: 'funding', displayName: 'Funding', defaultDays: 2, mirrorOf: null, skippable: false, predecessors: [] },
+  {
+    key: 'wayleave',
+    displayName: 'Wayleave',
+    defaultDays: 0,
+    mirrorOf: null,
+    skippable: true,
+    predecessors: [{ key: 'funding', lagDays: 0 }],
+  },
+  {
+    key: 'materials',
+    displayName: 'Materials',
+    defaultDays: 15,
+    mirrorOf: null,
+    skippable: false,
+    predecessors: [{ key: 'funding', lagDays: 0 }],
+  },
+  {
+    key: 'announcement',
+    displayName: 'Announcement',
+    defaultDays: 1,
+    mirrorOf: null,
+    skippable: false,
+    predecessors: [
+      { key: 'wayleave', lagDays: 0 },
+      { key: 'materials', lagDays: 0 },
+    ],
+  },
+  { key: 'kickoff', displayName: 'Kick-Off', defaultDays: 2, mirrorOf: null, skippable: false, predecessors: [] },
+  { key: 'build', displayName: 'Build', defaultDays: 20, mirrorOf: null, skippable: false, predecessors: [] },
+  { key: 'fqa', displayName: 'FQA', defaultDays: 0, mirrorOf: 'build', skippable: false, predecessors: [] },
+  { key: 'ecc', displayName: 'ECC', defaultDays: 1, mirrorOf: null, skippable: false, predecessors: [] },
+  { key: 'integration', displayName: 'Integration', defaultDays: 2, mirrorOf: null, skippable: false, predecessors: [] },
+  { key: 'rfa', displayName: 'RFA', defaultDays: 1, mirrorOf: null, skippable: false, predecessors: [] },
+  { key: 'com', displayName: 'COM', defaultDays: 0, mirrorOf: 'rfa', skippable: false, predecessors: [] },
+];
+
+export interface PhaseTemplateCatalog {
+  templates: Map<string, { id: string; name: string; phases: PhaseDefinition[] }>;
+  defaultTemplateId: string;
+}
+
+export function toPhaseDefinition(
+  phase: PhaseTemplatePhase & { predecessors: PhaseTemplateDependency[] }
+): PhaseDefinition {
+  return {
+    key: phase.key,
+    displayName: phase.displayName,
+    defaultDays: phase.defaultDays,
+    mirrorOf: phase.mirrorOf,
+    skippable: phase.skippable,
+    predecessors: phase.predecessors.map((dependency) => ({
+      key: dependency.predecessorKey,
+      lagDays: dependency.lagDays,
+    })),
+  };
+}
+
+// Make sure a default template exists, creating the standard one on first use
+// Projects created before templates existed are attached to it
+export async function ensureDefaultTemplate(): Promise<string> {
+  let settings = await prisma.globalSettings.findFirst();
+
+  if (!settings) {
+    settings = await prisma.globalSettings.create({
+      data: {},
+    });
+  }
+
+  if (settings.defaultTemplateId) {
+    return settings.defaultTemplateId;
+  }
+
+  let template = await prisma.phaseTemplate.findFirst({
+    orderBy: { createdAt: 'asc' },
+  });
+
+  if (!template) {
+    try {
+      template = await prisma.phaseTemplate.create({
+        data: {
+          name: STANDARD_TEMPLATE_NAME,
+          description: 'Standard fibre build from Planning to COM',
+          phases: {
+            create: STANDARD_TEMPLATE_PHASES.map(({ predecessors, ...phase }, index) => ({
+              ...phase,
+              sortOrder: index,
+              predecessors: {
+                create: predecessors.map((dependency) => ({
+                  predecessorKey: dependency.key,
+                  lagDays: dependency.lagDays,
+                })),
+              },
+            })),
+          },
+        },
+      });
+    } catch (error) {
+      // A concurrent request created it first (template names are unique)
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+        throw error;
+      }
+      template = await prisma.phaseTemplate.findUniqueOrThrow({
+        where: { name: STANDARD_TEMPLATE_NAME },
+      });
+    }
+  }
+
+  await prisma.globalSettings.update({
+    where: { id: settings.id },
+    data: { defaultTemplateId: template.id },
+  });
+
+  await prisma.project.updateMany({
+    where: { templateId: null },
+    data: { templateId: template.id },
+  });
+
+  return template.id;
+}
+
+// Load every template's phase definitions in one go
+export async function loadPhaseTemplateCatalog(): Promise<PhaseTemplateCatalog> {
+  const defaultTemplateId = await ensureDefaultTemplate();
+
+  const templates = await prisma.phaseTemplate.findMany({
+    include: {
+      phases: {
+        include: { predecessors: true },
+        orderBy: { sortOrder: 'asc' },
+      },
+    },
+  });
+
+  return {
+    templates: new Map(
+      templates.map((template) => [
+        template.id,
+        {
+          id: template.id,
+          name: template.name,
+          phases: template.phases.map(toPhaseDefinition),
+        },
+      ])
+    ),
+    defaultTemplateId,
+  };
+}
+
+// Get the phase definitions for a project's template
+export function getPhaseDefinitions(
+  catalog: PhaseTemplateCatalog,
+  templateId: string | null
+): PhaseDefinition[] {
+  return (
+    catalog.templates.get(templateId || catalog.defaultTemplateId)?.phases ||
+    catalog.templates.get(catalog.defaultTemplateId)?.phases ||
+    STANDARD_TEMPLATE_PHASES
+  );
+}
+
+// Load the phase definitions for a single project's template
+export async function loadTemplatePhaseDefinitions(
+  templateId: string | null
+): Promise<PhaseDefinition[]> {
+  const catalog = await loadPhaseTemplateCatalog();
+  return getPhaseDefinitions(catalog, templateId);
+}
+
+// A skippable phase with no allowed days is not part of the project
+export function isPhaseSkipped(
+  definition: PhaseDefinition | undefined,
+  allowedDays: number
+): boolean {
+  return !!definition?.skippable && allowedDays === 0;
+}
+
+// Phases counted towards progress (not skipped, not mirrors)
+export function isPhaseCounted(
+  definition: PhaseDefinition | undefined,
+  allowedDays: number
+): boolean {
+  return !definition?.mirrorOf && !isPhaseSkipped(definition, allowedDays);
+}
+
+export function getPhaseDisplayName(definitions: PhaseDefinition[], key: string): string {
+  return definitions.find((definition) => definition.key === key)?.displayName || key;
+}
+
+// Sort project phases into template order
+export function sortPhasesByTemplate<T extends { phaseName: string }>(
+  phases: T[],
+  definitions: PhaseDefinition[]
+): T[] {
+  const order = (key: string) => {
+    const index = definitions.findIndex((definition) => definition.key === key);
+    return index === -1 ? definitions.length : index;
+  };
+
+  return [...phases].sort((a, b) => order(a.phaseName) - order(b.phaseName));
+}
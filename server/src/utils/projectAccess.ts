@@ -0,0 +1,14 @@
+import { AuthUser } from './types';
+
+// Admins manage every project; otherwise the owner does, or the creator while
+// a project has no owner
+export function canManageProject(
+  user: AuthUser,
+  project: { ownerId: string | null; createdBy: string }
+): boolean {
+  if (user.role === 'admin' || user.role === 'superadmin') {
+    return true;
+  }
+
+  return project.ownerId ? project.ownerId === user.id : project.createdBy === user.id;
+}
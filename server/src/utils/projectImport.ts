@@ -0,0 +1,143 @@
+import ExcelJS from 'exceljs';
+import { Readable } from 'stream';
+
+// Largest spreadsheet accepted by the import endpoints
+export const MAX_IMPORT_ROWS = 1000;
+
+export type ImportField =
+  | 'orderNumber'
+  | 'customerName'
+  | 'pnr'
+  | 'timelineProvidedBy'
+  | 'timelineDateProvided'
+  | 'siteSurveyDate'
+  | 'region';
+
+// Header spellings accepted for each field, compared lower case without spaces or punctuation
+const COLUMN_ALIASES: Record<ImportField, string[]> = {
+  orderNumber: ['ordernumber', 'orderno', 'order'],
+  customerName: ['customername', 'customer'],
+  pnr: ['pnr'],
+  timelineProvidedBy: ['timelineprovidedby', 'timelineprovider'],
+  timelineDateProvided: ['timelinedateprovided', 'timelinedate'],
+  siteSurveyDate: ['sitesurveydate', 'sitesurvey'],
+  region: ['region', 'province'],
+};
+
+const COLUMN_LABELS: Record<ImportField, string> = {
+  orderNumber: 'Order Number',
+  customerName: 'Customer',
+  pnr: 'PNR',
+  timelineProvidedBy: 'Timeline Provided By',
+  timelineDateProvided: 'Timeline Date',
+  siteSurveyDate: 'Site Survey Date',
+  region: 'Region',
+};
+
+const REQUIRED_FIELDS: ImportField[] = [
+  'orderNumber',
+  'customerName',
+  'pnr',
+  'timelineProvidedBy',
+  'timelineDateProvided',
+  'siteSurveyDate',
+];
+
+export interface ImportRow {
+  row: number; // Spreadsheet row number, counting the header as row 1
+  values: Partial<Record<ImportField, string>>;
+}
+
+export type ParsedSpreadsheet = { rows: ImportRow[]; error: null } | { rows: null; error: string };
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Cell values as the strings the create project schema expects
+// Dates become yyyy-MM-dd; Excel stores date-only cells as UTC midnight
+function cellToString(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (typeof value === 'object') {
+    if ('richText' in value) return value.richText.map((part) => part.text).join('').trim();
+    if ('text' in value) return String(value.text).trim();
+    if ('result' in value) return cellToString(value.result as ExcelJS.CellValue);
+    return '';
+  }
+  return String(value).trim();
+}
+
+// XLSX files are zip archives, which start with "PK"
+function isXlsx(buffer: Buffer): boolean {
+  return buffer.length > 1 && buffer[0] === 0x50 && buffer[1] === 0x4b;
+}
+
+// Read an XLSX workbook's first worksheet, or a CSV file; null if the file is neither
+async function readWorksheet(buffer: Buffer): Promise<ExcelJS.Worksheet | null> {
+  const workbook = new ExcelJS.Workbook();
+
+  try {
+    if (isXlsx(buffer)) {
+      // exceljs types load() as taking an ArrayBuffer but reads Node buffers fine
+      await workbook.xlsx.load(buffer as unknown as ArrayBuffer);
+      return workbook.worksheets[0] || null;
+    }
+
+    // Keep CSV values as text rather than letting the parser guess at dates
+    return await workbook.csv.read(Readable.from(buffer), {
+      map: (value: string) => value,
+    });
+  } catch {
+    return null;
+  }
+}
+
+// Read the first worksheet of a CSV or XLSX file into rows keyed by project field
+// The first row must be a header naming the columns; blank rows are skipped
+export async function parseProjectSpreadsheet(buffer: Buffer): Promise<ParsedSpreadsheet> {
+  const worksheet = await readWorksheet(buffer);
+  if (!worksheet) {
+    return { rows: null, error: 'The file could not be read as CSV or XLSX' };
+  }
+
+  const columns = new Map<number, ImportField>();
+  worksheet.getRow(1).eachCell((cell, columnNumber) => {
+    const header = normalizeHeader(cellToString(cell.value));
+    const field = (Object.keys(COLUMN_ALIASES) as ImportField[]).find((key) =>
+      COLUMN_ALIASES[key].includes(header)
+    );
+    if (field) columns.set(columnNumber, field);
+  });
+
+  const found = new Set(columns.values());
+  const missing = REQUIRED_FIELDS.filter((field) => !found.has(field));
+  if (missing.length > 0) {
+    return {
+      rows: null,
+      error: `Missing columns: ${missing.map((field) => COLUMN_LABELS[field]).join(', ')}`,
+    };
+  }
+
+  const rows: ImportRow[] = [];
+  worksheet.eachRow((row, rowNumber) => {
+    if (rowNumber === 1) return;
+
+    const values: ImportRow['values'] = {};
+    columns.forEach((field, columnNumber) => {
+      const value = cellToString(row.getCell(columnNumber).value);
+      if (value) values[field] = value;
+    });
+
+    if (Object.keys(values).length > 0) {
+      rows.push({ row: rowNumber, values });
+    }
+  });
+
+  if (rows.length === 0) {
+    return { rows: null, error: 'The file has no project rows' };
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    return { rows: null, error: `Files can have at most ${MAX_IMPORT_ROWS} rows` };
+  }
+
+  return { rows, error: null };
+}
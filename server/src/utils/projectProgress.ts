@@ -0,0 +1,47 @@
+import { ProjectPhase } from '@prisma/client';
+import { PhaseDefinition } from './types';
+import { getBusinessDaysUntil } from './businessDays';
+import { isPhaseCounted, isPhaseSkipped } from './phaseTemplates';
+
+export type ProjectStatus = 'complete' | 'overdue' | 'at-risk' | 'on-track';
+
+// Overall status and phase progress, as shown on the project list
+export function getProjectProgress(
+  project: { region: string | null; phases: ProjectPhase[] },
+  definitions: PhaseDefinition[]
+): { status: ProjectStatus; completedPhases: number; totalPhases: number } {
+  const definitionFor = (phaseName: string) =>
+    definitions.find((definition) => definition.key === phaseName);
+
+  const phases = project.phases;
+  // Skipped phases and mirror phases are not counted separately
+  const countedPhases = phases.filter((p) =>
+    isPhaseCounted(definitionFor(p.phaseName), p.allowedDays)
+  );
+  const completedCount = countedPhases.filter((p) => p.isComplete).length;
+  const totalPhases = countedPhases.length;
+
+  let status: ProjectStatus = 'on-track';
+
+  if (completedCount === totalPhases && totalPhases > 0) {
+    status = 'complete';
+  } else {
+    for (const phase of phases) {
+      if (phase.isComplete) continue;
+      if (isPhaseSkipped(definitionFor(phase.phaseName), phase.allowedDays)) continue;
+
+      const daysUntil = getBusinessDaysUntil(phase.deadline, project.region);
+
+      if (daysUntil < 0) {
+        status = 'overdue';
+        break;
+      } else if (daysUntil <= 3) {
+        if (status === 'on-track') {
+          status = 'at-risk';
+        }
+      }
+    }
+  }
+
+  return { status, completedPhases: completedCount, totalPhases };
+}
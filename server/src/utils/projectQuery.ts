@@ -0,0 +1,196 @@
+import { Prisma } from '@prisma/client';
+import { startOfDay, subDays } from 'date-fns';
+import { addBusinessDays, isBusinessDay } from './businessDays';
+import { PhaseTemplateCatalog } from './phaseTemplates';
+import { REGIONS } from './types';
+
+export type ProjectStatusFilter = 'on-track' | 'at-risk' | 'overdue' | 'complete';
+
+export interface ProjectListFilters {
+  q?: string;
+  status?: ProjectStatusFilter;
+  createdBy?: string;
+  owner?: string;
+  assignee?: string; // Has an incomplete phase assigned to this user
+  involved?: string; // Owned or watched by this user, or assigned to them
+  surveyFrom?: Date;
+  surveyTo?: Date;
+  overduePhase?: string;
+}
+
+// Regions that share the same status cut-off dates
+interface RegionThresholds {
+  regions: (string | null)[];
+  // A phase is overdue when its deadline is before this date
+  overdueBefore: Date;
+  // A phase is due within 3 business days when its deadline is before this date
+  atRiskBefore: Date;
+}
+
+// Status is derived from business days until each deadline, which depends on the
+// project's region. Translate those rules into date cut-offs the database can compare:
+// - overdue (days until < 0): a business day falls after the deadline, up to today
+// - at risk (days until <= 3): the deadline is before the 4th business day from today
+function getRegionThresholds(): RegionThresholds[] {
+  const today = startOfDay(new Date());
+  const groups = new Map<string, RegionThresholds>();
+
+  for (const region of [null, ...REGIONS]) {
+    let lastBusinessDay = today;
+    while (!isBusinessDay(lastBusinessDay, region)) {
+      lastBusinessDay = subDays(lastBusinessDay, 1);
+    }
+
+    const overdueBefore = lastBusinessDay;
+    const atRiskBefore = addBusinessDays(today, 4, region);
+    const key = `${overdueBefore.getTime()}:${atRiskBefore.getTime()}`;
+
+    const group = groups.get(key);
+    if (group) {
+      group.regions.push(region);
+    } else {
+      groups.set(key, { regions: [region], overdueBefore, atRiskBefore });
+    }
+  }
+
+  return Array.from(groups.values());
+}
+
+function regionWhere(regions: (string | null)[]): Prisma.ProjectWhereInput {
+  const named = regions.filter((region): region is string => region !== null);
+
+  return regions.includes(null)
+    ? { OR: [{ region: null }, { region: { in: named } }] }
+    : { region: { in: named } };
+}
+
+// Phases whose deadline is before the cut-off for their project's region
+function deadlineBeforeWhere(
+  thresholds: RegionThresholds[],
+  cutoff: 'overdueBefore' | 'atRiskBefore'
+): Prisma.ProjectPhaseWhereInput {
+  if (thresholds.length === 1) {
+    return { deadline: { lt: thresholds[0][cutoff] } };
+  }
+
+  return {
+    OR: thresholds.map((group) => ({
+      deadline: { lt: group[cutoff] },
+      project: regionWhere(group.regions),
+    })),
+  };
+}
+
+// Incomplete phases that count towards status (skipped phases are ignored)
+function activePhaseWhere(catalog: PhaseTemplateCatalog): Prisma.ProjectPhaseWhereInput {
+  const skipped: Prisma.ProjectPhaseWhereInput[] = [];
+
+  for (const template of catalog.templates.values()) {
+    const skippableKeys = template.phases
+      .filter((phase) => phase.skippable)
+      .map((phase) => phase.key);
+
+    if (skippableKeys.length === 0) continue;
+
+    // Projects without a template follow the default template
+    const templateWhere: Prisma.ProjectWhereInput =
+      template.id === catalog.defaultTemplateId
+        ? { OR: [{ templateId: template.id }, { templateId: null }] }
+        : { templateId: template.id };
+
+    skipped.push({
+      phaseName: { in: skippableKeys },
+      allowedDays: 0,
+      project: templateWhere,
+    });
+  }
+
+  return skipped.length > 0
+    ? { isComplete: false, NOT: { OR: skipped } }
+    : { isComplete: false };
+}
+
+// Build the project query for the list endpoint's filters
+export function buildProjectListWhere(
+  filters: ProjectListFilters,
+  catalog: PhaseTemplateCatalog
+): Prisma.ProjectWhereInput {
+  const conditions: Prisma.ProjectWhereInput[] = [];
+
+  if (filters.q) {
+    conditions.push({
+      OR: [
+        { orderNumber: { contains: filters.q, mode: 'insensitive' } },
+        { customerName: { contains: filters.q, mode: 'insensitive' } },
+        { pnr: { contains: filters.q, mode: 'insensitive' } },
+      ],
+    });
+  }
+
+  if (filters.createdBy) {
+    conditions.push({ createdBy: filters.createdBy });
+  }
+
+  if (filters.owner) {
+    conditions.push({ ownerId: filters.owner });
+  }
+
+  if (filters.assignee) {
+    conditions.push({ phases: { some: { assigneeId: filters.assignee, isComplete: false } } });
+  }
+
+  if (filters.involved) {
+    conditions.push({
+      OR: [
+        { ownerId: filters.involved },
+        { watchers: { some: { userId: filters.involved } } },
+        { phases: { some: { assigneeId: filters.involved, isComplete: false } } },
+      ],
+    });
+  }
+
+  if (filters.surveyFrom || filters.surveyTo) {
+    conditions.push({
+      siteSurveyDate: { gte: filters.surveyFrom, lte: filters.surveyTo },
+    });
+  }
+
+  if (filters.status || filters.overduePhase) {
+    const thresholds = getRegionThresholds();
+    const active = activePhaseWhere(catalog);
+    const overdue: Prisma.ProjectPhaseWhereInput = {
+      AND: [active, deadlineBeforeWhere(thresholds, 'overdueBefore')],
+    };
+    const dueSoon: Prisma.ProjectPhaseWhereInput = {
+      AND: [active, deadlineBeforeWhere(thresholds, 'atRiskBefore')],
+    };
+
+    if (filters.overduePhase) {
+      conditions.push({
+        phases: { some: { AND: [overdue, { phaseName: filters.overduePhase }] } },
+      });
+    }
+
+    switch (filters.status) {
+      case 'complete':
+        conditions.push({ phases: { some: {} } }, { phases: { none: active } });
+        break;
+      case 'overdue':
+        conditions.push({ phases: { some: overdue } });
+        break;
+      case 'at-risk':
+        conditions.push({ phases: { some: dueSoon } }, { phases: { none: overdue } });
+        break;
+      case 'on-track':
+        conditions.push({
+          OR: [
+            { phases: { none: {} } },
+            { AND: [{ phases: { some: active } }, { phases: { none: dueSoon } }] },
+          ],
+        });
+        break;
+    }
+  }
+
+  return conditions.length > 0 ? { AND: conditions } : {};
+}
@@ -0,0 +1,351 @@
+import PDFDocument from 'pdfkit';
+import { differenceInCalendarDays, format } from 'date-fns';
+
+export type ReportPhaseStatus = 'complete' | 'skipped' | 'overdue' | 'at-risk' | 'on-track';
+
+export interface ReportPhase {
+  name: string;
+  allowedDays: number;
+  startDate: Date; // Latest predecessor deadline, or the site survey date
+  deadline: Date;
+  daysUntilDeadline: number;
+  status: ReportPhaseStatus;
+  completedAt: Date | null;
+  completedBy: string | null;
+  mirrorOf: string | null; // Display name of the phase this one completes with; left off the timeline
+}
+
+export interface ProjectReportData {
+  orderNumber: string;
+  customerName: string;
+  pnr: string;
+  timelineProvidedBy: string;
+  timelineDateProvided: Date;
+  siteSurveyDate: Date;
+  region: string | null;
+  templateName: string | null;
+  ownerName: string | null;
+  createdByName: string;
+  status: 'complete' | 'overdue' | 'at-risk' | 'on-track';
+  completedPhases: number;
+  totalPhases: number;
+  projectedCompletion: Date | null;
+  phases: ReportPhase[];
+  generatedBy: string;
+  generatedAt: Date;
+}
+
+// A4 portrait, in points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 40;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+// Matches the client's Tailwind palette
+const COLORS = {
+  brand: '#00A651',
+  text: '#1F2937',
+  muted: '#6B7280',
+  border: '#E5E7EB',
+  headerFill: '#F9FAFB',
+  overdue: '#B91C1C',
+  overdueFill: '#FEE2E2',
+  atRisk: '#B45309',
+  atRiskFill: '#FEF3C7',
+  complete: '#15803D',
+  onTrack: '#00A651',
+  skipped: '#9CA3AF',
+};
+
+const STATUS_COLORS: Record<ReportPhaseStatus, string> = {
+  complete: COLORS.complete,
+  skipped: COLORS.skipped,
+  overdue: COLORS.overdue,
+  'at-risk': COLORS.atRisk,
+  'on-track': COLORS.onTrack,
+};
+
+const PROJECT_STATUS_LABELS: Record<ProjectReportData['status'], string> = {
+  complete: 'Complete',
+  overdue: 'Overdue',
+  'at-risk': 'At risk',
+  'on-track': 'On track',
+};
+
+const formatDate = (date: Date) => format(date, 'dd MMM yyyy');
+
+const plural = (count: number, word: string) => `${count} ${word}${count !== 1 ? 's' : ''}`;
+
+function describePhaseStatus(phase: ReportPhase): string {
+  if (phase.status === 'complete') return 'Complete';
+  if (phase.status === 'skipped') return 'Skipped';
+  if (phase.daysUntilDeadline < 0) {
+    return `Overdue by ${plural(-phase.daysUntilDeadline, 'day')}`;
+  }
+  if (phase.daysUntilDeadline === 0) return 'Due today';
+  return `Due in ${plural(phase.daysUntilDeadline, 'day')}`;
+}
+
+function drawHeader(doc: PDFKit.PDFDocument, data: ProjectReportData): number {
+  doc.rect(0, 0, PAGE_WIDTH, 56).fill(COLORS.brand);
+  doc
+    .fillColor('#FFFFFF')
+    .font('Helvetica-Bold')
+    .fontSize(18)
+    .text('Project Report', MARGIN, 19, { lineBreak: false });
+  doc
+    .font('Helvetica')
+    .fontSize(11)
+    .text(data.orderNumber, MARGIN, 23, { width: CONTENT_WIDTH, align: 'right', lineBreak: false });
+
+  doc
+    .fillColor(COLORS.text)
+    .font('Helvetica-Bold')
+    .fontSize(16)
+    .text(data.customerName, MARGIN, 74, { width: CONTENT_WIDTH, height: 20, ellipsis: true });
+
+  const statusColor =
+    data.status === 'complete'
+      ? COLORS.complete
+      : data.status === 'overdue'
+        ? COLORS.overdue
+        : data.status === 'at-risk'
+          ? COLORS.atRisk
+          : COLORS.onTrack;
+  doc
+    .font('Helvetica')
+    .fontSize(10)
+    .fillColor(statusColor)
+    .text(PROJECT_STATUS_LABELS[data.status], MARGIN, 96, { continued: true })
+    .fillColor(COLORS.muted)
+    .text(
+      `  ·  ${data.completedPhases} of ${plural(data.totalPhases, 'phase')} complete` +
+        (data.projectedCompletion ? `  ·  Projected completion ${formatDate(data.projectedCompletion)}` : '')
+    );
+
+  return 120;
+}
+
+// Label/value pairs from the project page, four to a row
+function drawFields(doc: PDFKit.PDFDocument, data: ProjectReportData, top: number): number {
+  const fields: [string, string][] = [
+    ['PNR', data.pnr],
+    ['Timeline Provided By', data.timelineProvidedBy],
+    ['Timeline Date Provided', formatDate(data.timelineDateProvided)],
+    ['Site Survey Date', formatDate(data.siteSurveyDate)],
+    ['Job Type', data.templateName || '—'],
+    ['Region', data.region || 'Not specified'],
+    ['Owner', data.ownerName || 'No owner'],
+    ['Created By', data.createdByName],
+  ];
+
+  const columnWidth = CONTENT_WIDTH / 4;
+  const rowHeight = 32;
+
+  doc.rect(MARGIN, top, CONTENT_WIDTH, rowHeight * 2 + 12).fillAndStroke(COLORS.headerFill, COLORS.border);
+
+  fields.forEach(([label, value], index) => {
+    const x = MARGIN + 8 + (index % 4) * columnWidth;
+    const y = top + 8 + Math.floor(index / 4) * rowHeight;
+
+    doc.font('Helvetica').fontSize(8).fillColor(COLORS.muted).text(label, x, y, { lineBreak: false });
+    doc
+      .font('Helvetica-Bold')
+      .fontSize(10)
+      .fillColor(COLORS.text)
+      .text(value, x, y + 11, { width: columnWidth - 16, height: 12, ellipsis: true });
+  });
+
+  return top + rowHeight * 2 + 12;
+}
+
+function drawPhaseTable(doc: PDFKit.PDFDocument, phases: ReportPhase[], top: number): number {
+  const columns = [
+    { label: 'Phase', width: 118 },
+    { label: 'Days', width: 36 },
+    { label: 'Deadline', width: 72 },
+    { label: 'Status', width: 105 },
+    { label: 'Completed', width: 72 },
+    { label: 'Completed By', width: CONTENT_WIDTH - 403 },
+  ];
+  // Tighter rows for long templates, leaving room for the timeline below
+  const rowHeight = Math.max(Math.min(18, (PAGE_HEIGHT - top - 340) / (phases.length + 1)), 13);
+
+  doc.font('Helvetica-Bold').fontSize(12).fillColor(COLORS.text).text('Phases', MARGIN, top);
+  let y = top + 20;
+
+  const drawRow = (values: string[], options: { fill?: string; color?: string; bold?: boolean }) => {
+    if (options.fill) {
+      doc.rect(MARGIN, y, CONTENT_WIDTH, rowHeight).fill(options.fill);
+    }
+    doc.font(options.bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(9);
+
+    let x = MARGIN;
+    values.forEach((value, index) => {
+      doc
+        .fillColor(index === 3 && options.color ? options.color : COLORS.text)
+        .text(value, x + 5, y + (rowHeight - 8) / 2, { width: columns[index].width - 10, height: 10, ellipsis: true });
+      x += columns[index].width;
+    });
+
+    doc
+      .moveTo(MARGIN, y + rowHeight)
+      .lineTo(MARGIN + CONTENT_WIDTH, y + rowHeight)
+      .lineWidth(0.5)
+      .strokeColor(COLORS.border)
+      .stroke();
+    y += rowHeight;
+  };
+
+  drawRow(
+    columns.map((column) => column.label),
+    { fill: COLORS.headerFill, bold: true }
+  );
+
+  for (const phase of phases) {
+    drawRow(
+      [
+        phase.mirrorOf ? `${phase.name} (with ${phase.mirrorOf})` : phase.name,
+        phase.status === 'skipped' ? '—' : String(phase.allowedDays),
+        phase.status === 'skipped' ? '—' : formatDate(phase.deadline),
+        describePhaseStatus(phase),
+        phase.completedAt ? formatDate(phase.completedAt) : '—',
+        phase.completedBy || '—',
+      ],
+      {
+        // Overdue rows stand out in print as well as on screen
+        fill:
+          phase.status === 'overdue'
+            ? COLORS.overdueFill
+            : phase.status === 'at-risk'
+              ? COLORS.atRiskFill
+              : undefined,
+        color: STATUS_COLORS[phase.status],
+      }
+    );
+  }
+
+  return y;
+}
+
+// One bar per scheduled phase, from its start to its deadline, with a marker for today
+function drawTimeline(doc: PDFKit.PDFDocument, data: ProjectReportData, top: number): number {
+  const phases = data.phases.filter((phase) => !phase.mirrorOf && phase.status !== 'skipped');
+  if (phases.length === 0) return top;
+
+  const labelWidth = 110;
+  const chartLeft = MARGIN + labelWidth;
+  const chartWidth = CONTENT_WIDTH - labelWidth;
+  // Long templates squeeze the bars so the report stays on one page
+  const available = PAGE_HEIGHT - top - 90;
+  const rowHeight = Math.max(Math.min(13, available / phases.length), 6);
+
+  const start = new Date(
+    Math.min(data.siteSurveyDate.getTime(), ...phases.map((phase) => phase.startDate.getTime()))
+  );
+  const end = new Date(Math.max(...phases.map((phase) => phase.deadline.getTime())));
+  const totalDays = Math.max(differenceInCalendarDays(end, start), 1);
+  const xFor = (date: Date) =>
+    chartLeft + (differenceInCalendarDays(date, start) / totalDays) * chartWidth;
+
+  doc.font('Helvetica-Bold').fontSize(12).fillColor(COLORS.text).text('Timeline', MARGIN, top);
+  let y = top + 22;
+  const chartTop = y;
+
+  for (const phase of phases) {
+    doc
+      .font('Helvetica')
+      .fontSize(8)
+      .fillColor(COLORS.text)
+      .text(phase.name, MARGIN, y + 2, { width: labelWidth - 8, height: 9, ellipsis: true });
+
+    const x = xFor(phase.startDate);
+    const width = Math.max(xFor(phase.deadline) - x, 2);
+    doc.rect(x, y + 2, width, rowHeight - 5).fill(STATUS_COLORS[phase.status]);
+    y += rowHeight;
+  }
+
+  // Axis with start and end dates
+  doc
+    .moveTo(chartLeft, y + 2)
+    .lineTo(chartLeft + chartWidth, y + 2)
+    .lineWidth(0.5)
+    .strokeColor(COLORS.muted)
+    .stroke();
+  doc.font('Helvetica').fontSize(7).fillColor(COLORS.muted);
+  doc.text(formatDate(start), chartLeft, y + 5, { lineBreak: false });
+  doc.text(formatDate(end), chartLeft, y + 5, { width: chartWidth, align: 'right', lineBreak: false });
+
+  const today = data.generatedAt;
+  if (today >= start && today <= end) {
+    const x = xFor(today);
+    doc
+      .moveTo(x, chartTop - 2)
+      .lineTo(x, y + 2)
+      .lineWidth(1)
+      .dash(2, { space: 2 })
+      .strokeColor(COLORS.overdue)
+      .stroke()
+      .undash();
+    doc
+      .fillColor(COLORS.overdue)
+      .text('Today', x - 20, chartTop - 11, { width: 40, align: 'center', lineBreak: false });
+  }
+
+  return y + 16;
+}
+
+function drawLegend(doc: PDFKit.PDFDocument, top: number) {
+  const items: [string, string][] = [
+    ['Complete', COLORS.complete],
+    ['On track', COLORS.onTrack],
+    ['Due within 3 business days', COLORS.atRisk],
+    ['Overdue', COLORS.overdue],
+  ];
+
+  let x = MARGIN;
+  doc.font('Helvetica').fontSize(7);
+  for (const [label, color] of items) {
+    doc.rect(x, top + 1, 8, 6).fill(color);
+    doc.fillColor(COLORS.muted).text(label, x + 11, top, { lineBreak: false });
+    x += doc.widthOfString(label) + 26;
+  }
+}
+
+// Render a one-page A4 report for customer and contractor meetings
+export function renderProjectReport(data: ProjectReportData): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: 'A4',
+      margin: 0, // Everything is positioned explicitly so nothing spills onto a second page
+      info: {
+        Title: `Project Report - ${data.orderNumber}`,
+        Author: 'OpenServe Milestone Tracker',
+      },
+    });
+
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    let y = drawHeader(doc, data);
+    y = drawFields(doc, data, y);
+    y = drawPhaseTable(doc, data.phases, y + 20);
+    y = drawTimeline(doc, data, y + 20);
+    drawLegend(doc, y);
+
+    doc
+      .font('Helvetica')
+      .fontSize(8)
+      .fillColor(COLORS.muted)
+      .text(
+        `Generated ${format(data.generatedAt, 'dd MMM yyyy HH:mm')} by ${data.generatedBy} · OpenServe Milestone Tracker`,
+        MARGIN,
+        PAGE_HEIGHT - 28,
+        { width: CONTENT_WIDTH, align: 'center', lineBreak: false }
+      );
+
+    doc.end();
+  });
+}
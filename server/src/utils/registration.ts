@@ -0,0 +1,50 @@
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// Who may create an account on the register page (invitations work in every mode)
+export const REGISTRATION_MODES = ['open', 'domain', 'invite'] as const;
+
+export type RegistrationMode = (typeof REGISTRATION_MODES)[number];
+
+export interface RegistrationPolicy {
+  mode: RegistrationMode;
+  allowedEmailDomains: string[];
+}
+
+// How long an invitation link stays valid
+export const INVITE_TTL_DAYS = 7;
+
+// "@OpenServe.co.za" and "openserve.co.za" are the same domain
+export function normalizeEmailDomain(domain: string): string {
+  return domain.trim().replace(/^@/, '').toLowerCase();
+}
+
+export async function loadRegistrationPolicy(): Promise<RegistrationPolicy> {
+  const settings = await prisma.globalSettings.findFirst({
+    select: { registrationMode: true, allowedEmailDomains: true },
+  });
+
+  return {
+    mode: (settings?.registrationMode as RegistrationMode) || 'open',
+    allowedEmailDomains: settings?.allowedEmailDomains || [],
+  };
+}
+
+// Why an email address can't self-register under the policy, or null if it can
+export function getRegistrationError(policy: RegistrationPolicy, email: string): string | null {
+  if (policy.mode === 'invite') {
+    return 'Registration is by invitation only. Ask an admin to invite you.';
+  }
+
+  if (policy.mode === 'domain') {
+    const domain = normalizeEmailDomain(email.split('@').pop() || '');
+    if (!policy.allowedEmailDomains.includes(domain)) {
+      return `Registration is limited to ${policy.allowedEmailDomains
+        .map((allowed) => `@${allowed}`)
+        .join(', ')} email addresses`;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,12 @@
+import { createHash, randomBytes } from 'crypto';
+
+// Random token for emailed links (password resets, invitations) and refresh tokens
+export function generateSecretToken(): string {
+  return randomBytes(32).toString('hex');
+}
+
+// Tokens are stored and looked up by hash, so a leaked database can't be used to follow the links
+// or resume sessions
+export function hashSecretToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
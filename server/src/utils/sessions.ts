@@ -0,0 +1,152 @@
+import { Request } from 'express';
+import { addDays, addSeconds } from 'date-fns';
+import { Prisma, PrismaClient, Session } from '@prisma/client';
+import { closeEventClients } from './events';
+import { generateSecretToken, hashSecretToken } from './secureTokens';
+
+const prisma = new PrismaClient();
+
+// Access tokens are checked against the session on every request but expire
+// quickly anyway; the refresh token renews them
+export const ACCESS_TOKEN_TTL_MINUTES = 15;
+
+// A session ends after this long without a refresh, and never lasts longer than the maximum
+export const REFRESH_TOKEN_TTL_DAYS = 7;
+export const SESSION_MAX_DAYS = 30;
+
+// Two tabs can refresh at the same moment with the same token; the one that loses
+// the race gets a new access token rather than tripping reuse detection
+const REFRESH_REUSE_GRACE_SECONDS = 30;
+
+export type RefreshResult =
+  | { session: Session; refreshToken: string | null }
+  | { session: null; error: string };
+
+function getSessionExpiry(createdAt: Date, now: Date): Date {
+  const idleExpiry = addDays(now, REFRESH_TOKEN_TTL_DAYS);
+  const maxExpiry = addDays(createdAt, SESSION_MAX_DAYS);
+  return idleExpiry < maxExpiry ? idleExpiry : maxExpiry;
+}
+
+// Start a session for a user signing in on this browser; returns the refresh token for its cookie
+export async function createSession(
+  userId: string,
+  req: Request
+): Promise<{ session: Session; refreshToken: string }> {
+  const refreshToken = generateSecretToken();
+  const now = new Date();
+
+  // Ended sessions aren't shown anywhere, so clear them out as new ones start
+  await prisma.session.deleteMany({
+    where: { userId, OR: [{ revokedAt: { not: null } }, { expiresAt: { lt: now } }] },
+  });
+
+  const session = await prisma.session.create({
+    data: {
+      userId,
+      refreshTokenHash: hashSecretToken(refreshToken),
+      userAgent: req.get('user-agent')?.slice(0, 255) || null,
+      ipAddress: req.ip || null,
+      lastActiveAt: now,
+      expiresAt: getSessionExpiry(now, now),
+    },
+  });
+
+  return { session, refreshToken };
+}
+
+export function isSessionActive(session: Pick<Session, 'revokedAt' | 'expiresAt'>): boolean {
+  return !session.revokedAt && session.expiresAt > new Date();
+}
+
+// Swap a refresh token for a new one, extending the session
+// A token that was already swapped means it has been copied, so the session is ended
+export async function rotateSession(refreshToken: string): Promise<RefreshResult> {
+  const tokenHash = hashSecretToken(refreshToken);
+  const now = new Date();
+
+  const current = await prisma.session.findUnique({ where: { refreshTokenHash: tokenHash } });
+
+  if (current) {
+    if (!isSessionActive(current)) {
+      return { session: null, error: 'Session has ended, please sign in again' };
+    }
+
+    const nextToken = generateSecretToken();
+    // Only swap if nobody else has in the meantime
+    const swapped = await prisma.session.updateMany({
+      where: { id: current.id, refreshTokenHash: tokenHash },
+      data: {
+        refreshTokenHash: hashSecretToken(nextToken),
+        previousTokenHash: tokenHash,
+        rotatedAt: now,
+        lastActiveAt: now,
+        expiresAt: getSessionExpiry(current.createdAt, now),
+      },
+    });
+
+    if (swapped.count === 1) {
+      const session = await prisma.session.findUniqueOrThrow({ where: { id: current.id } });
+      return { session, refreshToken: nextToken };
+    }
+  }
+
+  const previous = await prisma.session.findUnique({ where: { previousTokenHash: tokenHash } });
+
+  if (!previous || !isSessionActive(previous)) {
+    return { session: null, error: 'Session has ended, please sign in again' };
+  }
+
+  if (previous.rotatedAt && addSeconds(previous.rotatedAt, REFRESH_REUSE_GRACE_SECONDS) > now) {
+    return { session: previous, refreshToken: null };
+  }
+
+  await revokeSessions({ id: previous.id });
+  return { session: null, error: 'Session has ended, please sign in again' };
+}
+
+// Mark sessions revoked and return their ids. Inside a transaction, close their event
+// streams with closeEventClients once it commits, so a rollback leaves them open
+export async function markSessionsRevoked(
+  where: Prisma.SessionWhereInput,
+  tx: Prisma.TransactionClient = prisma
+): Promise<string[]> {
+  const sessions = await tx.session.findMany({
+    where: { ...where, revokedAt: null },
+    select: { id: true },
+  });
+
+  if (sessions.length === 0) return [];
+
+  const ids = sessions.map((session) => session.id);
+  await tx.session.updateMany({
+    where: { id: { in: ids } },
+    data: { revokedAt: new Date() },
+  });
+
+  return ids;
+}
+
+// Sign sessions out; their access tokens stop working at once and open event streams close
+export async function revokeSessions(where: Prisma.SessionWhereInput): Promise<number> {
+  const ids = await markSessionsRevoked(where);
+  closeEventClients(ids);
+
+  return ids.length;
+}
+
+// A user's signed-in sessions, most recently active first
+export async function listActiveSessions(userId: string) {
+  return prisma.session.findMany({
+    where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+    select: {
+      id: true,
+      userAgent: true,
+      ipAddress: true,
+      lastActiveAt: true,
+      expiresAt: true,
+      createdAt: true,
+    },
+    orderBy: { lastActiveAt: 'desc' },
+  });
+}
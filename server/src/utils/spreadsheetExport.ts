@@ -0,0 +1,61 @@
+import ExcelJS from 'exceljs';
+import { format } from 'date-fns';
+
+export const EXPORT_FORMATS = ['csv', 'xlsx'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+// Dates are calendar days; times are dropped
+export type ExportValue = string | number | Date | null;
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+const DATE_FORMAT = 'yyyy-MM-dd';
+
+function escapeCsv(value: ExportValue): string {
+  if (value === null) return '';
+  const text = value instanceof Date ? format(value, DATE_FORMAT) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Excel reads dates as UTC, so store the local calendar day at UTC midnight
+const toExcelDate = (date: Date) =>
+  new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+
+// Render a header row and data rows as a CSV or single-sheet XLSX file
+export async function renderSpreadsheet(
+  fileFormat: ExportFormat,
+  sheetName: string,
+  headers: string[],
+  rows: ExportValue[][]
+): Promise<Buffer> {
+  if (fileFormat === 'csv') {
+    const lines = [headers, ...rows].map((row) => row.map(escapeCsv).join(','));
+    // The byte order mark makes Excel open the file as UTF-8
+    return Buffer.from(`\uFEFF${lines.join('\r\n')}\r\n`, 'utf-8');
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  const worksheet = workbook.addWorksheet(sheetName, {
+    views: [{ state: 'frozen', ySplit: 1 }],
+  });
+
+  worksheet.addRow(headers).font = { bold: true };
+  for (const row of rows) {
+    worksheet.addRow(row.map((value) => (value instanceof Date ? toExcelDate(value) : value)));
+  }
+
+  worksheet.columns.forEach((column, index) => {
+    column.width = Math.min(Math.max(headers[index].length + 2, 12), 40);
+  });
+  worksheet.eachRow((row) => {
+    row.eachCell((cell) => {
+      if (cell.value instanceof Date) cell.numFmt = 'yyyy-mm-dd';
+    });
+  });
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
@@ -0,0 +1,232 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { Prisma, PrismaClient } from '@prisma/client';
+import QRCode from 'qrcode';
+import { UserRole } from './types';
+import { hashSecretToken } from './secureTokens';
+import { recordAudit } from './audit';
+
+const prisma = new PrismaClient();
+
+// RFC 6238 defaults, which every authenticator app supports
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+
+// Accept the previous and next code too, for clocks that are slightly out
+const TOTP_WINDOW_STEPS = 1;
+
+const TOTP_ISSUER = 'OpenServe Milestone Tracker';
+
+export const RECOVERY_CODE_COUNT = 10;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of input.replace(/=+$/, '').toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) continue;
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+function getTotpCode(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 15;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+}
+
+// The time step a code belongs to, or null if it doesn't match any step in the window
+export function findTotpStep(secret: string, code: string, now = new Date()): number | null {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d+$/.test(normalized) || normalized.length !== TOTP_DIGITS) return null;
+
+  const currentStep = Math.floor(now.getTime() / 1000 / TOTP_PERIOD_SECONDS);
+  for (let offset = -TOTP_WINDOW_STEPS; offset <= TOTP_WINDOW_STEPS; offset++) {
+    const step = currentStep + offset;
+    if (timingSafeEqual(Buffer.from(getTotpCode(secret, step)), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+// The otpauth:// link the authenticator app reads from the QR code
+export function getOtpauthUrl(secret: string, email: string): string {
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${email}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: TOTP_ISSUER,
+    period: String(TOTP_PERIOD_SECONDS),
+    digits: String(TOTP_DIGITS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+// What the enrolment screen shows: a QR code to scan and the secret to type in instead
+export async function getTotpEnrolment(secret: string, email: string) {
+  const otpauthUrl = getOtpauthUrl(secret, email);
+  return {
+    secret,
+    otpauthUrl,
+    qrCode: await QRCode.toDataURL(otpauthUrl, { margin: 1, width: 200 }),
+  };
+}
+
+// Recovery codes are compared without case, spaces or dashes
+function normalizeRecoveryCode(code: string): string {
+  return code.replace(/[\s-]/g, '').toLowerCase();
+}
+
+// Replace a user's recovery codes with a fresh set; returns them to show once
+export async function replaceRecoveryCodes(
+  userId: string,
+  tx: Prisma.TransactionClient = prisma
+): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+
+  await tx.recoveryCode.deleteMany({ where: { userId } });
+  await tx.recoveryCode.createMany({
+    data: codes.map((code) => ({ userId, codeHash: hashSecretToken(normalizeRecoveryCode(code)) })),
+  });
+
+  return codes;
+}
+
+// Check a code from the authenticator app, or failing that a recovery code, and use it up
+// Returns which kind matched, or null
+export async function verifySecondFactor(
+  user: { id: string; totpSecret: string | null },
+  code: string
+): Promise<'totp' | 'recovery' | null> {
+  if (!user.totpSecret) return null;
+
+  const step = findTotpStep(user.totpSecret, code);
+  if (step !== null) {
+    // Only accept a step later than the last one used, so an overheard code can't be replayed
+    const claimed = await prisma.user.updateMany({
+      where: {
+        id: user.id,
+        OR: [{ totpLastUsedStep: null }, { totpLastUsedStep: { lt: step } }],
+      },
+      data: { totpLastUsedStep: step },
+    });
+    return claimed.count === 1 ? 'totp' : null;
+  }
+
+  const recoveryCode = await prisma.recoveryCode.findFirst({
+    where: {
+      userId: user.id,
+      codeHash: hashSecretToken(normalizeRecoveryCode(code)),
+      usedAt: null,
+    },
+  });
+  if (!recoveryCode) return null;
+
+  const claimed = await prisma.recoveryCode.updateMany({
+    where: { id: recoveryCode.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  return claimed.count === 1 ? 'recovery' : null;
+}
+
+export async function loadTwoFactorRequiredRoles(): Promise<UserRole[]> {
+  const settings = await prisma.globalSettings.findFirst({
+    select: { twoFactorRequiredRoles: true },
+  });
+  return (settings?.twoFactorRequiredRoles || []) as UserRole[];
+}
+
+export async function isTwoFactorRequired(role: string): Promise<boolean> {
+  return (await loadTwoFactorRequiredRoles()).includes(role as UserRole);
+}
+
+// Start (or restart) enrolment with a new secret; two-factor sign-in stays off until confirmed
+export async function startTotpEnrolment(user: { id: string; email: string }) {
+  const secret = generateTotpSecret();
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { totpSecret: secret, totpEnabledAt: null, totpLastUsedStep: null },
+  });
+
+  return getTotpEnrolment(secret, user.email);
+}
+
+// Turn two-factor sign-in on with a code from the newly set up app
+// Returns the first set of recovery codes, or null if the code doesn't match
+export async function confirmTotpEnrolment(
+  user: { id: string; email: string; name: string; role: string },
+  code: string
+): Promise<string[] | null> {
+  const current = await prisma.user.findUnique({
+    where: { id: user.id },
+    select: { totpSecret: true, totpEnabledAt: true },
+  });
+
+  if (!current?.totpSecret || current.totpEnabledAt) return null;
+
+  const step = findTotpStep(current.totpSecret, code);
+  if (step === null) return null;
+
+  return prisma.$transaction(async (tx) => {
+    await tx.user.update({
+      where: { id: user.id },
+      data: { totpEnabledAt: new Date(), totpLastUsedStep: step },
+    });
+
+    const codes = await replaceRecoveryCodes(user.id, tx);
+
+    await recordAudit(
+      { ...user, role: user.role as UserRole },
+      {
+        action: 'update',
+        entityType: 'user',
+        entityId: user.id,
+        summary: `${user.name} turned on two-factor authentication`,
+      },
+      tx
+    );
+
+    return codes;
+  });
+}
@@ -11,6 +11,50 @@ export interface AuthUser {
 
 export interface AuthRequest extends Request {
   user?: AuthUser;
+  sessionId?: string;
+}
+
+// Regions used to scope blackout periods
+export const REGIONS = [
+  'Eastern Cape',
+  'Free State',
+  'Gauteng',
+  'KwaZulu-Natal',
+  'Limpopo',
+  'Mpumalanga',
+  'North West',
+  'Northern Cape',
+  'Western Cape',
+] as const;
+
+export type Region = (typeof REGIONS)[number];
+
+// Finish-to-start dependency on an earlier phase
+export interface PhaseDependency {
+  key: string;
+  lagDays: number;
+}
+
+// A phase as defined by a phase template
+export interface PhaseDefinition {
+  key: string;
+  displayName: string;
+  defaultDays: number;
+  mirrorOf: string | null; // Shares the deadline and completion of this phase
+  skippable: boolean; // Skipped entirely when allowed days is 0
+  predecessors: PhaseDependency[]; // Empty means it follows the previous phase
+}
+
+// Critical path analysis for a single phase
+export interface PhaseScheduleInfo {
+  totalFloat: number; // Business days the phase can slip without moving the final deadline
+  isCritical: boolean;
+}
+
+// A phase's place in a project's current schedule
+export interface PhaseSpan {
+  start: Date;
+  businessDays: number; // From start to the phase's deadline
 }
 
 export type NotificationType = 'warning' | 'urgent' | 'overdue';
@@ -38,6 +82,8 @@ export interface ProjectWithPhases {
   aopProvidedBy: string;
   dateProvided: Date;
   siteSurveyDate: Date;
+  region: string | null;
+  templateId: string | null;
   createdBy: string;
   createdAt: Date;
   updatedAt: Date;
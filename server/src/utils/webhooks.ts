@@ -0,0 +1,253 @@
+import { createHmac, randomBytes } from 'crypto';
+import { Prisma, PrismaClient, WebhookDelivery } from '@prisma/client';
+import { getBusinessDaysUntil } from './businessDays';
+import { getPhaseDefinitions, isPhaseSkipped, loadPhaseTemplateCatalog } from './phaseTemplates';
+
+const prisma = new PrismaClient();
+
+export const WEBHOOK_EVENTS = [
+  'project.created',
+  'project.updated',
+  'project.deleted',
+  'phase.completed',
+  'phase.reopened',
+  'phase.overdue',
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+// Sent only by the "send test event" button
+const TEST_EVENT = 'webhook.test';
+
+// Give up after this many attempts; retries back off 30s, 1m, 2m, 4m, 8m
+const MAX_ATTEMPTS = 6;
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const WORKER_INTERVAL_MS = 30 * 1000;
+const MAX_RESPONSE_BODY_LENGTH = 2000;
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+// Receivers recompute this over "<timestamp>.<raw body>" with their copy of the secret
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+// Project fields included in project.* payloads
+export function toWebhookProject(project: {
+  id: string;
+  orderNumber: string;
+  customerName: string;
+  pnr: string;
+  region: string | null;
+  siteSurveyDate: Date;
+}) {
+  return {
+    id: project.id,
+    orderNumber: project.orderNumber,
+    customerName: project.customerName,
+    pnr: project.pnr,
+    region: project.region,
+    siteSurveyDate: project.siteSurveyDate.toISOString(),
+  };
+}
+
+// Queue an event for every active webhook subscribed to it
+// Delivery happens in the background so callers never wait on receivers
+export async function queueWebhookEvent(event: WebhookEvent, data: Prisma.InputJsonObject): Promise<void> {
+  try {
+    const webhooks = await prisma.webhook.findMany({
+      where: { isActive: true, events: { has: event } },
+      select: { id: true },
+    });
+
+    if (webhooks.length === 0) return;
+
+    const now = new Date();
+    await prisma.webhookDelivery.createMany({
+      data: webhooks.map((webhook) => ({
+        webhookId: webhook.id,
+        event,
+        payload: { event, createdAt: now.toISOString(), data },
+        nextAttemptAt: now,
+      })),
+    });
+
+    processWebhookDeliveries();
+  } catch (error) {
+    // A webhook problem must never fail the request that triggered it
+    console.error('Queue webhook event error:', error);
+  }
+}
+
+// Make one delivery attempt and record the outcome
+// Failed attempts are rescheduled with backoff unless retry is false
+async function attemptDelivery(
+  delivery: WebhookDelivery & { webhook: { url: string; secret: string } },
+  retry = true
+): Promise<WebhookDelivery> {
+  const body = JSON.stringify({ id: delivery.id, ...(delivery.payload as Prisma.JsonObject) });
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const attempts = delivery.attempts + 1;
+
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+
+  try {
+    const response = await fetch(delivery.webhook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'OpenServe-Tracker-Webhooks',
+        'X-Webhook-Id': delivery.id,
+        'X-Webhook-Event': delivery.event,
+        'X-Webhook-Timestamp': timestamp,
+        'X-Webhook-Signature': signWebhookPayload(delivery.webhook.secret, timestamp, body),
+      },
+      body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    responseStatus = response.status;
+    responseBody = (await response.text()).slice(0, MAX_RESPONSE_BODY_LENGTH);
+    if (!response.ok) {
+      error = `Receiver responded with ${response.status}`;
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  const succeeded = error === null;
+  const gaveUp = !succeeded && (!retry || attempts >= MAX_ATTEMPTS);
+
+  return prisma.webhookDelivery.update({
+    where: { id: delivery.id },
+    data: {
+      attempts,
+      responseStatus,
+      responseBody,
+      error,
+      status: succeeded ? 'success' : gaveUp ? 'failed' : 'pending',
+      deliveredAt: succeeded ? new Date() : null,
+      nextAttemptAt:
+        succeeded || gaveUp
+          ? null
+          : new Date(Date.now() + BASE_RETRY_DELAY_MS * 2 ** (attempts - 1)),
+    },
+  });
+}
+
+let isProcessing = false;
+
+// Send every pending delivery that is due
+export async function processWebhookDeliveries(): Promise<void> {
+  // Deliveries queued during a run are picked up by the next one
+  if (isProcessing) return;
+  isProcessing = true;
+
+  try {
+    const due = await prisma.webhookDelivery.findMany({
+      where: { status: 'pending', nextAttemptAt: { lte: new Date() } },
+      include: { webhook: { select: { url: true, secret: true } } },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: 50,
+    });
+
+    for (const delivery of due) {
+      await attemptDelivery(delivery);
+    }
+  } catch (error) {
+    console.error('Process webhook deliveries error:', error);
+  } finally {
+    isProcessing = false;
+  }
+}
+
+// Send a test event straight away and return the recorded delivery
+export async function sendTestWebhook(webhookId: string): Promise<WebhookDelivery> {
+  const now = new Date();
+  const delivery = await prisma.webhookDelivery.create({
+    data: {
+      webhookId,
+      event: TEST_EVENT,
+      payload: {
+        event: TEST_EVENT,
+        createdAt: now.toISOString(),
+        data: { message: 'Test event from the OpenServe Milestone Tracker' },
+      },
+    },
+    include: { webhook: { select: { url: true, secret: true } } },
+  });
+
+  // Test events are tried once so the result can be shown right away
+  return attemptDelivery(delivery, false);
+}
+
+// Queue phase.overdue once for each phase that has become overdue, and re-arm
+// phases that are no longer overdue (completed or re-planned) so they fire again
+export async function queueOverdueWebhookEvents(): Promise<void> {
+  const catalog = await loadPhaseTemplateCatalog();
+
+  const phases = await prisma.projectPhase.findMany({
+    where: {
+      OR: [
+        { isComplete: false, deadline: { lt: new Date() }, overdueWebhookSentAt: null },
+        { overdueWebhookSentAt: { not: null } },
+      ],
+    },
+    include: {
+      project: {
+        select: {
+          id: true,
+          orderNumber: true,
+          customerName: true,
+          pnr: true,
+          region: true,
+          siteSurveyDate: true,
+          templateId: true,
+        },
+      },
+      assignee: { select: { id: true, name: true } },
+    },
+  });
+
+  for (const phase of phases) {
+    const definition = getPhaseDefinitions(catalog, phase.project.templateId).find(
+      (d) => d.key === phase.phaseName
+    );
+    const daysUntil = getBusinessDaysUntil(phase.deadline, phase.project.region);
+    const isOverdue =
+      !phase.isComplete && !isPhaseSkipped(definition, phase.allowedDays) && daysUntil < 0;
+
+    if (isOverdue && !phase.overdueWebhookSentAt) {
+      await prisma.projectPhase.update({
+        where: { id: phase.id },
+        data: { overdueWebhookSentAt: new Date() },
+      });
+      await queueWebhookEvent('phase.overdue', {
+        phase: {
+          id: phase.id,
+          key: phase.phaseName,
+          name: definition?.displayName || phase.phaseName,
+          deadline: phase.deadline.toISOString(),
+          businessDaysOverdue: Math.abs(daysUntil),
+          assignee: phase.assignee,
+        },
+        project: toWebhookProject(phase.project),
+      });
+    } else if (!isOverdue && phase.overdueWebhookSentAt) {
+      await prisma.projectPhase.update({
+        where: { id: phase.id },
+        data: { overdueWebhookSentAt: null },
+      });
+    }
+  }
+}
+
+// Retry due deliveries on a fixed interval
+export function startWebhookWorker(): void {
+  setInterval(processWebhookDeliveries, WORKER_INTERVAL_MS);
+}